@@ -7,6 +7,14 @@ PROJECT_ID="${GCP_PROJECT_ID:-your-gcp-project-id}"
 SERVICE_NAME="${SERVICE_NAME:-precepgo-agents-frontend}"
 REGION="${REGION:-us-central1}"
 API_URL="${API_URL:-https://your-api-url.run.app}"
+# Firebase web config, baked into the build (see .env.example)
+FIREBASE_API_KEY="${VITE_FIREBASE_API_KEY:-}"
+FIREBASE_AUTH_DOMAIN="${VITE_FIREBASE_AUTH_DOMAIN:-}"
+FIREBASE_PROJECT_ID="${VITE_FIREBASE_PROJECT_ID:-}"
+FIREBASE_STORAGE_BUCKET="${VITE_FIREBASE_STORAGE_BUCKET:-}"
+FIREBASE_MESSAGING_SENDER_ID="${VITE_FIREBASE_MESSAGING_SENDER_ID:-}"
+FIREBASE_APP_ID="${VITE_FIREBASE_APP_ID:-}"
+FIREBASE_MEASUREMENT_ID="${VITE_FIREBASE_MEASUREMENT_ID:-}"
 IMAGE_NAME="gcr.io/${PROJECT_ID}/${SERVICE_NAME}"
 
 echo "🚀 Deploying PrecepGo Agents Frontend to Cloud Run"
@@ -15,6 +23,7 @@ echo "Project: ${PROJECT_ID}"
 echo "Service: ${SERVICE_NAME}"
 echo "Region: ${REGION}"
 echo "API URL: ${API_URL}"
+echo "Firebase project: ${FIREBASE_PROJECT_ID}"
 echo ""
 
 # Validate configuration
@@ -23,6 +32,11 @@ if [ "$PROJECT_ID" = "your-gcp-project-id" ]; then
   exit 1
 fi
 
+if [ -z "$FIREBASE_API_KEY" ] || [ -z "$FIREBASE_AUTH_DOMAIN" ] || [ -z "$FIREBASE_PROJECT_ID" ] || [ -z "$FIREBASE_APP_ID" ]; then
+  echo "❌ Error: Set VITE_FIREBASE_API_KEY, VITE_FIREBASE_AUTH_DOMAIN, VITE_FIREBASE_PROJECT_ID and VITE_FIREBASE_APP_ID"
+  exit 1
+fi
+
 # Set project
 gcloud config set project ${PROJECT_ID}
 
@@ -33,7 +47,7 @@ gcloud services enable run.googleapis.com --quiet
 # Build container image
 echo "📋 Building container image..."
 gcloud builds submit --config cloudbuild.yaml --timeout=20m \
-  --substitutions=_IMAGE_NAME=${IMAGE_NAME},_API_URL=${API_URL}
+  --substitutions=_IMAGE_NAME=${IMAGE_NAME},_API_URL=${API_URL},_FIREBASE_API_KEY=${FIREBASE_API_KEY},_FIREBASE_AUTH_DOMAIN=${FIREBASE_AUTH_DOMAIN},_FIREBASE_PROJECT_ID=${FIREBASE_PROJECT_ID},_FIREBASE_STORAGE_BUCKET=${FIREBASE_STORAGE_BUCKET},_FIREBASE_MESSAGING_SENDER_ID=${FIREBASE_MESSAGING_SENDER_ID},_FIREBASE_APP_ID=${FIREBASE_APP_ID},_FIREBASE_MEASUREMENT_ID=${FIREBASE_MEASUREMENT_ID}
 
 # Deploy to Cloud Run
 echo "📋 Deploying to Cloud Run..."
@@ -0,0 +1,59 @@
+/**
+ * PrecepGo service worker: shows desktop notifications and routes clicks on them
+ * back into the dashboard.
+ *
+ * Notifications come either from an open dashboard tab (registration.showNotification,
+ * see src/services/desktopNotifications.ts) or as push messages sent through Firebase
+ * Cloud Messaging to the tokens stored under users/{uid}/push_tokens. Push payloads
+ * are FCM data messages with string fields: title, body, url, tag and category.
+ */
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+function pushPayload(event) {
+  if (!event.data) return null;
+  try {
+    const message = event.data.json();
+    // FCM wraps custom fields in `data`; a `notification` block supplies defaults
+    return { ...(message.notification || {}), ...(message.data || message) };
+  } catch {
+    return { title: 'PrecepGo', body: event.data.text() };
+  }
+}
+
+self.addEventListener('push', (event) => {
+  const payload = pushPayload(event);
+  if (!payload || !payload.title) return;
+  event.waitUntil(
+    self.registration.showNotification(payload.title, {
+      body: payload.body || '',
+      tag: payload.tag || undefined,
+      icon: '/logo192.png',
+      badge: '/logo192.png',
+      data: { url: payload.url || '/', category: payload.category || null },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL((event.notification.data && event.notification.data.url) || '/', self.location.origin).href;
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const dashboard = windows.find(client => new URL(client.url).origin === self.location.origin);
+    if (dashboard) {
+      // An open dashboard opens the link in place instead of reloading
+      dashboard.postMessage({ type: 'precepgo:navigate', url });
+      await dashboard.focus();
+      return;
+    }
+    await self.clients.openWindow(url);
+  })());
+});
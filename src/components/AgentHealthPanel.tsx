@@ -0,0 +1,216 @@
+import { useState } from 'react'
+import { agentHealth, type AgentHealthDay } from '../services/agentHealth'
+import { outputLabels } from '../services/agentRegistry'
+import { runsQuery } from '../services/queryBuilder'
+import { useQuery } from '../hooks/useFirestore'
+import { formatDateTime, formatDuration } from '../utils/relativeTime'
+import type { AgentHealthRange } from '../utils/routes'
+import { StaleIndicator } from './StaleIndicator'
+
+interface AgentHealthPanelProps {
+  apiName: string
+  /** Collection the agent's runs write to, for naming the documents */
+  outputCollection?: string
+  /** Kept in the URL, so a window can be linked to */
+  range: AgentHealthRange
+  onRangeChange: (range: AgentHealthRange) => void
+  /** `<prefix>_last_error` from all_states */
+  stateError?: { message?: string; timestamp?: Date }
+  /** `error` from the latest `/agents/{name}/status` response */
+  statusError?: string | null
+}
+
+const RANGES: { value: AgentHealthRange; label: string; days: number }[] = [
+  { value: '7d', label: 'Last 7 days', days: 7 },
+  { value: '30d', label: 'Last 30 days', days: 30 },
+  { value: '90d', label: 'Last 90 days', days: 90 },
+]
+
+// Enough for a busy agent's 90 days; the figures say so when it is reached
+const RUN_LIMIT = 1000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+interface HealthWindow {
+  range: AgentHealthRange
+  from: Date
+}
+
+// Fixed when chosen, so the query (and its listener) stays the same while open
+function healthWindow(range: AgentHealthRange, now: Date = new Date()): HealthWindow {
+  const days = RANGES.find(item => item.value === range)?.days ?? 30
+  return { range, from: new Date(now.getTime() - days * DAY_MS) }
+}
+
+function formatPercent(rate: number | null): string {
+  return rate === null ? '—' : `${Math.round(rate * 100)}%`
+}
+
+function formatDay(day: Date): string {
+  return day.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+}
+
+function DayBars({ days, value, bars, describe }: {
+  days: AgentHealthDay[]
+  value: (day: AgentHealthDay) => number
+  bars: (day: AgentHealthDay, max: number) => { className: string; height: number }[]
+  describe: (day: AgentHealthDay) => string
+}) {
+  const max = Math.max(1, ...days.map(value))
+  return (
+    <div>
+      <div className="flex items-end gap-px h-24">
+        {days.map(day => (
+          <div
+            key={day.day.getTime()}
+            className="flex-1 h-full flex flex-col justify-end bg-gray-100 hover:bg-gray-200 rounded-sm overflow-hidden"
+            title={`${formatDay(day.day)}: ${describe(day)}`}
+          >
+            {bars(day, max).map(({ className, height }) => (
+              <div key={className} className={className} style={{ height: `${height * 100}%` }}></div>
+            ))}
+          </div>
+        ))}
+      </div>
+      <div className="mt-1 flex justify-between text-[11px] text-gray-500">
+        <span>{days.length > 0 ? formatDay(days[0].day) : ''}</span>
+        <span>Today</span>
+      </div>
+    </div>
+  )
+}
+
+// Success rate, run durations, cadence, last error and output of one agent's recorded runs
+export function AgentHealthPanel({ apiName, outputCollection, range, onRangeChange, stateError, statusError }: AgentHealthPanelProps) {
+  const [shownWindow, setShownWindow] = useState<HealthWindow>(() => healthWindow(range))
+  if (shownWindow.range !== range) {
+    setShownWindow(healthWindow(range))
+  }
+
+  const runs = useQuery(runsQuery({ agents: [apiName], from: shownWindow.from }, RUN_LIMIT))
+  const health = agentHealth(runs.documents, shownWindow.from)
+  const [singular, plural] = outputLabels(outputCollection)
+
+  // The newer of the agent's own last error and the last failed run recorded
+  const failedRun = health.lastFailure?.data
+  const failedAt = failedRun?.ended_at ?? failedRun?.started_at
+  const lastError = stateError?.message && (!failedAt || (stateError.timestamp && stateError.timestamp >= failedAt))
+    ? { message: stateError.message, at: stateError.timestamp }
+    : failedRun
+      ? { message: failedRun.error ?? 'The agent reported an error', at: failedAt }
+      : null
+
+  const metrics = [
+    {
+      label: 'Success rate',
+      value: formatPercent(health.successRate),
+      detail: `${health.succeeded} of ${health.finished} runs${health.rejected > 0 ? ` · ${health.rejected} refused to start` : ''}`,
+    },
+    {
+      label: 'Median duration',
+      value: health.medianDurationMs === null ? '—' : formatDuration(health.medianDurationMs),
+      detail: health.p95DurationMs === null ? 'No finished runs' : `p95 ${formatDuration(health.p95DurationMs)}`,
+    },
+    { label: 'Runs per day', value: health.runsPerDay.toFixed(1), detail: `${health.finished} runs` },
+    { label: 'Documents', value: String(health.documents), detail: `${health.documents === 1 ? singular : plural} created` },
+  ]
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm">
+      <div className="border-b border-gray-200 px-6 py-4 flex flex-wrap items-center gap-3">
+        <h3 className="text-lg font-semibold text-precepgo-card-title">Health</h3>
+        <StaleIndicator freshness={runs.freshness} />
+        <div className="ml-auto flex flex-wrap gap-2">
+          {RANGES.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => onRangeChange(value)}
+              className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                range === value ? 'bg-precepgo-card-title text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="px-6 py-5 space-y-6">
+        {runs.error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+            <p className="text-xs text-red-700">{runs.error.message}</p>
+          </div>
+        )}
+
+        {runs.loading ? (
+          <div className="flex justify-center py-8">
+            <div className="w-10 h-10 border-4 border-precepgo-orange/30 border-t-precepgo-orange rounded-full animate-spin"></div>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {metrics.map(metric => (
+                <div key={metric.label} className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+                  <div className="text-sm text-gray-600 font-medium mb-1">{metric.label}</div>
+                  <div className="text-2xl font-bold text-gray-900">{metric.value}</div>
+                  <div className="text-xs text-gray-500">{metric.detail}</div>
+                </div>
+              ))}
+            </div>
+            {runs.documents.length >= RUN_LIMIT && (
+              <p className="text-xs text-gray-500">Based on the latest {RUN_LIMIT} runs in this window.</p>
+            )}
+
+            <div>
+              <h4 className="text-sm font-semibold text-gray-800 mb-2">Last error</h4>
+              {lastError ? (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                  <p className="text-sm text-red-800 break-words">{lastError.message}</p>
+                  <p className="text-xs text-red-600 mt-1">{formatDateTime(lastError.at)}</p>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">No errors in this window.</p>
+              )}
+              {statusError && statusError !== lastError?.message && (
+                <p className="text-xs text-red-700 mt-2">Status endpoint reports: {statusError}</p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div>
+                <h4 className="text-sm font-semibold text-gray-800 mb-2 flex items-center gap-3">
+                  Runs per day
+                  <span className="flex items-center gap-1 text-xs font-normal text-gray-500">
+                    <span className="w-2 h-2 rounded-full bg-green-500"></span>Succeeded
+                  </span>
+                  <span className="flex items-center gap-1 text-xs font-normal text-gray-500">
+                    <span className="w-2 h-2 rounded-full bg-red-500"></span>Failed
+                  </span>
+                </h4>
+                <DayBars
+                  days={health.days}
+                  value={day => day.succeeded + day.failed}
+                  bars={(day, max) => [
+                    { className: 'bg-red-500', height: day.failed / max },
+                    { className: 'bg-green-500', height: day.succeeded / max },
+                  ]}
+                  describe={day => `${day.succeeded} succeeded, ${day.failed} failed`}
+                />
+              </div>
+              <div>
+                <h4 className="text-sm font-semibold text-gray-800 mb-2">
+                  {plural.charAt(0).toUpperCase() + plural.slice(1)} per day
+                </h4>
+                <DayBars
+                  days={health.days}
+                  value={day => day.documents}
+                  bars={(day, max) => [{ className: 'bg-blue-500', height: day.documents / max }]}
+                  describe={day => `${day.documents} ${day.documents === 1 ? singular : plural}`}
+                />
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
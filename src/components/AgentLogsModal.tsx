@@ -0,0 +1,323 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import {
+  LOG_LEVELS,
+  downloadLogs,
+  filterLogs,
+  logRunIds,
+  parseLogs,
+  type LogEntry,
+  type LogLevel,
+} from '../utils/agentLogs'
+import type { RunProgressState } from '../utils/runProgress'
+import { RunProgressTimeline } from './RunProgress'
+
+interface AgentLogsModalProps {
+  agentName: string
+  agentIcon: string
+  agentColor: string
+  /** The agent's raw log array from all_states, oldest first */
+  logs: unknown[]
+  /** Follow new entries by default while the agent runs */
+  active: boolean
+  progress?: RunProgressState
+  onClose: () => void
+}
+
+type RangeKey = 'all' | '15m' | '1h' | '24h' | 'custom'
+
+const RANGES: { value: RangeKey; label: string; ms?: number }[] = [
+  { value: 'all', label: 'All time' },
+  { value: '15m', label: 'Last 15 minutes', ms: 15 * 60 * 1000 },
+  { value: '1h', label: 'Last hour', ms: 60 * 60 * 1000 },
+  { value: '24h', label: 'Last 24 hours', ms: 24 * 60 * 60 * 1000 },
+  { value: 'custom', label: 'Custom range' },
+]
+
+const LEVEL_STYLES: Record<LogLevel, { chip: string; text: string }> = {
+  debug: { chip: 'border-gray-400 bg-gray-50 text-gray-600', text: 'text-gray-400' },
+  info: { chip: 'border-blue-500 bg-blue-50 text-blue-700', text: 'text-blue-600' },
+  warning: { chip: 'border-amber-500 bg-amber-50 text-amber-700', text: 'text-amber-600' },
+  error: { chip: 'border-red-500 bg-red-50 text-red-700', text: 'text-red-600' },
+}
+
+// Rows are one line high so thousands of entries can be windowed
+const ROW_HEIGHT = 24
+const OVERSCAN = 20
+const LIST_HEIGHT = 420
+
+// Value for a datetime-local input, in local time
+function toLocalInput(date: Date | null): string {
+  if (!date) return ''
+  const offset = date.getTimezoneOffset() * 60000
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16)
+}
+
+function formatLogTime(date: Date | null): string {
+  return date ? date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit' }) : '—'
+}
+
+function Highlighted({ text, search }: { text: string; search: string }) {
+  const at = search ? text.toLowerCase().indexOf(search.toLowerCase()) : -1
+  if (at < 0) return <>{text}</>
+  return (
+    <>
+      {text.slice(0, at)}
+      <mark className="bg-yellow-200 rounded-sm">{text.slice(at, at + search.length)}</mark>
+      {text.slice(at + search.length)}
+    </>
+  )
+}
+
+// An agent's logs as structured entries: filter by level, run, text and time,
+// follow new entries while it runs, and download what's shown
+export function AgentLogsModal({ agentName, agentIcon, agentColor, logs, active, progress, onClose }: AgentLogsModalProps) {
+  const entries = useMemo(() => parseLogs(logs), [logs])
+  const [levels, setLevels] = useState<LogLevel[]>([])
+  const [search, setSearch] = useState('')
+  const [runId, setRunId] = useState<string | null>(null)
+  const [range, setRange] = useState<RangeKey>('all')
+  // Relative ranges count back from when they were picked, so new entries keep showing
+  const [rangeAnchor, setRangeAnchor] = useState(() => new Date())
+  const [customFrom, setCustomFrom] = useState<Date | null>(null)
+  const [customTo, setCustomTo] = useState<Date | null>(null)
+  const [follow, setFollow] = useState(active)
+  const [scrollTop, setScrollTop] = useState(0)
+  const [selected, setSelected] = useState<LogEntry | null>(null)
+  const listRef = useRef<HTMLDivElement | null>(null)
+
+  const rangeMs = RANGES.find(option => option.value === range)?.ms
+  const fromTime = range === 'custom' ? customFrom?.getTime() ?? null : rangeMs ? rangeAnchor.getTime() - rangeMs : null
+  const toTime = range === 'custom' ? customTo?.getTime() ?? null : null
+  const visible = useMemo(() => filterLogs(entries, {
+    levels,
+    search,
+    runId,
+    from: fromTime === null ? null : new Date(fromTime),
+    to: toTime === null ? null : new Date(toTime),
+  }), [entries, levels, search, runId, fromTime, toTime])
+  const runIds = useMemo(() => logRunIds(entries), [entries])
+  const levelCounts = useMemo(() => {
+    const counts: Record<LogLevel, number> = { debug: 0, info: 0, warning: 0, error: 0 }
+    entries.forEach(entry => counts[entry.level]++)
+    return counts
+  }, [entries])
+
+  // Start following again when a new run starts
+  useEffect(() => {
+    if (active) setFollow(true)
+  }, [active])
+
+  // Keep the newest entry in view while following
+  useEffect(() => {
+    const list = listRef.current
+    if (follow && list) list.scrollTop = list.scrollHeight
+  }, [follow, visible.length])
+
+  const handleScroll = () => {
+    const list = listRef.current
+    if (!list) return
+    setScrollTop(list.scrollTop)
+    // Scrolling up to read stops following; scrolling back to the end doesn't restart it
+    const atEnd = list.scrollHeight - list.scrollTop - list.clientHeight < ROW_HEIGHT
+    if (!atEnd && follow) setFollow(false)
+  }
+
+  const toggleLevel = (level: LogLevel) => {
+    setLevels(levels.includes(level) ? levels.filter(item => item !== level) : [...levels, level])
+  }
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN)
+  const last = Math.min(visible.length, Math.ceil((scrollTop + LIST_HEIGHT) / ROW_HEIGHT) + OVERSCAN)
+  const baseName = `${agentName.replace(/\s+/g, '_')}_logs`
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl shadow-xl max-w-5xl w-full max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Modal Header */}
+        <div className="sticky top-0 z-10 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between rounded-t-xl">
+          <div className="flex items-center gap-4">
+            <div className={`w-12 h-12 ${agentColor} rounded-lg flex items-center justify-center`}>
+              <img
+                src={agentIcon}
+                alt={`${agentName} icon`}
+                className="w-12 h-12 object-contain"
+              />
+            </div>
+            <h2 className="text-2xl font-semibold text-precepgo-card-title">
+              {agentName} Logs
+            </h2>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => downloadLogs(visible, 'txt', baseName)}
+              disabled={visible.length === 0}
+              className="px-3 py-1.5 rounded-lg text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Download the entries shown as plain text"
+            >
+              <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>download</span>
+              TXT
+            </button>
+            <button
+              onClick={() => downloadLogs(visible, 'json', baseName)}
+              disabled={visible.length === 0}
+              className="px-3 py-1.5 rounded-lg text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Download the entries shown as JSON"
+            >
+              <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>download</span>
+              JSON
+            </button>
+            <button
+              onClick={onClose}
+              className="p-2 rounded-full hover:bg-gray-100 transition-colors text-gray-400 hover:text-gray-600"
+              aria-label="Close modal"
+            >
+              <span className="material-symbols-outlined" style={{ fontSize: '24px' }}>
+                close
+              </span>
+            </button>
+          </div>
+        </div>
+
+        {/* Modal Content */}
+        <div className="px-6 py-6">
+          {progress && <RunProgressTimeline progress={progress} />}
+          {entries.length === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-gray-500 text-lg">No logs available</p>
+              <p className="text-gray-400 text-sm mt-2">Logs will appear here as the agent runs</p>
+            </div>
+          ) : (
+            <>
+              {/* Filters */}
+              <div className="flex flex-wrap items-center gap-2 mb-3">
+                {LOG_LEVELS.map(level => (
+                  <button
+                    key={level}
+                    onClick={() => toggleLevel(level)}
+                    className={`px-3 py-1 rounded-full text-xs font-medium capitalize transition-colors border ${
+                      levels.includes(level) ? LEVEL_STYLES[level].chip : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                    }`}
+                  >
+                    {level} <span className="text-gray-400">{levelCounts[level]}</span>
+                  </button>
+                ))}
+                <input
+                  type="search"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search messages"
+                  className="flex-1 min-w-[160px] px-3 py-1 border border-gray-300 rounded-lg text-sm"
+                />
+              </div>
+              <div className="flex flex-wrap items-center gap-2 mb-3 text-xs text-gray-600">
+                <select
+                  value={range}
+                  onChange={(e) => {
+                    setRange(e.target.value as RangeKey)
+                    setRangeAnchor(new Date())
+                  }}
+                  className="px-2 py-1 border border-gray-300 rounded-lg bg-white text-xs"
+                  aria-label="Time range"
+                >
+                  {RANGES.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                {range === 'custom' && (
+                  <>
+                    <input
+                      type="datetime-local"
+                      value={toLocalInput(customFrom)}
+                      onChange={(e) => setCustomFrom(e.target.value ? new Date(e.target.value) : null)}
+                      className="px-2 py-1 border border-gray-300 rounded-lg text-xs"
+                      aria-label="From"
+                    />
+                    to
+                    <input
+                      type="datetime-local"
+                      value={toLocalInput(customTo)}
+                      onChange={(e) => setCustomTo(e.target.value ? new Date(e.target.value) : null)}
+                      className="px-2 py-1 border border-gray-300 rounded-lg text-xs"
+                      aria-label="To"
+                    />
+                  </>
+                )}
+                {runIds.length > 0 && (
+                  <select
+                    value={runId ?? ''}
+                    onChange={(e) => setRunId(e.target.value || null)}
+                    className="px-2 py-1 border border-gray-300 rounded-lg bg-white text-xs max-w-[220px]"
+                    aria-label="Run"
+                  >
+                    <option value="">All runs</option>
+                    {[...runIds].reverse().map(id => (
+                      <option key={id} value={id}>{id}</option>
+                    ))}
+                  </select>
+                )}
+                <label className="ml-auto flex items-center gap-1">
+                  <input type="checkbox" checked={follow} onChange={(e) => setFollow(e.target.checked)} />
+                  Follow new entries
+                </label>
+              </div>
+
+              <p className="text-sm text-gray-600 mb-2">
+                Showing {visible.length.toLocaleString()} of {entries.length.toLocaleString()} {entries.length === 1 ? 'entry' : 'entries'} (oldest first)
+              </p>
+
+              {/* Entries, windowed: only the rows in view are rendered */}
+              <div
+                ref={listRef}
+                onScroll={handleScroll}
+                className="bg-gray-50 rounded-lg font-mono text-xs overflow-y-auto"
+                style={{ height: Math.min(LIST_HEIGHT, Math.max(visible.length, 1) * ROW_HEIGHT + 2) }}
+              >
+                {visible.length === 0 ? (
+                  <p className="px-3 py-1 text-gray-500">No entries match these filters.</p>
+                ) : (
+                  <div className="relative" style={{ height: visible.length * ROW_HEIGHT }}>
+                    {visible.slice(first, last).map((entry, offset) => (
+                      <button
+                        key={entry.index}
+                        onClick={() => setSelected(selected?.index === entry.index ? null : entry)}
+                        className={`absolute left-0 right-0 px-3 flex items-center gap-3 text-left whitespace-nowrap hover:bg-gray-100 ${
+                          selected?.index === entry.index ? 'bg-blue-50' : ''
+                        }`}
+                        style={{ top: (first + offset) * ROW_HEIGHT, height: ROW_HEIGHT }}
+                        title={entry.message}
+                      >
+                        <span className="shrink-0 w-36 text-gray-400">{formatLogTime(entry.timestamp)}</span>
+                        <span className={`shrink-0 w-14 uppercase font-semibold ${LEVEL_STYLES[entry.level].text}`}>{entry.level}</span>
+                        <span className="truncate text-gray-700">
+                          <Highlighted text={entry.message} search={search.trim()} />
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {selected && (
+                <div className="mt-3 border border-gray-200 rounded-lg p-3 text-xs">
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-gray-500 mb-2">
+                    <span>{selected.timestamp ? selected.timestamp.toLocaleString() : 'No timestamp'}</span>
+                    <span className={`uppercase font-semibold ${LEVEL_STYLES[selected.level].text}`}>{selected.level}</span>
+                    {selected.runId && <span>Run {selected.runId}</span>}
+                    <span>Entry #{selected.index + 1}</span>
+                  </div>
+                  <pre className="font-mono text-gray-800 whitespace-pre-wrap break-words">{selected.message}</pre>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,14 @@
+import type { AgentDisplayState } from '../hooks/useAgentRuntime'
+
+const STATE_COLORS: Record<AgentDisplayState, string> = {
+  idle: 'bg-gray-500',
+  active: 'bg-blue-500',
+}
+
+export function AgentStatusBadge({ state }: { state: AgentDisplayState }) {
+  return (
+    <span className={`${STATE_COLORS[state]} text-white text-[10px] font-semibold px-1.5 py-0.5 rounded-full`}>
+      {state}
+    </span>
+  )
+}
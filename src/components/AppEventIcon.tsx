@@ -0,0 +1,17 @@
+import type { AppEventSeverity } from '../services/notificationCenter'
+
+const SEVERITY_ICONS: Record<AppEventSeverity, { icon: string; className: string }> = {
+  success: { icon: 'check_circle', className: 'text-green-600' },
+  info: { icon: 'info', className: 'text-blue-600' },
+  warning: { icon: 'warning', className: 'text-amber-600' },
+  error: { icon: 'error', className: 'text-red-600' },
+}
+
+export function AppEventIcon({ severity }: { severity: AppEventSeverity }) {
+  const { icon, className } = SEVERITY_ICONS[severity]
+  return (
+    <span className={`material-symbols-outlined shrink-0 ${className}`} style={{ fontSize: '20px' }}>
+      {icon}
+    </span>
+  )
+}
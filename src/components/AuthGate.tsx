@@ -0,0 +1,43 @@
+import type { ReactNode } from 'react'
+import { useAuth } from '../hooks/useAuth'
+import { SignInPage } from './SignInPage'
+
+// Renders the dashboard only for signed-in users with a recognised role
+export function AuthGate({ children }: { children: ReactNode }) {
+  const { user, loading, signOut } = useAuth()
+
+  if (loading) {
+    return (
+      <div className="min-h-screen w-full bg-[#83a0cc] flex items-center justify-center">
+        <div className="w-12 h-12 border-4 border-precepgo-orange/30 border-t-precepgo-orange rounded-full animate-spin"></div>
+      </div>
+    )
+  }
+
+  if (!user) {
+    return <SignInPage />
+  }
+
+  if (!user.role) {
+    return (
+      <div className="min-h-screen w-full bg-[#83a0cc] px-4 flex items-center justify-center">
+        <div className="bg-white rounded-xl shadow-xl max-w-sm w-full p-6 text-center">
+          <h1 className="text-xl font-semibold text-precepgo-card-title mb-2">Access pending</h1>
+          <p className="text-sm text-precepgo-card-text mb-4">
+            {user.email ?? 'Your account'} is signed in but has not been assigned a role yet.
+            Ask your program administrator to grant you access.
+          </p>
+          <button
+            type="button"
+            onClick={() => signOut()}
+            className="px-4 py-2 rounded-lg text-sm text-gray-700 hover:bg-gray-100"
+          >
+            Sign out
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return <>{children}</>
+}
@@ -0,0 +1,35 @@
+import { useEffect, useMemo, useState, type ReactNode } from 'react'
+import { authService, hasPermission, type AuthUser, type Permission } from '../services/auth'
+import { AuthContext, type AuthContextValue } from '../hooks/useAuth'
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [user, setUser] = useState<AuthUser | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    return authService.onAuthChange(
+      (nextUser) => {
+        setUser(nextUser)
+        setLoading(false)
+      },
+      (error) => {
+        console.error('[Auth] ❌ Auth state listener failed:', error)
+        setUser(null)
+        setLoading(false)
+      }
+    )
+  }, [])
+
+  const value = useMemo<AuthContextValue>(() => ({
+    user,
+    loading,
+    can: (permission: Permission) => hasPermission(user?.role ?? null, permission),
+    ssoLabel: authService.ssoLabel,
+    signInWithEmail: (email, password) => authService.signInWithEmail(email, password),
+    signInWithSso: () => authService.signInWithSso(),
+    sendPasswordReset: (email) => authService.sendPasswordReset(email),
+    signOut: () => authService.signOut(),
+  }), [user, loading])
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>
+}
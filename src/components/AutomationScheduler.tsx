@@ -0,0 +1,328 @@
+import { useEffect, useState } from 'react'
+import { FirestoreService } from '../services/firestore'
+import type { AgentScheduleEntry, QuietHours } from '../services/firestoreSchemas'
+import {
+  AUTOMATION_SCHEDULE_COLLECTION,
+  AUTOMATION_SCHEDULE_DOCUMENT,
+  CADENCE_PRESETS,
+  browserTimeZone,
+  cronProblem,
+  isQuietTime,
+  nextRunTimes,
+  resolveAutomationSchedule,
+  validateAutomationSchedule,
+  type AutomationScheduleInput,
+} from '../services/automationSchedule'
+import { actorFromUser } from '../services/notificationWorkflow'
+import { useAuth } from '../hooks/useAuth'
+import { useDocument } from '../hooks/useFirestore'
+import { useNow } from '../hooks/useNow'
+import { formatAge, formatTimeLeft } from '../utils/relativeTime'
+import { StaleIndicator } from './StaleIndicator'
+
+interface ScheduledAgent {
+  apiName: string
+  name: string
+  icon: string
+}
+
+interface AutomationSchedulerProps {
+  agents: ScheduledAgent[]
+  automatedMode: boolean
+  toggling: boolean
+  onToggleAutomatedMode: () => void
+  onClose: () => void
+}
+
+const PREVIEW_RUNS = 3
+const CUSTOM_CADENCE = 'custom'
+
+function formatRunTime(date: Date): string {
+  return date.toLocaleString(undefined, { weekday: 'short', hour: '2-digit', minute: '2-digit' })
+}
+
+// Automated mode switch, per-agent cadences and quiet hours, with the next runs each would make
+export function AutomationScheduler({ agents, automatedMode, toggling, onToggleAutomatedMode, onClose }: AutomationSchedulerProps) {
+  const { user, can } = useAuth()
+  const canManage = can('manage_automated_mode')
+  const stored = useDocument(AUTOMATION_SCHEDULE_COLLECTION, AUTOMATION_SCHEDULE_DOCUMENT)
+  // null until the first edit; until then the form follows the stored schedule
+  const [draft, setDraft] = useState<AutomationScheduleInput | null>(null)
+  // Agents whose cadence is edited as a cron expression even if it matches a preset
+  const [customAgents, setCustomAgents] = useState<string[]>([])
+  const [saving, setSaving] = useState(false)
+  const [saveError, setSaveError] = useState<string | null>(null)
+  const [showProblems, setShowProblems] = useState(false)
+  const now = useNow(30000)
+
+  const schedule = draft ?? resolveAutomationSchedule(stored.data)
+  const problems = validateAutomationSchedule(schedule)
+  const quietNow = isQuietTime(now, schedule.quiet_hours)
+  const timeZone = browserTimeZone()
+
+  // Close on Escape, matching the other modals
+  useEffect(() => {
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose()
+    }
+    document.addEventListener('keydown', handleEscape)
+    return () => document.removeEventListener('keydown', handleEscape)
+  }, [onClose])
+
+  const updateAgent = (agent: string, changes: Partial<AgentScheduleEntry>) => {
+    setDraft({ ...schedule, agents: { ...schedule.agents, [agent]: { ...schedule.agents[agent], ...changes } } })
+  }
+
+  const updateQuietHours = (changes: Partial<QuietHours>) => {
+    setDraft({ ...schedule, quiet_hours: { ...schedule.quiet_hours, ...changes } })
+  }
+
+  const save = async () => {
+    if (!user || !draft) return
+    if (problems.length > 0) {
+      setShowProblems(true)
+      return
+    }
+    setSaving(true)
+    setSaveError(null)
+    try {
+      // Cadences are interpreted in the zone of whoever saved them
+      await FirestoreService.saveAutomationSchedule({ ...draft, timezone: timeZone }, actorFromUser(user))
+      setDraft(null)
+      setShowProblems(false)
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : String(error))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl shadow-xl max-w-4xl w-full max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Modal Header */}
+        <div className="border-b border-gray-200 px-6 py-4 flex items-center justify-between rounded-t-xl">
+          <div>
+            <div className="flex items-center gap-3">
+              <h2 className="text-2xl font-semibold text-precepgo-card-title">Automated Mode</h2>
+              <StaleIndicator freshness={stored.freshness} />
+            </div>
+            <p className="text-sm text-gray-600">Which agents run on their own, and when</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-full hover:bg-gray-100 transition-colors text-gray-400 hover:text-gray-600"
+            aria-label="Close modal"
+          >
+            <span className="material-symbols-outlined" style={{ fontSize: '24px' }}>
+              close
+            </span>
+          </button>
+        </div>
+
+        {/* Modal Content */}
+        <div className="flex-1 min-h-0 overflow-y-auto px-6 py-4 space-y-5">
+          {/* On/off */}
+          <div className={`flex flex-wrap items-center justify-between gap-3 p-4 rounded-lg ${automatedMode ? 'bg-green-50' : 'bg-gray-50'}`}>
+            <div>
+              <p className="text-sm font-semibold text-gray-900">
+                Automated mode is {automatedMode ? 'on' : 'off'}
+              </p>
+              <p className="text-xs text-gray-600">
+                {automatedMode
+                  ? quietNow
+                    ? 'Quiet hours: only agents set to run during them are running.'
+                    : 'Agents run on the schedule below. Manual runs are paused.'
+                  : 'Nothing runs on its own until it is turned on.'}
+              </p>
+            </div>
+            {canManage && (
+              <button
+                onClick={onToggleAutomatedMode}
+                disabled={toggling}
+                role="switch"
+                aria-checked={automatedMode}
+                aria-label="Automated mode"
+                className={`relative w-12 h-6 rounded-full transition-colors disabled:opacity-50 ${automatedMode ? 'bg-green-500' : 'bg-gray-300'}`}
+              >
+                <span className={`absolute top-0.5 left-0.5 w-5 h-5 rounded-full bg-white shadow transition-transform ${automatedMode ? 'translate-x-6' : ''}`}></span>
+              </button>
+            )}
+          </div>
+
+          {stored.error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-xs text-red-700">{stored.error.message}</p>
+            </div>
+          )}
+
+          {/* Quiet hours */}
+          <div>
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">Quiet hours</h3>
+            <div className="flex flex-wrap items-center gap-2 text-xs text-gray-700">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={schedule.quiet_hours.enabled}
+                  disabled={!canManage}
+                  onChange={(e) => updateQuietHours({ enabled: e.target.checked })}
+                />
+                No runs from
+              </label>
+              <input
+                type="time"
+                value={schedule.quiet_hours.start}
+                disabled={!canManage || !schedule.quiet_hours.enabled}
+                onChange={(e) => updateQuietHours({ start: e.target.value })}
+                className="px-2 py-1 border border-gray-300 rounded disabled:bg-gray-100"
+              />
+              <span>to</span>
+              <input
+                type="time"
+                value={schedule.quiet_hours.end}
+                disabled={!canManage || !schedule.quiet_hours.enabled}
+                onChange={(e) => updateQuietHours({ end: e.target.value })}
+                className="px-2 py-1 border border-gray-300 rounded disabled:bg-gray-100"
+              />
+              <span className="text-gray-500">Runs falling in them are skipped.</span>
+            </div>
+          </div>
+
+          {/* Agents */}
+          <div>
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">Agents</h3>
+            <div className="space-y-2">
+              {agents.map(agent => {
+                const entry = schedule.agents[agent.apiName]
+                if (!entry) return null
+                const preset = CADENCE_PRESETS.find(item => item.cron === entry.cron.trim().replace(/\s+/g, ' '))
+                const custom = !preset || customAgents.includes(agent.apiName)
+                const problem = cronProblem(entry.cron)
+                const upcoming = nextRunTimes(entry, schedule.quiet_hours, now, PREVIEW_RUNS)
+                return (
+                  <div key={agent.apiName} className={`p-3 rounded-lg border ${entry.enabled ? 'border-gray-200' : 'border-gray-100 bg-gray-50'}`}>
+                    <div className="flex flex-wrap items-center gap-3">
+                      <label className="flex items-center gap-2 min-w-[180px]">
+                        <input
+                          type="checkbox"
+                          checked={entry.enabled}
+                          disabled={!canManage}
+                          onChange={(e) => updateAgent(agent.apiName, { enabled: e.target.checked })}
+                        />
+                        <img src={agent.icon} alt="" className="w-5 h-5" />
+                        <span className="text-sm font-medium text-gray-900">{agent.name}</span>
+                      </label>
+                      <select
+                        value={custom || !preset ? CUSTOM_CADENCE : preset.cron}
+                        disabled={!canManage || !entry.enabled}
+                        onChange={(e) => {
+                          const value = e.target.value
+                          if (value === CUSTOM_CADENCE) {
+                            setCustomAgents(previous => [...previous, agent.apiName])
+                          } else {
+                            setCustomAgents(previous => previous.filter(name => name !== agent.apiName))
+                            updateAgent(agent.apiName, { cron: value })
+                          }
+                        }}
+                        className="px-2 py-1 border border-gray-300 rounded-lg bg-white text-xs disabled:bg-gray-100"
+                        aria-label={`${agent.name} cadence`}
+                      >
+                        {CADENCE_PRESETS.map(item => (
+                          <option key={item.cron} value={item.cron}>{item.label}</option>
+                        ))}
+                        <option value={CUSTOM_CADENCE}>Custom (cron)...</option>
+                      </select>
+                      {custom && (
+                        <input
+                          value={entry.cron}
+                          disabled={!canManage || !entry.enabled}
+                          onChange={(e) => updateAgent(agent.apiName, { cron: e.target.value })}
+                          placeholder="0 6 * * 1"
+                          className={`w-36 px-2 py-1 border rounded font-mono text-xs disabled:bg-gray-100 ${problem ? 'border-red-400' : 'border-gray-300'}`}
+                          aria-label={`${agent.name} cron expression`}
+                          title="minute hour day-of-month month day-of-week"
+                        />
+                      )}
+                      <label className="flex items-center gap-2 text-xs text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={entry.ignore_quiet_hours}
+                          disabled={!canManage || !entry.enabled}
+                          onChange={(e) => updateAgent(agent.apiName, { ignore_quiet_hours: e.target.checked })}
+                        />
+                        Run during quiet hours
+                      </label>
+                    </div>
+                    {problem ? (
+                      <p className="text-xs text-red-700 mt-2">{problem}</p>
+                    ) : entry.enabled && (
+                      <p className="text-xs text-gray-500 mt-2">
+                        {upcoming.length === 0
+                          ? 'Never runs outside quiet hours'
+                          : <>Next: {upcoming.map(formatRunTime).join(' · ')} (in {formatTimeLeft(upcoming[0].getTime() - now.getTime())})</>}
+                      </p>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Times are in {timeZone}.
+            {stored.data && stored.data.timezone !== timeZone && (
+              <span className="text-amber-700"> The saved schedule is in {stored.data.timezone}; saving it here moves it to {timeZone}.</span>
+            )}
+            {stored.data?.updated_by && stored.data.updated_at && (
+              <> Last changed by {stored.data.updated_by.name} {formatAge(stored.data.updated_at, now)}.</>
+            )}
+            {!stored.loading && !stored.data && ' Showing the default schedule; nothing has been saved yet.'}
+          </p>
+
+          {showProblems && problems.length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+              <ul className="text-xs text-amber-800 list-disc pl-4">
+                {problems.map(problem => <li key={problem}>{problem}</li>)}
+              </ul>
+            </div>
+          )}
+          {saveError && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-xs text-red-700">{saveError}</p>
+            </div>
+          )}
+        </div>
+
+        {canManage && (
+          <div className="border-t border-gray-200 px-6 py-3 flex gap-2 justify-end">
+            <button
+              onClick={() => {
+                setDraft(null)
+                setCustomAgents([])
+                setSaveError(null)
+                setShowProblems(false)
+              }}
+              disabled={saving || !draft}
+              className="px-3 py-1.5 rounded-lg text-xs font-medium text-gray-600 hover:bg-gray-100 transition-colors disabled:opacity-50"
+            >
+              Discard changes
+            </button>
+            <button
+              onClick={save}
+              disabled={saving || !draft}
+              className="px-3 py-1.5 rounded-lg text-xs font-medium bg-precepgo-orange text-white hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Save schedule'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
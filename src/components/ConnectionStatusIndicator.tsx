@@ -0,0 +1,32 @@
+import { useConnectionStatus } from '../hooks/useConnectionStatus'
+import { formatSyncTime } from '../utils/syncTime'
+
+// Online / offline / cached status of the Firestore data, for the page header
+export function ConnectionStatusIndicator() {
+  const { state, cachedAsOf } = useConnectionStatus()
+
+  const { dot, label, detail } = state === 'online'
+    ? { dot: 'bg-green-500', label: 'Live', detail: 'Receiving updates from Firestore' }
+    : state === 'offline'
+      ? {
+          dot: 'bg-gray-400',
+          label: `Offline · cached as of ${formatSyncTime(cachedAsOf)}`,
+          detail: 'No network connection; changes will appear once you reconnect',
+        }
+      : {
+          dot: 'bg-amber-500',
+          label: `Showing cached data as of ${formatSyncTime(cachedAsOf)}`,
+          detail: 'Connected, but some data has not been refreshed from the server yet',
+        }
+
+  return (
+    <div
+      className="flex items-center gap-2 bg-white/80 rounded-full px-3 py-1.5 shadow-sm text-xs font-medium text-gray-700"
+      title={detail}
+      role="status"
+    >
+      <span className={`w-2 h-2 rounded-full ${dot} ${state === 'cached' ? 'animate-pulse' : ''}`}></span>
+      {label}
+    </div>
+  )
+}
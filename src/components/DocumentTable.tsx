@@ -1,64 +1,22 @@
 import type { ColumnDef } from '@tanstack/react-table';
 import { DataTable } from './DataTable';
 import type { FirestoreDocument } from '../services/firestore';
+import {
+  collectionNormalizers,
+  isTypedCollection,
+  type COAReportDoc,
+  type EvaluationDoc,
+  type NotificationDoc,
+  type ScenarioDoc,
+} from '../services/firestoreSchemas';
 
-interface EvaluationData {
-  id: string;
-  case_type?: string;
-  preceptee_user_name?: string;
-  preceptor_name?: string;
-  preceptor_comment?: string;
-  focus_areas?: string;
-  created_at?: Date | any;
-  createdAt?: Date;
-  [key: string]: any;
-}
-
-interface ScenarioData {
-  id: string;
-  case?: { name?: string; code?: string; description?: string };
-  patient?: { name?: string; age?: number; categories?: string[] };
-  scenario?: string;
-  created_at?: Date | any;
-  createdAt?: Date;
-  [key: string]: any;
-}
-
-interface NotificationData {
-  id: string;
-  evaluation_doc_id?: string;
-  preceptee_name?: string;
-  preceptor_name?: string;
-  case_type?: string;
-  negative_fields?: string[];
-  created_at?: Date | any;
-  createdAt?: Date;
-  [key: string]: any;
-}
+// Table rows are the converted document data plus its id
+type DocumentRow<T> = T & { id: string; createdAt?: Date };
 
-interface COAReportData {
-  id: string;
-  students_processed?: number;
-  total_standards?: number;
-  student_reports?: any[];
-  created_at?: Date | any;
-  createdAt?: Date;
-  [key: string]: any;
-}
-
-const formatDate = (date?: Date | any) => {
-  if (!date) return '—';
-  try {
-    if (date instanceof Date) return date.toLocaleString();
-    if (date?.toDate) return date.toDate().toLocaleString();
-    return new Date(date).toLocaleString();
-  } catch {
-    return '—';
-  }
-};
+const formatDate = (date?: Date) => (date ? date.toLocaleString() : '—');
 
 // Evaluation Table Columns
-const evaluationColumns: ColumnDef<EvaluationData>[] = [
+const evaluationColumns: ColumnDef<DocumentRow<EvaluationDoc>>[] = [
   {
     accessorKey: 'id',
     header: 'ID',
@@ -69,7 +27,7 @@ const evaluationColumns: ColumnDef<EvaluationData>[] = [
   {
     accessorKey: 'created_at',
     header: 'Created',
-    cell: ({ row }) => formatDate(row.original.created_at || row.original.createdAt),
+    cell: ({ row }) => formatDate(row.original.created_at ?? row.original.createdAt),
   },
   {
     accessorKey: 'case_type',
@@ -130,7 +88,7 @@ const evaluationColumns: ColumnDef<EvaluationData>[] = [
 ];
 
 // Scenario Table Columns
-const scenarioColumns: ColumnDef<ScenarioData>[] = [
+const scenarioColumns: ColumnDef<DocumentRow<ScenarioDoc>>[] = [
   {
     accessorKey: 'id',
     header: 'ID',
@@ -141,22 +99,18 @@ const scenarioColumns: ColumnDef<ScenarioData>[] = [
   {
     accessorKey: 'created_at',
     header: 'Created',
-    cell: ({ row }) => formatDate(row.original.created_at || row.original.createdAt),
+    cell: ({ row }) => formatDate(row.original.created_at ?? row.original.createdAt),
   },
   {
     accessorKey: 'case',
     header: 'Case',
-    cell: ({ getValue }) => {
-      const caseData = getValue() as { name?: string; code?: string; description?: string };
-      if (!caseData) return '—';
-      return caseData.name || caseData.code || '—';
-    },
+    cell: ({ row }) => row.original.case?.name || row.original.case?.code || '—',
   },
   {
     accessorKey: 'patient',
     header: 'Patient',
-    cell: ({ getValue }) => {
-      const patient = getValue() as { name?: string; age?: number; categories?: string[] };
+    cell: ({ row }) => {
+      const patient = row.original.patient;
       if (!patient) return '—';
       return `${patient.name || 'N/A'}${patient.age ? `, ${patient.age}` : ''}`;
     },
@@ -178,9 +132,9 @@ const scenarioColumns: ColumnDef<ScenarioData>[] = [
   {
     accessorKey: 'learning_points',
     header: 'Learning Points',
-    cell: ({ getValue }) => {
-      const points = getValue() as string[];
-      return points && Array.isArray(points) ? (
+    cell: ({ row }) => {
+      const points = row.original.learning_points;
+      return points.length > 0 ? (
         <span className="text-xs">{points.length} points</span>
       ) : (
         '—'
@@ -190,7 +144,7 @@ const scenarioColumns: ColumnDef<ScenarioData>[] = [
 ];
 
 // Notification Table Columns
-const notificationColumns: ColumnDef<NotificationData>[] = [
+const notificationColumns: ColumnDef<DocumentRow<NotificationDoc>>[] = [
   {
     accessorKey: 'id',
     header: 'ID',
@@ -201,7 +155,7 @@ const notificationColumns: ColumnDef<NotificationData>[] = [
   {
     accessorKey: 'created_at',
     header: 'Created',
-    cell: ({ row }) => formatDate(row.original.created_at || row.original.createdAt),
+    cell: ({ row }) => formatDate(row.original.created_at ?? row.original.createdAt),
   },
   {
     accessorKey: 'preceptee_name',
@@ -230,9 +184,9 @@ const notificationColumns: ColumnDef<NotificationData>[] = [
   {
     accessorKey: 'negative_fields',
     header: 'Negative Fields',
-    cell: ({ getValue }) => {
-      const fields = getValue() as string[];
-      if (!fields || !Array.isArray(fields)) return '—';
+    cell: ({ row }) => {
+      const fields = row.original.negative_fields;
+      if (fields.length === 0) return '—';
       return (
         <div className="flex flex-wrap gap-1">
           {fields.map((field, idx) => (
@@ -247,7 +201,7 @@ const notificationColumns: ColumnDef<NotificationData>[] = [
 ];
 
 // COA Report Table Columns
-const coaReportColumns: ColumnDef<COAReportData>[] = [
+const coaReportColumns: ColumnDef<DocumentRow<COAReportDoc>>[] = [
   {
     accessorKey: 'id',
     header: 'ID',
@@ -258,7 +212,7 @@ const coaReportColumns: ColumnDef<COAReportData>[] = [
   {
     accessorKey: 'created_at',
     header: 'Created',
-    cell: ({ row }) => formatDate(row.original.created_at || row.original.createdAt),
+    cell: ({ row }) => formatDate(row.original.created_at ?? row.original.createdAt),
   },
   {
     accessorKey: 'students_processed',
@@ -287,9 +241,9 @@ const coaReportColumns: ColumnDef<COAReportData>[] = [
   {
     accessorKey: 'student_reports',
     header: 'Student Reports',
-    cell: ({ getValue }) => {
-      const reports = getValue() as any[];
-      if (!reports || !Array.isArray(reports)) return '—';
+    cell: ({ row }) => {
+      const reports = row.original.student_reports;
+      if (reports.length === 0) return '—';
       return (
         <span className="text-xs text-gray-600">
           {reports.length} report{reports.length !== 1 ? 's' : ''}
@@ -300,10 +254,10 @@ const coaReportColumns: ColumnDef<COAReportData>[] = [
   {
     accessorKey: 'standard_scores',
     header: 'Summary Scores',
-    cell: ({ getValue }) => {
-      const scores = getValue() as any[];
-      if (!scores || !Array.isArray(scores)) return '—';
-      const avgScore = scores.reduce((sum: number, s: any) => sum + (s.score || 0), 0) / scores.length;
+    cell: ({ row }) => {
+      const scores = row.original.standard_scores;
+      if (scores.length === 0) return '—';
+      const avgScore = scores.reduce((sum, s) => sum + s.score, 0) / scores.length;
       return (
         <span className="text-xs font-semibold">
           Avg: {Math.round(avgScore)}
@@ -327,12 +281,12 @@ interface DocumentTableProps {
 }
 
 export function DocumentTable({ documents, collectionName }: DocumentTableProps) {
-  // Transform documents to include id and createdAt/created_at in the data object
+  // Run known collections through their converter so the typed columns can rely on the shape
+  const normalize = isTypedCollection(collectionName) ? collectionNormalizers[collectionName] : undefined;
   const tableData = documents.map((doc) => ({
+    ...(normalize ? normalize(doc.data) : doc.data),
     id: doc.id,
     createdAt: doc.createdAt,
-    created_at: doc.data.created_at || doc.createdAt,
-    ...doc.data,
   }));
 
   // Get columns for this collection, or create generic columns
@@ -2,6 +2,10 @@ import type { FirestoreDocument } from '../services/firestore';
 import { DocumentTable } from './DocumentTable';
 import { useState } from 'react';
 import { exportCOAReportsToExcel } from '../utils/exportExcel';
+import { normalizeCOAReport } from '../services/firestoreSchemas';
+import type { Freshness } from '../services/connectionStatus';
+import { StaleIndicator } from './StaleIndicator';
+import { notificationCenter } from '../services/notificationCenter';
 
 interface DocumentViewerProps {
   documents: FirestoreDocument[];
@@ -9,9 +13,11 @@ interface DocumentViewerProps {
   isLoading?: boolean;
   error?: string | null;
   collectionName?: string;
+  /** Shows a cached-data badge while the documents come from the offline cache */
+  freshness?: Freshness;
 }
 
-export function DocumentViewer({ documents, title, isLoading, error, collectionName }: DocumentViewerProps) {
+export function DocumentViewer({ documents, title, isLoading, error, collectionName, freshness }: DocumentViewerProps) {
   const [viewMode, setViewMode] = useState<'table' | 'json'>('table');
 
   if (isLoading) {
@@ -58,18 +64,21 @@ export function DocumentViewer({ documents, title, isLoading, error, collectionN
   return (
     <div className="bg-white rounded-xl p-6 shadow-hard-5">
       <div className="flex items-center justify-between mb-4">
-        <h3 className="text-lg font-semibold text-precepgo-card-title">
-          {title} ({documents.length})
-        </h3>
+        <div className="flex items-center gap-2">
+          <h3 className="text-lg font-semibold text-precepgo-card-title">
+            {title} ({documents.length})
+          </h3>
+          {freshness && <StaleIndicator freshness={freshness} />}
+        </div>
         <div className="flex gap-2">
           {collectionName === 'agent_coa_reports' && (
             <button
               onClick={async () => {
                 try {
-                  await exportCOAReportsToExcel(documents);
+                  await exportCOAReportsToExcel(documents.map((doc) => ({ ...doc, data: normalizeCOAReport(doc.data) })));
                 } catch (error) {
                   console.error('Export failed:', error);
-                  alert('Failed to export file. Please try again.');
+                  notificationCenter.notify({ severity: 'error', category: 'exports', title: 'Export failed', message: 'Please try again.' });
                 }
               }}
               className="px-3 py-1 rounded-lg text-sm font-semibold transition-colors bg-green-500 hover:bg-green-600 text-white flex items-center gap-2"
@@ -0,0 +1,454 @@
+import { useEffect, useState } from 'react'
+import { FirestoreService, type FirestoreDocument } from '../services/firestore'
+import {
+  NOTIFICATION_SEVERITIES,
+  type EscalationCondition,
+  type EscalationConditionType,
+  type NotificationDoc,
+  type NotificationSeverity,
+} from '../services/firestoreSchemas'
+import {
+  CONDITION_LABELS,
+  defaultCondition,
+  describeEscalationRule,
+  emptyEscalationRule,
+  previewEscalationRule,
+  validateEscalationRule,
+  type EscalationRuleInput,
+} from '../services/escalationRules'
+import { notificationsQuery } from '../services/queryBuilder'
+import { actorFromUser } from '../services/notificationWorkflow'
+import { useAuth } from '../hooks/useAuth'
+import { useCollection } from '../hooks/useFirestore'
+import { formatAge } from '../utils/relativeTime'
+import { SeverityChip } from './NotificationChips'
+
+interface EscalationRulesEditorProps {
+  onClose: () => void
+}
+
+const PREVIEW_WINDOWS = [30, 90, 180]
+const PREVIEW_LIMIT = 500
+const PREVIEW_ROWS = 25
+
+// Comma-separated list input → trimmed, non-empty entries
+function parseList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean)
+}
+
+// Rules editor with a dry run of the rule being edited against past notifications
+export function EscalationRulesEditor({ onClose }: EscalationRulesEditorProps) {
+  const { user } = useAuth()
+  const rules = useCollection('safety_escalation_rules')
+  // null: nothing selected; 'new': an unsaved rule
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [draft, setDraft] = useState<EscalationRuleInput>(emptyEscalationRule)
+  const [saving, setSaving] = useState(false)
+  const [saveError, setSaveError] = useState<string | null>(null)
+  const [showProblems, setShowProblems] = useState(false)
+  // The list inputs are uncontrolled so typing a comma isn't reformatted away;
+  // bumped when a condition is removed so the rows below it remount with their own values
+  const [conditionsVersion, setConditionsVersion] = useState(0)
+  const [previewDays, setPreviewDays] = useState(PREVIEW_WINDOWS[0])
+  const [history, setHistory] = useState<{ days: number; documents: FirestoreDocument<NotificationDoc>[] } | null>(null)
+  const [historyLoading, setHistoryLoading] = useState(false)
+  const [historyError, setHistoryError] = useState<string | null>(null)
+
+  const sortedRules = [...rules.documents].sort((a, b) => a.data.name.localeCompare(b.data.name))
+  const problems = validateEscalationRule(draft)
+  const preview = history && history.days === previewDays ? previewEscalationRule(draft, history.documents) : null
+
+  // Close on Escape, matching the other modals
+  useEffect(() => {
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose()
+    }
+    document.addEventListener('keydown', handleEscape)
+    return () => document.removeEventListener('keydown', handleEscape)
+  }, [onClose])
+
+  const select = (id: string | null, rule: EscalationRuleInput) => {
+    setSelectedId(id)
+    setDraft({
+      name: rule.name,
+      enabled: rule.enabled,
+      match: rule.match,
+      conditions: rule.conditions,
+      actions: rule.actions,
+    })
+    setSaveError(null)
+    setShowProblems(false)
+  }
+
+  const updateCondition = (index: number, condition: EscalationCondition) => {
+    setDraft(previous => ({
+      ...previous,
+      conditions: previous.conditions.map((item, itemIndex) => (itemIndex === index ? condition : item)),
+    }))
+  }
+
+  const updateActions = (changes: Partial<EscalationRuleInput['actions']>) => {
+    setDraft(previous => ({ ...previous, actions: { ...previous.actions, ...changes } }))
+  }
+
+  const loadHistory = async () => {
+    setHistoryLoading(true)
+    setHistoryError(null)
+    try {
+      const from = new Date(Date.now() - previewDays * 24 * 60 * 60 * 1000)
+      const documents = await FirestoreService.runQuery(notificationsQuery({ from }, PREVIEW_LIMIT))
+      setHistory({ days: previewDays, documents })
+    } catch (error) {
+      setHistoryError(error instanceof Error ? error.message : String(error))
+    } finally {
+      setHistoryLoading(false)
+    }
+  }
+
+  const save = async () => {
+    if (!user || selectedId === null) return
+    if (problems.length > 0) {
+      setShowProblems(true)
+      return
+    }
+    setSaving(true)
+    setSaveError(null)
+    try {
+      const id = await FirestoreService.saveEscalationRule(selectedId === 'new' ? null : selectedId, draft, actorFromUser(user))
+      setSelectedId(id)
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : String(error))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const remove = async () => {
+    if (!selectedId || selectedId === 'new') return
+    if (!window.confirm(`Delete the rule "${draft.name}"? Notifications it escalated go back to their own severity.`)) return
+    setSaving(true)
+    setSaveError(null)
+    try {
+      await FirestoreService.deleteEscalationRule(selectedId)
+      select(null, emptyEscalationRule())
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : String(error))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl shadow-xl max-w-6xl w-full h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Modal Header */}
+        <div className="border-b border-gray-200 px-6 py-4 flex items-center justify-between rounded-t-xl">
+          <div>
+            <h2 className="text-2xl font-semibold text-precepgo-card-title">Escalation Rules</h2>
+            <p className="text-sm text-gray-600">Raise, pin or set deadlines on safety notifications that match</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-full hover:bg-gray-100 transition-colors text-gray-400 hover:text-gray-600"
+            aria-label="Close modal"
+          >
+            <span className="material-symbols-outlined" style={{ fontSize: '24px' }}>
+              close
+            </span>
+          </button>
+        </div>
+
+        {/* Modal Content */}
+        <div className="flex-1 min-h-0 grid grid-cols-1 lg:grid-cols-[1fr_2fr]">
+          {/* Rule list */}
+          <div className="overflow-y-auto border-b lg:border-b-0 lg:border-r border-gray-200 p-4 space-y-2">
+            <button
+              onClick={() => select('new', emptyEscalationRule())}
+              className="w-full px-3 py-2 rounded-lg text-sm font-medium bg-precepgo-orange text-white hover:opacity-90 transition-opacity"
+            >
+              New rule
+            </button>
+            {rules.error && <p className="text-xs text-red-700">{rules.error.message}</p>}
+            {!rules.loading && sortedRules.length === 0 && (
+              <p className="text-xs text-gray-500 text-center py-4">No rules yet.</p>
+            )}
+            {sortedRules.map(rule => (
+              <button
+                key={rule.id}
+                onClick={() => select(rule.id, rule.data)}
+                className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                  rule.id === selectedId ? 'border-blue-400 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium text-gray-900">{rule.data.name}</span>
+                  {!rule.data.enabled && <span className="text-[11px] text-gray-500">Disabled</span>}
+                </div>
+                <p className="text-xs text-gray-500 mt-0.5">{describeEscalationRule(rule.data)}</p>
+              </button>
+            ))}
+          </div>
+
+          {/* Rule form and dry run */}
+          <div className="overflow-y-auto p-6">
+            {selectedId === null ? (
+              <p className="text-center text-gray-500 py-12">Select a rule to edit it, or create a new one.</p>
+            ) : (
+              <div className="space-y-5" key={selectedId}>
+                <div className="flex flex-wrap items-center gap-3">
+                  <input
+                    value={draft.name}
+                    onChange={(e) => setDraft(previous => ({ ...previous, name: e.target.value }))}
+                    placeholder="Rule name"
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={draft.enabled}
+                      onChange={(e) => setDraft(previous => ({ ...previous, enabled: e.target.checked }))}
+                    />
+                    Enabled
+                  </label>
+                </div>
+
+                {/* Conditions */}
+                <div>
+                  <div className="flex items-center gap-2 mb-2">
+                    <h3 className="text-sm font-semibold text-gray-700">When</h3>
+                    <select
+                      value={draft.match}
+                      onChange={(e) => setDraft(previous => ({ ...previous, match: e.target.value as EscalationRuleInput['match'] }))}
+                      className="px-2 py-1 border border-gray-300 rounded-lg bg-white text-xs"
+                    >
+                      <option value="all">all of these hold</option>
+                      <option value="any">any of these holds</option>
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    {draft.conditions.map((condition, index) => (
+                      <div key={`${conditionsVersion}-${index}`} className="flex flex-wrap items-center gap-2 p-2 rounded-lg bg-gray-50 text-xs text-gray-700">
+                        <span className="font-medium">{CONDITION_LABELS[condition.type]}</span>
+                        {condition.type === 'negative_fields' && (
+                          <input
+                            defaultValue={condition.fields.join(', ')}
+                            onChange={(e) => updateCondition(index, { ...condition, fields: parseList(e.target.value) })}
+                            placeholder="pc_3, pc_7"
+                            className="flex-1 px-2 py-1 border border-gray-300 rounded font-mono"
+                          />
+                        )}
+                        {condition.type === 'case_type' && (
+                          <input
+                            defaultValue={condition.case_types.join(', ')}
+                            onChange={(e) => updateCondition(index, { ...condition, case_types: parseList(e.target.value) })}
+                            placeholder="Cardiac, Pediatric"
+                            className="flex-1 px-2 py-1 border border-gray-300 rounded"
+                          />
+                        )}
+                        {condition.type === 'repeat_student' && (
+                          <>
+                            <input
+                              type="number"
+                              min={2}
+                              value={condition.count}
+                              onChange={(e) => updateCondition(index, { ...condition, count: Number(e.target.value) })}
+                              className="w-16 px-2 py-1 border border-gray-300 rounded"
+                            />
+                            <span>or more times within</span>
+                            <input
+                              type="number"
+                              min={1}
+                              value={condition.within_days}
+                              onChange={(e) => updateCondition(index, { ...condition, within_days: Number(e.target.value) })}
+                              className="w-16 px-2 py-1 border border-gray-300 rounded"
+                            />
+                            <span>days</span>
+                          </>
+                        )}
+                        <button
+                          onClick={() => {
+                            setDraft(previous => ({
+                              ...previous,
+                              conditions: previous.conditions.filter((_, itemIndex) => itemIndex !== index),
+                            }))
+                            setConditionsVersion(version => version + 1)
+                          }}
+                          className="ml-auto p-1 rounded hover:bg-gray-200 text-gray-400 hover:text-gray-600"
+                          aria-label="Remove condition"
+                        >
+                          <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>close</span>
+                        </button>
+                      </div>
+                    ))}
+                    <select
+                      value=""
+                      onChange={(e) => {
+                        const type = e.target.value as EscalationConditionType
+                        if (type) setDraft(previous => ({ ...previous, conditions: [...previous.conditions, defaultCondition(type)] }))
+                      }}
+                      className="px-2 py-1 border border-gray-300 rounded-lg bg-white text-xs"
+                    >
+                      <option value="">Add condition...</option>
+                      {(Object.keys(CONDITION_LABELS) as EscalationConditionType[]).map(type => (
+                        <option key={type} value={type}>{CONDITION_LABELS[type]}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                {/* Actions */}
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-700 mb-2">Then</h3>
+                  <div className="space-y-2 text-xs text-gray-700">
+                    <label className="flex items-center gap-2">
+                      Raise severity to
+                      <select
+                        value={draft.actions.raise_severity ?? ''}
+                        onChange={(e) => updateActions({ raise_severity: (e.target.value || null) as NotificationSeverity | null })}
+                        className="px-2 py-1 border border-gray-300 rounded-lg bg-white capitalize"
+                      >
+                        <option value="">(leave as is)</option>
+                        {NOTIFICATION_SEVERITIES.map(severity => (
+                          <option key={severity} value={severity}>{severity}</option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={draft.actions.pin}
+                        onChange={(e) => updateActions({ pin: e.target.checked })}
+                      />
+                      Pin to the top of the inbox
+                    </label>
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={draft.actions.acknowledge_within_hours !== null}
+                        onChange={(e) => updateActions({ acknowledge_within_hours: e.target.checked ? 24 : null })}
+                      />
+                      Require acknowledgement within
+                      <input
+                        type="number"
+                        min={1}
+                        value={draft.actions.acknowledge_within_hours ?? ''}
+                        disabled={draft.actions.acknowledge_within_hours === null}
+                        onChange={(e) => updateActions({ acknowledge_within_hours: Number(e.target.value) })}
+                        className="w-16 px-2 py-1 border border-gray-300 rounded disabled:bg-gray-100"
+                      />
+                      hours
+                    </label>
+                  </div>
+                </div>
+
+                {showProblems && problems.length > 0 && (
+                  <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+                    <ul className="text-xs text-amber-800 list-disc pl-4">
+                      {problems.map(problem => <li key={problem}>{problem}</li>)}
+                    </ul>
+                  </div>
+                )}
+                {saveError && (
+                  <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                    <p className="text-xs text-red-700">{saveError}</p>
+                  </div>
+                )}
+
+                <div className="flex gap-2 justify-end">
+                  {selectedId !== 'new' && (
+                    <button
+                      onClick={remove}
+                      disabled={saving}
+                      className="px-3 py-1.5 rounded-lg text-xs font-medium text-red-600 hover:bg-red-50 transition-colors disabled:opacity-50"
+                    >
+                      Delete
+                    </button>
+                  )}
+                  <button
+                    onClick={save}
+                    disabled={saving}
+                    className="px-3 py-1.5 rounded-lg text-xs font-medium bg-precepgo-orange text-white hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {saving ? 'Saving...' : 'Save rule'}
+                  </button>
+                </div>
+
+                {/* Dry run */}
+                <div className="border-t border-gray-200 pt-4">
+                  <div className="flex flex-wrap items-center gap-2 mb-3">
+                    <h3 className="text-sm font-semibold text-gray-700">Dry run</h3>
+                    <select
+                      value={previewDays}
+                      onChange={(e) => setPreviewDays(Number(e.target.value))}
+                      className="px-2 py-1 border border-gray-300 rounded-lg bg-white text-xs"
+                    >
+                      {PREVIEW_WINDOWS.map(days => (
+                        <option key={days} value={days}>Last {days} days</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={loadHistory}
+                      disabled={historyLoading}
+                      className="px-3 py-1 rounded-lg text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors disabled:opacity-50"
+                    >
+                      {historyLoading ? 'Loading...' : preview ? 'Reload history' : 'Preview against history'}
+                    </button>
+                  </div>
+                  {historyError && <p className="text-xs text-red-700">{historyError}</p>}
+                  {preview && history && (
+                    <div className="space-y-2">
+                      <p className="text-xs text-gray-600">
+                        Matches {preview.matches.length} of {history.documents.length} notifications
+                        {history.documents.length === PREVIEW_LIMIT && ' (most recent only)'} · {preview.raised} raised in severity
+                        {draft.actions.acknowledge_within_hours !== null && ` · ${preview.overdue} would be overdue for acknowledgement`}
+                      </p>
+                      {preview.matches.length > 0 && (
+                        <table className="w-full text-xs">
+                          <thead className="bg-gray-50 text-gray-500 text-left">
+                            <tr>
+                              <th className="px-2 py-1">Student</th>
+                              <th className="px-2 py-1">Case type</th>
+                              <th className="px-2 py-1">Severity</th>
+                              <th className="px-2 py-1">Age</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {preview.matches.slice(0, PREVIEW_ROWS).map(({ notification, escalation }) => (
+                              <tr key={notification.id} className="border-b border-gray-100">
+                                <td className="px-2 py-1">{notification.data.preceptee_name || 'Unknown student'}</td>
+                                <td className="px-2 py-1">{notification.data.case_type || '—'}</td>
+                                <td className="px-2 py-1">
+                                  {escalation.raisedFrom ? (
+                                    <span className="flex items-center gap-1">
+                                      <SeverityChip severity={escalation.raisedFrom} /> → <SeverityChip severity={escalation.severity} />
+                                    </span>
+                                  ) : (
+                                    <SeverityChip severity={escalation.severity} />
+                                  )}
+                                </td>
+                                <td className="px-2 py-1 text-gray-500">{formatAge(notification.createdAt)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                      {preview.matches.length > PREVIEW_ROWS && (
+                        <p className="text-xs text-gray-500">and {preview.matches.length - PREVIEW_ROWS} more</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
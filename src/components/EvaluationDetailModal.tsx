@@ -0,0 +1,132 @@
+import { useDocument } from '../hooks/useFirestore'
+import { dangerousRatingFields } from '../services/firestoreSchemas'
+
+interface EvaluationDetailModalProps {
+  evaluationId: string
+  onClose: () => void
+}
+
+// Ratings in numeric order: pc_2 before pc_10
+function ratingFields(data: Record<string, unknown>, prefix: 'ac' | 'pc'): string[] {
+  return Object.keys(data)
+    .filter(key => new RegExp(`^${prefix}_\\d+$`).test(key) && typeof data[key] === 'number')
+    .sort((a, b) => Number(a.slice(3)) - Number(b.slice(3)))
+}
+
+// The source evaluation of a safety notification, with its dangerous ratings highlighted
+export function EvaluationDetailModal({ evaluationId, onClose }: EvaluationDetailModalProps) {
+  const { data, loading, error } = useDocument('agent_evaluations', evaluationId)
+  const dangerous = data ? new Set(dangerousRatingFields(data)) : new Set<string>()
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Modal Header */}
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between rounded-t-xl">
+          <div>
+            <h2 className="text-2xl font-semibold text-precepgo-card-title">Evaluation</h2>
+            <p className="text-xs text-gray-500 font-mono">{evaluationId}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-full hover:bg-gray-100 transition-colors text-gray-400 hover:text-gray-600"
+            aria-label="Close modal"
+          >
+            <span className="material-symbols-outlined" style={{ fontSize: '24px' }}>
+              close
+            </span>
+          </button>
+        </div>
+
+        {/* Modal Content */}
+        <div className="px-6 py-6">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="w-10 h-10 border-4 border-precepgo-orange/30 border-t-precepgo-orange rounded-full animate-spin"></div>
+            </div>
+          ) : error ? (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-xs text-red-700">{error.message}</p>
+            </div>
+          ) : !data ? (
+            <p className="text-center text-gray-500 py-8">This evaluation no longer exists.</p>
+          ) : (
+            <div className="space-y-4 text-sm text-gray-700">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <p className="text-xs text-gray-500">Student</p>
+                  <p className="font-medium">{data.preceptee_user_name || '—'}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">Preceptor</p>
+                  <p className="font-medium">{data.preceptor_name || '—'}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">Case type</p>
+                  <p className="font-medium">{data.case_type || '—'}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">Class standing</p>
+                  <p className="font-medium">{data.class_standing ?? '—'}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">Completed</p>
+                  <p className="font-medium">{data.completion_date ? data.completion_date.toLocaleString() : '—'}</p>
+                </div>
+              </div>
+
+              {(['pc', 'ac'] as const).map(prefix => {
+                const fields = ratingFields(data, prefix)
+                if (fields.length === 0) return null
+                return (
+                  <div key={prefix}>
+                    <p className="text-xs font-semibold text-gray-600 mb-1">
+                      {prefix === 'pc' ? 'Performance ratings' : 'Competency ratings'}
+                    </p>
+                    <div className="flex flex-wrap gap-1">
+                      {fields.map(field => (
+                        <span
+                          key={field}
+                          className={`px-2 py-0.5 rounded text-xs font-mono ${
+                            dangerous.has(field) ? 'bg-red-600 text-white' : 'bg-gray-100 text-gray-700'
+                          }`}
+                        >
+                          {field}: {String(data[field])}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )
+              })}
+
+              {data.preceptor_comment && (
+                <div>
+                  <p className="text-xs font-semibold text-gray-600 mb-1">Preceptor comment</p>
+                  <p className="whitespace-pre-wrap">{data.preceptor_comment}</p>
+                </div>
+              )}
+              {data.comments && (
+                <div>
+                  <p className="text-xs font-semibold text-gray-600 mb-1">Comments</p>
+                  <p className="whitespace-pre-wrap">{data.comments}</p>
+                </div>
+              )}
+              {data.focus_areas && (
+                <div>
+                  <p className="text-xs font-semibold text-gray-600 mb-1">Focus areas</p>
+                  <p className="whitespace-pre-wrap">{data.focus_areas}</p>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,27 @@
+import type { AnchorHTMLAttributes, MouseEvent } from 'react'
+import { router } from '../services/router'
+import { locationUrl, type AppLocation, type Route } from '../utils/routes'
+
+interface LinkProps extends Omit<AnchorHTMLAttributes<HTMLAnchorElement>, 'href'> {
+  /** A page, or a page with an overlay open */
+  to: Route | AppLocation
+}
+
+// A real link to a dashboard URL: opens in a new tab as usual, and plain
+// clicks navigate in place
+export function Link({ to, onClick, children, ...props }: LinkProps) {
+  const target: AppLocation = 'route' in to ? to : { route: to, overlay: null }
+
+  const handleClick = (event: MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(event)
+    if (event.defaultPrevented || event.button !== 0 || event.metaKey || event.ctrlKey || event.shiftKey || event.altKey) return
+    event.preventDefault()
+    router.navigate(target)
+  }
+
+  return (
+    <a href={locationUrl(target)} onClick={handleClick} {...props}>
+      {children}
+    </a>
+  )
+}
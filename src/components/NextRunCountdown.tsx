@@ -0,0 +1,26 @@
+import type { AgentScheduleEntry, QuietHours } from '../services/firestoreSchemas'
+import { nextRunTime } from '../services/automationSchedule'
+import { useNow } from '../hooks/useNow'
+import { formatTimeLeft } from '../utils/relativeTime'
+
+interface NextRunCountdownProps {
+  entry: AgentScheduleEntry
+  quietHours: QuietHours
+}
+
+// Time until automated mode next runs an agent, for its card; ticks on its own
+// so the rest of the card doesn't re-render every second
+export function NextRunCountdown({ entry, quietHours }: NextRunCountdownProps) {
+  const now = useNow(1000)
+  const next = nextRunTime(entry, quietHours, now)
+  if (!next) return null
+
+  return (
+    <p
+      className="text-xs text-gray-600 font-medium mt-1"
+      title={next.toLocaleString(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+    >
+      ⏭️ Next automated run in {formatTimeLeft(next.getTime() - now.getTime())}
+    </p>
+  )
+}
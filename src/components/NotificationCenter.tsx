@@ -0,0 +1,156 @@
+import { useEffect, useRef, useState } from 'react'
+import {
+  APP_EVENT_CATEGORIES,
+  notificationCenter,
+  type AppEventCategory,
+} from '../services/notificationCenter'
+import {
+  DESKTOP_CATEGORIES,
+  desktopNotifications,
+  type DesktopCategory,
+} from '../services/desktopNotifications'
+import { useNotificationCenter } from '../hooks/useNotificationCenter'
+import { useDesktopNotifications } from '../hooks/useDesktopNotifications'
+import { formatAge } from '../utils/relativeTime'
+import { AppEventIcon } from './AppEventIcon'
+
+// Header bell with the unread count; opens the recent events and mute settings
+export function NotificationCenter() {
+  const { events, muted, unread } = useNotificationCenter()
+  const desktop = useDesktopNotifications()
+  const [open, setOpen] = useState(false)
+  const [showSettings, setShowSettings] = useState(false)
+  const panelRef = useRef<HTMLDivElement | null>(null)
+
+  // Closing the panel counts as reading what's in it
+  const close = () => {
+    notificationCenter.markAllRead()
+    setOpen(false)
+    setShowSettings(false)
+  }
+
+  // Close when clicking outside, like the agent dropdowns
+  useEffect(() => {
+    if (!open) return
+    const handleClickOutside = (event: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(event.target as Node)) {
+        notificationCenter.markAllRead()
+        setOpen(false)
+        setShowSettings(false)
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [open])
+
+  return (
+    <div className="relative" ref={panelRef}>
+      <button
+        onClick={() => (open ? close() : setOpen(true))}
+        className="relative p-2 rounded-full bg-white/80 shadow-sm hover:bg-white transition-colors text-gray-600"
+        aria-label={`Notifications${unread > 0 ? ` (${unread} unread)` : ''}`}
+        title="Notifications"
+      >
+        <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>
+          notifications
+        </span>
+        {unread > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-600 text-white text-[10px] font-semibold flex items-center justify-center">
+            {unread > 99 ? '99+' : unread}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-96 max-w-[calc(100vw-2rem)] bg-white rounded-xl shadow-xl border border-gray-200 z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+            <h3 className="text-sm font-semibold text-precepgo-card-title">Notifications</h3>
+            <div className="flex items-center gap-1">
+              {events.length > 0 && !showSettings && (
+                <button
+                  onClick={() => notificationCenter.clear()}
+                  className="px-2 py-1 rounded text-xs text-gray-500 hover:bg-gray-100"
+                >
+                  Clear
+                </button>
+              )}
+              <button
+                onClick={() => setShowSettings(!showSettings)}
+                className={`p-1 rounded hover:bg-gray-100 ${showSettings ? 'text-precepgo-card-title' : 'text-gray-500'}`}
+                aria-label="Notification settings"
+                title="Notification settings"
+              >
+                <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>settings</span>
+              </button>
+            </div>
+          </div>
+
+          {showSettings ? (
+            <div className="px-4 py-3 space-y-2">
+              <p className="text-xs text-gray-500">Muted categories are still listed here, without pop-up toasts.</p>
+              {(Object.keys(APP_EVENT_CATEGORIES) as AppEventCategory[]).map(category => (
+                <label key={category} className="flex items-center justify-between text-sm text-gray-700">
+                  {APP_EVENT_CATEGORIES[category]}
+                  <span className="flex items-center gap-2 text-xs text-gray-500">
+                    Mute
+                    <input
+                      type="checkbox"
+                      checked={muted.includes(category)}
+                      onChange={(e) => notificationCenter.setMuted(category, e.target.checked)}
+                    />
+                  </span>
+                </label>
+              ))}
+
+              <div className="pt-3 mt-1 border-t border-gray-100 space-y-2">
+                <p className="text-xs font-semibold text-gray-700">Desktop notifications</p>
+                {desktop.permission === 'unsupported' ? (
+                  <p className="text-xs text-gray-500">Not supported in this browser.</p>
+                ) : (
+                  <>
+                    <p className="text-xs text-gray-500">
+                      {desktop.permission === 'denied'
+                        ? 'Blocked in browser settings; allow notifications for this site to turn them on.'
+                        : 'Shown while the dashboard is in the background. Clicking one opens what it is about.'}
+                    </p>
+                    {(Object.keys(DESKTOP_CATEGORIES) as DesktopCategory[]).map(category => (
+                      <label key={category} className="flex items-center justify-between text-sm text-gray-700">
+                        {DESKTOP_CATEGORIES[category]}
+                        <input
+                          type="checkbox"
+                          checked={desktop.permission === 'granted' && desktop.enabled.includes(category)}
+                          disabled={desktop.permission === 'denied'}
+                          onChange={(e) => desktopNotifications.setEnabled(category, e.target.checked)}
+                        />
+                      </label>
+                    ))}
+                  </>
+                )}
+              </div>
+            </div>
+          ) : events.length === 0 ? (
+            <p className="px-4 py-8 text-center text-sm text-gray-500">No notifications yet.</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+              {events.map(event => (
+                <li key={event.id} className={`px-4 py-3 flex items-start gap-2 ${event.read ? '' : 'bg-blue-50/50'}`}>
+                  <AppEventIcon severity={event.severity} />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-gray-900">
+                      {event.title}
+                      {event.count > 1 && <span className="ml-1 text-xs text-gray-500">×{event.count}</span>}
+                    </p>
+                    {event.message && <p className="text-xs text-gray-600 break-words">{event.message}</p>}
+                    <p className="text-[11px] text-gray-400 mt-0.5">
+                      {APP_EVENT_CATEGORIES[event.category]} · {formatAge(new Date(event.updatedAt))}
+                    </p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+import type { NotificationSeverity, NotificationStatus } from '../services/firestoreSchemas'
+
+const STATUS_STYLES: Record<NotificationStatus, string> = {
+  open: 'bg-red-100 text-red-700',
+  acknowledged: 'bg-amber-100 text-amber-800',
+  resolved: 'bg-green-100 text-green-700',
+}
+
+const SEVERITY_STYLES: Record<NotificationSeverity, string> = {
+  critical: 'bg-red-600 text-white',
+  high: 'bg-orange-100 text-orange-800',
+  moderate: 'bg-yellow-100 text-yellow-800',
+}
+
+export function StatusChip({ status }: { status: NotificationStatus }) {
+  return (
+    <span className={`px-2 py-0.5 rounded-full text-xs font-semibold capitalize ${STATUS_STYLES[status]}`}>
+      {status}
+    </span>
+  )
+}
+
+export function SeverityChip({ severity }: { severity: NotificationSeverity }) {
+  return (
+    <span className={`px-2 py-0.5 rounded-full text-xs font-semibold capitalize ${SEVERITY_STYLES[severity]}`}>
+      {severity}
+    </span>
+  )
+}
+
+// The pc_* fields the preceptor rated dangerous
+export function NegativeFieldChips({ fields }: { fields: string[] }) {
+  if (fields.length === 0) return null
+  return (
+    <div className="flex flex-wrap gap-1">
+      {fields.map(field => (
+        <span key={field} className="px-2 py-0.5 bg-red-50 border border-red-200 text-red-700 rounded text-xs font-mono">
+          {field}
+        </span>
+      ))}
+    </div>
+  )
+}
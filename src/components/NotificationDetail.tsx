@@ -0,0 +1,273 @@
+import { useEffect, useState } from 'react'
+import { FirestoreService, type FirestoreDocument } from '../services/firestore'
+import type { NotificationAuditEntry, NotificationDoc } from '../services/firestoreSchemas'
+import { actorFromUser, type NotificationAction } from '../services/notificationWorkflow'
+import { useAuth } from '../hooks/useAuth'
+import { NegativeFieldChips, SeverityChip, StatusChip } from './NotificationChips'
+
+interface NotificationDetailProps {
+  notification: FirestoreDocument<NotificationDoc>
+  /** Show the workflow actions (the manage_safety_notifications permission) */
+  canManage: boolean
+  /** Open the source evaluation (evaluation_doc_id); the link is hidden without it */
+  onViewEvaluation?: (evaluationId: string) => void
+}
+
+const AUDIT_LABELS: Record<NotificationAuditEntry['action'], string> = {
+  acknowledged: 'acknowledged the notification',
+  assigned: 'assigned it to',
+  unassigned: 'removed the assignment',
+  commented: 'commented',
+  resolved: 'resolved the notification',
+  reopened: 'reopened the notification',
+}
+
+// One safety notification with its workflow actions and audit trail
+export function NotificationDetail({ notification, canManage, onViewEvaluation }: NotificationDetailProps) {
+  const { user } = useAuth()
+  const data = notification.data
+  const [auditTrail, setAuditTrail] = useState<FirestoreDocument<NotificationAuditEntry>[]>([])
+  const [auditError, setAuditError] = useState<string | null>(null)
+  const [pendingAction, setPendingAction] = useState<NotificationAction['type'] | null>(null)
+  const [actionError, setActionError] = useState<string | null>(null)
+  const [comment, setComment] = useState('')
+  const [assigneeName, setAssigneeName] = useState('')
+  const [resolution, setResolution] = useState('')
+  const [resolving, setResolving] = useState(false)
+
+  useEffect(() => {
+    setAuditTrail([])
+    setAuditError(null)
+    return FirestoreService.listenToNotificationAudit(
+      notification.id,
+      setAuditTrail,
+      (error) => setAuditError(error.message)
+    )
+  }, [notification.id])
+
+  // Reset the forms when switching notifications
+  useEffect(() => {
+    setActionError(null)
+    setComment('')
+    setAssigneeName('')
+    setResolution('')
+    setResolving(false)
+  }, [notification.id])
+
+  const perform = async (action: NotificationAction) => {
+    if (!user) return
+    setPendingAction(action.type)
+    setActionError(null)
+    try {
+      await FirestoreService.updateNotification(notification.id, action, actorFromUser(user))
+      if (action.type === 'comment') setComment('')
+      if (action.type === 'assign') setAssigneeName('')
+      if (action.type === 'resolve') {
+        setResolution('')
+        setResolving(false)
+      }
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : String(error))
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  const busy = pendingAction !== null
+  const assignedToMe = !!user && data.assigned_to?.uid === user.uid
+
+  return (
+    <div className="space-y-5">
+      {/* Summary */}
+      <div>
+        <div className="flex flex-wrap items-center gap-2 mb-2">
+          <StatusChip status={data.status} />
+          <SeverityChip severity={data.severity} />
+          <span className="text-xs text-gray-500">
+            {notification.createdAt ? notification.createdAt.toLocaleString() : 'Unknown date'}
+          </span>
+        </div>
+        <h3 className="text-lg font-semibold text-precepgo-card-title">{data.preceptee_name || 'Unknown student'}</h3>
+        <p className="text-sm text-gray-600">
+          {data.case_type || 'Unknown case'} · Preceptor: {data.preceptor_name || 'Unknown'}
+        </p>
+        <div className="mt-2">
+          <NegativeFieldChips fields={data.negative_fields} />
+        </div>
+        {onViewEvaluation && data.evaluation_doc_id && (
+          <button
+            onClick={() => onViewEvaluation(data.evaluation_doc_id as string)}
+            className="mt-2 text-xs text-blue-600 hover:text-blue-800"
+          >
+            View source evaluation
+          </button>
+        )}
+        <p className="text-sm text-gray-700 mt-3">
+          Assigned to: <span className="font-medium">{data.assigned_to?.name ?? 'Unassigned'}</span>
+        </p>
+        {data.status === 'resolved' && (
+          <p className="text-sm text-gray-700 mt-1">
+            Resolved by <span className="font-medium">{data.resolved_by?.name ?? 'Unknown'}</span>
+            {data.resolved_at && ` on ${data.resolved_at.toLocaleString()}`}
+            {data.resolution && <>: <span className="italic">{data.resolution}</span></>}
+          </p>
+        )}
+      </div>
+
+      {actionError && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+          <p className="text-xs text-red-700">{actionError}</p>
+        </div>
+      )}
+
+      {/* Workflow actions */}
+      {canManage && user && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-2">
+            {data.status === 'open' && (
+              <button
+                onClick={() => perform({ type: 'acknowledge' })}
+                disabled={busy}
+                className="px-3 py-1.5 rounded-lg text-xs font-medium bg-amber-100 text-amber-800 hover:bg-amber-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {pendingAction === 'acknowledge' ? 'Acknowledging...' : 'Acknowledge'}
+              </button>
+            )}
+            {data.status !== 'resolved' && (
+              <button
+                onClick={() => perform({ type: 'assign', assignee: assignedToMe ? null : actorFromUser(user) })}
+                disabled={busy}
+                className="px-3 py-1.5 rounded-lg text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {assignedToMe ? 'Unassign me' : 'Assign to me'}
+              </button>
+            )}
+            {data.status !== 'resolved' && !resolving && (
+              <button
+                onClick={() => setResolving(true)}
+                disabled={busy}
+                className="px-3 py-1.5 rounded-lg text-xs font-medium bg-green-100 text-green-700 hover:bg-green-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Resolve...
+              </button>
+            )}
+            {data.status === 'resolved' && (
+              <button
+                onClick={() => perform({ type: 'reopen' })}
+                disabled={busy}
+                className="px-3 py-1.5 rounded-lg text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {pendingAction === 'reopen' ? 'Reopening...' : 'Reopen'}
+              </button>
+            )}
+          </div>
+
+          {data.status !== 'resolved' && (
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault()
+                if (assigneeName.trim()) perform({ type: 'assign', assignee: { name: assigneeName.trim() } })
+              }}
+            >
+              <input
+                value={assigneeName}
+                onChange={(e) => setAssigneeName(e.target.value)}
+                placeholder="Assign to (name or email)"
+                className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                type="submit"
+                disabled={busy || !assigneeName.trim()}
+                className="px-3 py-1.5 rounded-lg text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Assign
+              </button>
+            </form>
+          )}
+
+          {resolving && (
+            <form
+              className="space-y-2"
+              onSubmit={(e) => {
+                e.preventDefault()
+                perform({ type: 'resolve', resolution })
+              }}
+            >
+              <textarea
+                value={resolution}
+                onChange={(e) => setResolution(e.target.value)}
+                placeholder="Resolution note (optional), e.g. remediation plan agreed with the student"
+                rows={2}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-green-500"
+              />
+              <div className="flex gap-2 justify-end">
+                <button
+                  type="button"
+                  onClick={() => setResolving(false)}
+                  className="px-3 py-1.5 rounded-lg text-xs font-medium text-gray-600 hover:bg-gray-100 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={busy}
+                  className="px-3 py-1.5 rounded-lg text-xs font-medium bg-green-600 text-white hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {pendingAction === 'resolve' ? 'Resolving...' : 'Mark resolved'}
+                </button>
+              </div>
+            </form>
+          )}
+
+          <form
+            className="space-y-2"
+            onSubmit={(e) => {
+              e.preventDefault()
+              perform({ type: 'comment', text: comment })
+            }}
+          >
+            <textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Add a comment"
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={busy || !comment.trim()}
+                className="px-3 py-1.5 rounded-lg text-xs font-medium bg-precepgo-orange text-white hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {pendingAction === 'comment' ? 'Posting...' : 'Comment'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Audit trail */}
+      <div>
+        <h4 className="text-sm font-semibold text-gray-700 mb-2">Activity</h4>
+        {auditError ? (
+          <p className="text-xs text-red-700">{auditError}</p>
+        ) : auditTrail.length === 0 ? (
+          <p className="text-xs text-gray-500">No activity yet.</p>
+        ) : (
+          <ol className="space-y-2 border-l-2 border-gray-200 pl-3">
+            {auditTrail.map(({ id, data: entry }) => (
+              <li key={id} className="text-xs text-gray-700">
+                <span className="font-medium">{entry.actor.name}</span>{' '}
+                {AUDIT_LABELS[entry.action]}
+                {entry.action === 'assigned' && entry.assignee && <> <span className="font-medium">{entry.assignee.name}</span></>}
+                <span className="text-gray-400"> · {entry.at ? entry.at.toLocaleString() : 'just now'}</span>
+                {entry.comment && <p className="mt-0.5 text-gray-600 whitespace-pre-wrap">{entry.comment}</p>}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  )
+}
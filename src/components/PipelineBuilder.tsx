@@ -0,0 +1,421 @@
+import { useEffect, useState } from 'react'
+import {
+  PIPELINE_RUN_STATUS_LABELS,
+  STEP_STATUS_LABELS,
+  pipelineId,
+  pipelineLayers,
+  pipelineStepId,
+  validatePipeline,
+  type PipelineDefinition,
+  type PipelineRunStatus,
+  type StepRun,
+  type StepStatus,
+} from '../services/agentPipeline'
+import { pipelineRunner } from '../services/pipelineRunner'
+import { usePipelines } from '../hooks/usePipelines'
+import { useNow } from '../hooks/useNow'
+import { formatDuration } from '../utils/relativeTime'
+
+interface PipelineAgent {
+  apiName: string
+  name: string
+  icon: string
+}
+
+interface PipelineBuilderProps {
+  agents: PipelineAgent[]
+  /** Manual runs, and so pipelines, are refused while automated mode is on */
+  automatedMode: boolean
+  onClose: () => void
+}
+
+const STEP_STYLES: Record<StepStatus, { box: string; chip: string }> = {
+  pending: { box: 'border-gray-200 bg-white', chip: 'bg-gray-100 text-gray-600' },
+  starting: { box: 'border-blue-300 bg-blue-50', chip: 'bg-blue-100 text-blue-700' },
+  running: { box: 'border-blue-400 bg-blue-50', chip: 'bg-blue-100 text-blue-700 animate-pulse' },
+  succeeded: { box: 'border-green-300 bg-green-50', chip: 'bg-green-100 text-green-700' },
+  failed: { box: 'border-red-300 bg-red-50', chip: 'bg-red-100 text-red-700' },
+  skipped: { box: 'border-gray-200 bg-gray-50', chip: 'bg-gray-100 text-gray-500' },
+}
+
+const RUN_STATUS_STYLES: Record<PipelineRunStatus, string> = {
+  running: 'bg-blue-100 text-blue-700',
+  halted: 'bg-red-100 text-red-700',
+  succeeded: 'bg-green-100 text-green-700',
+  failed: 'bg-amber-100 text-amber-800',
+}
+
+function emptyPipeline(): PipelineDefinition {
+  return { id: pipelineId(), name: '', steps: [], halt_on_failure: true }
+}
+
+function stepDuration(step: StepRun | undefined, now: Date): string | null {
+  if (!step?.startedAt) return null
+  return formatDuration((step.endedAt ?? now.getTime()) - step.startedAt)
+}
+
+// Build agent pipelines as a DAG of steps, run them, and follow or resume a run
+export function PipelineBuilder({ agents, automatedMode, onClose }: PipelineBuilderProps) {
+  const { pipelines, run, runningElsewhere } = usePipelines()
+  const [selectedId, setSelectedId] = useState<string | null>(() => run?.pipelineId ?? pipelines[0]?.id ?? null)
+  // Unsaved edits of the selected pipeline; null while it matches what is saved
+  const [draft, setDraft] = useState<PipelineDefinition | null>(null)
+  const [showProblems, setShowProblems] = useState(false)
+  const now = useNow(1000)
+
+  const saved = pipelines.find(pipeline => pipeline.id === selectedId) ?? null
+  const pipeline = draft ?? saved
+  const problems = pipeline ? validatePipeline(pipeline) : []
+  const agentsByName = new Map(agents.map(agent => [agent.apiName, agent]))
+  const running = run?.status === 'running'
+  const selectedRun = run && run.pipelineId === selectedId ? run : null
+  const layers = pipeline ? pipelineLayers(pipeline.steps) : []
+  const unusedAgents = agents.filter(agent => !pipeline?.steps.some(step => step.agent === agent.apiName))
+
+  // Close on Escape, matching the other modals
+  useEffect(() => {
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose()
+    }
+    document.addEventListener('keydown', handleEscape)
+    return () => document.removeEventListener('keydown', handleEscape)
+  }, [onClose])
+
+  const select = (id: string | null) => {
+    setSelectedId(id)
+    setDraft(null)
+    setShowProblems(false)
+  }
+
+  const edit = (changes: Partial<PipelineDefinition>) => {
+    if (!pipeline) return
+    setDraft({ ...pipeline, ...changes })
+  }
+
+  const agentName = (apiName: string) => agentsByName.get(apiName)?.name ?? apiName
+
+  const save = (): boolean => {
+    if (!draft) return true
+    if (problems.length > 0) {
+      setShowProblems(true)
+      return false
+    }
+    pipelineRunner.savePipeline({ ...draft, name: draft.name.trim() })
+    setDraft(null)
+    setShowProblems(false)
+    return true
+  }
+
+  const runPipeline = () => {
+    if (!pipeline || !save()) return
+    pipelineRunner.start(pipeline.id)
+  }
+
+  const remove = () => {
+    if (!saved) {
+      select(pipelines[0]?.id ?? null)
+      return
+    }
+    if (!window.confirm(`Delete the pipeline "${saved.name}"?`)) return
+    pipelineRunner.deletePipeline(saved.id)
+    select(pipelines.find(item => item.id !== saved.id)?.id ?? null)
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl shadow-xl max-w-6xl w-full h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Modal Header */}
+        <div className="border-b border-gray-200 px-6 py-4 flex items-center justify-between rounded-t-xl">
+          <div>
+            <h2 className="text-2xl font-semibold text-precepgo-card-title">Agent Pipelines</h2>
+            <p className="text-sm text-gray-600">Chain agents so each runs once the ones it needs have finished</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-full hover:bg-gray-100 transition-colors text-gray-400 hover:text-gray-600"
+            aria-label="Close modal"
+          >
+            <span className="material-symbols-outlined" style={{ fontSize: '24px' }}>
+              close
+            </span>
+          </button>
+        </div>
+
+        {/* Modal Content */}
+        <div className="flex-1 min-h-0 grid grid-cols-1 lg:grid-cols-[1fr_3fr]">
+          {/* Pipeline list */}
+          <div className="overflow-y-auto border-b lg:border-b-0 lg:border-r border-gray-200 p-4 space-y-2">
+            <button
+              onClick={() => {
+                setSelectedId(null)
+                setDraft(emptyPipeline())
+                setShowProblems(false)
+              }}
+              className="w-full px-3 py-2 rounded-lg text-sm font-medium bg-precepgo-orange text-white hover:opacity-90 transition-opacity"
+            >
+              New pipeline
+            </button>
+            {pipelines.length === 0 && (
+              <p className="text-xs text-gray-500 text-center py-4">No pipelines yet.</p>
+            )}
+            {pipelines.map(item => (
+              <button
+                key={item.id}
+                onClick={() => select(item.id)}
+                className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                  item.id === selectedId ? 'border-blue-400 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium text-gray-900">{item.name}</span>
+                  {run?.pipelineId === item.id && (
+                    <span className={`px-1.5 py-0.5 rounded text-[10px] font-semibold ${RUN_STATUS_STYLES[run.status]}`}>
+                      {PIPELINE_RUN_STATUS_LABELS[run.status]}
+                    </span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 mt-0.5">{item.steps.map(step => agentName(step.agent)).join(', ')}</p>
+              </button>
+            ))}
+          </div>
+
+          {/* Pipeline editor and run */}
+          <div className="overflow-y-auto p-6">
+            {!pipeline ? (
+              <p className="text-center text-gray-500 py-12">Select a pipeline, or create a new one.</p>
+            ) : (
+              <div className="space-y-5" key={pipeline.id}>
+                <div className="flex flex-wrap items-center gap-3">
+                  <input
+                    value={pipeline.name}
+                    onChange={(e) => edit({ name: e.target.value })}
+                    placeholder="Pipeline name"
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <label className="flex items-center gap-2 text-sm text-gray-700" title="Otherwise only the steps after the failed one are skipped">
+                    <input
+                      type="checkbox"
+                      checked={pipeline.halt_on_failure}
+                      onChange={(e) => edit({ halt_on_failure: e.target.checked })}
+                    />
+                    Halt when a step fails
+                  </label>
+                </div>
+
+                {/* Run status */}
+                {selectedRun && (
+                  <div className="flex flex-wrap items-center gap-3 p-3 rounded-lg bg-gray-50">
+                    <span className={`px-2 py-0.5 rounded text-xs font-semibold ${RUN_STATUS_STYLES[selectedRun.status]}`}>
+                      {PIPELINE_RUN_STATUS_LABELS[selectedRun.status]}
+                    </span>
+                    <span className="text-xs text-gray-600">
+                      Started {new Date(selectedRun.startedAt).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}
+                      {' · '}{formatDuration((selectedRun.endedAt ?? now.getTime()) - selectedRun.startedAt)}
+                    </span>
+                    {selectedRun.haltReason && <span className="text-xs text-red-700">{selectedRun.haltReason}</span>}
+                    {selectedRun.status === 'running' && runningElsewhere && (
+                      <span className="text-xs text-gray-500">Running from another tab</span>
+                    )}
+                    <div className="ml-auto flex gap-2">
+                      {selectedRun.status === 'running' && (
+                        <button
+                          onClick={() => pipelineRunner.halt()}
+                          className="px-3 py-1 rounded-lg text-xs font-medium bg-red-100 text-red-700 hover:bg-red-200 transition-colors"
+                        >
+                          Halt
+                        </button>
+                      )}
+                      {(selectedRun.status === 'halted' || selectedRun.status === 'failed') && (
+                        <button
+                          onClick={() => pipelineRunner.resume()}
+                          disabled={automatedMode || !!draft}
+                          title={draft ? 'Save or discard your changes first' : 'Run the failed and remaining steps'}
+                          className="px-3 py-1 rounded-lg text-xs font-medium bg-precepgo-orange text-white hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Resume
+                        </button>
+                      )}
+                      {selectedRun.status !== 'running' && (
+                        <button
+                          onClick={() => pipelineRunner.dismiss()}
+                          className="px-3 py-1 rounded-lg text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors"
+                        >
+                          Dismiss
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                )}
+
+                {/* DAG */}
+                <div className="overflow-x-auto">
+                  {layers.length === 0 ? (
+                    <p className="text-xs text-gray-500">Add steps below to build the pipeline.</p>
+                  ) : (
+                    <div className="flex items-stretch gap-2 min-w-max">
+                      {layers.map((layer, index) => (
+                        <div key={index} className="flex items-center gap-2">
+                          {index > 0 && (
+                            <span className="material-symbols-outlined text-gray-400" style={{ fontSize: '20px' }}>arrow_forward</span>
+                          )}
+                          <div className="flex flex-col gap-2">
+                            {layer.map(step => {
+                              const stepRun = selectedRun?.steps[step.id]
+                              const status = stepRun?.status ?? 'pending'
+                              const agent = agentsByName.get(step.agent)
+                              const duration = stepDuration(stepRun, now)
+                              return (
+                                <div key={step.id} className={`w-48 p-2 rounded-lg border ${STEP_STYLES[status].box}`}>
+                                  <div className="flex items-center gap-2">
+                                    {agent && <img src={agent.icon} alt="" className="w-4 h-4" />}
+                                    <span className="text-xs font-medium text-gray-900 truncate">{agentName(step.agent)}</span>
+                                  </div>
+                                  {selectedRun && (
+                                    <div className="flex items-center gap-2 mt-1">
+                                      <span className={`px-1.5 py-0.5 rounded text-[10px] font-semibold ${STEP_STYLES[status].chip}`}>
+                                        {STEP_STATUS_LABELS[status]}
+                                      </span>
+                                      {duration && <span className="text-[11px] text-gray-500">{duration}</span>}
+                                    </div>
+                                  )}
+                                  {step.after.length > 0 && (
+                                    <p className="text-[11px] text-gray-500 mt-1 truncate">
+                                      after {step.after.map(id => agentName(pipeline.steps.find(item => item.id === id)?.agent ?? id)).join(', ')}
+                                    </p>
+                                  )}
+                                  {stepRun?.error && <p className="text-[11px] text-red-700 mt-1 break-words">{stepRun.error}</p>}
+                                </div>
+                              )
+                            })}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {/* Steps */}
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-700 mb-2">Steps</h3>
+                  <div className="space-y-2">
+                    {pipeline.steps.map(step => {
+                      const others = pipeline.steps.filter(item => item.id !== step.id)
+                      return (
+                        <div key={step.id} className="flex flex-wrap items-center gap-2 p-2 rounded-lg bg-gray-50 text-xs text-gray-700">
+                          <span className="font-medium min-w-[140px]">{agentName(step.agent)}</span>
+                          {others.length > 0 && <span className="text-gray-500">runs after</span>}
+                          {others.map(other => (
+                            <label key={other.id} className="flex items-center gap-1">
+                              <input
+                                type="checkbox"
+                                checked={step.after.includes(other.id)}
+                                onChange={(e) => edit({
+                                  steps: pipeline.steps.map(item => item.id !== step.id ? item : {
+                                    ...item,
+                                    after: e.target.checked
+                                      ? [...item.after, other.id]
+                                      : item.after.filter(id => id !== other.id),
+                                  }),
+                                })}
+                              />
+                              {agentName(other.agent)}
+                            </label>
+                          ))}
+                          <button
+                            onClick={() => edit({
+                              steps: pipeline.steps
+                                .filter(item => item.id !== step.id)
+                                .map(item => ({ ...item, after: item.after.filter(id => id !== step.id) })),
+                            })}
+                            className="ml-auto p-1 rounded hover:bg-gray-200 text-gray-400 hover:text-gray-600"
+                            aria-label="Remove step"
+                          >
+                            <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>close</span>
+                          </button>
+                        </div>
+                      )
+                    })}
+                    {unusedAgents.length > 0 && (
+                      <select
+                        value=""
+                        onChange={(e) => {
+                          const agent = e.target.value
+                          // New steps follow the last one by default, making a chain
+                          const last = pipeline.steps[pipeline.steps.length - 1]
+                          if (agent) edit({ steps: [...pipeline.steps, { id: pipelineStepId(), agent, after: last ? [last.id] : [] }] })
+                        }}
+                        className="px-2 py-1 border border-gray-300 rounded-lg bg-white text-xs"
+                      >
+                        <option value="">Add step...</option>
+                        {unusedAgents.map(agent => (
+                          <option key={agent.apiName} value={agent.apiName}>{agent.name}</option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                </div>
+
+                {showProblems && problems.length > 0 && (
+                  <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+                    <ul className="text-xs text-amber-800 list-disc pl-4">
+                      {problems.map(problem => <li key={problem}>{problem}</li>)}
+                    </ul>
+                  </div>
+                )}
+                {automatedMode && (
+                  <p className="text-xs text-amber-700">Stop automated mode to run pipelines.</p>
+                )}
+
+                <div className="flex gap-2 justify-end">
+                  <button
+                    onClick={remove}
+                    disabled={running && run?.pipelineId === pipeline.id}
+                    className="px-3 py-1.5 rounded-lg text-xs font-medium text-red-600 hover:bg-red-50 transition-colors disabled:opacity-50"
+                  >
+                    {saved ? 'Delete' : 'Discard'}
+                  </button>
+                  {draft && saved && (
+                    <button
+                      onClick={() => select(saved.id)}
+                      className="px-3 py-1.5 rounded-lg text-xs font-medium text-gray-600 hover:bg-gray-100 transition-colors"
+                    >
+                      Discard changes
+                    </button>
+                  )}
+                  {draft && (
+                    <button
+                      onClick={() => {
+                        const id = draft.id
+                        if (save()) setSelectedId(id)
+                      }}
+                      className="px-3 py-1.5 rounded-lg text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors"
+                    >
+                      Save pipeline
+                    </button>
+                  )}
+                  <button
+                    onClick={() => {
+                      setSelectedId(pipeline.id)
+                      runPipeline()
+                    }}
+                    disabled={running || automatedMode}
+                    title={running ? 'Another pipeline run is in progress' : undefined}
+                    className="px-3 py-1.5 rounded-lg text-xs font-medium bg-precepgo-orange text-white hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {draft ? 'Save and run' : 'Run pipeline'}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,145 @@
+import { useState } from 'react'
+import type { FirestoreDocument } from '../services/firestore'
+import type { CollectionDocTypes } from '../services/firestoreSchemas'
+import { notificationCenter } from '../services/notificationCenter'
+import { useDocument } from '../hooks/useFirestore'
+import { usePagedCollection } from '../hooks/usePagedCollection'
+import { StaleIndicator } from './StaleIndicator'
+
+export type ReportCollection = 'agent_coa_reports' | 'agent_sites'
+
+interface ReportHistoryProps<K extends ReportCollection> {
+  title: string
+  collectionName: K
+  /** One-line summary shown under each report's date */
+  describe: (data: CollectionDocTypes[K]) => string
+  /** Omit to hide the download buttons (e.g. without the export permission) */
+  onDownload?: (document: FirestoreDocument<CollectionDocTypes[K]>) => Promise<void>
+  /** Report to point out, e.g. the one a desktop notification linked to */
+  highlightId?: string
+  /** Point out a report, e.g. to share a link to it */
+  onHighlight?: (id: string) => void
+}
+
+const PAGE_SIZE = 10
+
+// Every report in a collection, newest first, with older ones loaded on demand;
+// the reports page shows one per agent that has reports
+export function ReportHistory<K extends ReportCollection>({ title, collectionName, describe, onDownload, highlightId, onHighlight }: ReportHistoryProps<K>) {
+  const history = usePagedCollection(collectionName, PAGE_SIZE)
+  const [downloadingId, setDownloadingId] = useState<string | null>(null)
+
+  // A linked report older than the loaded pages is read on its own
+  const inHistory = history.documents.some(document => document.id === highlightId)
+  const linked = useDocument(collectionName, highlightId ?? '', !!highlightId && history.loaded && !inHistory)
+  const linkedReport = !inHistory && highlightId && linked.data
+    ? { id: highlightId, data: linked.data, createdAt: linked.data.created_at }
+    : undefined
+  const linkedMissing = !!highlightId && history.loaded && !inHistory && !linked.loading && !linked.data && !linked.error
+  const error = history.error ?? linked.error
+
+  const handleDownload = async (document: FirestoreDocument<CollectionDocTypes[K]>) => {
+    if (!onDownload) return
+    setDownloadingId(document.id)
+    try {
+      await onDownload(document)
+    } catch (error) {
+      console.error('Export failed:', error)
+      notificationCenter.notify({ severity: 'error', category: 'exports', title: 'Export failed', message: 'Please try again.' })
+    } finally {
+      setDownloadingId(null)
+    }
+  }
+
+  const renderReport = (document: FirestoreDocument<CollectionDocTypes[K]>, latest: boolean) => (
+    <li
+      key={document.id}
+      onClick={onHighlight ? () => onHighlight(document.id) : undefined}
+      className={`flex items-center justify-between gap-4 px-4 py-3 ${document.id === highlightId ? 'bg-orange-50' : ''} ${onHighlight ? 'cursor-pointer' : ''}`}
+    >
+      <div className="min-w-0">
+        <p className="text-sm font-medium text-gray-800">
+          {document.createdAt ? document.createdAt.toLocaleString() : 'Unknown date'}
+          {latest && (
+            <span className="ml-2 px-2 py-0.5 bg-green-100 text-green-700 rounded text-xs font-semibold">Latest</span>
+          )}
+        </p>
+        <p className="text-xs text-gray-500 truncate">{describe(document.data)}</p>
+      </div>
+      {onDownload && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation()
+            handleDownload(document)
+          }}
+          disabled={downloadingId !== null}
+          className="shrink-0 px-3 py-1.5 rounded-lg text-xs transition-colors bg-gray-100 hover:bg-gray-200 text-gray-700 flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>download</span>
+          {downloadingId === document.id ? 'Exporting...' : 'Excel'}
+        </button>
+      )}
+    </li>
+  )
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm">
+      <div className="border-b border-gray-200 px-6 py-4 flex items-center gap-3">
+        <h2 className="text-2xl font-semibold text-precepgo-card-title">{title}</h2>
+        <StaleIndicator freshness={history.freshness} />
+      </div>
+
+      <div className="px-6 py-6">
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3">
+            <p className="text-xs text-red-700">{error.message}</p>
+          </div>
+        )}
+
+        {!history.loaded ? (
+          <div className="flex justify-center py-8">
+            <div className="relative w-10 h-10">
+              <div className="absolute inset-0 border-4 border-precepgo-orange/30 border-t-precepgo-orange rounded-full animate-spin"></div>
+            </div>
+          </div>
+        ) : history.documents.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500 text-lg">No reports yet</p>
+            <p className="text-gray-400 text-sm mt-2">Reports will appear here after the agent runs</p>
+          </div>
+        ) : (
+          <>
+            {linkedReport && (
+              <div className="mb-4">
+                <p className="text-sm text-gray-600 mb-2">Linked report (older than the reports below)</p>
+                <ul className="border border-gray-200 rounded-lg">{renderReport(linkedReport, false)}</ul>
+              </div>
+            )}
+            {linkedMissing && (
+              <p className="mb-4 text-sm text-gray-500">The linked report no longer exists.</p>
+            )}
+            <p className="text-sm text-gray-600 mb-4">
+              Showing {history.documents.length} report{history.documents.length !== 1 ? 's' : ''} (newest first)
+            </p>
+            <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+              {history.documents.map((document, index) =>
+                renderReport(document, index === 0)
+              )}
+            </ul>
+            {history.hasMore && (
+              <div className="flex justify-center mt-4">
+                <button
+                  onClick={() => history.loadMore()}
+                  disabled={history.loadingMore}
+                  className="px-4 py-2 rounded-lg text-sm font-medium bg-precepgo-orange text-white hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {history.loadingMore ? 'Loading...' : 'Load older reports'}
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
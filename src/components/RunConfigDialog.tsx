@@ -0,0 +1,190 @@
+import { useState, useEffect, useMemo, type FormEvent } from 'react'
+import studentsData from '../data/students.json'
+
+// A single run parameter, declared per agent under `runOptions` in agents.json
+export type RunOptionField = {
+  key: string
+  label: string
+  type: 'select' | 'text' | 'date'
+  // Static choices for a select; ignored when `source` is set
+  options?: string[]
+  // Populate a select from local reference data
+  source?: 'students' | 'class_standings'
+  placeholder?: string
+  required?: boolean
+}
+
+export type RunParams = Record<string, string>
+
+interface RunConfigDialogProps {
+  agentName: string
+  agentColor: string
+  agentIcon: string
+  fields: RunOptionField[]
+  onSubmit: (params: RunParams) => void
+  onClose: () => void
+}
+
+type Choice = { value: string; label: string }
+
+const students = studentsData.students
+
+const getChoices = (field: RunOptionField): Choice[] => {
+  if (field.source === 'students') {
+    return students.map(student => ({
+      value: student.id,
+      label: `${student.name} (${student.class_standing})`
+    }))
+  }
+  if (field.source === 'class_standings') {
+    const standings = [...new Set(students.map(student => student.class_standing))].sort()
+    return standings.map(standing => ({ value: standing, label: standing }))
+  }
+  return (field.options || []).map(option => ({ value: option, label: option }))
+}
+
+export function RunConfigDialog({ agentName, agentColor, agentIcon, fields, onSubmit, onClose }: RunConfigDialogProps) {
+  const [values, setValues] = useState<RunParams>({})
+  const [error, setError] = useState<string | null>(null)
+
+  const choicesByKey = useMemo(() => {
+    const choices: Record<string, Choice[]> = {}
+    fields.forEach(field => {
+      if (field.type === 'select') {
+        choices[field.key] = getChoices(field)
+      }
+    })
+    return choices
+  }, [fields])
+
+  // Close on Escape, matching the other modals
+  useEffect(() => {
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose()
+    }
+    document.addEventListener('keydown', handleEscape)
+    return () => document.removeEventListener('keydown', handleEscape)
+  }, [onClose])
+
+  const setValue = (key: string, value: string) => {
+    setError(null)
+    setValues(prev => ({ ...prev, [key]: value }))
+  }
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+
+    const missing = fields.filter(field => field.required && !values[field.key])
+    if (missing.length > 0) {
+      setError(`Please fill in: ${missing.map(field => field.label).join(', ')}`)
+      return
+    }
+    if (values.start_date && values.end_date && values.start_date > values.end_date) {
+      setError('The start date must be on or before the end date')
+      return
+    }
+
+    // Only send fields that were actually set; blanks let the agent choose
+    const params: RunParams = {}
+    Object.entries(values).forEach(([key, value]) => {
+      if (value.trim()) params[key] = value.trim()
+    })
+    onSubmit(params)
+  }
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Modal Header */}
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between rounded-t-xl">
+          <div className="flex items-center gap-4">
+            <div className={`w-12 h-12 ${agentColor} rounded-lg flex items-center justify-center`}>
+              <img
+                src={agentIcon}
+                alt={`${agentName} icon`}
+                className="w-12 h-12 object-contain"
+              />
+            </div>
+            <h2 className="text-2xl font-semibold text-precepgo-card-title">
+              Run {agentName}
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-full hover:bg-gray-100 transition-colors text-gray-400 hover:text-gray-600"
+            aria-label="Close modal"
+          >
+            <span className="material-symbols-outlined" style={{ fontSize: '24px' }}>
+              close
+            </span>
+          </button>
+        </div>
+
+        {/* Modal Content */}
+        <form onSubmit={handleSubmit} className="px-6 py-6 space-y-4">
+          <p className="text-sm text-precepgo-card-text">
+            Leave a field blank to let the agent choose.
+          </p>
+
+          {fields.map(field => (
+            <label key={field.key} className="block">
+              <span className="block text-sm font-medium text-gray-700 mb-1">
+                {field.label}
+                {field.required && <span className="text-red-500 ml-0.5">*</span>}
+              </span>
+              {field.type === 'select' ? (
+                <select
+                  value={values[field.key] || ''}
+                  onChange={(e) => setValue(field.key, e.target.value)}
+                  className={inputClassName}
+                >
+                  <option value="">{field.placeholder || 'Any'}</option>
+                  {choicesByKey[field.key]?.map(choice => (
+                    <option key={choice.value} value={choice.value}>{choice.label}</option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  type={field.type}
+                  value={values[field.key] || ''}
+                  placeholder={field.placeholder}
+                  onChange={(e) => setValue(field.key, e.target.value)}
+                  className={inputClassName}
+                />
+              )}
+            </label>
+          ))}
+
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg text-sm text-gray-700 hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 rounded-lg text-sm font-semibold bg-precepgo-orange text-white hover:opacity-90 flex items-center gap-2"
+            >
+              <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>play_arrow</span>
+              Run Agent
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,282 @@
+import { useEffect, useState } from 'react'
+import { RUN_OUTCOMES, RUN_TRIGGERS, type RunOutcome, type RunTrigger } from '../services/firestoreSchemas'
+import type { RunHistoryFilters, RunRangeKey } from '../utils/routes'
+import { runsQuery } from '../services/queryBuilder'
+import {
+  RUN_OUTCOME_LABELS,
+  RUN_TRIGGER_LABELS,
+  describeRunOutput,
+  groupRunsByDay,
+  runDuration,
+} from '../services/runHistory'
+import { useQuery } from '../hooks/useFirestore'
+import { formatDuration } from '../utils/relativeTime'
+import { StaleIndicator } from './StaleIndicator'
+
+interface RunHistoryAgent {
+  apiName: string
+  name: string
+  icon: string
+}
+
+interface RunHistoryProps {
+  agents: RunHistoryAgent[]
+  /** Kept in the URL, so a filtered timeline can be linked to */
+  filters: RunHistoryFilters
+  onFiltersChange: (filters: RunHistoryFilters) => void
+  onClose: () => void
+}
+
+const RANGES: { value: RunRangeKey; label: string }[] = [
+  { value: 'overnight', label: 'Overnight' },
+  { value: '24h', label: 'Last 24 hours' },
+  { value: '7d', label: 'Last 7 days' },
+  { value: '30d', label: 'Last 30 days' },
+]
+
+// Evening before to this morning, as "what ran overnight"
+const OVERNIGHT_FROM_HOUR = 18
+const OVERNIGHT_TO_HOUR = 8
+
+const HOUR_MS = 60 * 60 * 1000
+const PAGE_SIZE = 100
+
+const OUTCOME_STYLES: Record<RunOutcome, { dot: string; chip: string }> = {
+  running: { dot: 'bg-blue-500 animate-pulse', chip: 'bg-blue-100 text-blue-700' },
+  succeeded: { dot: 'bg-green-500', chip: 'bg-green-100 text-green-700' },
+  failed: { dot: 'bg-red-500', chip: 'bg-red-100 text-red-700' },
+}
+
+interface TimeRange {
+  key: RunRangeKey
+  from: Date
+  to?: Date
+}
+
+// Fixed when chosen, so the query (and its listener) stays the same while open
+function timeRange(key: RunRangeKey, now: Date = new Date()): TimeRange {
+  switch (key) {
+    case 'overnight': {
+      const to = new Date(now.getFullYear(), now.getMonth(), now.getDate(), OVERNIGHT_TO_HOUR)
+      const from = new Date(to.getFullYear(), to.getMonth(), to.getDate() - 1, OVERNIGHT_FROM_HOUR)
+      return { key, from, to: to < now ? to : undefined }
+    }
+    case '24h':
+      return { key, from: new Date(now.getTime() - 24 * HOUR_MS) }
+    case '7d':
+      return { key, from: new Date(now.getTime() - 7 * 24 * HOUR_MS) }
+    case '30d':
+      return { key, from: new Date(now.getTime() - 30 * 24 * HOUR_MS) }
+  }
+}
+
+function formatDay(day: Date, now: Date): string {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate())
+  const days = Math.round((today.getTime() - day.getTime()) / (24 * HOUR_MS))
+  if (days === 0) return 'Today'
+  if (days === 1) return 'Yesterday'
+  return day.toLocaleDateString(undefined, { weekday: 'long', month: 'short', day: 'numeric' })
+}
+
+function formatTime(date: Date | undefined): string {
+  return date ? date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' }) : '—'
+}
+
+// Timeline of recorded agent runs, for one agent or all of them
+export function RunHistory({ agents, filters, onFiltersChange, onClose }: RunHistoryProps) {
+  const { agent: agentFilter, outcome: outcomeFilter, trigger: triggerFilter } = filters
+  const [range, setRange] = useState<TimeRange>(() => timeRange(filters.range))
+  // Older runs shown for these filters; other filters start from the first page again
+  const filterKey = `${agentFilter}|${filters.range}|${outcomeFilter}|${triggerFilter}`
+  const [shown, setShown] = useState({ filterKey, limitCount: PAGE_SIZE })
+  const limitCount = shown.filterKey === filterKey ? shown.limitCount : PAGE_SIZE
+  const [now, setNow] = useState(() => new Date())
+
+  // A range picked here or by going back/forward is fixed from the moment it's chosen
+  if (range.key !== filters.range) {
+    setRange(timeRange(filters.range))
+  }
+
+  const history = useQuery(runsQuery({
+    agents: agentFilter ? [agentFilter] : undefined,
+    outcomes: outcomeFilter ? [outcomeFilter] : undefined,
+    triggers: triggerFilter ? [triggerFilter] : undefined,
+    from: range.from,
+    to: range.to,
+  }, limitCount))
+  const runs = history.documents
+  const days = groupRunsByDay(runs)
+  const running = runs.filter(run => run.data.outcome === 'running').length
+  const failed = runs.filter(run => run.data.outcome === 'failed').length
+  const agentsByName = new Map(agents.map(agent => [agent.apiName, agent]))
+
+  // Keep durations of runs still going up to date
+  useEffect(() => {
+    if (running === 0) return
+    const timer = setInterval(() => setNow(new Date()), 1000)
+    return () => clearInterval(timer)
+  }, [running])
+
+  const chipClass = (selected: boolean) => `px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+    selected ? 'bg-precepgo-card-title text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+  }`
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Modal Header */}
+        <div className="bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between rounded-t-xl">
+          <div className="flex items-center gap-3">
+            <h2 className="text-2xl font-semibold text-precepgo-card-title">Run History</h2>
+            <StaleIndicator freshness={history.freshness} />
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-full hover:bg-gray-100 transition-colors text-gray-400 hover:text-gray-600"
+            aria-label="Close modal"
+          >
+            <span className="material-symbols-outlined" style={{ fontSize: '24px' }}>
+              close
+            </span>
+          </button>
+        </div>
+
+        {/* Filters */}
+        <div className="border-b border-gray-200 px-6 py-3 space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={agentFilter ?? ''}
+              onChange={(e) => onFiltersChange({ ...filters, agent: e.target.value || null })}
+              className="px-2 py-1 border border-gray-300 rounded-lg bg-white text-xs"
+              aria-label="Agent"
+            >
+              <option value="">All agents</option>
+              {agents.map(agent => (
+                <option key={agent.apiName} value={agent.apiName}>{agent.name}</option>
+              ))}
+            </select>
+            {RANGES.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => onFiltersChange({ ...filters, range: value })}
+                className={chipClass(range.key === value)}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <button onClick={() => onFiltersChange({ ...filters, outcome: null })} className={chipClass(outcomeFilter === null)}>
+              Any outcome
+            </button>
+            {RUN_OUTCOMES.map(outcome => (
+              <button key={outcome} onClick={() => onFiltersChange({ ...filters, outcome })} className={chipClass(outcomeFilter === outcome)}>
+                {RUN_OUTCOME_LABELS[outcome]}
+              </button>
+            ))}
+            <span className="mx-1 h-5 border-l border-gray-300"></span>
+            <select
+              value={triggerFilter ?? ''}
+              onChange={(e) => onFiltersChange({ ...filters, trigger: (e.target.value || null) as RunTrigger | null })}
+              className="px-2 py-1 border border-gray-300 rounded-lg bg-white text-xs"
+              aria-label="Started by"
+            >
+              <option value="">Any trigger</option>
+              {RUN_TRIGGERS.map(trigger => (
+                <option key={trigger} value={trigger}>{RUN_TRIGGER_LABELS[trigger]}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {/* Modal Content */}
+        <div className="flex-1 min-h-0 overflow-y-auto px-6 py-4">
+          {history.error && (
+            <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-xs text-red-700">{history.error.message}</p>
+            </div>
+          )}
+
+          {history.loading ? (
+            <div className="flex justify-center py-8">
+              <div className="w-10 h-10 border-4 border-precepgo-orange/30 border-t-precepgo-orange rounded-full animate-spin"></div>
+            </div>
+          ) : runs.length === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-gray-500 text-lg">No runs in this period</p>
+              <p className="text-gray-400 text-sm mt-2">Runs are recorded while a dashboard is open</p>
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-gray-600 mb-4">
+                {runs.length} run{runs.length !== 1 ? 's' : ''}
+                {failed > 0 && <span className="text-red-600"> · {failed} failed</span>}
+                {running > 0 && <span className="text-blue-600"> · {running} running</span>}
+              </p>
+              {days.map(({ day, runs: dayRuns }) => (
+                <section key={day.getTime()} className="mb-6">
+                  <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">{formatDay(day, now)}</h3>
+                  <ol className="relative border-l-2 border-gray-200 ml-2">
+                    {dayRuns.map(({ id, data: run }) => {
+                      const agent = agentsByName.get(run.agent)
+                      const duration = runDuration(run, now)
+                      const params = Object.entries(run.params ?? {})
+                      return (
+                        <li key={id} className="relative pl-5 pb-4 last:pb-0">
+                          <span className={`absolute -left-[7px] top-1.5 w-3 h-3 rounded-full ring-2 ring-white ${OUTCOME_STYLES[run.outcome].dot}`}></span>
+                          <div className="flex flex-wrap items-center gap-x-2 gap-y-1">
+                            <span className="text-xs font-mono text-gray-500">
+                              {formatTime(run.started_at)}
+                              {run.ended_at && ` – ${formatTime(run.ended_at)}`}
+                            </span>
+                            {agent && <img src={agent.icon} alt="" className="w-4 h-4" />}
+                            <span className="text-sm font-medium text-gray-900">{agent?.name ?? run.agent}</span>
+                            <span className={`px-2 py-0.5 rounded text-[11px] font-semibold ${OUTCOME_STYLES[run.outcome].chip}`}>
+                              {RUN_OUTCOME_LABELS[run.outcome]}
+                            </span>
+                            {duration !== null && <span className="text-xs text-gray-500">{formatDuration(duration)}</span>}
+                          </div>
+                          <p className="text-xs text-gray-600 mt-0.5">
+                            {RUN_TRIGGER_LABELS[run.trigger]}
+                            {run.triggered_by && ` · ${run.triggered_by.name}`}
+                            {run.outcome !== 'running' && ` · ${describeRunOutput(run)}`}
+                          </p>
+                          {params.length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {params.map(([key, value]) => (
+                                <span key={key} className="px-1.5 py-0.5 rounded bg-gray-100 text-[11px] text-gray-600">
+                                  {key}: {String(value)}
+                                </span>
+                              ))}
+                            </div>
+                          )}
+                          {run.error && <p className="text-xs text-red-700 mt-1 break-words">{run.error}</p>}
+                        </li>
+                      )
+                    })}
+                  </ol>
+                </section>
+              ))}
+              {runs.length >= limitCount && (
+                <div className="flex justify-center mt-2">
+                  <button
+                    onClick={() => setShown({ filterKey, limitCount: limitCount + PAGE_SIZE })}
+                    className="px-4 py-2 rounded-lg text-sm font-medium bg-precepgo-orange text-white hover:opacity-90 transition-opacity"
+                  >
+                    Show older runs
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,94 @@
+import type { RunProgressState } from '../utils/runProgress'
+
+interface RunProgressProps {
+  progress: RunProgressState
+}
+
+const formatPartialOutput = (output: unknown): string => {
+  if (typeof output === 'string') return output
+  try {
+    return JSON.stringify(output, null, 2)
+  } catch {
+    return String(output)
+  }
+}
+
+// Compact progress bar shown on the agent card while a streamed run is in flight
+export function RunProgressBar({ progress }: RunProgressProps) {
+  const latest = progress.events[progress.events.length - 1]
+  const label = progress.step || latest?.message || 'Working...'
+
+  return (
+    <div className="mt-2">
+      <div className="flex items-center justify-between text-xs text-gray-600 mb-1 gap-2">
+        <span className="truncate" title={label}>{label}</span>
+        {progress.percent !== null && (
+          <span className="shrink-0 font-semibold">{Math.round(progress.percent)}%</span>
+        )}
+      </div>
+      <div className="w-full bg-gray-200 rounded-full h-1.5 overflow-hidden">
+        {progress.percent !== null ? (
+          <div
+            className="bg-blue-500 h-1.5 rounded-full transition-all"
+            style={{ width: `${progress.percent}%` }}
+          ></div>
+        ) : (
+          <div className="bg-blue-500 h-1.5 w-1/3 rounded-full animate-pulse"></div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// Step-by-step view of the latest streamed run, shown in the logs modal
+export function RunProgressTimeline({ progress }: RunProgressProps) {
+  const statusStyles: Record<RunProgressState['status'], string> = {
+    running: 'bg-blue-100 text-blue-800',
+    completed: 'bg-green-100 text-green-800',
+    failed: 'bg-red-100 text-red-800',
+  }
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-semibold text-precepgo-card-title">Live Run Progress</h3>
+        <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${statusStyles[progress.status]}`}>
+          {progress.status}
+          {progress.percent !== null && ` • ${Math.round(progress.percent)}%`}
+        </span>
+      </div>
+      <p className="text-xs text-gray-500 mb-3 font-mono">
+        Run {progress.runId} • started {progress.startedAt.toLocaleTimeString()}
+      </p>
+      {progress.error && (
+        <p className="text-sm text-red-600 mb-3">{progress.error}</p>
+      )}
+      {progress.events.length === 0 ? (
+        <p className="text-sm text-gray-500">Waiting for the first update...</p>
+      ) : (
+        <ol className="bg-gray-50 rounded-lg p-4 space-y-2 text-sm">
+          {progress.events.map((event, index) => (
+            <li key={index} className="border-b border-gray-200 pb-2 last:border-b-0 last:pb-0">
+              <div className="flex items-start justify-between gap-3">
+                <span className="text-gray-800">
+                  {event.step && <span className="font-semibold">{event.step}: </span>}
+                  {event.message || event.error || event.status}
+                </span>
+                {event.timestamp && (
+                  <span className="text-xs text-gray-400 shrink-0">
+                    {new Date(event.timestamp).toLocaleTimeString()}
+                  </span>
+                )}
+              </div>
+              {event.partial_output !== undefined && event.partial_output !== null && (
+                <pre className="mt-2 bg-white border border-gray-200 rounded p-2 text-xs text-gray-700 whitespace-pre-wrap wrap-break-word max-h-40 overflow-y-auto">
+                  {formatPartialOutput(event.partial_output)}
+                </pre>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,379 @@
+import { useState } from 'react'
+import { FirestoreService } from '../services/firestore'
+import type { NotificationSeverity } from '../services/firestoreSchemas'
+import {
+  actorFromUser,
+  isOpenNotification,
+  sortNotifications,
+  type NotificationAction,
+  type NotificationSort,
+} from '../services/notificationWorkflow'
+import { applyEscalations, evaluateEscalations, isAcknowledgementOverdue } from '../services/escalationRules'
+import { usePagedCollection } from '../hooks/usePagedCollection'
+import { useCollection } from '../hooks/useFirestore'
+import { useAuth } from '../hooks/useAuth'
+import { formatAge } from '../utils/relativeTime'
+import type { InboxFilters, InboxStatusFilter } from '../utils/routes'
+import { EscalationRulesEditor } from './EscalationRulesEditor'
+import { NegativeFieldChips, SeverityChip, StatusChip } from './NotificationChips'
+import { NotificationDetail } from './NotificationDetail'
+import { StaleIndicator } from './StaleIndicator'
+
+interface SafetyInboxProps {
+  canManage: boolean
+  /** Show the escalation rules editor (the manage_escalation_rules permission) */
+  canManageRules: boolean
+  /** Notifications created after this are marked new */
+  lastSeenAt: Date | null
+  /** Filters and the open notification are kept in the URL, so a triage view can be linked to */
+  filters: InboxFilters
+  onFiltersChange: (filters: InboxFilters) => void
+  activeId: string | null
+  onActiveChange: (id: string) => void
+  onViewEvaluation: (evaluationId: string) => void
+}
+
+const STATUS_FILTERS: { value: InboxStatusFilter; label: string }[] = [
+  { value: 'unresolved', label: 'Unresolved' },
+  { value: 'open', label: 'Open' },
+  { value: 'acknowledged', label: 'Acknowledged' },
+  { value: 'resolved', label: 'Resolved' },
+  { value: 'all', label: 'All' },
+]
+
+const SEVERITIES: NotificationSeverity[] = ['critical', 'high', 'moderate']
+
+type BulkActionType = Extract<NotificationAction['type'], 'acknowledge' | 'assign' | 'resolve'>
+
+const PAGE_SIZE = 50
+
+// Triage view over agent_notifications: filter, sort, act in bulk, and open each
+// notification's workflow or its source evaluation
+export function SafetyInbox({
+  canManage,
+  canManageRules,
+  lastSeenAt,
+  filters,
+  onFiltersChange,
+  activeId,
+  onActiveChange,
+  onViewEvaluation,
+}: SafetyInboxProps) {
+  const { user } = useAuth()
+  const inbox = usePagedCollection('agent_notifications', PAGE_SIZE)
+  const rules = useCollection('safety_escalation_rules')
+  const { status: statusFilter, severities: severityFilter, sort } = filters
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [bulkPending, setBulkPending] = useState<BulkActionType | null>(null)
+  const [bulkMessage, setBulkMessage] = useState<string | null>(null)
+  const [showRules, setShowRules] = useState(false)
+
+  // Rules run on every snapshot, so new notifications arrive already escalated
+  const escalations = evaluateEscalations(inbox.documents, rules.documents)
+  const notifications = applyEscalations(inbox.documents, escalations)
+  const pinnedIds = new Set([...escalations].filter(([, escalation]) => escalation.pinned).map(([id]) => id))
+  const now = new Date()
+
+  const visible = sortNotifications(
+    notifications.filter(({ data }) =>
+      (statusFilter === 'all' ||
+        (statusFilter === 'unresolved' ? isOpenNotification(data) : data.status === statusFilter)) &&
+      (severityFilter.length === 0 || severityFilter.includes(data.severity))
+    ),
+    sort,
+    pinnedIds
+  )
+  const openCount = notifications.filter(({ data }) => isOpenNotification(data)).length
+  const overdueCount = notifications.filter(({ id, data }) => isAcknowledgementOverdue(data, escalations.get(id), now)).length
+  const active = notifications.find(notification => notification.id === activeId) ?? null
+  // Selections hidden by a filter change are not acted on
+  const selectedVisible = visible.filter(notification => selectedIds.has(notification.id))
+  const allVisibleSelected = visible.length > 0 && selectedVisible.length === visible.length
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(previous => {
+      const next = new Set(previous)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  const toggleSeverity = (severity: NotificationSeverity) => {
+    onFiltersChange({
+      ...filters,
+      severities: severityFilter.includes(severity) ? severityFilter.filter(item => item !== severity) : [...severityFilter, severity],
+    })
+  }
+
+  const runBulkAction = async (type: BulkActionType) => {
+    if (!user) return
+    const actor = actorFromUser(user)
+    const action: NotificationAction = type === 'assign' ? { type, assignee: actor } : { type }
+    // Skip notifications the action doesn't apply to instead of reporting them as failures
+    const targets = selectedVisible.filter(({ data }) =>
+      type === 'acknowledge' ? data.status === 'open' : data.status !== 'resolved'
+    )
+    setBulkPending(type)
+    setBulkMessage(null)
+    const results = await Promise.allSettled(
+      targets.map(notification => FirestoreService.updateNotification(notification.id, action, actor))
+    )
+    const failed = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+    const skipped = selectedVisible.length - targets.length
+    const firstFailure = failed[0]?.reason
+    setBulkMessage([
+      `${targets.length - failed.length} updated`,
+      skipped > 0 ? `${skipped} skipped (not applicable)` : null,
+      failed.length > 0
+        ? `${failed.length} failed: ${firstFailure instanceof Error ? firstFailure.message : String(firstFailure)}`
+        : null,
+    ].filter(Boolean).join(' · '))
+    setSelectedIds(new Set())
+    setBulkPending(null)
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm h-[80vh] flex flex-col">
+      <div className="border-b border-gray-200 px-6 py-4 flex items-center justify-between rounded-t-xl">
+        <div>
+          <div className="flex items-center gap-3">
+            <h2 className="text-2xl font-semibold text-precepgo-card-title">Safety Inbox</h2>
+            <StaleIndicator freshness={inbox.freshness} />
+          </div>
+          <p className="text-sm text-gray-600">
+            {openCount} unresolved · {notifications.length - openCount} resolved
+            {inbox.hasMore && ' (loaded so far)'}
+            {overdueCount > 0 && <span className="text-red-700 font-medium"> · {overdueCount} overdue for acknowledgement</span>}
+          </p>
+        </div>
+        {canManageRules && (
+          <button
+            onClick={() => setShowRules(true)}
+            className="ml-auto px-3 py-1.5 rounded-lg text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors flex items-center gap-1"
+          >
+            <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>rule</span>
+            Escalation rules
+          </button>
+        )}
+      </div>
+
+      {/* Filters and sorting */}
+      <div className="border-b border-gray-200 px-6 py-3 flex flex-wrap items-center gap-2">
+        {STATUS_FILTERS.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => onFiltersChange({ ...filters, status: value })}
+            className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+              statusFilter === value ? 'bg-precepgo-card-title text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+        <span className="mx-1 h-5 border-l border-gray-300"></span>
+        {SEVERITIES.map(severity => (
+          <button
+            key={severity}
+            onClick={() => toggleSeverity(severity)}
+            className={`px-3 py-1 rounded-full text-xs font-medium capitalize transition-colors border ${
+              severityFilter.includes(severity) ? 'border-red-500 bg-red-50 text-red-700' : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            {severity}
+          </button>
+        ))}
+        <label className="ml-auto flex items-center gap-2 text-xs text-gray-600">
+          Sort by
+          <select
+            value={sort}
+            onChange={(e) => onFiltersChange({ ...filters, sort: e.target.value as NotificationSort })}
+            className="px-2 py-1 border border-gray-300 rounded-lg bg-white text-xs"
+          >
+            <option value="severity">Severity</option>
+            <option value="newest">Newest first</option>
+            <option value="oldest">Oldest first</option>
+          </select>
+        </label>
+      </div>
+
+      {/* Bulk actions */}
+      {canManage && (selectedVisible.length > 0 || bulkMessage) && (
+        <div className="border-b border-gray-200 px-6 py-2 flex flex-wrap items-center gap-2 bg-blue-50">
+          {selectedVisible.length > 0 && (
+            <>
+              <span className="text-xs font-medium text-gray-700">{selectedVisible.length} selected</span>
+              <button
+                onClick={() => runBulkAction('acknowledge')}
+                disabled={bulkPending !== null}
+                className="px-3 py-1 rounded-lg text-xs font-medium bg-amber-100 text-amber-800 hover:bg-amber-200 transition-colors disabled:opacity-50"
+              >
+                {bulkPending === 'acknowledge' ? 'Acknowledging...' : 'Acknowledge'}
+              </button>
+              <button
+                onClick={() => runBulkAction('assign')}
+                disabled={bulkPending !== null}
+                className="px-3 py-1 rounded-lg text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors disabled:opacity-50"
+              >
+                {bulkPending === 'assign' ? 'Assigning...' : 'Assign to me'}
+              </button>
+              <button
+                onClick={() => runBulkAction('resolve')}
+                disabled={bulkPending !== null}
+                className="px-3 py-1 rounded-lg text-xs font-medium bg-green-100 text-green-700 hover:bg-green-200 transition-colors disabled:opacity-50"
+              >
+                {bulkPending === 'resolve' ? 'Resolving...' : 'Resolve'}
+              </button>
+              <button
+                onClick={() => setSelectedIds(new Set())}
+                className="px-3 py-1 rounded-lg text-xs font-medium text-gray-600 hover:bg-gray-100 transition-colors"
+              >
+                Clear selection
+              </button>
+            </>
+          )}
+          {bulkMessage && <span className="ml-auto text-xs text-gray-600">{bulkMessage}</span>}
+        </div>
+      )}
+
+      {inbox.error && (
+        <div className="mx-6 mt-3 bg-red-50 border border-red-200 rounded-lg p-3">
+          <p className="text-xs text-red-700">{inbox.error.message}</p>
+        </div>
+      )}
+
+      {/* Notifications and the open one's details */}
+      <div className="flex-1 min-h-0 grid grid-cols-1 lg:grid-cols-[3fr_2fr]">
+        <div className="overflow-y-auto">
+          {!inbox.loaded ? (
+            <div className="flex justify-center py-8">
+              <div className="w-10 h-10 border-4 border-precepgo-orange/30 border-t-precepgo-orange rounded-full animate-spin"></div>
+            </div>
+          ) : visible.length === 0 ? (
+            <p className="text-center text-gray-500 py-12">No notifications match these filters.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-gray-50 text-xs text-gray-500 text-left">
+                <tr>
+                  {canManage && (
+                    <th className="px-3 py-2 w-8">
+                      <input
+                        type="checkbox"
+                        checked={allVisibleSelected}
+                        onChange={() => setSelectedIds(allVisibleSelected ? new Set() : new Set(visible.map(({ id }) => id)))}
+                        aria-label="Select all"
+                      />
+                    </th>
+                  )}
+                  <th className="px-3 py-2">Severity</th>
+                  <th className="px-3 py-2">Student / preceptor</th>
+                  <th className="px-3 py-2">Dangerous ratings</th>
+                  <th className="px-3 py-2">Age</th>
+                  <th className="px-3 py-2">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map(notification => {
+                  const { data } = notification
+                  const isNew = !!lastSeenAt && !!notification.createdAt && notification.createdAt > lastSeenAt
+                  const escalation = escalations.get(notification.id)
+                  return (
+                    <tr
+                      key={notification.id}
+                      onClick={() => onActiveChange(notification.id)}
+                      className={`border-b border-gray-100 cursor-pointer align-top ${
+                        notification.id === activeId ? 'bg-blue-50' : 'hover:bg-gray-50'
+                      }`}
+                    >
+                      {canManage && (
+                        <td className="px-3 py-2" onClick={(e) => e.stopPropagation()}>
+                          <input
+                            type="checkbox"
+                            checked={selectedIds.has(notification.id)}
+                            onChange={() => toggleSelected(notification.id)}
+                            aria-label={`Select notification for ${data.preceptee_name ?? 'unknown student'}`}
+                          />
+                        </td>
+                      )}
+                      <td className="px-3 py-2">
+                        <div className="flex items-center gap-1" title={escalation ? `Escalated by: ${escalation.rules.join(', ')}` : undefined}>
+                          {escalation?.pinned && (
+                            <span className="material-symbols-outlined text-gray-500" style={{ fontSize: '14px' }}>keep</span>
+                          )}
+                          <SeverityChip severity={data.severity} />
+                        </div>
+                        {escalation?.raisedFrom && (
+                          <p className="text-[11px] text-gray-500 mt-0.5">was {escalation.raisedFrom}</p>
+                        )}
+                      </td>
+                      <td className="px-3 py-2">
+                        <p className="font-medium text-gray-900">
+                          {isNew && <span className="inline-block w-2 h-2 mr-1.5 rounded-full bg-blue-500" title="New since your last visit"></span>}
+                          {data.preceptee_name || 'Unknown student'}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {data.preceptor_name || 'Unknown preceptor'} · {data.case_type || 'Unknown case'}
+                        </p>
+                        {data.evaluation_doc_id && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              if (data.evaluation_doc_id) onViewEvaluation(data.evaluation_doc_id)
+                            }}
+                            className="text-xs text-blue-600 hover:text-blue-800"
+                          >
+                            View evaluation
+                          </button>
+                        )}
+                      </td>
+                      <td className="px-3 py-2"><NegativeFieldChips fields={data.negative_fields} /></td>
+                      <td className="px-3 py-2 text-xs text-gray-500 whitespace-nowrap" title={notification.createdAt?.toLocaleString()}>
+                        {formatAge(notification.createdAt)}
+                      </td>
+                      <td className="px-3 py-2">
+                        <StatusChip status={data.status} />
+                        {data.assigned_to && <p className="text-[11px] text-gray-500 mt-0.5">{data.assigned_to.name}</p>}
+                        {data.status === 'open' && escalation?.acknowledgeBy && (
+                          <p
+                            className={`text-[11px] mt-0.5 ${isAcknowledgementOverdue(data, escalation, now) ? 'text-red-700 font-semibold' : 'text-gray-500'}`}
+                            title={`Acknowledge by ${escalation.acknowledgeBy.toLocaleString()}`}
+                          >
+                            {isAcknowledgementOverdue(data, escalation, now) ? 'Ack overdue' : `Ack by ${escalation.acknowledgeBy.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+                          </p>
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          )}
+          {inbox.hasMore && (
+            <div className="flex justify-center my-4">
+              <button
+                onClick={() => inbox.loadMore()}
+                disabled={inbox.loadingMore}
+                className="px-4 py-2 rounded-lg text-sm font-medium bg-precepgo-orange text-white hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {inbox.loadingMore ? 'Loading...' : 'Load older notifications'}
+              </button>
+            </div>
+          )}
+        </div>
+        <div className="overflow-y-auto border-t lg:border-t-0 lg:border-l border-gray-200 px-6 py-6">
+          {active ? (
+            <NotificationDetail
+              notification={active}
+              canManage={canManage}
+              onViewEvaluation={onViewEvaluation}
+            />
+          ) : (
+            <p className="text-center text-gray-500 py-12">Select a notification to see its details and activity.</p>
+          )}
+        </div>
+      </div>
+
+      {showRules && <EscalationRulesEditor onClose={() => setShowRules(false)} />}
+    </div>
+  )
+}
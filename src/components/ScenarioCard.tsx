@@ -1,59 +1,35 @@
-import { useState, useEffect, useMemo } from 'react'
+import { useState, useEffect } from 'react'
 import type { FirestoreDocument } from '../services/firestore'
+import type { ScenarioDoc } from '../services/firestoreSchemas'
+import type { Freshness } from '../services/connectionStatus'
+import { StaleIndicator } from './StaleIndicator'
 
 interface ScenarioCardProps {
-  document: FirestoreDocument
-  scenarios?: FirestoreDocument[]
+  document: FirestoreDocument<ScenarioDoc>
+  scenarios?: FirestoreDocument<ScenarioDoc>[]
   selectedScenarioId?: string | null
   onScenarioChange?: (scenarioId: string) => void
+  /** Older scenarios exist beyond the ones in `scenarios` */
+  hasMoreScenarios?: boolean
+  loadingMoreScenarios?: boolean
+  onLoadMoreScenarios?: () => void
+  /** Shows a cached-data badge while the scenarios come from the offline cache */
+  freshness?: Freshness
   formatDate?: (date?: Date | any) => string
 }
 
-interface ScenarioData {
-  case?: {
-    name?: string
-    code?: string
-    description?: string
-  }
-  case_type?: string // Direct case_type field (alternative to case.name/case.code)
-  patient?: {
-    name?: string
-    full_name?: string
-    age?: number
-    categories?: string[]
-  }
-  scenario?: string
-  learning_points?: string[]
-  best_answer?: {
-    option?: string
-    rationale?: string
-  }
-  references?: string
-  image?: string
-  image_generated_at?: Date | any
-  options?: Array<{
-    title?: string
-    description?: string
-    option?: string
-  }>
-  // Option fields stored as separate fields (option_a, option_b, etc.)
-  option_a?: {
-    title?: string
-    description?: string
-    considerations?: string[]
-  }
-  option_b?: {
-    title?: string
-    description?: string
-    considerations?: string[]
-  }
-  [key: string]: any // Allow for other option fields and additional properties
-  created_at?: Date | any
-  createdAt?: Date
-}
-
-export function ScenarioCard({ document, scenarios, selectedScenarioId, onScenarioChange, formatDate }: ScenarioCardProps) {
-  const data = document.data as ScenarioData
+export function ScenarioCard({
+  document,
+  scenarios,
+  selectedScenarioId,
+  onScenarioChange,
+  hasMoreScenarios,
+  loadingMoreScenarios,
+  onLoadMoreScenarios,
+  freshness,
+  formatDate,
+}: ScenarioCardProps) {
+  const data = document.data
   const [selectedOption, setSelectedOption] = useState<string | null>(null)
   const [imageLoaded, setImageLoaded] = useState(false)
 
@@ -77,60 +53,16 @@ export function ScenarioCard({ document, scenarios, selectedScenarioId, onScenar
   }
 
   const dateFormatter = formatDate || formatDateLocal
-  const scenarioDate = dateFormatter(data.created_at || document.createdAt)
+  const scenarioDate = dateFormatter(document.createdAt)
 
   const handleOptionSelect = (option: string) => {
     setSelectedOption(option)
   }
 
-  // Extract options from option_a, option_b, etc. fields
-  // Handle both string format (option_a: "text") and object format (option_a: {title: "...", description: "..."})
-  const extractedOptions = useMemo(() => {
-    const options: Array<{ option: string; title?: string; description?: string }> = []
-    // Access directly from document.data to ensure we get all fields
-    const rawData = document.data
-    const optionKeys = Object.keys(rawData).filter(key => key.startsWith('option_') && key.match(/^option_[a-z]$/i))
-    
-    optionKeys.sort().forEach(key => {
-      const optionLetter = key.split('_')[1].toUpperCase()
-      const optionData = rawData[key]
-      
-      if (optionData) {
-        if (typeof optionData === 'string') {
-          // Handle string format: option_a: "description text"
-          options.push({
-            option: optionLetter,
-            description: optionData
-          })
-        } else if (typeof optionData === 'object') {
-          // Handle object format: option_a: {title: "...", description: "..."}
-          options.push({
-            option: optionLetter,
-            title: optionData.title,
-            description: optionData.description
-          })
-        }
-      }
-    })
-    
-    return options
-  }, [document.data])
-
-  // Fallback to data.options if it exists, otherwise use extracted options
-  // Check both typed data and raw document.data
-  const displayOptions = (data.options && data.options.length > 0) 
-    ? data.options 
-    : (document.data.options && Array.isArray(document.data.options) && document.data.options.length > 0)
-    ? document.data.options
-    : extractedOptions
-
-  // Handle best_answer - can be string ("Option A") or object ({option: "A"})
-  const bestAnswerOption = typeof document.data.best_answer === 'string' 
-    ? document.data.best_answer.replace('Option ', '').trim() // "Option A" -> "A"
-    : (data.best_answer?.option || document.data.best_answer?.option || null)
-  
-  // Handle rationale - can be separate field or nested in best_answer
-  const rationale = document.data.rationale || data.best_answer?.rationale || document.data.best_answer?.rationale || null
+  // The scenario converter resolves options[] / option_a, option_b and the best_answer variants
+  const displayOptions = data.options
+  const bestAnswerOption = data.best_answer?.option ?? null
+  const rationale = data.best_answer?.rationale ?? null
 
   const isCorrect = selectedOption === bestAnswerOption
   const showAnswer = selectedOption !== null
@@ -147,6 +79,7 @@ export function ScenarioCard({ document, scenarios, selectedScenarioId, onScenar
             <span className="text-xs text-gray-500 block">
               {scenarioDate}
             </span>
+            {freshness && <StaleIndicator freshness={freshness} className="mt-1" />}
           </div>
           
           {/* Dropdown in top right */}
@@ -161,7 +94,7 @@ export function ScenarioCard({ document, scenarios, selectedScenarioId, onScenar
                   // Use nested case object from agent_scenarios doc
                   const caseData = scenario.data.case
                   const caseName = caseData?.name || caseData?.code || 'Unknown Case'
-                  const scenarioDate = dateFormatter(scenario.createdAt || scenario.data.created_at)
+                  const scenarioDate = dateFormatter(scenario.createdAt)
                   return (
                     <option key={scenario.id} value={scenario.id}>
                       {caseName} - {scenarioDate}
@@ -169,6 +102,15 @@ export function ScenarioCard({ document, scenarios, selectedScenarioId, onScenar
                   )
                 })}
               </select>
+              {hasMoreScenarios && onLoadMoreScenarios && (
+                <button
+                  onClick={onLoadMoreScenarios}
+                  disabled={loadingMoreScenarios}
+                  className="mt-1 block ml-auto text-xs text-blue-600 hover:text-blue-800 disabled:text-gray-400 disabled:cursor-not-allowed"
+                >
+                  {loadingMoreScenarios ? 'Loading older scenarios...' : 'Load older scenarios'}
+                </button>
+              )}
             </div>
           )}
         </div>
@@ -183,27 +125,26 @@ export function ScenarioCard({ document, scenarios, selectedScenarioId, onScenar
           <h4 className="text-sm font-semibold text-gray-700 mb-2">Patient Information</h4>
           <div className="bg-blue-50 rounded-lg p-3">
             <div className="flex items-center gap-4">
-              {(data.patient.name || data.patient.full_name || document.data.patient?.full_name) && (
+              {data.patient.name && (
                 <div>
                   <span className="text-xs text-gray-500">Name:</span>
                   <span className="ml-2 text-sm font-medium text-gray-800">
-                    {data.patient.name || data.patient.full_name || document.data.patient?.full_name}
+                    {data.patient.name}
                   </span>
                 </div>
               )}
-              {(data.patient.age || document.data.patient?.age) && (
+              {data.patient.age && (
                 <div>
                   <span className="text-xs text-gray-500">Age:</span>
                   <span className="ml-2 text-sm font-medium text-gray-800">
-                    {data.patient.age || document.data.patient?.age}
+                    {data.patient.age}
                   </span>
                 </div>
               )}
             </div>
-            {(data.patient.categories || document.data.patient?.categories) && 
-             (data.patient.categories || document.data.patient?.categories)?.length > 0 && (
+            {data.patient.categories.length > 0 && (
               <div className="mt-2 flex flex-wrap gap-1">
-                {(data.patient.categories || document.data.patient?.categories || []).map((category: string, idx: number) => (
+                {data.patient.categories.map((category, idx) => (
                   <span
                     key={idx}
                     className="px-2 py-1 bg-blue-100 text-blue-700 rounded text-xs font-medium"
@@ -218,7 +159,7 @@ export function ScenarioCard({ document, scenarios, selectedScenarioId, onScenar
       )}
 
       {/* Scenario Text */}
-      {(data.scenario || (data.learning_points && data.learning_points.length > 0)) && (
+      {(data.scenario || data.learning_points.length > 0) && (
         <div className="mb-4">
           <h4 className="text-sm font-semibold text-gray-700 mb-2">Scenario</h4>
           <div 
@@ -269,7 +210,7 @@ export function ScenarioCard({ document, scenarios, selectedScenarioId, onScenar
               )}
               
               {/* Learning Points */}
-              {data.learning_points && data.learning_points.length > 0 && (
+              {data.learning_points.length > 0 && (
                 <div className="mt-4">
                   <h4 className="text-sm font-semibold mb-2 text-gray-800">
                     Learning Points
@@ -292,10 +233,10 @@ export function ScenarioCard({ document, scenarios, selectedScenarioId, onScenar
       {/* Options - Make them selectable */}
       <div className="mb-4">
         <h4 className="text-sm font-semibold text-gray-700 mb-2">Select Your Answer</h4>
-        {displayOptions && displayOptions.length > 0 ? (
+        {displayOptions.length > 0 ? (
           <div className="space-y-2">
             {displayOptions.map((option, idx) => {
-              const optionKey = option.option || `${idx + 1}`
+              const optionKey = option.option
               const isSelected = selectedOption === optionKey
               const isCorrectOption = bestAnswerOption === optionKey
               
@@ -344,7 +285,7 @@ export function ScenarioCard({ document, scenarios, selectedScenarioId, onScenar
         )}
         
         {/* Show feedback after selection */}
-        {showAnswer && displayOptions && displayOptions.length > 0 && (
+        {showAnswer && displayOptions.length > 0 && (
           <div className={`mt-4 p-4 rounded-lg ${
             isCorrect 
               ? 'bg-green-50 border border-green-200' 
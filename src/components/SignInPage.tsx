@@ -0,0 +1,118 @@
+import { useState, type FormEvent } from 'react'
+import { useAuth } from '../hooks/useAuth'
+import { describeAuthError } from '../services/auth'
+
+export function SignInPage() {
+  const { ssoLabel, signInWithEmail, signInWithSso, sendPasswordReset } = useAuth()
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const run = async (action: () => Promise<void>) => {
+    setSubmitting(true)
+    setError(null)
+    setNotice(null)
+    try {
+      await action()
+    } catch (err) {
+      setError(describeAuthError(err))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    run(() => signInWithEmail(email.trim(), password))
+  }
+
+  const handleResetPassword = () => {
+    if (!email.trim()) {
+      setError('Enter your email address first, then choose "Forgot password?"')
+      return
+    }
+    run(async () => {
+      await sendPasswordReset(email.trim())
+      setNotice(`Password reset email sent to ${email.trim()}`)
+    })
+  }
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+  return (
+    <div className="min-h-screen w-full bg-[#83a0cc] px-4 flex items-center justify-center">
+      <div className="bg-white rounded-xl shadow-xl max-w-sm w-full p-6">
+        <div className="flex flex-col items-center mb-6">
+          <img src="/logo.svg" alt="PrecepGo" className="h-12 mb-3" />
+          <h1 className="text-2xl font-semibold text-precepgo-card-title">Sign in</h1>
+          <p className="text-sm text-precepgo-card-text mt-1">PrecepGo Agents Dashboard</p>
+        </div>
+
+        {ssoLabel && (
+          <>
+            <button
+              type="button"
+              onClick={() => run(signInWithSso)}
+              disabled={submitting}
+              className="w-full px-4 py-2 rounded-lg text-sm font-semibold border border-gray-300 text-gray-700 hover:bg-gray-100 flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>domain</span>
+              {ssoLabel}
+            </button>
+            <div className="flex items-center gap-3 my-4 text-xs text-gray-400">
+              <div className="flex-1 border-t border-gray-200"></div>
+              or
+              <div className="flex-1 border-t border-gray-200"></div>
+            </div>
+          </>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <label className="block">
+            <span className="block text-sm font-medium text-gray-700 mb-1">Email</span>
+            <input
+              type="email"
+              autoComplete="email"
+              required
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className={inputClassName}
+            />
+          </label>
+          <label className="block">
+            <span className="block text-sm font-medium text-gray-700 mb-1">Password</span>
+            <input
+              type="password"
+              autoComplete="current-password"
+              required
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className={inputClassName}
+            />
+          </label>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {notice && <p className="text-sm text-green-700">{notice}</p>}
+
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full px-4 py-2 rounded-lg text-sm font-semibold bg-precepgo-orange text-white hover:opacity-90 disabled:opacity-50"
+          >
+            {submitting ? 'Signing in...' : 'Sign in'}
+          </button>
+          <button
+            type="button"
+            onClick={handleResetPassword}
+            disabled={submitting}
+            className="w-full text-xs text-gray-500 hover:text-gray-700"
+          >
+            Forgot password?
+          </button>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,22 @@
+import type { Freshness } from '../services/connectionStatus'
+import { formatSyncTime } from '../utils/syncTime'
+
+interface StaleIndicatorProps {
+  freshness: Freshness
+  className?: string
+}
+
+// Marks data served from the offline cache; renders nothing while it's live
+export function StaleIndicator({ freshness, className = '' }: StaleIndicatorProps) {
+  if (!freshness.stale) return null
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-2 py-0.5 bg-amber-100 text-amber-800 rounded-full text-[11px] font-medium ${className}`}
+      title={freshness.syncedAt ? `Last synced ${freshness.syncedAt.toLocaleString()}` : 'Not synced from the server yet'}
+    >
+      <span className="material-symbols-outlined" style={{ fontSize: '14px' }}>cloud_off</span>
+      Cached · as of {formatSyncTime(freshness.syncedAt)}
+    </span>
+  )
+}
@@ -1,52 +1,53 @@
 import { useState, useEffect, useCallback } from 'react'
-import { api } from '../services/api'
-
-type Timeframe = 'daily' | 'weekly' | 'monthly' | 'semester' | 'all_time'
-
-interface TimeSavingsData {
-  total_hours_saved: number
-  fte_equivalent: number
-  cost_savings: number
-  total_tasks: number
-  task_breakdown: Record<string, number>
-  agent_breakdown: Record<string, number>
-  top_agent: string
-  insights: string
+import { api, isAbortError } from '../services/api'
+import type { TimeSavingsAnalytics } from '../services/apiSchemas'
+import { describeApiError, isApiError } from '../services/apiErrors'
+import type { AnalyticsTimeframe } from '../utils/routes'
+
+interface TimeSavingsDashboardProps {
+  /** Kept in the URL of the analytics page */
+  timeframe: AnalyticsTimeframe
+  onTimeframeChange: (timeframe: AnalyticsTimeframe) => void
 }
 
-export function TimeSavingsDashboard() {
-  const [timeframe, setTimeframe] = useState<Timeframe>('monthly')
-  const [data, setData] = useState<TimeSavingsData | null>(null)
+export function TimeSavingsDashboard({ timeframe, onTimeframeChange }: TimeSavingsDashboardProps) {
+  const [data, setData] = useState<TimeSavingsAnalytics | null>(null)
   const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
+  const [error, setError] = useState<unknown>(null)
+  const [retryCount, setRetryCount] = useState(0)
 
-  const fetchAnalytics = useCallback(async () => {
+  const fetchAnalytics = useCallback(async (signal: AbortSignal) => {
     try {
       setLoading(true)
       setError(null)
-      const response = await api.getTimeSavingsAnalytics(timeframe, true)
+      const response = await api.getTimeSavingsAnalytics(timeframe, true, { signal })
       setData(response)
-    } catch (err: any) {
+    } catch (err) {
+      // Cancelled because the timeframe changed or the page closed
+      if (isAbortError(err)) return
       console.error('[TimeSavings] Error fetching analytics:', err)
-      setError(err.message || 'Failed to load time savings analytics')
+      setError(err)
     } finally {
-      setLoading(false)
+      if (!signal.aborted) {
+        setLoading(false)
+      }
     }
   }, [timeframe])
 
-  // Initial fetch and when timeframe changes
+  // Initial fetch when timeframe changes, then auto-refresh every 45 seconds
   useEffect(() => {
-    fetchAnalytics()
-  }, [fetchAnalytics])
+    const controller = new AbortController()
+    fetchAnalytics(controller.signal)
 
-  // Auto-refresh every 45 seconds
-  useEffect(() => {
     const interval = setInterval(() => {
-      fetchAnalytics()
+      fetchAnalytics(controller.signal)
     }, 45000) // 45 seconds
 
-    return () => clearInterval(interval)
-  }, [fetchAnalytics])
+    return () => {
+      clearInterval(interval)
+      controller.abort()
+    }
+  }, [fetchAnalytics, retryCount])
 
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -80,11 +81,23 @@ export function TimeSavingsDashboard() {
   }
 
   if (error && !data) {
+    const canRetry = !isApiError(error) || error.retryable
     return (
       <div className="bg-white rounded-xl shadow-sm p-6 mt-8">
         <div className="text-red-600">
           <h3 className="text-lg font-semibold mb-2">Error Loading Analytics</h3>
-          <p>{error}</p>
+          <p>{describeApiError(error)}</p>
+          {isApiError(error) && error.requestId && (
+            <p className="text-xs text-gray-500 mt-2 font-mono">Request ID: {error.requestId}</p>
+          )}
+          {canRetry && (
+            <button
+              onClick={() => setRetryCount(count => count + 1)}
+              className="mt-4 px-4 py-2 rounded-lg text-sm bg-red-50 hover:bg-red-100 text-red-700 border border-red-200"
+            >
+              Try again
+            </button>
+          )}
         </div>
       </div>
     )
@@ -110,7 +123,7 @@ export function TimeSavingsDashboard() {
         <h2 className="text-2xl font-semibold text-precepgo-card-title">Time Savings Analytics</h2>
         <select
           value={timeframe}
-          onChange={(e) => setTimeframe(e.target.value as Timeframe)}
+          onChange={(e) => onTimeframeChange(e.target.value as AnalyticsTimeframe)}
           className="px-4 py-2 border border-gray-300 rounded-lg bg-white text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
         >
           <option value="daily">Daily</option>
@@ -0,0 +1,48 @@
+import { notificationCenter, type AppEvent } from '../services/notificationCenter'
+import { useNotificationCenter } from '../hooks/useNotificationCenter'
+import { AppEventIcon } from './AppEventIcon'
+
+const SEVERITY_BORDERS = {
+  success: 'border-green-500',
+  info: 'border-blue-500',
+  warning: 'border-amber-500',
+  error: 'border-red-500',
+}
+
+// Toasts for this tab's events, newest at the bottom
+export function ToastViewport() {
+  const { events, toasts } = useNotificationCenter()
+  const shown = toasts
+    .map(id => events.find(event => event.id === id))
+    .filter((event): event is AppEvent => event !== undefined)
+
+  if (shown.length === 0) return null
+
+  return (
+    <div className="fixed bottom-4 right-4 z-[70] flex flex-col gap-2 w-80 max-w-[calc(100vw-2rem)]" aria-live="polite">
+      {shown.map(event => (
+        <div
+          key={event.id}
+          role={event.severity === 'error' ? 'alert' : 'status'}
+          className={`bg-white rounded-lg shadow-lg border-l-4 ${SEVERITY_BORDERS[event.severity]} p-3 flex items-start gap-2`}
+        >
+          <AppEventIcon severity={event.severity} />
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-semibold text-gray-900">
+              {event.title}
+              {event.count > 1 && <span className="ml-1 text-xs font-normal text-gray-500">×{event.count}</span>}
+            </p>
+            {event.message && <p className="text-xs text-gray-600 mt-0.5 break-words">{event.message}</p>}
+          </div>
+          <button
+            onClick={() => notificationCenter.dismissToast(event.id)}
+            className="p-0.5 rounded hover:bg-gray-100 text-gray-400 hover:text-gray-600"
+            aria-label="Dismiss"
+          >
+            <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>close</span>
+          </button>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,15 @@
+/**
+ * Where the dashboard gets its data from.
+ *
+ * - `live` (default): the Cloud Run backend at VITE_API_URL and the Firebase project
+ * - `mock`: in-browser fakes seeded from the JSON fixtures, with no network access
+ *
+ * Set with `VITE_DATA_MODE=mock`. The value is inlined at build time, so the
+ * unused implementation is dropped from the bundle — as long as the mock modules
+ * do nothing when imported (fixtures and the signed-in user are built on first use).
+ */
+export type DataMode = 'live' | 'mock';
+
+export const DATA_MODE: DataMode = import.meta.env.VITE_DATA_MODE === 'mock' ? 'mock' : 'live';
+
+export const isMockMode = DATA_MODE === 'mock';
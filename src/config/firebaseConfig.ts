@@ -0,0 +1,123 @@
+import type { FirebaseOptions } from 'firebase/app';
+import { isMockMode } from './dataMode';
+
+/**
+ * Firebase settings are read from VITE_FIREBASE_* variables at build time, so the
+ * same code can target staging, production or the local emulators.
+ *
+ * With VITE_FIREBASE_USE_EMULATORS=true, Firestore and Auth connect to the local
+ * emulators and only VITE_FIREBASE_PROJECT_ID is required (use a `demo-` project id
+ * to keep the emulators fully offline).
+ */
+
+export const useFirebaseEmulators = import.meta.env.VITE_FIREBASE_USE_EMULATORS === 'true';
+
+// Firestore keeps its cache in IndexedDB (shared by all tabs) unless set to "false",
+// e.g. for shared workstations where evaluation data shouldn't stay on disk
+export const firestorePersistenceEnabled = import.meta.env.VITE_FIRESTORE_PERSISTENCE !== 'false';
+
+// Web push certificate key (Project settings → Cloud Messaging); desktop notifications
+// then also reach users who have closed the dashboard
+export const firebaseVapidKey = import.meta.env.VITE_FIREBASE_VAPID_KEY?.trim() || undefined;
+
+export interface EmulatorSettings {
+  host: string;
+  firestorePort: number;
+  authPort: number;
+}
+
+/**
+ * Thrown at startup when the Firebase environment variables are missing or invalid
+ */
+export class FirebaseConfigError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(
+      `Firebase configuration is incomplete:\n${problems.map(problem => `  - ${problem}`).join('\n')}\n` +
+      'Set these in .env (see .env.example) or as build arguments, then rebuild.'
+    );
+    this.name = 'FirebaseConfigError';
+    this.problems = problems;
+  }
+}
+
+// Mock mode never contacts Firebase, but the SDK still needs an API key to initialize Auth
+const MOCK_CONFIG: FirebaseOptions = {
+  apiKey: 'mock-api-key',
+  authDomain: 'demo-mock.firebaseapp.com',
+  projectId: 'demo-mock',
+  appId: 'mock-app-id',
+};
+
+function envValue(value: string | undefined): string | undefined {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+function portValue(name: string, value: string | undefined, fallback: number, problems: string[]): number {
+  if (!envValue(value)) return fallback;
+  const port = Number(value);
+  if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+    problems.push(`${name} must be a port number (got "${value}")`);
+    return fallback;
+  }
+  return port;
+}
+
+/**
+ * Build the Firebase app options from the environment, throwing FirebaseConfigError
+ * listing every missing variable
+ */
+export function loadFirebaseConfig(): FirebaseOptions {
+  if (isMockMode) return MOCK_CONFIG;
+
+  const projectId = envValue(import.meta.env.VITE_FIREBASE_PROJECT_ID);
+  const config: FirebaseOptions = {
+    apiKey: envValue(import.meta.env.VITE_FIREBASE_API_KEY),
+    authDomain: envValue(import.meta.env.VITE_FIREBASE_AUTH_DOMAIN),
+    projectId,
+    storageBucket: envValue(import.meta.env.VITE_FIREBASE_STORAGE_BUCKET),
+    messagingSenderId: envValue(import.meta.env.VITE_FIREBASE_MESSAGING_SENDER_ID),
+    appId: envValue(import.meta.env.VITE_FIREBASE_APP_ID),
+    measurementId: envValue(import.meta.env.VITE_FIREBASE_MEASUREMENT_ID),
+  };
+
+  // The emulators accept any API key, so only the project id matters there
+  const required: Array<[keyof FirebaseOptions, string]> = useFirebaseEmulators
+    ? [['projectId', 'VITE_FIREBASE_PROJECT_ID']]
+    : [
+        ['apiKey', 'VITE_FIREBASE_API_KEY'],
+        ['authDomain', 'VITE_FIREBASE_AUTH_DOMAIN'],
+        ['projectId', 'VITE_FIREBASE_PROJECT_ID'],
+        ['appId', 'VITE_FIREBASE_APP_ID'],
+      ];
+  const problems = required.filter(([key]) => !config[key]).map(([, name]) => `${name} is not set`);
+  if (problems.length > 0) {
+    throw new FirebaseConfigError(problems);
+  }
+
+  if (useFirebaseEmulators) {
+    config.apiKey ??= 'demo-api-key';
+    config.authDomain ??= `${projectId}.firebaseapp.com`;
+  }
+  return config;
+}
+
+/**
+ * Emulator host and ports, or null when the app should use the real Firebase project
+ */
+export function loadEmulatorSettings(): EmulatorSettings | null {
+  if (isMockMode || !useFirebaseEmulators) return null;
+
+  const problems: string[] = [];
+  const settings: EmulatorSettings = {
+    host: envValue(import.meta.env.VITE_FIREBASE_EMULATOR_HOST) ?? '127.0.0.1',
+    firestorePort: portValue('VITE_FIRESTORE_EMULATOR_PORT', import.meta.env.VITE_FIRESTORE_EMULATOR_PORT, 8080, problems),
+    authPort: portValue('VITE_AUTH_EMULATOR_PORT', import.meta.env.VITE_AUTH_EMULATOR_PORT, 9099, problems),
+  };
+  if (problems.length > 0) {
+    throw new FirebaseConfigError(problems);
+  }
+  return settings;
+}
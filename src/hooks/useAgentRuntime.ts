@@ -0,0 +1,584 @@
+import { useEffect, useRef, useState } from 'react'
+import { api, isAbortError } from '../services/api'
+import type { AgentStatusResponse } from '../services/apiSchemas'
+import { ApiCorsError, describeApiError } from '../services/apiErrors'
+import { AGENTS, RUNNABLE_AGENTS, agentStateFields, findAgent, type AgentDefinition } from '../services/agentRegistry'
+import { actorFromUser } from '../services/notificationWorkflow'
+import { notificationCenter } from '../services/notificationCenter'
+import { clearRunStarted, markRunStarted, takeRunOrigin } from '../services/runOrigin'
+import { runRecorder } from '../services/runRecorder'
+import { router } from '../services/router'
+import type { Freshness } from '../services/connectionStatus'
+import type { AgentStatesDoc } from '../services/firestoreSchemas'
+import type { RunParams } from '../components/RunConfigDialog'
+import { applyRunProgressEvent, createRunProgress, type RunProgressState } from '../utils/runProgress'
+import { useAuth } from './useAuth'
+import { useDocument, useDocuments } from './useFirestore'
+import { useRunRecorder } from './useRunRecorder'
+import { usePipelineRunner } from './usePipelines'
+
+type AgentState = Record<string, unknown> | null
+
+export type AgentDisplayState = 'idle' | 'active'
+
+export interface AgentRuntime {
+  automatedMode: boolean
+  togglingAutomatedMode: boolean
+  /** The backend rejected a request from this origin */
+  corsError: boolean
+  /** Name of the agent a manual run was just requested for */
+  loading: string | null
+  /** Latest streamed run per agent api name */
+  runProgress: Record<string, RunProgressState>
+  /** The all_states document (agent states, last activity, logs, automated mode) */
+  allStates: AgentStatesDoc | null
+  allStatesFreshness: Freshness
+  /** State documents of agents that don't keep their state in all_states, by document id */
+  stateDocuments: Record<string, AgentStatesDoc | null>
+  stateDocumentFreshness: Freshness
+  /** The run dialog first for agents with run options, otherwise runs right away */
+  startRun: (agent: AgentDefinition) => void
+  /** Resolves to whether the backend accepted the run */
+  runAgent: (agent: AgentDefinition, params?: RunParams) => Promise<boolean>
+  toggleAutomatedMode: () => Promise<void>
+  displayState: (agent: AgentDefinition) => AgentDisplayState
+  /** Shown as active on its card: running, or a run was just requested */
+  isActive: (agent: AgentDefinition) => boolean
+  /** Running according to all_states or status polling */
+  isRunning: (agent: AgentDefinition) => boolean
+  lastRunTime: (agent: AgentDefinition) => Date | null
+  logs: (agent: AgentDefinition) => string[]
+  /** Latest `/agents/{name}/status` response, once polled */
+  apiStatus: (agent: AgentDefinition) => AgentStatusResponse | undefined
+}
+
+const ACTIVE_STATES = ['active', 'generating', 'processing']
+
+// Every agent_states document named by an agent's `stateDocument` in the registry
+const STATE_DOCUMENT_IDS = [...new Set(AGENTS.flatMap(agent => (agent.stateDocument ? [agent.stateDocument] : [])))]
+
+// Map old state names to new ones (for backward compatibility during transition)
+const STATE_MAPPING: Record<string, AgentDisplayState> = {
+  generating: 'active',
+  processing: 'active',
+  completed: 'idle',
+  error: 'idle',
+  idle: 'idle',
+  active: 'active',
+}
+
+function stateValue(state: AgentState): unknown {
+  return state?.state || state?.status || state?.agent_state
+}
+
+function normalizedState(state: AgentState): string | null {
+  const value = stateValue(state)
+  return typeof value === 'string' ? value.toLowerCase() : null
+}
+
+// Agent states, status polling, manual runs and automated mode: everything the
+// dashboard's pages share about the agents, whichever page is open
+export function useAgentRuntime(): AgentRuntime {
+  const [loading, setLoading] = useState<string | null>(null)
+  const [agentStatuses, setAgentStatuses] = useState<Record<string, AgentStatusResponse>>({})
+  const [automatedMode, setAutomatedMode] = useState(false)
+  const [corsError, setCorsError] = useState(false)
+  const [agentFirestoreStates, setAgentFirestoreStates] = useState<Record<string, AgentState>>({})
+  const [isInitialLoad, setIsInitialLoad] = useState<boolean>(true)
+  const [togglingAutomatedMode, setTogglingAutomatedMode] = useState<boolean>(false)
+  const [runProgress, setRunProgress] = useState<Record<string, RunProgressState>>({})
+  const runStreamsRef = useRef<Record<string, AbortController>>({})
+  const { user, can } = useAuth()
+  const canRunAgents = can('run_agents')
+
+  // Mark initial load as complete after a short delay
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setIsInitialLoad(false)
+    }, 2000) // Wait 2 seconds after page load before allowing error alerts
+
+    return () => clearTimeout(timer)
+  }, [])
+
+  // Global error handler to catch unhandled promise rejections
+  useEffect(() => {
+    const handleUnhandledRejection = (event: PromiseRejectionEvent) => {
+      // Silently handle errors during initial load
+      if (isInitialLoad) {
+        console.error('[AgentRuntime] Unhandled promise rejection during initial load (suppressed):', event.reason)
+        event.preventDefault() // Prevent default browser error handling
+        return
+      }
+      // For other errors, log but don't show alert (let React handle it)
+      console.error('[AgentRuntime] Unhandled promise rejection:', event.reason)
+    }
+
+    window.addEventListener('unhandledrejection', handleUnhandledRejection)
+    return () => {
+      window.removeEventListener('unhandledrejection', handleUnhandledRejection)
+    }
+  }, [isInitialLoad])
+
+  // Track previous states to detect completion and notify
+  const prevAgentStatesRef = useRef<Record<string, AgentState>>({})
+
+  useEffect(() => {
+    AGENTS.forEach(agent => {
+      // Agents with a state document of their own aren't followed here
+      if (agent.stateDocument) return
+
+      const currentState = agentFirestoreStates[agent.apiName]
+      const prevState = prevAgentStatesRef.current[agent.apiName]
+
+      if (currentState && prevState) {
+        const currentNormalized = normalizedState(currentState)
+        const prevNormalized = normalizedState(prevState)
+
+        // Detect transition from active/generating/processing to idle/completed
+        const wasActive = prevNormalized !== null && ACTIVE_STATES.includes(prevNormalized)
+        const isNowIdle = currentNormalized === 'idle' || currentNormalized === 'completed'
+
+        if (wasActive && isNowIdle && !isInitialLoad) {
+          // Every tab sees this transition; only the one that started the run toasts it,
+          // and runs started elsewhere are recorded once under a shared id
+          const origin = takeRunOrigin(agent.apiName)
+          if (origin !== 'other_tab') {
+            notificationCenter.notify({
+              severity: 'success',
+              category: 'agent_runs',
+              title: `${agent.name} completed successfully`,
+              silent: origin === 'unknown',
+              id: origin === 'unknown' ? `run:${agent.apiName}:${String(currentState.last_activity ?? '')}` : undefined,
+            })
+          }
+        }
+      }
+
+      // Update ref for next comparison
+      prevAgentStatesRef.current[agent.apiName] = currentState
+    })
+  }, [agentFirestoreStates, isInitialLoad])
+
+  // Listen to all agent states from single Firestore document
+  // The full all_states data (including logs) is also used by the logs modal
+  const allStatesDoc = useDocument('agent_states', 'all_states')
+  const allStatesData = allStatesDoc.data
+  useRunRecorder(allStatesData, canRunAgents)
+  usePipelineRunner(allStatesData, (agentName) => {
+    const agent = findAgent(agentName)
+    return agent ? runAgent(agent) : Promise.resolve(false)
+  }, canRunAgents)
+
+  useEffect(() => {
+    if (allStatesDoc.loading) return
+
+    // Agents whose state lives in a document of their own are read by its own listener
+    const emptyStates = () => {
+      const states: Record<string, AgentState> = {}
+      AGENTS.forEach(agent => {
+        if (!agent.stateDocument) {
+          states[agent.apiName] = null
+        }
+      })
+      return states
+    }
+
+    if (allStatesDoc.error) {
+      console.error('[AgentRuntime] ❌ Error listening to all agent states:', allStatesDoc.error)
+      setAgentFirestoreStates(emptyStates())
+      return
+    }
+
+    const data = allStatesData
+    if (data) {
+      // Update automated_mode state from all_states document
+      // The field is named "automated_mode" and contains "ON" or "OFF"
+      if (data.automated_mode !== undefined) {
+        setAutomatedMode(data.automated_mode === 'ON' || data.automated_mode === true)
+      }
+
+      // Extract individual agent states from the all_states document
+      // The document has fields like: notification_agent_state, scenario_agent_state, etc.
+      const states = emptyStates()
+      AGENTS.forEach(agent => {
+        if (agent.stateDocument) return
+        const fields = agentStateFields(agent)
+        const value = data[fields.state]
+        if (value !== undefined && value !== null) {
+          states[agent.apiName] = {
+            state: value,
+            // Also include last_activity if available
+            last_activity: data[fields.lastActivity] || null
+          }
+        }
+      })
+      setAgentFirestoreStates(states)
+    } else {
+      console.log('[AgentRuntime] ⚠️ All agent states document does not exist')
+      setAgentFirestoreStates(emptyStates())
+      // Reset automated mode if document doesn't exist
+      setAutomatedMode(false)
+    }
+  }, [allStatesData, allStatesDoc.loading, allStatesDoc.error]) // AGENTS is the static registry
+
+  // Agents that keep their state in an agent_states document of their own
+  const stateDocs = useDocuments('agent_states', STATE_DOCUMENT_IDS)
+  const stateDocuments = stateDocs.data
+
+  // Fetch agent statuses and automated mode status
+  useEffect(() => {
+    const controller = new AbortController()
+    const { signal } = controller
+
+    const fetchStatuses = async () => {
+      try {
+        setCorsError(false)
+        // Fetch automated mode status
+        try {
+          const autoStatus = await api.getAutomatedModeStatus({ signal })
+          setAutomatedMode(autoStatus.active)
+        } catch (error) {
+          if (isAbortError(error)) return
+          // Silently handle errors on initial load - just log to console
+          console.error('[AgentRuntime] Error fetching automated mode status:', error)
+          if (error instanceof ApiCorsError) {
+            setCorsError(true)
+          }
+        }
+
+        // Fetch all agent statuses - silently handle errors
+        const statuses: Record<string, AgentStatusResponse> = {}
+        for (const agentName of RUNNABLE_AGENTS) {
+          try {
+            const status = await api.getAgentStatus(agentName, { signal })
+            statuses[agentName] = status
+          } catch (error) {
+            if (isAbortError(error)) return
+            // Silently handle errors - Firestore listeners will provide the real state
+            console.error(`[AgentRuntime] Error fetching status for ${agentName}:`, error)
+          }
+        }
+        setAgentStatuses(statuses)
+      } catch (error) {
+        // Only set CORS error flag, don't show alerts on page load
+        console.error('[AgentRuntime] Error fetching statuses:', error)
+        if (error instanceof ApiCorsError) {
+          setCorsError(true)
+        }
+      }
+    }
+
+    fetchStatuses()
+    // Poll every 10 seconds (reduced from 5s to prevent excessive re-renders)
+    const interval = setInterval(fetchStatuses, 10000)
+    return () => {
+      clearInterval(interval)
+      controller.abort()
+    }
+  }, [])
+
+  // More frequent polling when any agent is actively working
+  useEffect(() => {
+    const hasActiveAgent = Object.values(agentStatuses).some(
+      status => status?.state === 'active'
+    ) || loading !== null
+
+    if (!hasActiveAgent) return
+
+    const controller = new AbortController()
+
+    const fetchStatuses = async () => {
+      // Silently fetch statuses - don't show errors, just update state if successful
+      for (const agentName of RUNNABLE_AGENTS) {
+        try {
+          // No retries here - the next 2-second tick is the retry
+          const status = await api.getAgentStatus(agentName, { signal: controller.signal, retries: 0, timeoutMs: 5000 })
+          setAgentStatuses(prev => ({ ...prev, [agentName]: status }))
+        } catch (error) {
+          if (isAbortError(error)) return
+          // Silently handle errors - Firestore listeners will provide the real state
+          console.error(`[AgentRuntime] Error fetching status for ${agentName} during active polling:`, error)
+        }
+      }
+    }
+
+    // Poll every 2 seconds when active
+    const interval = setInterval(fetchStatuses, 2000)
+    return () => {
+      clearInterval(interval)
+      controller.abort()
+    }
+  }, [agentStatuses, loading])
+
+  // Stop following any progress streams when the dashboard unmounts
+  useEffect(() => {
+    const streams = runStreamsRef.current
+    return () => {
+      Object.values(streams).forEach(controller => controller.abort())
+    }
+  }, [])
+
+  // Follow a run's progress stream. If the backend can't stream, drop the progress entry
+  // and keep relying on the all_states listener and status polling, which run regardless.
+  const followRunProgress = async (agent: AgentDefinition, runId: string) => {
+    runStreamsRef.current[agent.apiName]?.abort()
+    const controller = new AbortController()
+    runStreamsRef.current[agent.apiName] = controller
+
+    const updateProgress = (update: (current: RunProgressState) => RunProgressState) => {
+      setRunProgress(prev => {
+        const current = prev[agent.apiName]
+        if (!current || current.runId !== runId) return prev
+        return { ...prev, [agent.apiName]: update(current) }
+      })
+    }
+
+    setRunProgress(prev => ({ ...prev, [agent.apiName]: createRunProgress(runId) }))
+
+    try {
+      const outcome = await api.streamRunProgress(
+        agent.apiName,
+        runId,
+        (event) => updateProgress(current => applyRunProgressEvent(current, event)),
+        { signal: controller.signal }
+      )
+      // The stream closed without a terminal event - treat the run as finished
+      if (outcome === 'closed') {
+        updateProgress(current => ({ ...current, status: current.status === 'running' ? 'completed' : current.status }))
+      }
+    } catch (error) {
+      if (isAbortError(error)) return
+      console.warn(`[AgentRuntime] ⚠️ Progress stream unavailable for ${agent.name}, falling back to Firestore/polling:`, error)
+      setRunProgress(prev => {
+        if (prev[agent.apiName]?.runId !== runId) return prev
+        const next = { ...prev }
+        delete next[agent.apiName]
+        return next
+      })
+    } finally {
+      if (runStreamsRef.current[agent.apiName] === controller) {
+        delete runStreamsRef.current[agent.apiName]
+      }
+    }
+  }
+
+  // Back to idle after a run request failed, keeping the other state fields
+  const revertOptimisticState = (agent: AgentDefinition) => {
+    setAgentFirestoreStates(prevStates => ({
+      ...prevStates,
+      [agent.apiName]: {
+        state: 'idle',
+        status: 'idle',
+        agent_state: 'idle',
+        ...prevStates[agent.apiName]
+      }
+    }))
+  }
+
+  const runAgent = async (agent: AgentDefinition, params?: RunParams): Promise<boolean> => {
+    const action = agent.action
+    if (!canRunAgents || !action) return false
+
+    if (automatedMode) {
+      notificationCenter.notify({
+        severity: 'warning',
+        category: 'automated_mode',
+        title: 'Automated mode is active',
+        message: 'Stop automated mode before running agents manually.',
+      })
+      return false
+    }
+
+    // OPTIMISTIC UI UPDATE: Immediately show agent as active for instant feedback
+    setAgentFirestoreStates(prevStates => ({
+      ...prevStates,
+      [agent.apiName]: {
+        state: 'active',
+        status: 'active',
+        agent_state: 'active',
+        ...prevStates[agent.apiName] // Preserve other fields
+      }
+    }))
+
+    // Set loading state for immediate UI feedback (spinner, disabled state)
+    setLoading(agent.name)
+    markRunStarted(agent.apiName)
+    runRecorder.manualRunRequested(agent.apiName, {
+      ...(user ? { triggered_by: actorFromUser(user) } : {}),
+      ...(params && Object.keys(params).length > 0 ? { params } : {}),
+    })
+
+    try {
+      const result = await api[action](params)
+      if (result.ok !== false) {
+        // Firestore listeners will automatically update the state when backend updates it
+        runRecorder.manualRunAccepted(agent.apiName, result.run_id)
+        if (result.run_id) {
+          followRunProgress(agent, result.run_id)
+        }
+        return true
+      }
+      clearRunStarted(agent.apiName)
+      runRecorder.manualRunRejected(agent.apiName, result.detail || 'Unknown error')
+      revertOptimisticState(agent)
+      // Only notify if not during initial load
+      if (!isInitialLoad) {
+        notificationCenter.notify({
+          severity: 'error',
+          category: 'agent_runs',
+          title: `${agent.name} failed`,
+          message: result.detail || 'Unknown error',
+        })
+      } else {
+        console.error(`[AgentRuntime] ${agent.name} failed on initial load:`, result.detail)
+      }
+      return false
+    } catch (error) {
+      clearRunStarted(agent.apiName)
+      runRecorder.manualRunRejected(agent.apiName, describeApiError(error))
+      revertOptimisticState(agent)
+      if (error instanceof ApiCorsError) {
+        setCorsError(true)
+      }
+      // Only notify if not during initial load
+      if (!isInitialLoad) {
+        notificationCenter.notify({
+          severity: 'error',
+          category: 'agent_runs',
+          title: `${agent.name} error`,
+          message: describeApiError(error),
+        })
+      } else {
+        console.error(`[AgentRuntime] ${agent.name} error on initial load:`, error)
+      }
+      return false
+    } finally {
+      // Clear loading state after a delay to allow Firestore update to come through
+      // Keep it visible longer (3 seconds) so user sees feedback
+      setTimeout(() => {
+        setLoading(null)
+      }, 3000)
+    }
+  }
+
+  // Agents that declare runOptions open the run dialog first; others run immediately
+  const startRun = (agent: AgentDefinition) => {
+    if (agent.runOptions && agent.runOptions.length > 0) {
+      router.openOverlay({ type: 'run', agent: agent.apiName })
+    } else {
+      runAgent(agent)
+    }
+  }
+
+  // The switch in the automated mode scheduler
+  const toggleAutomatedMode = async () => {
+    if (!can('manage_automated_mode')) return
+
+    // Prevent multiple simultaneous toggles
+    if (togglingAutomatedMode) return
+
+    // Optimistically update UI immediately for better UX
+    const newState = !automatedMode
+    setAutomatedMode(newState)
+    setTogglingAutomatedMode(true)
+
+    try {
+      const result = await api.toggleAutomatedMode()
+
+      // The Firestore listener will automatically update the state when backend updates it
+      if (result.ok !== false && result.message) {
+        // Don't notify during initial load
+        if (!isInitialLoad) {
+          notificationCenter.notify({ severity: 'success', category: 'automated_mode', title: result.message })
+        }
+      } else {
+        console.error('[AgentRuntime] ❌ Toggle API returned error, reverting optimistic update')
+        setAutomatedMode(!newState)
+      }
+    } catch (error) {
+      console.error('[AgentRuntime] ❌ Error toggling automated mode:', error)
+      // Revert optimistic update on error
+      setAutomatedMode(!newState)
+      if (error instanceof ApiCorsError) {
+        setCorsError(true)
+      }
+      if (!isInitialLoad) {
+        notificationCenter.notify({
+          severity: 'error',
+          category: 'automated_mode',
+          title: 'Failed to toggle automated mode',
+          message: describeApiError(error),
+        })
+      }
+    } finally {
+      setTogglingAutomatedMode(false)
+    }
+  }
+
+  // all_states first, then the agent's own state document, then API polling
+  const displayState = (agent: AgentDefinition): AgentDisplayState => {
+    let state = stateValue(agentFirestoreStates[agent.apiName])
+
+    const stateDocument = agent.stateDocument ? stateDocuments[agent.stateDocument] : null
+    if (!state && stateDocument) {
+      state = stateDocument.state || stateDocument[agentStateFields(agent).state] || stateDocument.status
+    }
+
+    if (!state) {
+      state = agentStatuses[agent.apiName]?.state
+    }
+
+    return typeof state === 'string' ? STATE_MAPPING[state.toLowerCase()] ?? 'idle' : 'idle'
+  }
+
+  const isActive = (agent: AgentDefinition): boolean => {
+    // Show as active immediately when a run was requested (optimistic UI)
+    if (loading === agent.name) return true
+    const firestoreState = agentFirestoreStates[agent.apiName]
+    // Firestore state is the source of truth; the API status only when it isn't available
+    if (firestoreState !== null && firestoreState !== undefined) {
+      const normalized = normalizedState(firestoreState)
+      return normalized !== null && ACTIVE_STATES.includes(normalized)
+    }
+    return agentStatuses[agent.apiName]?.state === 'active'
+  }
+
+  const isRunning = (agent: AgentDefinition): boolean => {
+    const value = agentFirestoreStates[agent.apiName]?.state
+    return (typeof value === 'string' && ACTIVE_STATES.includes(value.toLowerCase())) ||
+      agentStatuses[agent.apiName]?.state === 'active'
+  }
+
+  // The agent_states converter has already turned timestamps into Dates
+  const lastRunTime = (agent: AgentDefinition): Date | null => {
+    const lastActivity = allStatesData?.[agentStateFields(agent).lastActivity]
+    return lastActivity instanceof Date ? lastActivity : null
+  }
+
+  // All agent logs, including time_agent_logs, are stored in the all_states document
+  const logs = (agent: AgentDefinition): string[] => {
+    const entries = allStatesData?.[agentStateFields(agent).logs]
+    return Array.isArray(entries) ? entries : []
+  }
+
+  return {
+    automatedMode,
+    togglingAutomatedMode,
+    corsError,
+    loading,
+    runProgress,
+    allStates: allStatesData,
+    allStatesFreshness: allStatesDoc.freshness,
+    stateDocuments,
+    stateDocumentFreshness: stateDocs.freshness,
+    startRun,
+    runAgent,
+    toggleAutomatedMode,
+    displayState,
+    isActive,
+    isRunning,
+    lastRunTime,
+    logs,
+    apiStatus: (agent) => agentStatuses[agent.apiName],
+  }
+}
@@ -0,0 +1,55 @@
+import { desktopNotifications } from '../services/desktopNotifications'
+import { deepLinkUrl } from '../utils/deepLink'
+import { useCollection } from './useFirestore'
+import { useNewArrivals } from './useNewArrivals'
+
+// Desktop notifications for safety alerts and finished reports written while the
+// dashboard is open, on whichever page; each links to the page showing it.
+// `since` should be the dashboard's own, so the safety listener is shared
+export function useArrivalNotifications(since: Date, canViewSafety: boolean) {
+  // Safety notifications name students, so only subscribe for roles allowed to see them
+  const notifications = useCollection('agent_notifications', { since }, canViewSafety)
+  // Ordered, so a new report always lands in the window; the same options as the
+  // dashboard's, so the listeners are shared
+  const coaReports = useCollection('agent_coa_reports', { limitCount: 20, orderByCreatedAt: true })
+  const siteReports = useCollection('agent_sites', { limitCount: 20, orderByCreatedAt: true })
+
+  useNewArrivals(notifications.documents, notifications.loading, arrived => {
+    arrived.forEach(({ id, data }) => {
+      desktopNotifications.show({
+        category: 'safety_alerts',
+        title: `Safety alert: ${data.preceptee_name ?? 'Unknown student'}`,
+        body: [
+          data.case_type,
+          `${data.severity} severity`,
+          `${data.negative_fields.length} dangerous rating${data.negative_fields.length !== 1 ? 's' : ''}`,
+        ].filter(Boolean).join(' · '),
+        tag: `notification:${id}`,
+        url: deepLinkUrl(data.evaluation_doc_id ? { view: 'evaluation', id: data.evaluation_doc_id } : { view: 'safety_inbox' }),
+      })
+    })
+  })
+
+  useNewArrivals(coaReports.documents, coaReports.loading, arrived => {
+    arrived.forEach(({ id, data }) => {
+      desktopNotifications.show({
+        category: 'report_ready',
+        title: 'COA report ready',
+        body: `${data.students_processed ?? data.student_reports.length} students · ${data.total_standards ?? data.standard_scores.length} standards`,
+        tag: `report:${id}`,
+        url: deepLinkUrl({ view: 'report', collection: 'agent_coa_reports', id }),
+      })
+    })
+  })
+  useNewArrivals(siteReports.documents, siteReports.loading, arrived => {
+    arrived.forEach(({ id, data }) => {
+      desktopNotifications.show({
+        category: 'report_ready',
+        title: 'Site report ready',
+        body: `${data.total_sites ?? data.sites.length} sites · ${data.total_preceptors ?? data.preceptors.length} preceptors`,
+        tag: `report:${id}`,
+        url: deepLinkUrl({ view: 'report', collection: 'agent_sites', id }),
+      })
+    })
+  })
+}
@@ -0,0 +1,25 @@
+import { createContext, useContext } from 'react'
+import type { AuthUser, Permission } from '../services/auth'
+
+export interface AuthContextValue {
+  user: AuthUser | null
+  /** True until the first auth state (and role) has been resolved */
+  loading: boolean
+  can: (permission: Permission) => boolean
+  ssoLabel: string | null
+  signInWithEmail: (email: string, password: string) => Promise<void>
+  signInWithSso: () => Promise<void>
+  sendPasswordReset: (email: string) => Promise<void>
+  signOut: () => Promise<void>
+}
+
+export const AuthContext = createContext<AuthContextValue | null>(null)
+
+// Current user, role checks and sign-in actions; must be used under <AuthProvider>
+export function useAuth(): AuthContextValue {
+  const value = useContext(AuthContext)
+  if (!value) {
+    throw new Error('useAuth must be used inside <AuthProvider>')
+  }
+  return value
+}
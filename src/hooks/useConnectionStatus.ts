@@ -0,0 +1,33 @@
+import { useCallback, useRef, useSyncExternalStore } from 'react'
+import { combineFreshness, connectionStatus, type ConnectionStatus, type Freshness } from '../services/connectionStatus'
+
+const subscribe = (callback: () => void) => connectionStatus.subscribe(callback)
+
+// Online, offline, or serving cached Firestore data (and since when)
+export function useConnectionStatus(): ConnectionStatus {
+  return useSyncExternalStore(subscribe, () => connectionStatus.getStatus())
+}
+
+// Whether the listener for a query key (see subscriptionRegistry) is serving cached data
+export function useFreshness(key: string | null): Freshness {
+  const getSnapshot = useCallback(() => connectionStatus.getFreshness(key ?? ''), [key])
+  return useSyncExternalStore(subscribe, getSnapshot)
+}
+
+// Freshness of several query keys together (see combineFreshness)
+export function useCombinedFreshness(keys: readonly string[]): Freshness {
+  // The combined value is only rebuilt when one of the keys' freshness changes,
+  // so the snapshot stays the same object between changes
+  const cache = useRef<{ items: Freshness[]; value: Freshness } | null>(null)
+  const keyList = keys.join('\n')
+  const getSnapshot = useCallback(() => {
+    const items = keyList.split('\n').filter(Boolean).map(key => connectionStatus.getFreshness(key))
+    const cached = cache.current
+    if (cached && cached.items.length === items.length && cached.items.every((item, index) => item === items[index])) {
+      return cached.value
+    }
+    cache.current = { items, value: combineFreshness(...items) }
+    return cache.current.value
+  }, [keyList])
+  return useSyncExternalStore(subscribe, getSnapshot)
+}
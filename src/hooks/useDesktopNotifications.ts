@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react'
+import { desktopNotifications, type DesktopNotificationState } from '../services/desktopNotifications'
+
+const subscribe = (callback: () => void) => desktopNotifications.subscribe(callback)
+
+// Browser permission and the desktop notification categories the user turned on
+export function useDesktopNotifications(): DesktopNotificationState {
+  return useSyncExternalStore(subscribe, () => desktopNotifications.getState())
+}
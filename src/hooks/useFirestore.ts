@@ -0,0 +1,173 @@
+import { useEffect, useRef, useState } from 'react'
+import { FirestoreService, type FirestoreDocument, type TypedListenOptions } from '../services/firestore'
+import type { CollectionDocTypes, TypedCollection } from '../services/firestoreSchemas'
+import { queryKey, type CollectionQuery, type QueryableCollection } from '../services/queryBuilder'
+import type { Freshness } from '../services/connectionStatus'
+import { useCombinedFreshness, useFreshness } from './useConnectionStatus'
+import { collectionQueryKey, documentKey } from '../services/subscriptionRegistry'
+
+/**
+ * React views of the shared Firestore subscriptions (FirestoreService.watchCollection,
+ * watchDocument and watchQuery): components asking for the same query share one listener.
+ */
+
+export interface CollectionResult<T> {
+  documents: FirestoreDocument<T>[]
+  /** True until the first snapshot for the current query arrives */
+  loading: boolean
+  error: Error | null
+  /** Whether the documents are served from the offline cache */
+  freshness: Freshness
+}
+
+export interface DocumentResult<T> {
+  /** null when the document doesn't exist */
+  data: T | null
+  loading: boolean
+  error: Error | null
+  freshness: Freshness
+}
+
+export interface DocumentsResult<T> {
+  /** By document id; null when the document doesn't exist or hasn't loaded */
+  data: Record<string, T | null>
+  /** True until every document's first snapshot arrives */
+  loading: boolean
+  /** The first error among the documents */
+  error: Error | null
+  freshness: Freshness
+}
+
+interface Snapshot<T> {
+  key: string
+  value: T
+  error: Error | null
+}
+
+// Live documents of a typed collection; pass enabled=false to skip the query entirely
+export function useCollection<K extends TypedCollection>(
+  collectionName: K,
+  options: TypedListenOptions = {},
+  enabled: boolean = true
+): CollectionResult<CollectionDocTypes[K]> {
+  type Documents = FirestoreDocument<CollectionDocTypes[K]>[]
+  const { limitCount, orderByCreatedAt } = options
+  const sinceTime = options.since?.getTime()
+  const key = collectionQueryKey(collectionName, options)
+  const freshness = useFreshness(enabled ? key : null)
+  const [snapshot, setSnapshot] = useState<Snapshot<Documents> | null>(null)
+
+  useEffect(() => {
+    if (!enabled) return
+    const queryOptions: TypedListenOptions = {
+      limitCount,
+      orderByCreatedAt,
+      since: sinceTime === undefined ? undefined : new Date(sinceTime),
+    }
+    const queryKey = collectionQueryKey(collectionName, queryOptions)
+    return FirestoreService.watchCollection(
+      collectionName,
+      (documents) => setSnapshot({ key: queryKey, value: documents, error: null }),
+      (error) => setSnapshot(prev => ({ key: queryKey, value: prev?.key === queryKey ? prev.value : [], error })),
+      queryOptions
+    )
+  }, [collectionName, limitCount, orderByCreatedAt, sinceTime, enabled])
+
+  if (!enabled) return { documents: [], loading: false, error: null, freshness }
+  // Until the new query's first snapshot, don't show the previous query's documents
+  if (snapshot?.key !== key) return { documents: [], loading: true, error: null, freshness }
+  return { documents: snapshot.value, loading: false, error: snapshot.error, freshness }
+}
+
+// Live data of one document of a typed collection, e.g. useDocument('agent_states', 'all_states')
+export function useDocument<K extends TypedCollection>(
+  collectionName: K,
+  documentId: string,
+  enabled: boolean = true
+): DocumentResult<CollectionDocTypes[K]> {
+  const key = documentKey(collectionName, documentId)
+  const freshness = useFreshness(enabled ? key : null)
+  const [snapshot, setSnapshot] = useState<Snapshot<CollectionDocTypes[K] | null> | null>(null)
+
+  useEffect(() => {
+    if (!enabled) return
+    const docKey = documentKey(collectionName, documentId)
+    return FirestoreService.watchDocument(
+      collectionName,
+      documentId,
+      (data) => setSnapshot({ key: docKey, value: data, error: null }),
+      (error) => setSnapshot({ key: docKey, value: null, error })
+    )
+  }, [collectionName, documentId, enabled])
+
+  if (!enabled) return { data: null, loading: false, error: null, freshness }
+  if (snapshot?.key !== key) return { data: null, loading: true, error: null, freshness }
+  return { data: snapshot.value, loading: false, error: snapshot.error, freshness }
+}
+
+// Live data of several documents of one typed collection, by id
+export function useDocuments<K extends TypedCollection>(
+  collectionName: K,
+  documentIds: readonly string[]
+): DocumentsResult<CollectionDocTypes[K]> {
+  type Data = CollectionDocTypes[K] | null
+  const idList = documentIds.join('\n')
+  const freshness = useCombinedFreshness(documentIds.map(id => documentKey(collectionName, id)))
+  const [snapshots, setSnapshots] = useState<Record<string, Snapshot<Data>>>({})
+
+  useEffect(() => {
+    const ids = idList.split('\n').filter(Boolean)
+    const unsubscribes = ids.map(id => {
+      const docKey = documentKey(collectionName, id)
+      return FirestoreService.watchDocument(
+        collectionName,
+        id,
+        (data) => setSnapshots(prev => ({ ...prev, [id]: { key: docKey, value: data, error: null } })),
+        (error) => setSnapshots(prev => ({ ...prev, [id]: { key: docKey, value: null, error } }))
+      )
+    })
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe())
+  }, [collectionName, idList])
+
+  const data: Record<string, Data> = {}
+  let loading = false
+  let error: Error | null = null
+  documentIds.forEach(id => {
+    const snapshot = snapshots[id]
+    if (snapshot?.key !== documentKey(collectionName, id)) {
+      data[id] = null
+      loading = true
+      return
+    }
+    data[id] = snapshot.value
+    error ??= snapshot.error
+  })
+  return { data, loading, error, freshness }
+}
+
+// Live documents matching a built query (see queryBuilder); pass null to skip it.
+// The query may be rebuilt every render: it is only re-subscribed when its filters change.
+export function useQuery<K extends QueryableCollection>(
+  filterQuery: CollectionQuery<K> | null
+): CollectionResult<CollectionDocTypes[K]> {
+  type Documents = FirestoreDocument<CollectionDocTypes[K]>[]
+  const key = filterQuery ? queryKey(filterQuery) : null
+  const freshness = useFreshness(key)
+  const queryRef = useRef(filterQuery)
+  queryRef.current = filterQuery
+  const [snapshot, setSnapshot] = useState<Snapshot<Documents> | null>(null)
+
+  useEffect(() => {
+    const current = queryRef.current
+    if (!key || !current) return
+    return FirestoreService.watchQuery(
+      current,
+      (documents) => setSnapshot({ key, value: documents, error: null }),
+      (error) => setSnapshot(prev => ({ key, value: prev?.key === key ? prev.value : [], error }))
+    )
+  }, [key])
+
+  if (!key) return { documents: [], loading: false, error: null, freshness }
+  if (snapshot?.key !== key) return { documents: [], loading: true, error: null, freshness }
+  return { documents: snapshot.value, loading: false, error: snapshot.error, freshness }
+}
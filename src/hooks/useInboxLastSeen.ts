@@ -0,0 +1,41 @@
+import { useCallback, useState } from 'react'
+
+const STORAGE_PREFIX = 'precepgo:safety-inbox-seen:'
+
+function readLastSeen(userId: string | null): Date | null {
+  if (!userId) return null
+  try {
+    const stored = localStorage.getItem(STORAGE_PREFIX + userId)
+    return stored ? new Date(stored) : null
+  } catch {
+    return null
+  }
+}
+
+// When this user last looked at the safety inbox, remembered per browser, so
+// notifications arriving after it can be badged as new
+export function useInboxLastSeen(userId: string | null): [Date | null, () => void] {
+  const [lastSeen, setLastSeen] = useState<{ userId: string | null; at: Date | null }>(() => ({
+    userId,
+    at: readLastSeen(userId),
+  }))
+  // Re-read when a different user signs in
+  const current = lastSeen.userId === userId ? lastSeen.at : readLastSeen(userId)
+  if (lastSeen.userId !== userId) {
+    setLastSeen({ userId, at: current })
+  }
+
+  const markSeen = useCallback(() => {
+    const now = new Date()
+    if (userId) {
+      try {
+        localStorage.setItem(STORAGE_PREFIX + userId, now.toISOString())
+      } catch {
+        // Storage disabled: the badge then only resets for this page
+      }
+    }
+    setLastSeen({ userId, at: now })
+  }, [userId])
+
+  return [current, markSeen]
+}
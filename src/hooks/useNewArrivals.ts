@@ -0,0 +1,33 @@
+import { useEffect, useRef } from 'react'
+import type { FirestoreDocument } from '../services/firestore'
+
+// Documents arriving within this long of now count as new; older ones showing up
+// later (a slow first sync, paging) don't
+const ARRIVAL_WINDOW_MS = 60 * 60 * 1000
+
+// Calls onArrival with documents that appear in a live query after its first snapshot
+export function useNewArrivals<T>(
+  documents: FirestoreDocument<T>[],
+  loading: boolean,
+  onArrival: (documents: FirestoreDocument<T>[]) => void
+) {
+  const seenRef = useRef<Set<string> | null>(null)
+  const onArrivalRef = useRef(onArrival)
+
+  useEffect(() => {
+    onArrivalRef.current = onArrival
+  })
+
+  useEffect(() => {
+    if (loading) return
+    const seen = seenRef.current
+    seenRef.current = new Set([...(seen ?? []), ...documents.map(document => document.id)])
+    // The first snapshot is what was already there
+    if (!seen) return
+    const now = Date.now()
+    const arrived = documents.filter(document =>
+      !seen.has(document.id) && !!document.createdAt && now - document.createdAt.getTime() < ARRIVAL_WINDOW_MS
+    )
+    if (arrived.length > 0) onArrivalRef.current(arrived)
+  }, [documents, loading])
+}
@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react'
+import { notificationCenter, type NotificationCenterState } from '../services/notificationCenter'
+
+const subscribe = (callback: () => void) => notificationCenter.subscribe(callback)
+
+// Recent in-app events, visible toasts and mute settings of the signed-in user
+export function useNotificationCenter(): NotificationCenterState {
+  return useSyncExternalStore(subscribe, () => notificationCenter.getState())
+}
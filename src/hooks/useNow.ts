@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react'
+
+// The current time, refreshed every `intervalMs` while the component is mounted
+export function useNow(intervalMs: number): Date {
+  const [now, setNow] = useState(() => new Date())
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), intervalMs)
+    return () => clearInterval(timer)
+  }, [intervalMs])
+
+  return now
+}
@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { Freshness } from '../services/connectionStatus'
+import type { CollectionDocTypes, TypedCollection } from '../services/firestoreSchemas'
+import {
+  emptyPagedState,
+  watchPagedCollection,
+  type PagedCollection,
+  type PagedCollectionState,
+} from '../services/pagedCollection'
+import { collectionQueryKey } from '../services/subscriptionRegistry'
+import { useFreshness } from './useConnectionStatus'
+
+export interface PagedCollectionResult<T> extends PagedCollectionState<T> {
+  loadMore: () => Promise<void>
+  /** Whether the live first page is served from the offline cache */
+  freshness: Freshness
+}
+
+// Newest `pageSize` documents, kept live, plus older pages fetched on loadMore()
+export function usePagedCollection<K extends TypedCollection>(
+  collectionName: K,
+  pageSize: number
+): PagedCollectionResult<CollectionDocTypes[K]> {
+  const [state, setState] = useState<PagedCollectionState<CollectionDocTypes[K]>>(emptyPagedState)
+  const pagedRef = useRef<PagedCollection | null>(null)
+  // Same query as the live first page in watchPagedCollection
+  const freshness = useFreshness(collectionQueryKey(collectionName, { limitCount: pageSize, orderByCreatedAt: true }))
+
+  useEffect(() => {
+    const paged = watchPagedCollection(collectionName, pageSize, setState)
+    pagedRef.current = paged
+    return () => {
+      paged.unsubscribe()
+      pagedRef.current = null
+      setState(emptyPagedState())
+    }
+  }, [collectionName, pageSize])
+
+  const loadMore = useCallback(async () => {
+    await pagedRef.current?.loadMore()
+  }, [])
+
+  return { ...state, loadMore, freshness }
+}
@@ -0,0 +1,28 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react'
+import type { AgentStatesDoc } from '../services/firestoreSchemas'
+import { pipelineRunner, type PipelineRunnerState, type PipelineStepStarter } from '../services/pipelineRunner'
+
+const subscribe = (callback: () => void) => pipelineRunner.subscribe(callback)
+
+// The signed-in user's pipelines and the last pipeline run
+export function usePipelines(): PipelineRunnerState {
+  return useSyncExternalStore(subscribe, () => pipelineRunner.getState())
+}
+
+// Drives pipeline runs from the all_states document, starting steps through `start`;
+// only for users allowed to run agents
+export function usePipelineRunner(allStates: AgentStatesDoc | null, start: PipelineStepStarter, enabled: boolean) {
+  // The starter is rebuilt every render; the runner always calls the latest one
+  const startRef = useRef(start)
+  startRef.current = start
+
+  useEffect(() => {
+    if (!enabled) return
+    pipelineRunner.setStarter(agent => startRef.current(agent))
+    return () => pipelineRunner.setStarter(null)
+  }, [enabled])
+
+  useEffect(() => {
+    if (enabled && allStates) pipelineRunner.observe(allStates)
+  }, [allStates, enabled])
+}
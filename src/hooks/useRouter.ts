@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react'
+import { router } from '../services/router'
+import type { AppLocation } from '../utils/routes'
+
+const subscribe = (callback: () => void) => router.subscribe(callback)
+
+// The page in the address bar and whatever is open over it
+export function useLocation(): AppLocation {
+  return useSyncExternalStore(subscribe, () => router.getState())
+}
@@ -0,0 +1,15 @@
+import { useEffect } from 'react'
+import { agentStateEntry, type AgentStatesDoc } from '../services/firestoreSchemas'
+import { agentStatePrefix } from '../services/agentRegistry'
+import { RECORDED_AGENTS } from '../services/runHistory'
+import { runRecorder } from '../services/runRecorder'
+
+// Records run starts and ends into the run history from the all_states document;
+// only for users allowed to run agents, since they are the ones who may write it
+export function useRunRecorder(allStates: AgentStatesDoc | null, enabled: boolean) {
+  useEffect(() => {
+    if (!enabled || !allStates) return
+    const automatedMode = allStates.automated_mode === 'ON' || allStates.automated_mode === true
+    RECORDED_AGENTS.forEach(agent => runRecorder.observe(agent, agentStateEntry(allStates, agentStatePrefix(agent)), automatedMode))
+  }, [allStates, enabled])
+}
@@ -4,9 +4,19 @@ import './index.css'
 // Import Firebase config first to initialize auth
 import './config/firebase'
 import App from './App.tsx'
+import { AuthProvider } from './components/AuthProvider'
+import { AuthGate } from './components/AuthGate'
+import { registerServiceWorker } from './services/desktopNotifications'
+
+// Shows desktop notifications and handles clicks on them
+registerServiceWorker()
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    <AuthProvider>
+      <AuthGate>
+        <App />
+      </AuthGate>
+    </AuthProvider>
   </StrictMode>,
 )
@@ -0,0 +1,332 @@
+/**
+ * Fixture data for mock mode: a seeded snapshot of every collection the dashboard
+ * reads, plus generators the mock agents use to create new documents during runs.
+ *
+ * Names, case types and preceptors come from the bundled JSON data so the mock
+ * dashboard looks like the real one.
+ */
+
+import studentsData from '../data/students.json';
+import standardsData from '../data/standards.json';
+import siteAnalysis from '../../readme/analysis_data.json';
+import { severityForNegativeFields } from '../services/firestoreSchemas';
+
+export type MockSeed = Record<string, Array<{ id: string; data: Record<string, unknown> }>>;
+
+export interface MockStudent {
+  id: string;
+  name: string;
+  class_standing: string;
+}
+
+interface FixtureLists {
+  students: MockStudent[];
+  preceptorNames: string[];
+  caseTypes: string[];
+  standardIds: string[];
+  /** Ratings of -1 on these fields are flagged as dangerous by the safety agent */
+  performanceFields: string[];
+  competencyFields: string[];
+}
+
+let lists: FixtureLists | null = null;
+
+// Built on first use: importing this module runs nothing, so live builds can drop
+// it together with the JSON it reads (see config/dataMode)
+function fixtureLists(): FixtureLists {
+  lists ??= {
+    students: studentsData.students.map(student => ({
+      id: student.id,
+      name: student.name,
+      class_standing: student.class_standing,
+    })),
+    preceptorNames: siteAnalysis.analysis_data.preceptors.map(preceptor => preceptor.preceptor_name),
+    caseTypes: [...new Set(siteAnalysis.analysis_data.sites.flatMap(site => site.case_types))].sort(),
+    standardIds: standardsData.standards.map(standard => standard.id),
+    performanceFields: Array.from({ length: 11 }, (_, i) => `pc_${i}`),
+    competencyFields: Array.from({ length: 13 }, (_, i) => `ac_${i}`),
+  };
+  return lists;
+}
+
+// Firestore-style 20 character ids
+export function mockDocumentId(): string {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  let id = '';
+  for (let i = 0; i < 20; i++) {
+    id += alphabet[Math.floor(Math.random() * alphabet.length)];
+  }
+  return id;
+}
+
+// Small seeded PRNG (mulberry32) so the initial fixture set is the same on every load
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(random: () => number, items: T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function classStandingNumber(classStanding: string): number {
+  return parseInt(classStanding, 10) || 1;
+}
+
+export function formatLogTime(date: Date): string {
+  return date.toISOString().replace('T', ' ').slice(0, 19);
+}
+
+export function findStudent(studentId?: string): MockStudent | undefined {
+  return fixtureLists().students.find(student => student.id === studentId);
+}
+
+export interface EvaluationOptions {
+  student_id?: string;
+  case_type?: string;
+  /** Chance that any one performance field is rated -1 (dangerous) */
+  dangerRate?: number;
+}
+
+export function makeEvaluation(random: () => number, createdAt: Date, options: EvaluationOptions = {}) {
+  const { students, caseTypes, preceptorNames, performanceFields, competencyFields } = fixtureLists();
+  const student = findStudent(options.student_id) ?? pick(random, students);
+  const caseType = options.case_type || pick(random, caseTypes);
+  const preceptor = pick(random, preceptorNames);
+  const dangerRate = options.dangerRate ?? 0.04;
+
+  const scores: Record<string, number> = {};
+  competencyFields.forEach(field => {
+    scores[field] = 40 + Math.round(random() * 6) * 10;
+  });
+  performanceFields.forEach(field => {
+    scores[field] = random() < dangerRate ? -1 : 2 + Math.floor(random() * 3);
+  });
+
+  const firstName = preceptor.split(' ')[0];
+  return {
+    ...scores,
+    case_type: caseType,
+    class_standing: classStandingNumber(student.class_standing),
+    comments: `${student.name} managed the ${caseType} case with growing confidence. ${firstName} noted solid preparation and clear communication with the team.`,
+    focus_areas: `Continue refining the anesthetic plan for ${caseType}, with attention to airway strategy and documentation.`,
+    completed: true,
+    created_by: 'evaluations-agent',
+    preceptee_user_id: student.id,
+    preceptee_user_name: student.name,
+    preceptor_name: preceptor,
+    request_date: new Date(createdAt.getTime() - 24 * 60 * 60 * 1000),
+    completion_date: createdAt,
+    created_at: createdAt,
+    modified_at: createdAt,
+  };
+}
+
+/**
+ * Build the safety notification for an evaluation, or null when nothing was rated dangerous
+ */
+export function makeNotification(evaluationId: string, evaluation: Record<string, unknown>, createdAt: Date) {
+  const negativeFields = fixtureLists().performanceFields.filter(field => evaluation[field] === -1);
+  if (negativeFields.length === 0) return null;
+
+  const metricItems = negativeFields
+    .map(field => `<div class="metric-item"><span class="negative-field">(${field}) - DANGEROUS</span></div>`)
+    .join('');
+  return {
+    case_type: evaluation.case_type,
+    created_at: createdAt,
+    email: `<html><body><h2>⚠️ Negative Evaluation Alert</h2><p><strong>Student Name:</strong> ${evaluation.preceptee_user_name}</p><p><strong>Preceptor Name:</strong> ${evaluation.preceptor_name}</p><p><strong>Case Type:</strong> ${evaluation.case_type}</p>${metricItems}</body></html>`,
+    evaluation_doc_id: evaluationId,
+    negative_fields: negativeFields,
+    notification_sent_at: createdAt,
+    severity: severityForNegativeFields(negativeFields),
+    preceptee_name: evaluation.preceptee_user_name,
+    preceptor_name: evaluation.preceptor_name,
+    request_id: mockDocumentId(),
+  };
+}
+
+export interface ScenarioOptions {
+  student_id?: string;
+  case_type?: string;
+}
+
+export function makeScenario(random: () => number, createdAt: Date, options: ScenarioOptions = {}) {
+  const { students, caseTypes } = fixtureLists();
+  const student = findStudent(options.student_id) ?? pick(random, students);
+  const caseType = options.case_type || pick(random, caseTypes);
+  const age = 18 + Math.floor(random() * 60);
+  const bestOption = random() < 0.5 ? 'A' : 'B';
+
+  return {
+    case: {
+      code: caseType.replace(/[^A-Za-z]/g, '').slice(0, 6).toUpperCase(),
+      name: caseType,
+      description: `Scheduled ${caseType.toLowerCase()} for a patient with a history relevant to ${student.name}'s learning goals.`,
+    },
+    patient: {
+      name: pick(random, ['Jordan Lee', 'Maria Alvarez', 'Samuel Brooks', 'Priya Natarajan', 'Evelyn Carter']),
+      age,
+      categories: age > 65 ? ['Geriatric', 'ASA III'] : ['Adult', 'ASA II'],
+    },
+    scenario: `You are the anesthesia provider for a ${age}-year-old patient presenting for ${caseType}. During induction the patient becomes hypotensive (BP 78/42) and the surgeon is eager to begin. What is your next step?`,
+    learning_points: [
+      'Recognize and treat post-induction hypotension before incision',
+      'Communicate clearly with the surgical team about readiness',
+      `Plan anesthetic depth around the stimulation profile of ${caseType}`,
+    ],
+    option_a: {
+      title: 'Treat and stabilize first',
+      description: 'Administer a vasopressor and fluid bolus, and ask the surgeon to wait until pressures recover.',
+      considerations: ['Protects end-organ perfusion', 'Briefly delays the case'],
+    },
+    option_b: {
+      title: 'Lighten the anesthetic and proceed',
+      description: 'Reduce volatile agent concentration and allow the surgeon to start while monitoring closely.',
+      considerations: ['Avoids delay', 'Risk of awareness and persistent hypotension'],
+    },
+    best_answer: {
+      option: bestOption,
+      rationale: bestOption === 'A'
+        ? 'Stabilizing hemodynamics before surgical stimulation is the safer choice for this patient.'
+        : 'With close monitoring, a lighter plane restores pressure without delaying an urgent case.',
+    },
+    references: 'Nagelhout & Elisha, Nurse Anesthesia, 7th ed.',
+    student_id: student.id,
+    student_name: student.name,
+    created_at: createdAt,
+  };
+}
+
+export interface COAReportOptions {
+  class_standing?: string;
+  student_id?: string;
+}
+
+export function makeCOAReport(random: () => number, createdAt: Date, options: COAReportOptions = {}) {
+  const { students: allStudents, standardIds } = fixtureLists();
+  const students = allStudents.filter(student =>
+    (!options.student_id || student.id === options.student_id) &&
+    (!options.class_standing || student.class_standing === options.class_standing)
+  );
+  const generatedAt = createdAt.toISOString();
+
+  const studentReports = students.map(student => {
+    const standardScores = standardIds.map(id => ({ id, score: 60 + Math.floor(random() * 41) }));
+    return {
+      student_id: student.id,
+      student_name: student.name,
+      class_standing: student.class_standing,
+      evaluations_processed: 3 + Math.floor(random() * 10),
+      total_score: standardScores.reduce((sum, standard) => sum + standard.score, 0),
+      total_standards: standardScores.length,
+      generated_at: generatedAt,
+      standard_scores: standardScores,
+    };
+  });
+
+  return {
+    agent: 'COA Compliance Agent',
+    created_at: createdAt,
+    generated_at: generatedAt,
+    standard_scores: standardIds.map(id => ({ id, score: 70 + Math.floor(random() * 31) })),
+    student_reports: studentReports,
+    students_processed: studentReports.length,
+    total_standards: standardIds.length,
+  };
+}
+
+export function makeSiteReport(createdAt: Date) {
+  return {
+    ...siteAnalysis,
+    created_at: createdAt,
+    generated_at: createdAt.toISOString(),
+  };
+}
+
+export const MOCK_AGENT_PREFIXES = ['evaluation_agent', 'scenario_agent', 'notification_agent', 'coa_agent', 'site_agent', 'time_agent'];
+
+/**
+ * Initial contents of every mocked collection
+ */
+export function createSeedData(): MockSeed {
+  const random = createRandom(20251104);
+  const now = Date.now();
+  const hoursAgo = (hours: number) => new Date(now - hours * 60 * 60 * 1000);
+
+  const evaluations: MockSeed[string] = [];
+  const notifications: MockSeed[string] = [];
+  for (let i = 0; i < 12; i++) {
+    const createdAt = hoursAgo(6 + i * 9);
+    const id = mockDocumentId();
+    // Make sure the safety inbox has something in it
+    const data = makeEvaluation(random, createdAt, { dangerRate: i % 4 === 0 ? 0.2 : 0 });
+    evaluations.push({ id, data });
+    const notification = makeNotification(id, data, new Date(createdAt.getTime() + 5 * 60 * 1000));
+    if (notification) notifications.push({ id: mockDocumentId(), data: notification });
+  }
+
+  const scenarios = [30, 54, 100].map(hours => ({ id: mockDocumentId(), data: makeScenario(random, hoursAgo(hours)) }));
+
+  const allStates: Record<string, unknown> = { automated_mode: 'OFF', updated_at: hoursAgo(2) };
+  const runs: MockSeed[string] = [];
+  MOCK_AGENT_PREFIXES.forEach((prefix, index) => {
+    const lastActivity = hoursAgo(2 + index * 3);
+    allStates[`${prefix}_state`] = 'IDLE';
+    allStates[`${prefix}_last_activity`] = lastActivity;
+    if (prefix !== 'time_agent') {
+      // The run that ended at lastActivity, so the run history isn't empty
+      const startedAt = new Date(lastActivity.getTime() - 40 * 1000);
+      runs.push({
+        id: mockDocumentId(),
+        data: {
+          agent: prefix,
+          trigger: index % 2 === 0 ? 'automated' : 'manual',
+          ...(index % 2 === 0 ? {} : { triggered_by: { name: 'Mock Admin' } }),
+          outcome: 'succeeded',
+          output_ids: [],
+          started_at: startedAt,
+          ended_at: lastActivity,
+          created_at: startedAt,
+        },
+      });
+    }
+    allStates[`${prefix}_logs`] = [
+      `[${formatLogTime(new Date(lastActivity.getTime() - 40 * 1000))}] Run started`,
+      `[${formatLogTime(lastActivity)}] Run completed successfully`,
+    ];
+  });
+
+  return {
+    agent_evaluations: evaluations,
+    agent_notifications: notifications,
+    agent_scenarios: scenarios,
+    agent_coa_reports: [{ id: mockDocumentId(), data: makeCOAReport(random, hoursAgo(20)) }],
+    agent_sites: [{ id: mockDocumentId(), data: makeSiteReport(hoursAgo(40)) }],
+    agent_states: [
+      { id: 'all_states', data: allStates },
+      { id: 'time_agent_state', data: { state: 'IDLE', last_updated: hoursAgo(5) } },
+    ],
+    agent_runs: runs,
+    safety_escalation_rules: [
+      {
+        id: mockDocumentId(),
+        data: {
+          name: 'Repeat flags',
+          enabled: true,
+          match: 'all',
+          conditions: [{ type: 'repeat_student', count: 2, within_days: 30 }],
+          actions: { raise_severity: 'critical', pin: true, acknowledge_within_hours: 24 },
+          created_at: hoursAgo(200),
+          updated_at: hoursAgo(200),
+        },
+      },
+    ],
+  };
+}
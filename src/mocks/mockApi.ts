@@ -0,0 +1,462 @@
+/**
+ * Mock-mode replacement for the `api` client. Agent runs are simulated in the
+ * browser: each run walks the agent through ACTIVE -> COMPLETED (or ERROR) in the
+ * mocked all_states document, appends logs, streams progress events and writes
+ * new documents to the mocked collections, just like the real backend.
+ *
+ * VITE_MOCK_FAILURE_RATE (0-1, default 0.1) controls how often requests and runs fail.
+ */
+
+import type {
+  ApiClient,
+  COAReportParams,
+  EvaluationRunParams,
+  RequestOptions,
+  RunStreamOutcome,
+  SafetyCheckParams,
+  ScenarioRunParams,
+  SiteReportParams,
+} from '../services/api';
+import {
+  parseResponse,
+  healthCheckSchema,
+  agentStatusSchema,
+  agentActionSchema,
+  automatedModeStatusSchema,
+  automatedModeActionSchema,
+  timeSavingsAnalyticsFor,
+  type RunProgressEvent,
+  type Schema,
+} from '../services/apiSchemas';
+import { ApiClientError, ApiServerError, type ApiErrorContext } from '../services/apiErrors';
+import { normalizeAutomationSchedule } from '../services/firestoreSchemas';
+import {
+  AUTOMATION_SCHEDULE_COLLECTION,
+  AUTOMATION_SCHEDULE_DOCUMENT,
+  isQuietTime,
+  resolveAutomationSchedule,
+} from '../services/automationSchedule';
+import { agentStatePrefix } from '../services/agentRegistry';
+import { mockDb, type MockDocumentData } from './mockDatabase';
+import {
+  createRandom,
+  formatLogTime,
+  makeCOAReport,
+  makeEvaluation,
+  makeNotification,
+  makeScenario,
+  makeSiteReport,
+} from './fixtures';
+
+const parsedFailureRate = parseFloat(import.meta.env.VITE_MOCK_FAILURE_RATE ?? '');
+const FAILURE_RATE = Number.isFinite(parsedFailureRate) ? Math.max(0, Math.min(1, parsedFailureRate)) : 0.1;
+
+// Simulated network latency for plain requests
+const RESPONSE_DELAY_MS = 300;
+// Time between progress steps of a simulated run
+const RUN_STEP_MS = 1500;
+const AUTOMATED_MODE_MINUTES = 15;
+// How often automated mode starts the next agent
+const AUTOMATED_RUN_INTERVAL_MS = 20000;
+const MAX_LOG_ENTRIES = 100;
+
+const random = createRandom(Date.now());
+
+type RunResult = Record<string, unknown>;
+
+interface MockAgent {
+  steps: string[];
+  // Writes the run's documents and returns the agent's `last_result`
+  produce: (params: Record<string, string | undefined>) => RunResult;
+}
+
+interface MockRun {
+  agent: string;
+  events: RunProgressEvent[];
+  listeners: Set<(event: RunProgressEvent) => void>;
+  finished: boolean;
+}
+
+const runs = new Map<string, MockRun>();
+
+let automatedMode: { startTime: Date; endTime: Date; timer: ReturnType<typeof setInterval>; nextAgent: number } | null = null;
+
+const mockAgents: Record<string, MockAgent> = {
+  evaluation_agent: {
+    steps: ['Selecting student and case', 'Scoring competencies', 'Writing preceptor comments', 'Saving evaluation'],
+    produce: params => {
+      const evaluation = makeEvaluation(random, new Date(), params);
+      const docId = mockDb.add('agent_evaluations', evaluation);
+      return { case_type: evaluation.case_type, doc_id: docId };
+    },
+  },
+  notification_agent: {
+    steps: ['Loading recent evaluations', 'Checking for dangerous ratings', 'Sending notifications'],
+    produce: params => {
+      const since = params.start_date ? new Date(params.start_date) : null;
+      const notified = new Set(mockDb.getDocuments('agent_notifications').map(d => d.data.evaluation_doc_id));
+      let sent = 0;
+      mockDb.getDocuments('agent_evaluations').forEach(({ id, data }) => {
+        if (notified.has(id)) return;
+        if (params.student_id && data.preceptee_user_id !== params.student_id) return;
+        if (since && (data.created_at as Date) < since) return;
+        const notification = makeNotification(id, data, new Date());
+        if (notification) {
+          mockDb.add('agent_notifications', notification);
+          sent++;
+        }
+      });
+      return { notifications_sent: sent, timestamp: new Date().toISOString() };
+    },
+  },
+  scenario_agent: {
+    steps: ['Choosing a case', 'Drafting the scenario', 'Writing answer options', 'Saving scenario'],
+    produce: params => {
+      const scenario = makeScenario(random, new Date(), params);
+      const firestoreId = mockDb.add('agent_scenarios', scenario);
+      return { case_name: scenario.case.name, firestore_id: firestoreId, saved_to_file: false };
+    },
+  },
+  coa_agent: {
+    steps: ['Loading evaluations', 'Mapping metrics to COA standards', 'Scoring students', 'Saving reports'],
+    produce: params => {
+      const report = makeCOAReport(random, new Date(), params);
+      mockDb.add('agent_coa_reports', report);
+      return {
+        reports_generated: report.student_reports.length,
+        students_processed: report.students_processed,
+        total_standards: report.total_standards,
+      };
+    },
+  },
+  site_agent: {
+    steps: ['Grouping evaluations by site', 'Analyzing preceptor coverage', 'Writing site report'],
+    produce: () => {
+      const report = makeSiteReport(new Date());
+      mockDb.add('agent_sites', report);
+      return { report_version: report.report_version, total_evaluations_analyzed: report.total_evaluations_analyzed };
+    },
+  },
+};
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason ?? new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason ?? new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function requestContext(endpoint: string): ApiErrorContext {
+  return { endpoint, requestId: `mock-${Math.random().toString(36).slice(2, 10)}` };
+}
+
+// Simulate latency and the occasional server failure, then validate like the live client
+async function respond<T>(endpoint: string, schema: Schema<T>, body: unknown, options: RequestOptions = {}): Promise<T> {
+  const context = requestContext(endpoint);
+  await delay(RESPONSE_DELAY_MS, options.signal);
+  // Request-level failures are rarer than run failures so polling mostly succeeds
+  if (random() < FAILURE_RATE / 3) {
+    throw new ApiServerError('Simulated backend failure (mock mode)', { ...context, status: 503 });
+  }
+  return parseResponse(context, schema, body);
+}
+
+function allStates(): MockDocumentData {
+  return mockDb.getDocument('agent_states', 'all_states') ?? {};
+}
+
+function updateAgent(agentName: string, fields: Record<string, unknown>, logMessage?: string) {
+  const prefix = agentStatePrefix(agentName);
+  const update: Record<string, unknown> = { updated_at: new Date() };
+  Object.entries(fields).forEach(([key, value]) => {
+    update[`${prefix}_${key}`] = value;
+  });
+  if (logMessage) {
+    const logs = (allStates()[`${prefix}_logs`] as string[] | undefined) ?? [];
+    update[`${prefix}_logs`] = [...logs, `[${formatLogTime(new Date())}] ${logMessage}`].slice(-MAX_LOG_ENTRIES);
+  }
+  mockDb.set('agent_states', 'all_states', update, { merge: true });
+}
+
+interface RunEventInput {
+  status: 'running' | 'completed' | 'failed';
+  step: string | null;
+  message: string;
+  percent: number | null;
+  error: string | null;
+  partial_output?: unknown;
+}
+
+function emitRunEvent(runId: string, event: RunEventInput) {
+  const run = runs.get(runId);
+  if (!run) return;
+  const fullEvent: RunProgressEvent = { partial_output: undefined, ...event, run_id: runId, timestamp: new Date().toISOString() };
+  run.events.push(fullEvent);
+  if (event.status === 'completed' || event.status === 'failed') run.finished = true;
+  run.listeners.forEach(listener => listener(fullEvent));
+}
+
+/**
+ * Start a simulated run. The run continues in the background after the action
+ * request resolves, like a Cloud Run job the frontend only observes.
+ */
+function startRun(agentName: string, params: object = {}): string {
+  const agent = mockAgents[agentName];
+  const runId = `mock-run-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+  runs.set(runId, { agent: agentName, events: [], listeners: new Set(), finished: false });
+
+  const runParams = Object.fromEntries(
+    Object.entries(params).filter(([, value]) => typeof value === 'string' && value !== '')
+  ) as Record<string, string>;
+  // Decide up front so a failing run still shows some progress before erroring
+  const failAtStep = random() < FAILURE_RATE ? Math.floor(random() * agent.steps.length) : -1;
+
+  updateAgent(agentName, { state: 'ACTIVE' }, `Run ${runId} started${Object.keys(runParams).length ? ` with ${JSON.stringify(runParams)}` : ''}`);
+  emitRunEvent(runId, { status: 'running', step: null, message: 'Run started', percent: 0, error: null });
+
+  agent.steps.forEach((step, index) => {
+    setTimeout(() => {
+      const run = runs.get(runId);
+      if (!run || run.finished) return;
+
+      if (index === failAtStep) {
+        const message = `Simulated failure during "${step}"`;
+        updateAgent(agentName, { state: 'ERROR', last_error: { message, timestamp: new Date() } }, `ERROR: ${message}`);
+        emitRunEvent(runId, { status: 'failed', step, message, percent: null, error: message });
+        return;
+      }
+
+      const percent = Math.round(((index + 1) / (agent.steps.length + 1)) * 100);
+      updateAgent(agentName, {}, step);
+      emitRunEvent(runId, { status: 'running', step, message: step, percent, error: null });
+
+      if (index === agent.steps.length - 1) {
+        setTimeout(() => {
+          const result = agent.produce(runParams);
+          const now = new Date();
+          updateAgent(agentName, { state: 'COMPLETED', last_activity: now, last_result: result }, 'Run completed successfully');
+          emitRunEvent(runId, { status: 'completed', step: 'Done', message: 'Run completed', percent: 100, error: null, partial_output: result });
+        }, RUN_STEP_MS);
+      }
+    }, RUN_STEP_MS * (index + 1));
+  });
+
+  return runId;
+}
+
+async function runAgent(agentName: string, endpoint: string, params: object | undefined, options?: RequestOptions) {
+  const context = requestContext(endpoint);
+  await delay(RESPONSE_DELAY_MS, options?.signal);
+
+  if (allStates()[`${agentName}_state`] === 'ACTIVE') {
+    throw new ApiClientError(`${agentName} is already running`, [], { ...context, status: 409 });
+  }
+  if (random() < FAILURE_RATE / 3) {
+    throw new ApiServerError('Simulated backend failure (mock mode)', { ...context, status: 500 });
+  }
+
+  const runId = startRun(agentName, params);
+  return parseResponse(context, agentActionSchema, { ok: true, message: 'Run started', run_id: runId });
+}
+
+function automatedModeStatus() {
+  if (!automatedMode) {
+    return { active: false, start_time: null, end_time: null, elapsed_minutes: null, remaining_minutes: null };
+  }
+  const now = Date.now();
+  return {
+    active: true,
+    start_time: automatedMode.startTime.toISOString(),
+    end_time: automatedMode.endTime.toISOString(),
+    elapsed_minutes: Math.round((now - automatedMode.startTime.getTime()) / 60000),
+    remaining_minutes: Math.max(0, Math.round((automatedMode.endTime.getTime() - now) / 60000)),
+  };
+}
+
+function startAutomatedModeRuns() {
+  if (automatedMode) return;
+  const startTime = new Date();
+  const endTime = new Date(startTime.getTime() + AUTOMATED_MODE_MINUTES * 60000);
+  const agentNames = Object.keys(mockAgents);
+
+  const timer = setInterval(() => {
+    if (!automatedMode) return;
+    if (Date.now() >= automatedMode.endTime.getTime()) {
+      stopAutomatedModeRuns();
+      return;
+    }
+    const agentName = agentNames[automatedMode.nextAgent % agentNames.length];
+    automatedMode.nextAgent++;
+    // Cadences are compressed into the rotation; only enablement and quiet hours apply
+    const stored = mockDb.getDocument(AUTOMATION_SCHEDULE_COLLECTION, AUTOMATION_SCHEDULE_DOCUMENT);
+    const schedule = resolveAutomationSchedule(stored ? normalizeAutomationSchedule(stored) : null);
+    const entry = schedule.agents[agentName];
+    if (!entry?.enabled || (!entry.ignore_quiet_hours && isQuietTime(new Date(), schedule.quiet_hours))) return;
+    if (allStates()[`${agentName}_state`] !== 'ACTIVE') {
+      startRun(agentName);
+    }
+  }, AUTOMATED_RUN_INTERVAL_MS);
+
+  automatedMode = { startTime, endTime, timer, nextAgent: 0 };
+  mockDb.set('agent_states', 'all_states', {
+    automated_mode: 'ON',
+    automated_mode_start_time: startTime,
+    automated_mode_end_time: endTime,
+  }, { merge: true });
+}
+
+function stopAutomatedModeRuns() {
+  if (!automatedMode) return;
+  clearInterval(automatedMode.timer);
+  automatedMode = null;
+  mockDb.set('agent_states', 'all_states', { automated_mode: 'OFF', automated_mode_end_time: new Date() }, { merge: true });
+}
+
+// Rough per-task minutes saved, used to derive analytics from the mocked collections
+const MINUTES_SAVED_PER_TASK: Record<string, { collection: string; agent: string; minutes: number }> = {
+  'Evaluation drafting': { collection: 'agent_evaluations', agent: 'evaluation_agent', minutes: 25 },
+  'Safety review': { collection: 'agent_notifications', agent: 'notification_agent', minutes: 40 },
+  'Scenario writing': { collection: 'agent_scenarios', agent: 'scenario_agent', minutes: 90 },
+  'COA reporting': { collection: 'agent_coa_reports', agent: 'coa_agent', minutes: 240 },
+  'Site analysis': { collection: 'agent_sites', agent: 'site_agent', minutes: 180 },
+};
+
+function timeSavingsAnalytics(includeInsights: boolean) {
+  const taskBreakdown: Record<string, number> = {};
+  const agentBreakdown: Record<string, number> = {};
+  let totalTasks = 0;
+  Object.entries(MINUTES_SAVED_PER_TASK).forEach(([task, { collection, agent, minutes }]) => {
+    const count = mockDb.getDocuments(collection).length;
+    const hours = Math.round((count * minutes) / 6) / 10;
+    totalTasks += count;
+    taskBreakdown[task] = hours;
+    agentBreakdown[agent] = hours;
+  });
+  const totalHours = Math.round(Object.values(taskBreakdown).reduce((sum, hours) => sum + hours, 0) * 10) / 10;
+  const topAgent = Object.entries(agentBreakdown).sort(([, a], [, b]) => b - a)[0]?.[0] ?? null;
+
+  return {
+    total_hours_saved: totalHours,
+    fte_equivalent: Math.round((totalHours / 160) * 100) / 100,
+    cost_savings: Math.round(totalHours * 85),
+    total_tasks: totalTasks,
+    task_breakdown: taskBreakdown,
+    agent_breakdown: agentBreakdown,
+    top_agent: topAgent,
+    insights: includeInsights ? 'Mock data: figures are derived from the documents in this browser session.' : null,
+  };
+}
+
+export const mockApi: ApiClient = {
+  async healthCheck(options?: RequestOptions) {
+    return respond('GET /health', healthCheckSchema, { status: 'healthy' }, options);
+  },
+
+  async getAgentStatus(agentName: string, options?: RequestOptions) {
+    const prefix = agentStatePrefix(agentName);
+    const states = allStates();
+    const state = String(states[`${prefix}_state`] ?? 'IDLE').toLowerCase();
+    return respond('GET /agents/{agent}/status', agentStatusSchema, {
+      agent: agentName,
+      state,
+      result: states[`${prefix}_last_result`],
+      error: state === 'error' ? (states[`${prefix}_last_error`] as { message?: string } | undefined)?.message ?? null : null,
+    }, options);
+  },
+
+  async createDemoEvaluation(params?: EvaluationRunParams, options?: RequestOptions) {
+    return runAgent('evaluation_agent', 'POST /agents/evaluation/create-demo', params, options);
+  },
+
+  async generateScenario(params?: ScenarioRunParams, options?: RequestOptions) {
+    return runAgent('scenario_agent', 'POST /mentor/make-scenario', params, options);
+  },
+
+  async runSafetyCheck(params?: SafetyCheckParams, options?: RequestOptions) {
+    return runAgent('notification_agent', 'POST /agents/notification/safety-check', params, options);
+  },
+
+  async generateCOAReports(params?: COAReportParams, options?: RequestOptions) {
+    return runAgent('coa_agent', 'POST /agents/coa-compliance/generate-reports', params, options);
+  },
+
+  async startAutomatedMode(options?: RequestOptions) {
+    startAutomatedModeRuns();
+    return respond('POST /agents/automated-mode/start', automatedModeActionSchema, { ok: true, message: 'Automated mode started', active: true }, options);
+  },
+
+  async stopAutomatedMode(options?: RequestOptions) {
+    stopAutomatedModeRuns();
+    return respond('POST /agents/automated-mode/stop', automatedModeActionSchema, { ok: true, message: 'Automated mode stopped', active: false }, options);
+  },
+
+  async getAutomatedModeStatus(options?: RequestOptions) {
+    return respond('GET /agents/automated-mode/status', automatedModeStatusSchema, automatedModeStatus(), options);
+  },
+
+  async toggleAutomatedMode(options?: RequestOptions) {
+    return automatedMode ? this.stopAutomatedMode(options) : this.startAutomatedMode(options);
+  },
+
+  async getTimeSavingsAnalytics(timeframe: string = 'monthly', includeInsights: boolean = true, options?: RequestOptions) {
+    return respond('GET /agents/time-savings/analytics', timeSavingsAnalyticsFor(timeframe), timeSavingsAnalytics(includeInsights), options);
+  },
+
+  // Replays the run's events so far, then forwards new ones until the run finishes
+  async streamRunProgress(
+    agentName: string,
+    runId: string,
+    onEvent: (event: RunProgressEvent) => void,
+    options: Pick<RequestOptions, 'signal'> = {}
+  ): Promise<RunStreamOutcome> {
+    const run = runs.get(runId);
+    if (!run || run.agent !== agentName) {
+      const context = requestContext('GET /agents/{agent}/runs/{run_id}/events');
+      throw new ApiClientError(`Unknown run ${runId}`, [], { ...context, status: 404 });
+    }
+
+    return new Promise((resolve, reject) => {
+      const finish = (event: RunProgressEvent) => {
+        run.listeners.delete(listener);
+        options.signal?.removeEventListener('abort', onAbort);
+        resolve(event.status === 'failed' ? 'failed' : 'completed');
+      };
+      const listener = (event: RunProgressEvent) => {
+        onEvent(event);
+        if (event.status === 'completed' || event.status === 'failed') finish(event);
+      };
+      const onAbort = () => {
+        run.listeners.delete(listener);
+        reject(options.signal?.reason ?? new DOMException('Aborted', 'AbortError'));
+      };
+      if (options.signal?.aborted) {
+        onAbort();
+        return;
+      }
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+
+      run.events.forEach(event => onEvent(event));
+      const last = run.events[run.events.length - 1];
+      if (run.finished && last) {
+        finish(last);
+        return;
+      }
+      run.listeners.add(listener);
+    });
+  },
+
+  async generateSiteReport(params?: SiteReportParams, options?: RequestOptions) {
+    return runAgent('site_agent', 'POST /agents/site/generate-report', params, options);
+  },
+};
@@ -0,0 +1,65 @@
+/**
+ * Mock-mode replacement for authService. Starts signed in with the role from
+ * VITE_MOCK_ROLE (default `program_admin`) so role gating can be demoed; signing in
+ * again with an email like `auditor@example.com` switches to that role.
+ */
+
+import type { AuthServiceApi, AuthUser, UserRole } from '../services/auth';
+
+const MOCK_ROLES: UserRole[] = ['program_admin', 'faculty', 'auditor', 'student'];
+
+function mockRole(value: string | undefined): UserRole {
+  return MOCK_ROLES.find(role => role === value) ?? 'program_admin';
+}
+
+function mockUser(email: string, role: UserRole): AuthUser {
+  return { uid: `mock-${role}`, email, displayName: email.split('@')[0], role };
+}
+
+// Undefined until first asked for, so importing this module runs nothing (see config/dataMode)
+let currentUser: AuthUser | null | undefined;
+const listeners = new Set<(user: AuthUser | null) => void>();
+
+function getUser(): AuthUser | null {
+  if (currentUser === undefined) currentUser = mockUser('demo@precepgo.test', mockRole(import.meta.env.VITE_MOCK_ROLE));
+  return currentUser;
+}
+
+function setUser(user: AuthUser | null) {
+  currentUser = user;
+  listeners.forEach(listener => listener(user));
+}
+
+export const mockAuthService: AuthServiceApi = {
+  ssoLabel: 'Sign in with SSO (mock)',
+
+  onAuthChange(callback) {
+    listeners.add(callback);
+    setTimeout(() => {
+      if (listeners.has(callback)) callback(getUser());
+    }, 0);
+    return () => {
+      listeners.delete(callback);
+    };
+  },
+
+  async signInWithEmail(email: string) {
+    const localPart = email.split('@')[0].toLowerCase();
+    setUser(mockUser(email, mockRole(MOCK_ROLES.find(role => localPart.startsWith(role)) ?? import.meta.env.VITE_MOCK_ROLE)));
+  },
+
+  async signInWithSso() {
+    setUser(mockUser('sso.user@precepgo.test', mockRole(import.meta.env.VITE_MOCK_ROLE)));
+  },
+
+  async sendPasswordReset() {},
+
+  async signOut() {
+    setUser(null);
+  },
+
+  async getIdToken() {
+    const user = getUser();
+    return user ? `mock-token-${user.uid}` : null;
+  },
+};
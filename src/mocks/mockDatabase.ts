@@ -0,0 +1,108 @@
+/**
+ * In-memory stand-in for the Firestore collections the dashboard reads.
+ *
+ * Documents are plain objects with `Date` timestamps. Subscribers are notified
+ * asynchronously after every write, like Firestore snapshot listeners, so the
+ * same component code paths run in mock mode.
+ */
+
+import { createSeedData, mockDocumentId } from './fixtures';
+
+export type MockDocumentData = Record<string, unknown>;
+
+export interface MockDocument {
+  id: string;
+  data: MockDocumentData;
+}
+
+type Listener = {
+  collection: string;
+  documentId: string | null;
+  notify: () => void;
+};
+
+class MockDatabase {
+  private collections = new Map<string, Map<string, MockDocumentData>>();
+  private listeners = new Set<Listener>();
+  private seeded = false;
+
+  // Seeding is lazy so importing this module has no side effects in live builds
+  private ensureSeeded() {
+    if (this.seeded) return;
+    this.seeded = true;
+    const seed = createSeedData();
+    Object.entries(seed).forEach(([collectionName, documents]) => {
+      const collection = this.collection(collectionName);
+      documents.forEach(document => collection.set(document.id, document.data));
+    });
+  }
+
+  private collection(name: string) {
+    let collection = this.collections.get(name);
+    if (!collection) {
+      collection = new Map();
+      this.collections.set(name, collection);
+    }
+    return collection;
+  }
+
+  private emit(collectionName: string, documentId: string) {
+    // Notify after the current task, as Firestore does for local writes
+    setTimeout(() => {
+      this.listeners.forEach(listener => {
+        if (listener.collection !== collectionName) return;
+        if (listener.documentId !== null && listener.documentId !== documentId) return;
+        listener.notify();
+      });
+    }, 0);
+  }
+
+  getDocuments(collectionName: string): MockDocument[] {
+    this.ensureSeeded();
+    return [...this.collection(collectionName).entries()].map(([id, data]) => ({ id, data: { ...data } }));
+  }
+
+  getDocument(collectionName: string, documentId: string): MockDocumentData | null {
+    this.ensureSeeded();
+    const data = this.collection(collectionName).get(documentId);
+    return data ? { ...data } : null;
+  }
+
+  add(collectionName: string, data: MockDocumentData): string {
+    this.ensureSeeded();
+    const id = mockDocumentId();
+    this.collection(collectionName).set(id, data);
+    this.emit(collectionName, id);
+    return id;
+  }
+
+  set(collectionName: string, documentId: string, data: MockDocumentData, options: { merge?: boolean } = {}) {
+    this.ensureSeeded();
+    const collection = this.collection(collectionName);
+    const existing = collection.get(documentId);
+    collection.set(documentId, options.merge && existing ? { ...existing, ...data } : data);
+    this.emit(collectionName, documentId);
+  }
+
+  delete(collectionName: string, documentId: string) {
+    this.ensureSeeded();
+    if (this.collection(collectionName).delete(documentId)) this.emit(collectionName, documentId);
+  }
+
+  /**
+   * Subscribe to a whole collection (`documentId` null) or a single document.
+   * The listener fires once with the current state, then after every matching write.
+   */
+  subscribe(collectionName: string, documentId: string | null, notify: () => void): () => void {
+    this.ensureSeeded();
+    const listener: Listener = { collection: collectionName, documentId, notify };
+    this.listeners.add(listener);
+    const initial = setTimeout(notify, 0);
+    return () => {
+      clearTimeout(initial);
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const mockDb = new MockDatabase();
@@ -0,0 +1,357 @@
+/**
+ * Mock-mode replacement for FirestoreService, backed by the in-memory mockDb.
+ * Method signatures and returned document shapes match the live service.
+ */
+
+import type { FirestoreDocument, FirestoreServiceApi, TypedListenOptions } from '../services/firestore';
+import {
+  collectionNormalizers,
+  normalizeAgentRun,
+  normalizeNotification,
+  normalizeNotificationAuditEntry,
+  toDate,
+  type CollectionDocTypes,
+  type TypedCollection,
+} from '../services/firestoreSchemas';
+import { collectionQueryKey, documentKey, sharedSubscriptions } from '../services/subscriptionRegistry';
+import {
+  describeIndex,
+  matchesQuery,
+  queryKey,
+  requiredIndexes,
+  type CollectionQuery,
+  type QueryableCollection,
+} from '../services/queryBuilder';
+import {
+  NotificationActionError,
+  notificationAuditPath,
+  planNotificationAction,
+} from '../services/notificationWorkflow';
+import { EscalationRuleError, validateEscalationRule } from '../services/escalationRules';
+import {
+  AUTOMATION_SCHEDULE_COLLECTION,
+  AUTOMATION_SCHEDULE_DOCUMENT,
+  AutomationScheduleError,
+  validateAutomationSchedule,
+} from '../services/automationSchedule';
+import { agentOutputCollection } from '../services/agentRegistry';
+import { mockDb, type MockDocument } from './mockDatabase';
+
+// Same normalisation as FirestoreService.snapshotToDocuments, newest first
+function toFirestoreDocuments(documents: MockDocument[]): FirestoreDocument[] {
+  const result = documents.map(({ id, data }) => {
+    const createdAt = toDate(data.created_at ?? data.createdAt);
+    const updatedAt = toDate(data.modified_at ?? data.updated_at ?? data.updatedAt);
+    return {
+      id,
+      data: { ...data, created_at: createdAt, modified_at: updatedAt, createdAt, updatedAt },
+      createdAt,
+      updatedAt,
+    };
+  });
+  if (result.every(d => d.createdAt)) {
+    result.sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime());
+  }
+  return result;
+}
+
+function readCollection(collectionName: string, limitCount?: number) {
+  const documents = toFirestoreDocuments(mockDb.getDocuments(collectionName));
+  return limitCount === undefined ? documents : documents.slice(0, limitCount);
+}
+
+function listen(
+  collectionName: string,
+  callback: (documents: FirestoreDocument[]) => void,
+  limitCount?: number
+): () => void {
+  console.log(`[MockFirestore] 🎧 Listening to ${collectionName}`);
+  return mockDb.subscribe(collectionName, null, () => callback(readCollection(collectionName, limitCount)));
+}
+
+// Same conversion as the live typed listeners, applied to the in-memory documents
+function readTypedCollection<K extends TypedCollection>(
+  collectionName: K,
+  { limitCount, since, orderByCreatedAt }: TypedListenOptions
+): FirestoreDocument<CollectionDocTypes[K]>[] {
+  const normalize = collectionNormalizers[collectionName];
+  let documents = mockDb.getDocuments(collectionName).map(({ id, data }) => {
+    const converted = normalize(data);
+    const fields = converted as Record<string, unknown>;
+    return {
+      id,
+      data: converted,
+      createdAt: toDate(fields.created_at),
+      updatedAt: toDate(fields.modified_at ?? fields.updated_at),
+    };
+  });
+  // A server-side orderBy/where on created_at drops documents without the field
+  if (since || orderByCreatedAt) {
+    documents = documents.filter(d => d.createdAt && (!since || d.createdAt >= since));
+  }
+  // created_at desc, then document id desc, like the live ordered queries
+  documents.sort((a, b) =>
+    (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0) || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0)
+  );
+  return limitCount === undefined ? documents : documents.slice(0, limitCount);
+}
+
+// In-memory evaluation of a built query, ordered like the live query
+function readQuery<K extends QueryableCollection>(
+  filterQuery: CollectionQuery<K>
+): FirestoreDocument<CollectionDocTypes[K]>[] {
+  const normalize = collectionNormalizers[filterQuery.collectionName];
+  const orderTime = (fields: Record<string, unknown>) => toDate(fields[filterQuery.orderField])?.getTime() ?? 0;
+  const documents = mockDb.getDocuments(filterQuery.collectionName)
+    .map(({ id, data }) => {
+      const converted = normalize(data) as CollectionDocTypes[K];
+      const fields = converted as Record<string, unknown>;
+      return {
+        id,
+        data: converted,
+        createdAt: toDate(fields.created_at),
+        updatedAt: toDate(fields.modified_at ?? fields.updated_at),
+      };
+    })
+    .filter(document => matchesQuery(document.data as Record<string, unknown>, filterQuery))
+    .sort((a, b) =>
+      orderTime(b.data as Record<string, unknown>) - orderTime(a.data as Record<string, unknown>) ||
+      (a.id < b.id ? 1 : a.id > b.id ? -1 : 0)
+    );
+  return filterQuery.limitCount === undefined ? documents : documents.slice(0, filterQuery.limitCount);
+}
+
+function listenTyped<K extends TypedCollection>(
+  collectionName: K,
+  callback: (documents: FirestoreDocument<CollectionDocTypes[K]>[]) => void,
+  options: TypedListenOptions
+): () => void {
+  console.log(`[MockFirestore] 🎧 Listening to ${collectionName} (typed)`);
+  return mockDb.subscribe(collectionName, null, () => callback(readTypedCollection(collectionName, options)));
+}
+
+export const mockFirestoreService: FirestoreServiceApi = {
+  async getCollection(collectionName: string, limitCount: number = 50) {
+    return readCollection(collectionName, limitCount);
+  },
+
+  async getDocumentsByAgent(agentType: string, limitCount: number = 50) {
+    return readCollection(agentOutputCollection(agentType) ?? agentType, limitCount);
+  },
+
+  async getRecentEvaluations(limitCount: number = 20) {
+    return readCollection('agent_evaluations', limitCount);
+  },
+
+  async getRecentScenarios(limitCount: number = 20) {
+    return readCollection('agent_scenarios', limitCount);
+  },
+
+  async getRecentNotifications(limitCount: number = 20) {
+    return readCollection('agent_notifications', limitCount);
+  },
+
+  async getRecentCOAReports(limitCount: number = 20) {
+    return readCollection('agent_coa_reports', limitCount);
+  },
+
+  listenToCollection(collectionName, callback, _onError, limitCount = 50) {
+    return listen(collectionName, callback, limitCount);
+  },
+
+  listenToTypedCollection(collectionName, callback, _onError, options = {}) {
+    return listenTyped(collectionName, callback, options);
+  },
+
+  async getPage(collectionName, pageSize, after) {
+    const ordered = readTypedCollection(collectionName, { orderByCreatedAt: true });
+    const start = after
+      ? ordered.findIndex(d => {
+          const time = d.createdAt!.getTime();
+          const cursorTime = after.created_at.getTime();
+          return time < cursorTime || (time === cursorTime && d.id < after.id);
+        })
+      : 0;
+    const remaining = start === -1 ? [] : ordered.slice(start);
+    const documents = remaining.slice(0, pageSize);
+    const hasMore = remaining.length > pageSize;
+    const last = documents[documents.length - 1];
+    return { documents, cursor: hasMore ? { created_at: last.createdAt!, id: last.id } : null, hasMore };
+  },
+
+  listenToEvaluations(callback, _onError, limitCount = 20) {
+    return listenTyped('agent_evaluations', callback, { limitCount });
+  },
+
+  listenToScenarios(callback, _onError, limitCount = 10) {
+    return listenTyped('agent_scenarios', callback, { limitCount, orderByCreatedAt: true });
+  },
+
+  listenToNotifications(callback, _onError, limitCount = 20) {
+    return listenTyped('agent_notifications', callback, { limitCount });
+  },
+
+  listenToCOAReports(callback, _onError, limitCount = 20) {
+    return listenTyped('agent_coa_reports', callback, { limitCount });
+  },
+
+  listenToSiteReports(callback, _onError, limitCount = 20) {
+    return listenTyped('agent_sites', callback, { limitCount });
+  },
+
+  listenToEvaluationsSince(sinceDate, callback) {
+    return listenTyped('agent_evaluations', callback, { since: sinceDate });
+  },
+
+  listenToNotificationsSince(sinceDate, callback) {
+    return listenTyped('agent_notifications', callback, { since: sinceDate });
+  },
+
+  listenToTypedDocument(collectionName, documentId, callback) {
+    console.log(`[MockFirestore] 🎧 Listening to ${collectionName}/${documentId}`);
+    return mockDb.subscribe(collectionName, documentId, () => {
+      const data = mockDb.getDocument(collectionName, documentId);
+      callback(data ? collectionNormalizers[collectionName](data) : null);
+    });
+  },
+
+  async updateNotification(notificationId, action, actor) {
+    const data = mockDb.getDocument('agent_notifications', notificationId);
+    if (!data) {
+      throw new NotificationActionError('This notification no longer exists.');
+    }
+    const change = planNotificationAction(normalizeNotification(data), action, actor);
+    const now = new Date();
+    const timestamps = Object.fromEntries(change.timestampFields.map(field => [field, now]));
+    mockDb.set('agent_notifications', notificationId, { ...change.fields, ...timestamps }, { merge: true });
+    mockDb.add(notificationAuditPath(notificationId), { ...change.entry, at: now });
+  },
+
+  listenToNotificationAudit(notificationId, callback) {
+    const path = notificationAuditPath(notificationId);
+    console.log(`[MockFirestore] 🎧 Listening to ${path}`);
+    return mockDb.subscribe(path, null, () => {
+      const entries = mockDb.getDocuments(path)
+        .map(({ id, data }) => {
+          const entry = normalizeNotificationAuditEntry(data);
+          return { id, data: entry, createdAt: entry.at };
+        })
+        .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+      callback(entries);
+    });
+  },
+
+  async saveEscalationRule(ruleId, rule, actor) {
+    const problems = validateEscalationRule(rule);
+    if (problems.length > 0) {
+      throw new EscalationRuleError(problems.join(' '));
+    }
+    const now = new Date();
+    const fields = { ...rule, name: rule.name.trim(), updated_by: actor, updated_at: now };
+    if (ruleId) {
+      mockDb.set('safety_escalation_rules', ruleId, fields, { merge: true });
+      return ruleId;
+    }
+    return mockDb.add('safety_escalation_rules', { ...fields, created_at: now });
+  },
+
+  async deleteEscalationRule(ruleId) {
+    mockDb.delete('safety_escalation_rules', ruleId);
+  },
+
+  async saveAutomationSchedule(schedule, actor) {
+    const problems = validateAutomationSchedule(schedule);
+    if (problems.length > 0) {
+      throw new AutomationScheduleError(problems.join(' '));
+    }
+    mockDb.set(AUTOMATION_SCHEDULE_COLLECTION, AUTOMATION_SCHEDULE_DOCUMENT, { ...schedule, updated_by: actor, updated_at: new Date() });
+  },
+
+  async recordRunStart(runId, start) {
+    if (!mockDb.getDocument('agent_runs', runId)) {
+      const now = new Date();
+      mockDb.set('agent_runs', runId, { ...start, outcome: 'running', output_ids: [], started_at: now, created_at: now });
+    } else if (start.trigger === 'manual') {
+      mockDb.set('agent_runs', runId, { ...start }, { merge: true });
+    }
+  },
+
+  async recordRunEnd(runId, end) {
+    const data = mockDb.getDocument('agent_runs', runId);
+    const run = data ? normalizeAgentRun(data) : null;
+    if (!run || run.outcome !== 'running') return;
+    const startedAt = run.started_at;
+    const outputIds = end.output_collection && startedAt
+      ? mockDb.getDocuments(end.output_collection)
+        .filter(({ data: output }) => {
+          const createdAt = toDate(output.created_at);
+          return !!createdAt && createdAt >= startedAt && createdAt <= end.ended_at;
+        })
+        .map(({ id }) => id)
+      : [];
+    mockDb.set('agent_runs', runId, { ...end, output_ids: outputIds }, { merge: true });
+  },
+
+  async recordFailedStart(start, message) {
+    const now = new Date();
+    return mockDb.add('agent_runs', {
+      ...start,
+      outcome: 'failed',
+      error: message,
+      rejected: true,
+      output_ids: [],
+      started_at: now,
+      ended_at: now,
+      created_at: now,
+    });
+  },
+
+  async savePushToken(userId, token, categories) {
+    mockDb.set(`users/${userId}/push_tokens`, token, { categories, updated_at: new Date() });
+  },
+
+  async deletePushToken(userId, token) {
+    mockDb.delete(`users/${userId}/push_tokens`, token);
+  },
+
+  listenToAgentState(documentId, callback, onError) {
+    return mockFirestoreService.listenToTypedDocument('agent_states', documentId, callback, onError);
+  },
+
+  watchCollection(collectionName, callback, onError, options = {}) {
+    return sharedSubscriptions.subscribe(
+      collectionQueryKey(collectionName, options),
+      (next) => listenTyped(collectionName, next, options),
+      { next: callback, error: onError }
+    );
+  },
+
+  watchDocument(collectionName, documentId, callback, onError) {
+    return sharedSubscriptions.subscribe(
+      documentKey(collectionName, documentId),
+      (next, fail) => mockFirestoreService.listenToTypedDocument(collectionName, documentId, next, fail),
+      { next: callback, error: onError }
+    );
+  },
+  listenToQuery(filterQuery, callback) {
+    const indexes = requiredIndexes(filterQuery);
+    if (indexes.length > 0) {
+      console.log(`[MockFirestore] 🗂️ Live query would need composite index: ${indexes.map(describeIndex).join('; ')}`);
+    }
+    console.log(`[MockFirestore] 🎧 Listening to ${queryKey(filterQuery)}`);
+    return mockDb.subscribe(filterQuery.collectionName, null, () => callback(readQuery(filterQuery)));
+  },
+
+  async runQuery(filterQuery) {
+    return readQuery(filterQuery);
+  },
+
+  watchQuery(filterQuery, callback, onError) {
+    return sharedSubscriptions.subscribe(
+      queryKey(filterQuery),
+      (next) => mockFirestoreService.listenToQuery(filterQuery, next),
+      { next: callback, error: onError }
+    );
+  },
+
+};
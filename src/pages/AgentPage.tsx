@@ -0,0 +1,147 @@
+import { findAgent } from '../services/agentRegistry'
+import { agentStateEntry } from '../services/firestoreSchemas'
+import { RECORDED_AGENTS } from '../services/runHistory'
+import { router } from '../services/router'
+import { AgentHealthPanel } from '../components/AgentHealthPanel'
+import { AgentStatusBadge } from '../components/AgentStatusBadge'
+import { Link } from '../components/Link'
+import { RunProgressBar } from '../components/RunProgress'
+import { StaleIndicator } from '../components/StaleIndicator'
+import { useAuth } from '../hooks/useAuth'
+import type { AgentRuntime } from '../hooks/useAgentRuntime'
+import { agentAccent } from '../utils/agentAccents'
+import { formatDateTime } from '../utils/relativeTime'
+import { DEFAULT_ANALYTICS_TIMEFRAME, DEFAULT_RUN_HISTORY_FILTERS, type AgentHealthRange } from '../utils/routes'
+
+interface AgentPageProps {
+  /** Api name from the URL */
+  apiName: string
+  /** Window of runs the health figures cover */
+  range: AgentHealthRange
+  runtime: AgentRuntime
+}
+
+// One agent: what it does, its state and health, and the ways into its runs, logs and reports
+export function AgentPage({ apiName, range, runtime }: AgentPageProps) {
+  const { can } = useAuth()
+  const agent = findAgent(apiName)
+
+  if (!agent) {
+    return (
+      <div className="mt-10 max-w-4xl mx-auto px-4 sm:px-6">
+        <div className="bg-white rounded-xl shadow-sm px-6 py-12 text-center">
+          <p className="text-gray-600">There is no agent called "{apiName}".</p>
+          <Link to={{ page: 'dashboard' }} className="text-sm text-blue-600 hover:text-blue-800">Back to the dashboard</Link>
+        </div>
+      </div>
+    )
+  }
+
+  const isLoading = runtime.loading === agent.name
+  const canRun = can('run_agents') && !!agent.action
+  // The menu's extra permission on logs applies here too (safety logs name students)
+  const logsPermission = agent.menu.find(item => item.type === 'logs')?.permission
+  const canViewLogs = !logsPermission || can(logsPermission)
+  const lastRunTime = runtime.lastRunTime(agent)
+  const progress = runtime.runProgress[agent.apiName]
+  const accent = agentAccent(agent.color)
+  const stateEntry = runtime.allStates ? agentStateEntry(runtime.allStates, agent.statePrefix) : null
+  const buttonClass = `px-3 py-1.5 rounded-lg text-sm transition-colors ${accent.button} hover:bg-gray-200 text-gray-700 inline-flex items-center gap-2`
+
+  return (
+    <div className="mt-10 max-w-4xl mx-auto px-4 sm:px-6 space-y-6">
+      <div className={`${runtime.isActive(agent) ? accent.card : 'bg-white'} rounded-xl shadow-sm`}>
+        <div className="px-6 py-5 flex items-center gap-4">
+          <div className={`w-16 h-16 ${agent.color} rounded-lg flex items-center justify-center shrink-0`}>
+            <img src={agent.icon} alt={`${agent.name} icon`} className="w-16 h-16 object-contain" />
+          </div>
+          <div className="flex-1 min-w-0">
+            <h2 className="text-2xl font-semibold text-precepgo-card-title">{agent.name}</h2>
+            <p className="text-sm text-precepgo-card-text">{agent.description}</p>
+            <div className="mt-2 flex flex-wrap items-center gap-2">
+              <AgentStatusBadge state={runtime.displayState(agent)} />
+              <StaleIndicator freshness={runtime.allStatesFreshness} />
+              <span className="text-xs text-gray-600">🕐 Last run: {formatDateTime(lastRunTime)}</span>
+            </div>
+          </div>
+        </div>
+        {progress?.status === 'running' && (
+          <div className="px-6 pb-4">
+            <RunProgressBar progress={progress} />
+          </div>
+        )}
+        <div className="border-t border-gray-200 px-6 py-3 flex flex-wrap items-center gap-2">
+          {canRun && (
+            <button
+              onClick={() => runtime.startRun(agent)}
+              disabled={runtime.automatedMode || isLoading}
+              className={`${buttonClass} disabled:opacity-50 disabled:cursor-not-allowed`}
+              title={runtime.automatedMode ? 'Stop automated mode to run agents manually' : undefined}
+            >
+              <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>play_arrow</span>
+              {isLoading ? 'Starting...' : 'Run'}
+            </button>
+          )}
+          {canViewLogs && (
+            <button onClick={() => router.openOverlay({ type: 'logs', agent: agent.apiName })} className={buttonClass}>
+              <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>description</span>
+              Logs
+            </button>
+          )}
+          {agent.action && (
+            <button
+              onClick={() => router.openOverlay({ type: 'runs', filters: { ...DEFAULT_RUN_HISTORY_FILTERS, agent: agent.apiName } })}
+              className={buttonClass}
+            >
+              <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>history</span>
+              Run History
+            </button>
+          )}
+          {agent.reports && (
+            <Link to={{ page: 'reports', collection: agent.reports }} className={buttonClass}>
+              <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>folder_open</span>
+              Report History
+            </Link>
+          )}
+          {agent.menu.some(item => item.type === 'analytics') && (
+            <Link to={{ page: 'analytics', timeframe: DEFAULT_ANALYTICS_TIMEFRAME }} className={buttonClass}>
+              <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>bar_chart</span>
+              Analytics
+            </Link>
+          )}
+        </div>
+      </div>
+
+      {RECORDED_AGENTS.includes(agent.apiName) && (
+        <AgentHealthPanel
+          apiName={agent.apiName}
+          outputCollection={agent.outputCollection}
+          range={range}
+          onRangeChange={(next) => router.updateRoute({ page: 'agent', agent: agent.apiName, range: next })}
+          stateError={stateEntry?.last_error}
+          statusError={runtime.apiStatus(agent)?.error}
+        />
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm px-6 py-6">
+        <div className="mb-4">
+          <h3 className="text-lg font-semibold text-precepgo-card-title mb-2">
+            What does this agent do?
+          </h3>
+          <p className="text-sm text-precepgo-card-text leading-relaxed">
+            {agent.detailedDescription}
+          </p>
+        </div>
+
+        <div className="mt-6 pt-6 border-t border-gray-200">
+          <h3 className="text-lg font-semibold text-precepgo-card-title mb-2">
+            Real-World Problem Solved
+          </h3>
+          <p className="text-sm text-precepgo-card-text leading-relaxed">
+            {agent.realWorldProblem}
+          </p>
+        </div>
+      </div>
+    </div>
+  )
+}
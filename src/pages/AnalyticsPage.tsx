@@ -0,0 +1,14 @@
+import { router } from '../services/router'
+import { TimeSavingsDashboard } from '../components/TimeSavingsDashboard'
+import type { AnalyticsTimeframe } from '../utils/routes'
+
+export function AnalyticsPage({ timeframe }: { timeframe: AnalyticsTimeframe }) {
+  return (
+    <div className="mt-10 max-w-6xl mx-auto px-4 sm:px-6">
+      <TimeSavingsDashboard
+        timeframe={timeframe}
+        onTimeframeChange={(next) => router.updateRoute({ page: 'analytics', timeframe: next })}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,461 @@
+import { useEffect, useRef, useState } from 'react'
+import Rive from '@rive-app/react-canvas'
+import { api, isAbortError } from '../services/api'
+import { AGENTS, outputLabels, type AgentCardSummary, type AgentDefinition, type AgentMenuItem } from '../services/agentRegistry'
+import { combineFreshness, type Freshness } from '../services/connectionStatus'
+import { isOpenNotification } from '../services/notificationWorkflow'
+import { notificationCenter } from '../services/notificationCenter'
+import { router } from '../services/router'
+import {
+  AUTOMATION_SCHEDULE_COLLECTION,
+  AUTOMATION_SCHEDULE_DOCUMENT,
+  resolveAutomationSchedule,
+} from '../services/automationSchedule'
+import { AgentStatusBadge } from '../components/AgentStatusBadge'
+import { Link } from '../components/Link'
+import { NextRunCountdown } from '../components/NextRunCountdown'
+import type { ReportCollection } from '../components/ReportHistory'
+import { RunProgressBar } from '../components/RunProgress'
+import { StaleIndicator } from '../components/StaleIndicator'
+import { useAuth } from '../hooks/useAuth'
+import { useCollection, useDocument } from '../hooks/useFirestore'
+import type { AgentRuntime } from '../hooks/useAgentRuntime'
+import { agentAccent } from '../utils/agentAccents'
+import { exportCOAReportsToExcel, exportSiteReportsToExcel } from '../utils/exportExcel'
+import { formatDateTime } from '../utils/relativeTime'
+import {
+  DEFAULT_AGENT_HEALTH_RANGE,
+  DEFAULT_ANALYTICS_TIMEFRAME,
+  DEFAULT_INBOX_FILTERS,
+  DEFAULT_RUN_HISTORY_FILTERS,
+} from '../utils/routes'
+
+interface DashboardPageProps {
+  runtime: AgentRuntime
+  /** Start of the week the card figures count, shared with the app's own listeners */
+  since: Date
+  /** When this user last opened the safety inbox */
+  inboxLastSeen: Date | null
+}
+
+// The agent cards: state, the figures each agent's summary asks for, reports and menus
+export function DashboardPage({ runtime, since, inboxLastSeen }: DashboardPageProps) {
+  const [openDropdown, setOpenDropdown] = useState<string | null>(null)
+  const [timeAgentHoursSaved, setTimeAgentHoursSaved] = useState<number | null>(null)
+  const dropdownRefs = useRef<Record<string, HTMLDivElement | null>>({})
+  const { can } = useAuth()
+  // Role gating: controls are hidden, not just disabled, for users without permission
+  const canRunAgents = can('run_agents')
+  const canViewSafety = can('view_safety_notifications')
+  const canExport = can('export_reports')
+  const canManageSafety = can('manage_safety_notifications')
+  const { automatedMode, loading } = runtime
+
+  // Firestore listeners below go through the shared subscription hooks, so other views
+  // asking for the same query reuse these listeners instead of opening their own
+
+  // Count unsafe evaluations from last week; safety notifications name students,
+  // so only subscribe for roles allowed to see them
+  const recentNotifications = useCollection('agent_notifications', { since }, canViewSafety)
+  // Open counts notifications not yet resolved by faculty, acknowledged or not
+  const openUnsafeCount = recentNotifications.documents.filter(notification => isOpenNotification(notification.data)).length
+  const resolvedUnsafeCount = recentNotifications.documents.length - openUnsafeCount
+  // Badge for open notifications the listener delivered since this user last opened the inbox
+  const newUnsafeCount = recentNotifications.documents.filter(notification =>
+    isOpenNotification(notification.data) &&
+    !!notification.createdAt &&
+    (!inboxLastSeen || notification.createdAt > inboxLastSeen)
+  ).length
+
+  // Count evaluations from last week
+  const recentEvaluations = useCollection('agent_evaluations', { since })
+  const evaluationsCount = recentEvaluations.documents.length
+
+  // The newest scenario, for the scenario agent's card
+  const latestScenarios = useCollection('agent_scenarios', { limitCount: 1 })
+  const latestScenario = latestScenarios.documents[0] ?? null
+
+  // Listen to COA and site reports for the download buttons
+  // Ordered on the server, so these are the newest 20 rather than the first 20 ids
+  const coaReports = useCollection('agent_coa_reports', { limitCount: 20, orderByCreatedAt: true })
+  const siteReports = useCollection('agent_sites', { limitCount: 20, orderByCreatedAt: true })
+  const latestSiteReport = siteReports.documents[0] ?? null
+
+  // When an agent's own state document was last written to
+  const stateDocumentUpdated = (agent: AgentDefinition): Date | null => {
+    const stateDocument = agent.stateDocument ? runtime.stateDocuments[agent.stateDocument] : null
+    return stateDocument?.last_updated instanceof Date ? stateDocument.last_updated : null
+  }
+
+  // Automated mode schedule, for the next-run countdown on each card
+  const automationScheduleDoc = useDocument(AUTOMATION_SCHEDULE_COLLECTION, AUTOMATION_SCHEDULE_DOCUMENT)
+  const automationSchedule = resolveAutomationSchedule(automationScheduleDoc.data)
+
+  // Fetch time savings analytics
+  useEffect(() => {
+    // Fetch analytics to get total_hours_saved
+    // Aborted on unmount so a slow request can't land after cleanup
+    const controller = new AbortController()
+    const fetchTimeSavings = async () => {
+      try {
+        // The API layer unwraps the nested `monthly` payload and validates the shape
+        const analytics = await api.getTimeSavingsAnalytics('monthly', true, { signal: controller.signal })
+        setTimeAgentHoursSaved(analytics.total_hours_saved)
+      } catch (error) {
+        if (isAbortError(error)) return
+        console.error('[Dashboard] ❌ Error fetching time savings analytics:', error)
+      }
+    }
+
+    fetchTimeSavings()
+    // Refresh analytics every 30 seconds
+    const analyticsInterval = setInterval(fetchTimeSavings, 30000)
+
+    return () => {
+      clearInterval(analyticsInterval)
+      controller.abort()
+    }
+  }, [])
+
+  // Reports agents offer to download and browse, by collection
+  const reportSources: Record<ReportCollection, { count: number; freshness: Freshness; download: () => Promise<void> }> = {
+    agent_coa_reports: {
+      count: coaReports.documents.length,
+      freshness: coaReports.freshness,
+      download: () => exportCOAReportsToExcel(coaReports.documents),
+    },
+    agent_sites: {
+      count: siteReports.documents.length,
+      freshness: siteReports.freshness,
+      download: () => exportSiteReportsToExcel(siteReports.documents),
+    },
+  }
+
+  const exportReports = async (collection: ReportCollection) => {
+    const source = reportSources[collection]
+    try {
+      if (source.count === 0) {
+        notificationCenter.notify({ severity: 'warning', category: 'exports', title: `No ${outputLabels(collection)[1]} to export`, message: 'Generate some reports first.' })
+        return
+      }
+      await source.download()
+    } catch (error) {
+      console.error('Export failed:', error)
+      notificationCenter.notify({ severity: 'error', category: 'exports', title: 'Export failed', message: 'Please try again.' })
+    }
+  }
+
+  // Whether a card's figures (and its state badge) come from the offline cache
+  const summaryFreshness: Record<AgentCardSummary, Freshness> = {
+    weekly_evaluations: recentEvaluations.freshness,
+    safety_inbox: recentNotifications.freshness,
+    latest_scenario: latestScenarios.freshness,
+    site_report_totals: siteReports.freshness,
+    hours_saved: runtime.stateDocumentFreshness,
+  }
+  const getCardFreshness = (agent: AgentDefinition): Freshness =>
+    combineFreshness(
+      runtime.allStatesFreshness,
+      ...(agent.summary ? [summaryFreshness[agent.summary]] : []),
+      ...(agent.reports ? [reportSources[agent.reports].freshness] : [])
+    )
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (openDropdown) {
+        const ref = dropdownRefs.current[openDropdown]
+        if (ref && !ref.contains(event.target as Node)) {
+          setOpenDropdown(null)
+        }
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside)
+    }
+  }, [openDropdown])
+
+  // Menu items the user may use: running and exporting need their own permissions
+  const canUseMenuItem = (item: AgentMenuItem): boolean =>
+    (item.type !== 'run' || canRunAgents) &&
+    (item.type !== 'export' || canExport) &&
+    (!item.permission || can(item.permission))
+
+  const openMenuItem = (agent: AgentDefinition, item: AgentMenuItem, isDisabled: boolean) => {
+    switch (item.type) {
+      case 'run':
+        if (!isDisabled) runtime.startRun(agent)
+        break
+      case 'export':
+        if (agent.reports) exportReports(agent.reports)
+        break
+      case 'analytics':
+        router.goTo({ page: 'analytics', timeframe: DEFAULT_ANALYTICS_TIMEFRAME })
+        break
+      case 'description':
+        router.goTo({ page: 'agent', agent: agent.apiName, range: DEFAULT_AGENT_HEALTH_RANGE })
+        break
+      case 'logs':
+        router.openOverlay({ type: 'logs', agent: agent.apiName })
+        break
+      case 'run_history':
+        router.openOverlay({ type: 'runs', filters: { ...DEFAULT_RUN_HISTORY_FILTERS, agent: agent.apiName } })
+        break
+    }
+  }
+
+  // The figures a card shows under its description
+  const renderCardSummary = (agent: AgentDefinition) => {
+    const accent = agentAccent(agent.color)
+    switch (agent.summary) {
+      case 'weekly_evaluations':
+        return (
+          <Link
+            to={{ page: 'evaluations', filters: { range: '7d' } }}
+            className={`block text-xs ${accent.text} font-semibold mt-1 hover:underline`}
+          >
+            📊 {evaluationsCount} evaluation{evaluationsCount !== 1 ? 's' : ''} generated in the last week
+          </Link>
+        )
+      case 'safety_inbox':
+        if (!canViewSafety) return null
+        return (
+          <>
+            <p className={`text-xs ${accent.text} font-semibold mt-1`}>
+              ⚠️ {openUnsafeCount} open unsafe evaluation{openUnsafeCount !== 1 ? 's' : ''} · {resolvedUnsafeCount} resolved in the last week
+            </p>
+            <Link
+              to={{ page: 'safety_inbox', filters: DEFAULT_INBOX_FILTERS }}
+              className={`mt-1 px-3 rounded-lg text-xs transition-colors ${accent.button} hover:bg-gray-200 text-gray-600 inline-flex items-center gap-2`}
+              title={canManageSafety ? 'Triage, acknowledge, assign and resolve notifications' : 'View notifications'}
+            >
+              <span>Safety Inbox</span>
+              {newUnsafeCount > 0 && (
+                <span className="px-1.5 rounded-full bg-red-600 text-white text-[10px] font-semibold" title="New since you last opened the inbox">
+                  {newUnsafeCount} new
+                </span>
+              )}
+            </Link>
+          </>
+        )
+      case 'latest_scenario':
+        if (!latestScenario?.data.created_at) return null
+        return (
+          <Link
+            to={{ page: 'scenarios', scenarioId: latestScenario.id }}
+            className={`block text-xs ${accent.text} font-semibold mt-1 hover:underline`}
+          >
+            🎬 Last scenario: {formatDateTime(latestScenario.data.created_at)}
+          </Link>
+        )
+      case 'site_report_totals': {
+        const report = latestSiteReport?.data
+        if (!report) return null
+        return (
+          <>
+            {report.total_sites && (
+              <p className={`text-xs ${accent.text} font-semibold mt-1`}>
+                🏥 {report.total_sites} site{report.total_sites !== 1 ? 's' : ''} analyzed
+              </p>
+            )}
+            {report.total_preceptors && (
+              <p className={`text-xs ${accent.text} font-semibold mt-1`}>
+                👥 {report.total_preceptors} preceptor{report.total_preceptors !== 1 ? 's' : ''}
+              </p>
+            )}
+            {report.total_evaluations && (
+              <p className={`text-xs ${accent.text} font-semibold mt-1`}>
+                📊 {report.total_evaluations} evaluation{report.total_evaluations !== 1 ? 's' : ''} processed
+              </p>
+            )}
+          </>
+        )
+      }
+      case 'hours_saved': {
+        const lastUpdated = stateDocumentUpdated(agent)
+        return (
+          <>
+            <p className={`text-xs ${accent.text} font-semibold mt-1`}>
+              ⏱️ {timeAgentHoursSaved !== null
+                ? `${timeAgentHoursSaved.toLocaleString('en-US', { maximumFractionDigits: 0 })} hours saved`
+                : 'Loading...'}
+            </p>
+            {lastUpdated && (
+              <p className="text-xs text-gray-500 mt-1">
+                Last updated: {formatDateTime(lastUpdated)}
+              </p>
+            )}
+          </>
+        )
+      }
+      default:
+        return null
+    }
+  }
+
+  return (
+    <div className="mt-20 sm:mt-40 max-w-6xl mx-auto px-4 sm:px-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 sm:gap-12 md:gap-20 overflow-visible">
+        {AGENTS.map((agent) => {
+          const isLoading = loading === agent.name
+          const isActive = runtime.isActive(agent)
+          const isDisabled = automatedMode || isLoading
+          const isDropdownOpen = openDropdown === agent.apiName
+          const accent = agentAccent(agent.color)
+          const lastRunTime = runtime.lastRunTime(agent)
+          const progress = runtime.runProgress[agent.apiName]
+
+          return (
+            <div key={agent.name} className="relative overflow-visible">
+              {/* Rive Animation - positioned behind/on top of card */}
+              <div className="max-w-full absolute -top-32 left-0 right-0 h-40 z-0 pointer-events-none">
+                <Rive
+                  src="/animations/card_clouds.riv"
+                  className="w-full h-full max-w-[400px] max-h-[400px] mx-auto"
+                />
+              </div>
+
+              {/* Card Container */}
+              <div
+                className={`${isActive ? accent.card : 'bg-white'} rounded-xl shadow-sm relative z-10 ${
+                  !isLoading
+                    ? 'hover:shadow-md'
+                    : ''
+                }`}
+              >
+                {/* Dropdown Menu Button - Hide during loading */}
+                {!isLoading && (
+                  <div
+                    ref={(el) => { dropdownRefs.current[agent.apiName] = el }}
+                    className="absolute top-3 right-3 z-20"
+                  >
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        setOpenDropdown(isDropdownOpen ? null : agent.apiName)
+                      }}
+                      className="p-1 rounded-full hover:bg-gray-100 transition-colors text-gray-400 hover:text-gray-600"
+                      title="More options"
+                    >
+                      <span className="material-symbols-outlined" style={{ fontSize: '24px', color: '#bdc3cc' }}>
+                        more_vert
+                      </span>
+                    </button>
+
+                    {/* Dropdown Menu */}
+                    {isDropdownOpen && (
+                      <div className="absolute right-0 mt-2 w-48 bg-white rounded-lg shadow-lg border border-gray-200 z-50">
+                        <div className="py-1">
+                          {agent.menu.filter(canUseMenuItem).map((item) => (
+                            <button
+                              key={item.type}
+                              onClick={(e) => {
+                                e.stopPropagation()
+                                setOpenDropdown(null)
+                                openMenuItem(agent, item, isDisabled)
+                              }}
+                              className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center gap-2"
+                              disabled={
+                                (item.type === 'run' && isDisabled) ||
+                                (item.type === 'export' && !!agent.reports && reportSources[agent.reports].count === 0)
+                              }
+                            >
+                              <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>{item.icon}</span>
+                              {item.label}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {/* Card Content */}
+                {isLoading ? (
+                  // Loading state: Show spinner with "Talking to agent" label
+                  <div className="p-5 flex flex-col items-center justify-center gap-4 min-h-[120px]">
+                    <div className="w-12 h-12 border-4 border-precepgo-orange/30 border-t-precepgo-orange rounded-full animate-spin"></div>
+                    <p className="text-sm font-medium text-precepgo-card-title">
+                      Talking to agent...
+                    </p>
+                  </div>
+                ) : (
+                  // Normal state: Show regular card content
+                  <div className="p-5 flex-1 flex items-center gap-4">
+                    <div className={`w-16 h-22 ${agent.color} rounded-lg flex items-center justify-center shrink-0`}>
+                      <img
+                        src={agent.icon}
+                        alt={`${agent.name} icon`}
+                        className="w-22 h-22 object-contain"
+                      />
+                    </div>
+                    <div className="flex-1">
+                      <h3 className="text-lg font-semibold text-precepgo-card-title mb-1">
+                        <Link to={{ page: 'agent', agent: agent.apiName, range: DEFAULT_AGENT_HEALTH_RANGE }} className="hover:underline">
+                          {agent.name}
+                        </Link>
+                      </h3>
+                      <p className="text-sm text-precepgo-card-text">
+                        {agent.description}
+                      </p>
+                      {renderCardSummary(agent)}
+                      {agent.reports && (() => {
+                        const reports = agent.reports
+                        const [singular, plural] = outputLabels(reports)
+                        return (
+                          <>
+                            {canExport && (
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation() // Prevent card click
+                                  exportReports(reports)
+                                }}
+                                className={`mt-1 px-3 rounded-lg text-xs transition-colors ${accent.button} hover:bg-gray-200 text-gray-600 flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed`}
+                                disabled={isDisabled || reportSources[reports].count === 0}
+                                title={`Download latest ${singular} as Excel`}
+                              >
+                                <span>Download Report</span>
+                              </button>
+                            )}
+                            <Link
+                              to={{ page: 'reports', collection: reports }}
+                              className={`mt-1 px-3 rounded-lg text-xs transition-colors ${accent.button} hover:bg-gray-200 text-gray-600 inline-flex items-center gap-2`}
+                              title={`Browse all ${plural}`}
+                            >
+                              <span>Report History</span>
+                            </Link>
+                          </>
+                        )
+                      })()}
+                      {/* Last Run Time - Display for all agents */}
+                      {lastRunTime && (
+                        <p className="text-xs text-gray-600 font-medium mt-2">
+                          🕐 Last run: {formatDateTime(lastRunTime)}
+                        </p>
+                      )}
+                      {automatedMode && automationSchedule.agents[agent.apiName] && (
+                        <NextRunCountdown
+                          entry={automationSchedule.agents[agent.apiName]}
+                          quietHours={automationSchedule.quiet_hours}
+                        />
+                      )}
+                      <div className="mt-2 flex flex-wrap items-center gap-2">
+                        <AgentStatusBadge state={runtime.displayState(agent)} />
+                        <StaleIndicator freshness={getCardFreshness(agent)} />
+                      </div>
+                      {progress?.status === 'running' && (
+                        <RunProgressBar progress={progress} />
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
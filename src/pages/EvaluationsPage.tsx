@@ -0,0 +1,183 @@
+import { useState, type FormEvent } from 'react'
+import studentsData from '../data/students.json'
+import { dangerousRatingFields } from '../services/firestoreSchemas'
+import { evaluationsQuery } from '../services/queryBuilder'
+import { router } from '../services/router'
+import { EvaluationDetailModal } from '../components/EvaluationDetailModal'
+import { StaleIndicator } from '../components/StaleIndicator'
+import { useQuery } from '../hooks/useFirestore'
+import { formatDateTime } from '../utils/relativeTime'
+import type { EvaluationPageFilters, EvaluationRange } from '../utils/routes'
+
+interface EvaluationsPageProps {
+  filters: EvaluationPageFilters
+  /** Evaluation open over the list */
+  evaluationId?: string
+}
+
+const RANGES: { value: EvaluationRange; label: string; days: number | null }[] = [
+  { value: '7d', label: 'Last 7 days', days: 7 },
+  { value: '30d', label: 'Last 30 days', days: 30 },
+  { value: '90d', label: 'Last 90 days', days: 90 },
+  { value: 'all', label: 'All time', days: null },
+]
+
+const PAGE_SIZE = 50
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const students = studentsData.students
+
+// Fixed when chosen, so the query (and its listener) stays the same while open
+function rangeStart(range: EvaluationRange, now: Date = new Date()): Date | undefined {
+  const days = RANGES.find(item => item.value === range)?.days
+  return days ? new Date(now.getTime() - days * DAY_MS) : undefined
+}
+
+// Evaluations filtered by student, case type and date, newest first; the filters
+// and the open evaluation are part of the URL
+export function EvaluationsPage({ filters, evaluationId }: EvaluationsPageProps) {
+  const [from, setFrom] = useState(() => ({ range: filters.range, date: rangeStart(filters.range) }))
+  const filterKey = `${filters.studentId}|${filters.caseType}|${filters.range}`
+  const [shown, setShown] = useState({ filterKey, limitCount: PAGE_SIZE })
+  const limitCount = shown.filterKey === filterKey ? shown.limitCount : PAGE_SIZE
+  const [caseTypeDraft, setCaseTypeDraft] = useState({ committed: filters.caseType, value: filters.caseType ?? '' })
+
+  if (from.range !== filters.range) {
+    setFrom({ range: filters.range, date: rangeStart(filters.range) })
+  }
+  // Follow case type changes made elsewhere (back/forward, links)
+  if (caseTypeDraft.committed !== filters.caseType) {
+    setCaseTypeDraft({ committed: filters.caseType, value: filters.caseType ?? '' })
+  }
+
+  const evaluations = useQuery(evaluationsQuery({
+    studentId: filters.studentId,
+    caseTypes: filters.caseType ? [filters.caseType] : undefined,
+    from: from.date,
+  }, limitCount))
+  const documents = evaluations.documents
+
+  const setFilters = (next: EvaluationPageFilters) => {
+    router.updateRoute({ page: 'evaluations', filters: next, ...(evaluationId ? { evaluationId } : {}) })
+  }
+
+  const applyCaseType = (event: FormEvent) => {
+    event.preventDefault()
+    setFilters({ ...filters, caseType: caseTypeDraft.value.trim() || undefined })
+  }
+
+  const listRoute = { page: 'evaluations' as const, filters }
+
+  return (
+    <div className="mt-10 max-w-6xl mx-auto px-4 sm:px-6">
+      <div className="bg-white rounded-xl shadow-sm">
+        <div className="border-b border-gray-200 px-6 py-4 flex items-center gap-3">
+          <h2 className="text-2xl font-semibold text-precepgo-card-title">Evaluations</h2>
+          <StaleIndicator freshness={evaluations.freshness} />
+        </div>
+
+        {/* Filters */}
+        <div className="border-b border-gray-200 px-6 py-3 flex flex-wrap items-center gap-2">
+          <select
+            value={filters.studentId ?? ''}
+            onChange={(e) => setFilters({ ...filters, studentId: e.target.value || undefined })}
+            className="px-2 py-1 border border-gray-300 rounded-lg bg-white text-xs"
+            aria-label="Student"
+          >
+            <option value="">All students</option>
+            {students.map(student => (
+              <option key={student.id} value={student.id}>{student.name} ({student.class_standing})</option>
+            ))}
+          </select>
+          <form onSubmit={applyCaseType} className="flex items-center gap-1">
+            <input
+              type="text"
+              value={caseTypeDraft.value}
+              onChange={(e) => setCaseTypeDraft({ ...caseTypeDraft, value: e.target.value })}
+              onBlur={applyCaseType}
+              placeholder="Case type, e.g. Laparoscopic Cholecystectomy"
+              className="w-72 px-2 py-1 border border-gray-300 rounded-lg bg-white text-xs"
+              aria-label="Case type"
+            />
+          </form>
+          {RANGES.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => setFilters({ ...filters, range: value })}
+              className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                filters.range === value ? 'bg-precepgo-card-title text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <div className="px-6 py-4">
+          {evaluations.error && (
+            <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-xs text-red-700">{evaluations.error.message}</p>
+            </div>
+          )}
+
+          {evaluations.loading ? (
+            <div className="flex justify-center py-8">
+              <div className="w-10 h-10 border-4 border-precepgo-orange/30 border-t-precepgo-orange rounded-full animate-spin"></div>
+            </div>
+          ) : documents.length === 0 ? (
+            <p className="text-center text-gray-500 py-12">No evaluations match these filters.</p>
+          ) : (
+            <>
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-xs text-gray-500 text-left">
+                  <tr>
+                    <th className="px-3 py-2">Created</th>
+                    <th className="px-3 py-2">Student</th>
+                    <th className="px-3 py-2">Preceptor</th>
+                    <th className="px-3 py-2">Case type</th>
+                    <th className="px-3 py-2">Dangerous ratings</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {documents.map(({ id, data }) => {
+                    const dangerous = dangerousRatingFields(data).length
+                    return (
+                      <tr
+                        key={id}
+                        onClick={() => router.goTo({ ...listRoute, evaluationId: id })}
+                        className={`border-b border-gray-100 cursor-pointer ${id === evaluationId ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                      >
+                        <td className="px-3 py-2 text-xs text-gray-500 whitespace-nowrap">{formatDateTime(data.created_at)}</td>
+                        <td className="px-3 py-2 font-medium text-gray-900">{data.preceptee_user_name || '—'}</td>
+                        <td className="px-3 py-2 text-gray-700">{data.preceptor_name || '—'}</td>
+                        <td className="px-3 py-2 text-gray-700">{data.case_type || '—'}</td>
+                        <td className={`px-3 py-2 ${dangerous > 0 ? 'text-red-700 font-semibold' : 'text-gray-500'}`}>{dangerous}</td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+              {documents.length >= limitCount && (
+                <div className="flex justify-center mt-4">
+                  <button
+                    onClick={() => setShown({ filterKey, limitCount: limitCount + PAGE_SIZE })}
+                    className="px-4 py-2 rounded-lg text-sm font-medium bg-precepgo-orange text-white hover:opacity-90 transition-opacity"
+                  >
+                    Show older evaluations
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      {evaluationId && (
+        <EvaluationDetailModal
+          evaluationId={evaluationId}
+          onClose={() => router.close({ route: listRoute, overlay: null })}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,62 @@
+import { AGENTS, outputLabels } from '../services/agentRegistry'
+import { router } from '../services/router'
+import { Link } from '../components/Link'
+import { ReportHistory, type ReportCollection } from '../components/ReportHistory'
+import { useAuth } from '../hooks/useAuth'
+import { exportCOAReportsToExcel, exportSiteReportsToExcel } from '../utils/exportExcel'
+
+interface ReportsPageProps {
+  collection: ReportCollection
+  /** Report pointed out, e.g. the one a desktop notification linked to */
+  reportId?: string
+}
+
+// Report history of each agent that writes reports, one tab per agent
+export function ReportsPage({ collection, reportId }: ReportsPageProps) {
+  const { can } = useAuth()
+  const canExport = can('export_reports')
+  const reportAgents = AGENTS.filter(agent => agent.reports)
+  const highlight = (id: string) => router.updateRoute({ page: 'reports', collection, reportId: id })
+
+  return (
+    <div className="mt-10 max-w-4xl mx-auto px-4 sm:px-6">
+      <div className="flex flex-wrap gap-2 mb-4">
+        {reportAgents.map(agent => (
+          <Link
+            key={agent.apiName}
+            to={{ page: 'reports', collection: agent.reports! }}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center gap-2 ${
+              agent.reports === collection ? 'bg-white text-precepgo-card-title shadow-sm' : 'bg-white/50 text-gray-700 hover:bg-white/80'
+            }`}
+          >
+            <img src={agent.icon} alt="" className="w-5 h-5" />
+            {outputLabels(agent.reports)[1].replace(/^./, letter => letter.toUpperCase())}
+          </Link>
+        ))}
+      </div>
+
+      {collection === 'agent_coa_reports' && (
+        <ReportHistory
+          key={collection}
+          title="COA Report History"
+          collectionName="agent_coa_reports"
+          describe={(report) => `${report.students_processed ?? report.student_reports.length} students · ${report.total_standards ?? report.standard_scores.length} standards`}
+          onDownload={canExport ? (document) => exportCOAReportsToExcel([document]) : undefined}
+          highlightId={reportId}
+          onHighlight={highlight}
+        />
+      )}
+      {collection === 'agent_sites' && (
+        <ReportHistory
+          key={collection}
+          title="Site Report History"
+          collectionName="agent_sites"
+          describe={(report) => `${report.total_sites ?? report.sites.length} sites · ${report.total_preceptors ?? report.preceptors.length} preceptors · ${report.total_evaluations ?? 0} evaluations`}
+          onDownload={canExport ? (document) => exportSiteReportsToExcel([document]) : undefined}
+          highlightId={reportId}
+          onHighlight={highlight}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+import { useEffect } from 'react'
+import { router } from '../services/router'
+import { SafetyInbox } from '../components/SafetyInbox'
+import { useAuth } from '../hooks/useAuth'
+import { DEFAULT_EVALUATION_FILTERS, type InboxFilters } from '../utils/routes'
+
+interface SafetyInboxPageProps {
+  filters: InboxFilters
+  notificationId?: string
+  /** When this user last opened the inbox; notifications after it are marked new */
+  lastSeenAt: Date | null
+  /** Called on leaving the page, so the next visit marks only later notifications */
+  onSeen: () => void
+}
+
+export function SafetyInboxPage({ filters, notificationId, lastSeenAt, onSeen }: SafetyInboxPageProps) {
+  const { can } = useAuth()
+
+  // Everything in the inbox has been seen once the user moves on
+  useEffect(() => () => onSeen(), [onSeen])
+
+  if (!can('view_safety_notifications')) {
+    return (
+      <div className="mt-10 max-w-6xl mx-auto px-4 sm:px-6">
+        <p className="text-center text-gray-600 py-12 bg-white rounded-xl shadow-sm">
+          Your role doesn't include safety notifications.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="mt-10 max-w-6xl mx-auto px-4 sm:px-6">
+      <SafetyInbox
+        canManage={can('manage_safety_notifications')}
+        canManageRules={can('manage_escalation_rules')}
+        lastSeenAt={lastSeenAt}
+        filters={filters}
+        onFiltersChange={(next) => router.updateRoute({ page: 'safety_inbox', filters: next, ...(notificationId ? { notificationId } : {}) })}
+        activeId={notificationId ?? null}
+        onActiveChange={(id) => router.updateRoute({ page: 'safety_inbox', filters, notificationId: id })}
+        onViewEvaluation={(evaluationId) => router.goTo({
+          page: 'evaluations',
+          filters: { ...DEFAULT_EVALUATION_FILTERS, range: 'all' },
+          evaluationId,
+        })}
+      />
+    </div>
+  )
+}
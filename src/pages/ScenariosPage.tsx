@@ -0,0 +1,79 @@
+import { useState } from 'react'
+import Rive from '@rive-app/react-canvas'
+import { router } from '../services/router'
+import { ScenarioCard } from '../components/ScenarioCard'
+import { ScenarioCardSkeleton } from '../components/ScenarioCardSkeleton'
+import { useDocument } from '../hooks/useFirestore'
+import { usePagedCollection } from '../hooks/usePagedCollection'
+
+interface ScenariosPageProps {
+  /** From the URL; the newest scenario when absent */
+  scenarioId?: string
+}
+
+// Generated scenarios, one at a time; the selected one is part of the URL
+export function ScenariosPage({ scenarioId }: ScenariosPageProps) {
+  const [loadingScenario, setLoadingScenario] = useState<boolean>(false)
+
+  // Scenarios for display and selection: the latest 10 stay real-time, older ones load from the dropdown
+  const scenarioHistory = usePagedCollection('agent_scenarios', 10)
+  const scenarios = scenarioHistory.documents
+  const selectedId = scenarioId ?? scenarios[0]?.id ?? null
+  const loaded = scenarios.find(scenario => scenario.id === selectedId)
+
+  // A linked scenario older than the loaded pages is read on its own
+  const linked = useDocument('agent_scenarios', scenarioId ?? '', !!scenarioId && scenarioHistory.loaded && !loaded)
+  const selectedScenario = loaded ?? (scenarioId && linked.data ? { id: scenarioId, data: linked.data } : undefined)
+  const options = selectedScenario && !loaded ? [selectedScenario, ...scenarios] : scenarios
+
+  // Handle scenario selection change
+  const handleScenarioSelect = (id: string) => {
+    setLoadingScenario(true)
+    router.goTo({ page: 'scenarios', scenarioId: id })
+    // Simulate loading for the skeleton animation
+    setTimeout(() => {
+      setLoadingScenario(false)
+    }, 300)
+  }
+
+  const waiting = !scenarioHistory.loaded || (!!scenarioId && !loaded && linked.loading)
+
+  return (
+    <div className="mt-24 max-w-6xl mx-auto px-4 sm:px-6">
+      <div className="relative overflow-visible">
+
+        {/* Rive Animation - positioned behind/on top of card */}
+        <div className="absolute -top-22 left-0 right-0 h-24 z-0 pointer-events-none">
+          <Rive
+            src="/animations/precepgo_scenario.riv"
+            className="w-full h-full mx-auto"
+          />
+        </div>
+
+        {/* Card Container */}
+        <div className="relative z-10">
+          <div className="grid grid-cols-1 gap-6">
+            {loadingScenario || waiting ? (
+              <ScenarioCardSkeleton />
+            ) : selectedScenario ? (
+              <ScenarioCard
+                document={selectedScenario}
+                scenarios={options}
+                selectedScenarioId={selectedId}
+                onScenarioChange={handleScenarioSelect}
+                hasMoreScenarios={scenarioHistory.hasMore}
+                loadingMoreScenarios={scenarioHistory.loadingMore}
+                onLoadMoreScenarios={scenarioHistory.loadMore}
+                freshness={scenarioHistory.freshness}
+              />
+            ) : scenarioId ? (
+              <p className="text-center text-gray-500 py-8 bg-white rounded-xl shadow-sm">This scenario no longer exists.</p>
+            ) : (
+              <p className="text-center text-gray-500 py-8 bg-white rounded-xl shadow-sm">No scenarios yet. Run the scenario agent to generate one.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,122 @@
+import type { FirestoreDocument } from './firestore';
+import type { AgentRunDoc } from './firestoreSchemas';
+import { isRejectedStart, runDuration } from './runHistory';
+
+/**
+ * Health of one agent over a window of recorded runs (see services/runHistory):
+ * how often its runs fail, how long they take and what they produce, so a
+ * degrading agent shows up before someone notices missing documents.
+ */
+
+export interface AgentHealthDay {
+  /** Midnight of the day, local time */
+  day: Date;
+  succeeded: number;
+  failed: number;
+  /** Documents created by the runs that started that day */
+  documents: number;
+}
+
+export interface AgentHealth {
+  /**
+   * Finished runs in the window; runs still going and runs the backend refused to
+   * start are left out of every figure but `rejected`
+   */
+  finished: number;
+  succeeded: number;
+  failed: number;
+  /** Manual runs the backend refused to start */
+  rejected: number;
+  /** Share of finished runs that succeeded, 0–1; null without finished runs */
+  successRate: number | null;
+  medianDurationMs: number | null;
+  p95DurationMs: number | null;
+  runsPerDay: number;
+  documents: number;
+  /** Every day of the window, oldest first, including days without runs */
+  days: AgentHealthDay[];
+  /** The most recent failed run, including refused starts */
+  lastFailure: FirestoreDocument<AgentRunDoc> | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * Nearest-rank percentile (0–100) of `values`; null when there are none
+ */
+export function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+/**
+ * Health figures for the runs started between `from` and `now`, newest first as
+ * runsQuery returns them
+ */
+export function agentHealth(
+  runs: FirestoreDocument<AgentRunDoc>[],
+  from: Date,
+  now: Date = new Date()
+): AgentHealth {
+  const firstDay = startOfDay(from);
+  const days: AgentHealthDay[] = [];
+  for (let day = firstDay; day <= now; day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1)) {
+    days.push({ day, succeeded: 0, failed: 0, documents: 0 });
+  }
+
+  const durations: number[] = [];
+  let succeeded = 0;
+  let failed = 0;
+  let rejected = 0;
+  let documents = 0;
+  let lastFailure: FirestoreDocument<AgentRunDoc> | null = null;
+
+  for (const run of runs) {
+    const { data } = run;
+    if (!data.started_at || data.outcome === 'running') continue;
+    // Runs come newest first
+    if (data.outcome === 'failed' && !lastFailure) lastFailure = run;
+    // A refused start never ran: counting it would add a 0ms run and a failure
+    if (isRejectedStart(data)) {
+      rejected++;
+      continue;
+    }
+    // Days are a day apart in local time, so daylight saving shifts are rounded away
+    const bucket = days[Math.round((startOfDay(data.started_at).getTime() - firstDay.getTime()) / DAY_MS)];
+
+    if (data.outcome === 'failed') {
+      failed++;
+      if (bucket) bucket.failed++;
+    } else {
+      succeeded++;
+      if (bucket) bucket.succeeded++;
+    }
+    documents += data.output_ids.length;
+    if (bucket) bucket.documents += data.output_ids.length;
+
+    const duration = runDuration(data, now);
+    if (duration !== null) durations.push(duration);
+  }
+
+  const finished = succeeded + failed;
+  const windowDays = Math.max(1, (now.getTime() - from.getTime()) / DAY_MS);
+  return {
+    finished,
+    succeeded,
+    failed,
+    rejected,
+    successRate: finished > 0 ? succeeded / finished : null,
+    medianDurationMs: percentile(durations, 50),
+    p95DurationMs: percentile(durations, 95),
+    runsPerDay: finished / windowDays,
+    documents,
+    days,
+    lastFailure,
+  };
+}
@@ -0,0 +1,215 @@
+/**
+ * Agent pipelines: agents chained into a DAG, each step starting once the steps
+ * it depends on have finished, e.g. the safety and COA agents after the
+ * evaluation agent whose output they consume.
+ *
+ * This module is the pure model (definitions, validation, ordering, which steps
+ * are ready); services/pipelineRunner runs pipelines against `all_states`.
+ * Steps run with the agent's default options, as if started without the run dialog.
+ */
+
+export interface PipelineStep {
+  id: string;
+  /** Agent api name; each agent appears at most once in a pipeline */
+  agent: string;
+  /** Ids of the steps that must succeed before this one starts */
+  after: string[];
+}
+
+export interface PipelineDefinition {
+  id: string;
+  name: string;
+  steps: PipelineStep[];
+  /** Stop starting steps when one fails; otherwise only its dependents are skipped */
+  halt_on_failure: boolean;
+}
+
+export type StepStatus = 'pending' | 'starting' | 'running' | 'succeeded' | 'failed' | 'skipped';
+
+export interface StepRun {
+  status: StepStatus;
+  startedAt?: number;
+  endedAt?: number;
+  error?: string;
+  /**
+   * The agent's latest `_last_activity`/`_last_error` time when the step was
+   * started; a later one means the step's run has ended
+   */
+  previousEnd?: number;
+}
+
+export type PipelineRunStatus = 'running' | 'halted' | 'succeeded' | 'failed';
+
+export interface PipelineRun {
+  pipelineId: string;
+  /** Name when the run started, in case the pipeline is renamed or deleted */
+  name: string;
+  status: PipelineRunStatus;
+  steps: Record<string, StepRun>;
+  startedAt: number;
+  endedAt?: number;
+  /** Why a halted run stopped */
+  haltReason?: string;
+}
+
+export const STEP_STATUS_LABELS: Record<StepStatus, string> = {
+  pending: 'Waiting',
+  starting: 'Starting',
+  running: 'Running',
+  succeeded: 'Done',
+  failed: 'Failed',
+  skipped: 'Skipped',
+};
+
+export const PIPELINE_RUN_STATUS_LABELS: Record<PipelineRunStatus, string> = {
+  running: 'Running',
+  halted: 'Halted',
+  succeeded: 'Completed',
+  failed: 'Completed with failures',
+};
+
+export function pipelineStepId(): string {
+  return `step-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function pipelineId(): string {
+  return `pipeline-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/**
+ * Evaluations first; the safety, COA and site agents all work from them
+ */
+export function defaultPipeline(): PipelineDefinition {
+  return {
+    id: 'evaluation-to-reports',
+    name: 'Evaluations to reports',
+    halt_on_failure: true,
+    steps: [
+      { id: 'evaluation', agent: 'evaluation_agent', after: [] },
+      { id: 'safety', agent: 'notification_agent', after: ['evaluation'] },
+      { id: 'coa', agent: 'coa_agent', after: ['evaluation'] },
+      { id: 'site', agent: 'site_agent', after: ['evaluation'] },
+    ],
+  };
+}
+
+/**
+ * Steps grouped by depth: the first layer has no dependencies, every other step
+ * sits one layer after its deepest dependency. Steps in a cycle are left out.
+ */
+export function pipelineLayers(steps: PipelineStep[]): PipelineStep[][] {
+  const depth = new Map<string, number>();
+  const byId = new Map(steps.map(step => [step.id, step]));
+  const visiting = new Set<string>();
+
+  const depthOf = (step: PipelineStep): number | null => {
+    const known = depth.get(step.id);
+    if (known !== undefined) return known;
+    if (visiting.has(step.id)) return null;
+    visiting.add(step.id);
+    let result: number | null = 0;
+    for (const dependencyId of step.after) {
+      const dependency = byId.get(dependencyId);
+      const dependencyDepth = dependency ? depthOf(dependency) : null;
+      if (dependencyDepth === null) {
+        result = null;
+        break;
+      }
+      result = Math.max(result, dependencyDepth + 1);
+    }
+    visiting.delete(step.id);
+    if (result !== null) depth.set(step.id, result);
+    return result;
+  };
+
+  const layers: PipelineStep[][] = [];
+  steps.forEach(step => {
+    const layer = depthOf(step);
+    if (layer === null) return;
+    (layers[layer] ??= []).push(step);
+  });
+  return layers.filter(Boolean);
+}
+
+/**
+ * Problems that would stop the pipeline from saving or running, in display order
+ */
+export function validatePipeline(pipeline: PipelineDefinition): string[] {
+  const problems: string[] = [];
+  if (!pipeline.name.trim()) problems.push('Give the pipeline a name.');
+  if (pipeline.steps.length === 0) problems.push('Add at least one step.');
+  const agents = pipeline.steps.map(step => step.agent);
+  if (new Set(agents).size !== agents.length) {
+    problems.push('Each agent can only appear once in a pipeline.');
+  }
+  const ids = new Set(pipeline.steps.map(step => step.id));
+  if (pipeline.steps.some(step => step.after.some(id => !ids.has(id)))) {
+    problems.push('A step depends on a step that is no longer in the pipeline.');
+  }
+  const layered = pipelineLayers(pipeline.steps).reduce((count, layer) => count + layer.length, 0);
+  if (layered !== pipeline.steps.length) {
+    problems.push('Steps depend on each other in a loop.');
+  }
+  return problems;
+}
+
+/**
+ * A fresh run of the pipeline, every step waiting
+ */
+export function createPipelineRun(pipeline: PipelineDefinition, now: number = Date.now()): PipelineRun {
+  const steps: Record<string, StepRun> = {};
+  pipeline.steps.forEach(step => {
+    steps[step.id] = { status: 'pending' };
+  });
+  return { pipelineId: pipeline.id, name: pipeline.name, status: 'running', steps, startedAt: now };
+}
+
+/**
+ * Waiting steps whose dependencies have all succeeded
+ */
+export function readySteps(pipeline: PipelineDefinition, run: PipelineRun): PipelineStep[] {
+  return pipeline.steps.filter(step =>
+    run.steps[step.id]?.status === 'pending' &&
+    step.after.every(id => run.steps[id]?.status === 'succeeded')
+  );
+}
+
+/**
+ * Waiting steps that can never start because a step they depend on (directly
+ * or not) failed or was skipped
+ */
+export function blockedSteps(pipeline: PipelineDefinition, run: PipelineRun): PipelineStep[] {
+  const blocked = new Set<string>();
+  let changed = true;
+  while (changed) {
+    changed = false;
+    pipeline.steps.forEach(step => {
+      if (blocked.has(step.id) || run.steps[step.id]?.status !== 'pending') return;
+      const stuck = step.after.some(id => {
+        const status = run.steps[id]?.status;
+        return status === 'failed' || status === 'skipped' || blocked.has(id);
+      });
+      if (stuck) {
+        blocked.add(step.id);
+        changed = true;
+      }
+    });
+  }
+  return pipeline.steps.filter(step => blocked.has(step.id));
+}
+
+export function isStepActive(step: StepRun | undefined): boolean {
+  return step?.status === 'starting' || step?.status === 'running';
+}
+
+/**
+ * The run again from where it stopped: finished steps are kept, failed,
+ * skipped and waiting ones start over
+ */
+export function resumePipelineRun(run: PipelineRun): PipelineRun {
+  const steps: Record<string, StepRun> = {};
+  Object.entries(run.steps).forEach(([id, step]) => {
+    steps[id] = step.status === 'succeeded' || isStepActive(step) ? step : { status: 'pending' };
+  });
+  return { ...run, status: 'running', steps, endedAt: undefined, haltReason: undefined };
+}
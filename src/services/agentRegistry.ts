@@ -0,0 +1,258 @@
+import agentsData from '../data/agents.json';
+import type { ApiClient } from './api';
+import type { Permission } from './auth';
+import { collectionNormalizers, type TypedCollection } from './firestoreSchemas';
+import type { RunOptionField } from '../components/RunConfigDialog';
+import type { ReportCollection } from '../components/ReportHistory';
+
+/**
+ * The agent registry: every agent on the dashboard, declared in data/agents.json.
+ *
+ * An entry says how to run the agent (the API client action), where its state
+ * lives (the `<prefix>_state`, `_last_activity` and `_logs` fields of
+ * `all_states`, or a document of its own), which collection its runs write to,
+ * which reports it can export, what its card shows and what its menu offers.
+ * Cards, menus, status polling, run recording, the scheduler and pipelines all
+ * read from here, so adding an agent that fits these kinds is a change to
+ * agents.json only.
+ */
+
+/**
+ * API client methods that start an agent run
+ */
+export type AgentActionName = keyof Pick<
+  ApiClient,
+  'createDemoEvaluation' | 'runSafetyCheck' | 'generateScenario' | 'generateCOAReports' | 'generateSiteReport'
+>;
+
+const AGENT_ACTIONS: AgentActionName[] = [
+  'createDemoEvaluation',
+  'runSafetyCheck',
+  'generateScenario',
+  'generateCOAReports',
+  'generateSiteReport',
+];
+
+/**
+ * - `run`: start a run (the run dialog first when the agent has run options)
+ * - `export`: download the agent's reports as Excel
+ * - `analytics`: open the time savings analytics
+ * - `description`, `logs`, `run_history`: the agent's description, logs and runs
+ */
+export type AgentMenuItemType = 'run' | 'export' | 'analytics' | 'description' | 'logs' | 'run_history';
+
+export interface AgentMenuItem {
+  type: AgentMenuItemType;
+  /** Defaults per type, e.g. "Logs" */
+  label: string;
+  /** Material Symbols icon name */
+  icon: string;
+  /** Needed on top of the type's own (running needs run_agents, exporting export_reports) */
+  permission?: Permission;
+}
+
+/**
+ * What the card shows under the description
+ */
+export type AgentCardSummary =
+  | 'weekly_evaluations'
+  | 'safety_inbox'
+  | 'latest_scenario'
+  | 'site_report_totals'
+  | 'hours_saved';
+
+export interface AgentDefinition {
+  name: string;
+  /** Id used by the backend, e.g. `coa_agent` */
+  apiName: string;
+  description: string;
+  icon: string;
+  /** Tailwind class for the icon tile, e.g. `bg-purple-500/20`; also picks the card's accents */
+  color: string;
+  iconColor: string;
+  detailedDescription: string;
+  realWorldProblem: string;
+  /** Starts a run; agents without one can't be run, scheduled or recorded */
+  action?: AgentActionName;
+  /** Prefix of the agent's `all_states` fields; the api name unless set */
+  statePrefix: string;
+  /** agent_states document holding the agent's state instead of `all_states` */
+  stateDocument?: string;
+  /** Collection the agent's runs write to */
+  outputCollection?: TypedCollection;
+  /** e.g. ['COA report', 'COA reports'] */
+  outputLabels: [string, string];
+  /** Reports the card offers to download and browse */
+  reports?: ReportCollection;
+  summary?: AgentCardSummary;
+  menu: AgentMenuItem[];
+  /** Parameters faculty can set before a run; sent as the action's request body */
+  runOptions?: RunOptionField[];
+}
+
+/**
+ * The agent's field names in `all_states`
+ */
+export interface AgentStateFields {
+  state: string;
+  lastActivity: string;
+  logs: string;
+}
+
+/**
+ * agents.json as written; optional fields get their defaults in the registry
+ */
+type AgentEntry = Omit<AgentDefinition, 'action' | 'statePrefix' | 'outputCollection' | 'outputLabels' | 'reports' | 'summary' | 'menu'> & {
+  action?: string;
+  statePrefix?: string;
+  outputCollection?: string;
+  outputLabels?: string[];
+  reports?: string;
+  summary?: string;
+  menu?: { type: string; label?: string; icon?: string; permission?: string }[];
+};
+
+const MENU_DEFAULTS: Record<AgentMenuItemType, { label: string; icon: string }> = {
+  run: { label: 'Run', icon: 'play_arrow' },
+  export: { label: 'Download Report', icon: 'download' },
+  analytics: { label: 'View Analytics', icon: 'bar_chart' },
+  description: { label: 'Agent Description', icon: 'info' },
+  logs: { label: 'Logs', icon: 'description' },
+  run_history: { label: 'Run History', icon: 'history' },
+};
+
+const CARD_SUMMARIES: AgentCardSummary[] = ['weekly_evaluations', 'safety_inbox', 'latest_scenario', 'site_report_totals', 'hours_saved'];
+const REPORT_COLLECTIONS: ReportCollection[] = ['agent_coa_reports', 'agent_sites'];
+const PERMISSIONS: Permission[] = [
+  'run_agents',
+  'manage_automated_mode',
+  'view_safety_notifications',
+  'manage_safety_notifications',
+  'manage_escalation_rules',
+  'export_reports',
+];
+
+/**
+ * agents.json has entries the dashboard can't use
+ */
+export class AgentRegistryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AgentRegistryError';
+  }
+}
+
+/**
+ * Problems with the registry entries, one per line, in file order
+ */
+export function validateAgentRegistry(entries: AgentEntry[]): string[] {
+  const problems: string[] = [];
+  const seen = new Set<string>();
+  entries.forEach((entry, index) => {
+    const label = entry.apiName ? `"${entry.apiName}"` : `Agent ${index + 1}`;
+    if (!entry.apiName) problems.push(`${label} has no apiName.`);
+    if (seen.has(entry.apiName)) problems.push(`${label} is declared more than once.`);
+    seen.add(entry.apiName);
+    if (entry.action !== undefined && !AGENT_ACTIONS.includes(entry.action as AgentActionName)) {
+      problems.push(`${label} has an unknown action "${entry.action}".`);
+    }
+    if (entry.outputCollection !== undefined && !(entry.outputCollection in collectionNormalizers)) {
+      problems.push(`${label} writes to "${entry.outputCollection}", which is not a typed collection.`);
+    }
+    if (entry.outputLabels !== undefined && entry.outputLabels.length !== 2) {
+      problems.push(`${label} needs outputLabels as [singular, plural].`);
+    }
+    if (entry.reports !== undefined && !REPORT_COLLECTIONS.includes(entry.reports as ReportCollection)) {
+      problems.push(`${label} has unknown reports "${entry.reports}".`);
+    }
+    if (entry.summary !== undefined && !CARD_SUMMARIES.includes(entry.summary as AgentCardSummary)) {
+      problems.push(`${label} has an unknown card summary "${entry.summary}".`);
+    }
+    (entry.menu ?? []).forEach(item => {
+      if (!(item.type in MENU_DEFAULTS)) {
+        problems.push(`${label} has an unknown menu item "${item.type}".`);
+      } else if (item.type === 'run' && entry.action === undefined) {
+        problems.push(`${label} has a run menu item but no action.`);
+      } else if (item.type === 'export' && entry.reports === undefined) {
+        problems.push(`${label} has an export menu item but no reports.`);
+      }
+      if (item.permission !== undefined && !PERMISSIONS.includes(item.permission as Permission)) {
+        problems.push(`${label} has a menu item with an unknown permission "${item.permission}".`);
+      }
+    });
+  });
+  return problems;
+}
+
+function toDefinition(entry: AgentEntry): AgentDefinition {
+  const [singular, plural] = entry.outputLabels ?? ['document', 'documents'];
+  return {
+    ...entry,
+    action: entry.action as AgentActionName | undefined,
+    statePrefix: entry.statePrefix ?? entry.apiName,
+    outputCollection: entry.outputCollection as TypedCollection | undefined,
+    outputLabels: [singular, plural],
+    reports: entry.reports as ReportCollection | undefined,
+    summary: entry.summary as AgentCardSummary | undefined,
+    menu: (entry.menu ?? []).map(item => {
+      const type = item.type as AgentMenuItemType;
+      return {
+        type,
+        label: item.label ?? MENU_DEFAULTS[type].label,
+        icon: item.icon ?? MENU_DEFAULTS[type].icon,
+        ...(item.permission ? { permission: item.permission as Permission } : {}),
+      };
+    }),
+  };
+}
+
+function loadRegistry(entries: AgentEntry[]): AgentDefinition[] {
+  const problems = validateAgentRegistry(entries);
+  if (problems.length > 0) {
+    throw new AgentRegistryError(`Invalid agents.json:\n${problems.join('\n')}`);
+  }
+  return entries.map(toDefinition);
+}
+
+/**
+ * Every agent, in card order
+ */
+export const AGENTS: readonly AgentDefinition[] = loadRegistry(agentsData as AgentEntry[]);
+
+/**
+ * Agents that can be run, and so are polled, recorded, scheduled and piped
+ */
+export const RUNNABLE_AGENTS: string[] = AGENTS.filter(agent => agent.action).map(agent => agent.apiName);
+
+export function findAgent(apiName: string): AgentDefinition | undefined {
+  return AGENTS.find(agent => agent.apiName === apiName);
+}
+
+/**
+ * Prefix of the agent's `all_states` fields; unknown names are their own prefix
+ */
+export function agentStatePrefix(apiName: string): string {
+  return findAgent(apiName)?.statePrefix ?? apiName;
+}
+
+export function agentStateFields(agent: AgentDefinition): AgentStateFields {
+  return {
+    state: `${agent.statePrefix}_state`,
+    lastActivity: `${agent.statePrefix}_last_activity`,
+    logs: `${agent.statePrefix}_logs`,
+  };
+}
+
+/**
+ * Collection an agent writes its results to
+ */
+export function agentOutputCollection(apiName: string): TypedCollection | undefined {
+  return findAgent(apiName)?.outputCollection;
+}
+
+/**
+ * [singular, plural] for documents of a collection, e.g. ['scenario', 'scenarios']
+ */
+export function outputLabels(collection: string | undefined): [string, string] {
+  return AGENTS.find(agent => collection && agent.outputCollection === collection)?.outputLabels ?? ['document', 'documents'];
+}
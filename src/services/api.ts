@@ -1,23 +1,192 @@
+import {
+  parseResponse,
+  healthCheckSchema,
+  agentStatusSchema,
+  agentActionSchema,
+  automatedModeStatusSchema,
+  automatedModeActionSchema,
+  timeSavingsAnalyticsFor,
+  runProgressEventSchema,
+  type RunProgressEvent,
+  type Schema,
+} from './apiSchemas';
+import {
+  ApiError,
+  ApiCorsError,
+  ApiNetworkError,
+  ApiTimeoutError,
+  ApiValidationError,
+  errorFromResponse,
+  type ApiErrorContext,
+} from './apiErrors';
+import { parseEventStream, parseNdjsonStream } from './eventStream';
+import { isMockMode } from '../config/dataMode';
+import { authService } from './auth';
+import { mockApi } from '../mocks/mockApi';
+
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'https://your-api-url.run.app';
 
 // Log API calls in development
 const DEBUG = import.meta.env.DEV;
 
-// Helper function to handle fetch with better error handling
-async function fetchWithErrorHandling(url: string, options?: RequestInit) {
-  if (DEBUG) {
-    console.log(`[API] ${options?.method || 'GET'} ${url}`);
+// Cloud Run cold starts can take a while, but a request that hangs longer than this is treated as failed
+const DEFAULT_GET_TIMEOUT_MS = 20000;
+// Agent actions do real work before responding, so give them more headroom
+const DEFAULT_ACTION_TIMEOUT_MS = 120000;
+const DEFAULT_GET_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8000;
+// How long to wait for a progress stream to start responding before falling back
+const STREAM_CONNECT_TIMEOUT_MS = 10000;
+// How long the CORS check after a failed request waits for the backend
+const CORS_PROBE_TIMEOUT_MS = 5000;
+
+/**
+ * Per-call request policy. Retries only ever apply to GET requests.
+ */
+export interface RequestOptions {
+  /** Abort the request (and any pending retry) when this signal fires */
+  signal?: AbortSignal;
+  /** Per-attempt timeout in milliseconds */
+  timeoutMs?: number;
+  /** Number of retries after the first attempt (GET only) */
+  retries?: number;
+}
+
+/**
+ * Optional run parameters, sent as the JSON body of agent actions.
+ * Any field left out lets the agent choose, which matches the parameterless behaviour.
+ */
+export interface EvaluationRunParams {
+  student_id?: string;
+  case_type?: string;
+}
+
+export interface ScenarioRunParams {
+  student_id?: string;
+  case_type?: string;
+}
+
+export interface SafetyCheckParams {
+  student_id?: string;
+  /** ISO date (YYYY-MM-DD); only evaluations created on or after it are checked */
+  start_date?: string;
+}
+
+export interface COAReportParams {
+  class_standing?: string;
+  student_id?: string;
+  start_date?: string;
+  end_date?: string;
+}
+
+export interface SiteReportParams {
+  start_date?: string;
+  end_date?: string;
+}
+
+// Serialize run params, dropping empty values; no params means no body at all
+function runParamsBody(params?: object): string | undefined {
+  if (!params) return undefined;
+  const entries = Object.entries(params).filter(([, value]) => value !== undefined && value !== null && value !== '');
+  return entries.length > 0 ? JSON.stringify(Object.fromEntries(entries)) : undefined;
+}
+
+/**
+ * True when an error comes from the caller cancelling the request,
+ * which callers should ignore rather than report
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+// Client-side id used in logs when the backend doesn't expose its own request id
+function newRequestId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// Prefer the id the backend/Cloud Run logged the request under, when CORS exposes it
+function responseRequestId(response: Response): string | undefined {
+  const traceContext = response.headers.get('x-cloud-trace-context');
+  return response.headers.get('x-request-id') || traceContext?.split('/')[0] || undefined;
+}
+
+// Exponential backoff with full jitter
+function retryDelay(attempt: number): number {
+  const ceiling = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+  return Math.random() * ceiling;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason ?? new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason ?? new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Add the signed-in user's Firebase ID token so the backend can authorize the call
+async function withAuthHeader(headers?: HeadersInit): Promise<Headers> {
+  const result = new Headers(headers);
+  const token = await authService.getIdToken();
+  if (token) {
+    result.set('Authorization', `Bearer ${token}`);
   }
+  return result;
+}
+
+// Single attempt: fetch with a timeout linked to the caller's signal
+async function fetchOnce(url: string, context: ApiErrorContext, options: RequestInit | undefined, timeoutMs: number, signal?: AbortSignal) {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener('abort', onAbort, { once: true });
 
   try {
-    const response = await fetch(url, {
-      ...options,
-      mode: 'cors', // Explicitly request CORS
-      credentials: 'omit', // Don't send credentials
-    });
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        ...options,
+        headers: await withAuthHeader(options?.headers),
+        signal: controller.signal,
+        mode: 'cors', // Explicitly request CORS
+        credentials: 'omit', // Don't send credentials
+      });
+    } catch (error) {
+      if (timedOut && !signal?.aborted) {
+        throw new ApiTimeoutError(timeoutMs, { ...context, cause: error });
+      }
+      if (isAbortError(error)) {
+        throw error;
+      }
+      // fetch rejects with a TypeError when no response arrived at all
+      throw new ApiNetworkError({ ...context, cause: error });
+    }
+
+    const responseContext = {
+      ...context,
+      status: response.status,
+      requestId: responseRequestId(response) ?? context.requestId,
+    };
 
     if (DEBUG) {
-      console.log(`[API] Response status: ${response.status} for ${url}`);
+      console.log(`[API] Response status: ${response.status} for ${url} (request ${responseContext.requestId})`);
     }
 
     if (!response.ok) {
@@ -25,109 +194,288 @@ async function fetchWithErrorHandling(url: string, options?: RequestInit) {
       if (DEBUG) {
         console.error(`[API] Error response for ${url}:`, errorText);
       }
-      throw new Error(`HTTP error! status: ${response.status}, body: ${errorText.substring(0, 100)}`);
+      throw errorFromResponse(errorText, responseContext);
+    }
+
+    let body: unknown;
+    try {
+      body = await response.json();
+    } catch (error) {
+      throw new ApiValidationError('response', 'JSON', 'an unparseable body', { ...responseContext, cause: error });
     }
+    return { body, context: responseContext };
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
 
-    return response.json();
-  } catch (error: any) {
+// fetch reports a response blocked by CORS exactly like a server it couldn't reach.
+// A `no-cors` request isn't checked against the backend's CORS policy: if the health
+// check answers one (with an opaque response), the backend is up and the failed
+// request was blocked for this origin.
+async function backendAnswersWithoutCors(signal?: AbortSignal): Promise<boolean> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), CORS_PROBE_TIMEOUT_MS);
+  const onAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener('abort', onAbort, { once: true });
+  try {
+    await fetch(`${API_BASE_URL}/health`, { mode: 'no-cors', credentials: 'omit', signal: controller.signal });
+    return true;
+  } catch {
+    return false;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+// Helper function to handle fetch with better error handling
+// `path` is relative to API_BASE_URL; the response body is validated against `schema`.
+// Every failure is thrown as an ApiError subclass (see ./apiErrors), except caller aborts.
+async function fetchWithErrorHandling<T>(
+  path: string,
+  schema: Schema<T>,
+  options?: RequestInit,
+  policy: RequestOptions = {}
+): Promise<T> {
+  const method = options?.method || 'GET';
+  const url = `${API_BASE_URL}${path}`;
+  const context: ApiErrorContext = { endpoint: `${method} ${path.split('?')[0]}`, requestId: newRequestId() };
+  const isGet = method === 'GET';
+  const timeoutMs = policy.timeoutMs ?? (isGet ? DEFAULT_GET_TIMEOUT_MS : DEFAULT_ACTION_TIMEOUT_MS);
+  const retries = isGet ? (policy.retries ?? DEFAULT_GET_RETRIES) : 0;
+
+  if (DEBUG) {
+    console.log(`[API] ${method} ${url} (request ${context.requestId})`);
+  }
+
+  try {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await fetchOnce(url, context, options, timeoutMs, policy.signal);
+        return parseResponse(response.context, schema, response.body);
+      } catch (error) {
+        // Checked on the first failure only, so a blocked origin isn't retried first
+        if (attempt === 0 && error instanceof ApiNetworkError && await backendAnswersWithoutCors(policy.signal)) {
+          const frontendOrigin = typeof window !== 'undefined' ? window.location.origin : 'unknown';
+          throw new ApiCorsError(frontendOrigin, { ...context, cause: error });
+        }
+        const retryable = error instanceof ApiError && error.retryable;
+        if (attempt >= retries || !retryable || policy.signal?.aborted) {
+          throw error;
+        }
+        const delay = retryDelay(attempt);
+        if (DEBUG) {
+          console.warn(`[API] Retrying ${context.endpoint} in ${Math.round(delay)}ms (attempt ${attempt + 2} of ${retries + 1})`);
+        }
+        await sleep(delay, policy.signal);
+      }
+    }
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw error;
+    }
     if (DEBUG) {
       console.error(`[API] Fetch error for ${url}:`, error);
     }
-    // Check if it's a CORS error or connection reset (which often indicates CORS blocking)
-    if (error.message?.includes('CORS') || 
-        error.message?.includes('ERR_CONNECTION_RESET') ||
-        error.message?.includes('Failed to fetch') ||
-        error.name === 'TypeError' && error.message?.includes('Failed to fetch')) {
-      const frontendOrigin = typeof window !== 'undefined' ? window.location.origin : 'unknown';
-      throw new Error(`CORS_ERROR: Backend server is not configured to allow requests from origin: ${frontendOrigin}. Please update the backend CORS settings to include this origin.`);
-    }
     throw error;
   }
 }
 
-export const api = {
+/**
+ * How a progress stream finished: with a terminal `completed`/`failed` event,
+ * or by the server closing the connection without one
+ */
+export type RunStreamOutcome = 'completed' | 'failed' | 'closed';
+
+// Open a streaming GET; the timeout only covers waiting for response headers
+async function openStream(path: string, context: ApiErrorContext, signal?: AbortSignal) {
+  const url = `${API_BASE_URL}${path}`;
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, STREAM_CONNECT_TIMEOUT_MS);
+  const onAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      headers: await withAuthHeader({ Accept: 'text/event-stream, application/x-ndjson' }),
+      signal: controller.signal,
+      mode: 'cors',
+      credentials: 'omit',
+    });
+  } catch (error) {
+    signal?.removeEventListener('abort', onAbort);
+    if (timedOut && !signal?.aborted) {
+      throw new ApiTimeoutError(STREAM_CONNECT_TIMEOUT_MS, { ...context, cause: error });
+    }
+    if (isAbortError(error)) throw error;
+    throw new ApiNetworkError({ ...context, cause: error });
+  } finally {
+    clearTimeout(timer);
+  }
+
+  const responseContext = {
+    ...context,
+    status: response.status,
+    requestId: responseRequestId(response) ?? context.requestId,
+  };
+  if (!response.ok || !response.body) {
+    signal?.removeEventListener('abort', onAbort);
+    throw errorFromResponse(await response.text(), responseContext);
+  }
+  const cleanup = () => signal?.removeEventListener('abort', onAbort);
+  return { response, context: responseContext, cleanup };
+}
+
+const liveApi = {
   // Health check
-  async healthCheck() {
-    return fetchWithErrorHandling(`${API_BASE_URL}/health`);
+  async healthCheck(options?: RequestOptions) {
+    return fetchWithErrorHandling('/health', healthCheckSchema, undefined, options);
   },
 
   // Get agent status
-  async getAgentStatus(agentName: string) {
-    return fetchWithErrorHandling(`${API_BASE_URL}/agents/${agentName}/status`);
+  async getAgentStatus(agentName: string, options?: RequestOptions) {
+    return fetchWithErrorHandling(`/agents/${agentName}/status`, agentStatusSchema, undefined, options);
   },
 
   // Create demo evaluation
-  async createDemoEvaluation() {
-    return fetchWithErrorHandling(`${API_BASE_URL}/agents/evaluation/create-demo`, {
+  async createDemoEvaluation(params?: EvaluationRunParams, options?: RequestOptions) {
+    return fetchWithErrorHandling('/agents/evaluation/create-demo', agentActionSchema, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' }
-    });
+      headers: { 'Content-Type': 'application/json' },
+      body: runParamsBody(params)
+    }, options);
   },
 
   // Generate scenario
-  async generateScenario() {
-    return fetchWithErrorHandling(`${API_BASE_URL}/mentor/make-scenario`, {
+  async generateScenario(params?: ScenarioRunParams, options?: RequestOptions) {
+    return fetchWithErrorHandling('/mentor/make-scenario', agentActionSchema, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' }
-    });
+      headers: { 'Content-Type': 'application/json' },
+      body: runParamsBody(params)
+    }, options);
   },
 
   // Run safety check
-  async runSafetyCheck() {
-    return fetchWithErrorHandling(`${API_BASE_URL}/agents/notification/safety-check`, {
+  async runSafetyCheck(params?: SafetyCheckParams, options?: RequestOptions) {
+    return fetchWithErrorHandling('/agents/notification/safety-check', agentActionSchema, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' }
-    });
+      headers: { 'Content-Type': 'application/json' },
+      body: runParamsBody(params)
+    }, options);
   },
 
   // Generate COA reports
-  async generateCOAReports() {
-    return fetchWithErrorHandling(`${API_BASE_URL}/agents/coa-compliance/generate-reports`, {
+  async generateCOAReports(params?: COAReportParams, options?: RequestOptions) {
+    return fetchWithErrorHandling('/agents/coa-compliance/generate-reports', agentActionSchema, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' }
-    });
+      headers: { 'Content-Type': 'application/json' },
+      body: runParamsBody(params)
+    }, options);
   },
 
   // Automated mode - start
-  async startAutomatedMode() {
-    return fetchWithErrorHandling(`${API_BASE_URL}/agents/automated-mode/start`, {
+  async startAutomatedMode(options?: RequestOptions) {
+    return fetchWithErrorHandling('/agents/automated-mode/start', automatedModeActionSchema, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' }
-    });
+    }, options);
   },
 
   // Automated mode - stop
-  async stopAutomatedMode() {
-    return fetchWithErrorHandling(`${API_BASE_URL}/agents/automated-mode/stop`, {
+  async stopAutomatedMode(options?: RequestOptions) {
+    return fetchWithErrorHandling('/agents/automated-mode/stop', automatedModeActionSchema, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' }
-    });
+    }, options);
   },
 
   // Automated mode - status
-  async getAutomatedModeStatus() {
-    return fetchWithErrorHandling(`${API_BASE_URL}/agents/automated-mode/status`);
+  async getAutomatedModeStatus(options?: RequestOptions) {
+    return fetchWithErrorHandling('/agents/automated-mode/status', automatedModeStatusSchema, undefined, options);
   },
 
   // Automated mode - toggle
-  async toggleAutomatedMode() {
-    return fetchWithErrorHandling(`${API_BASE_URL}/agents/automated-mode/toggle`, {
+  async toggleAutomatedMode(options?: RequestOptions) {
+    return fetchWithErrorHandling('/agents/automated-mode/toggle', automatedModeActionSchema, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' }
-    });
+    }, options);
   },
 
   // Time Savings Analytics
-  async getTimeSavingsAnalytics(timeframe: string = 'monthly', includeInsights: boolean = true) {
-    return fetchWithErrorHandling(`${API_BASE_URL}/agents/time-savings/analytics?timeframe=${timeframe}&include_insights=${includeInsights}`);
+  // Nested `{ [timeframe]: {...} }` payloads are unwrapped, so callers always get the flat shape
+  async getTimeSavingsAnalytics(timeframe: string = 'monthly', includeInsights: boolean = true, options?: RequestOptions) {
+    return fetchWithErrorHandling(
+      `/agents/time-savings/analytics?timeframe=${timeframe}&include_insights=${includeInsights}`,
+      timeSavingsAnalyticsFor(timeframe),
+      undefined,
+      options
+    );
+  },
+
+  // Follow a run's progress stream (Server-Sent Events or NDJSON), calling `onEvent` per message.
+  // Rejects with an ApiError when streaming isn't available so callers can fall back to
+  // the Firestore listener and status polling.
+  async streamRunProgress(
+    agentName: string,
+    runId: string,
+    onEvent: (event: RunProgressEvent) => void,
+    options: Pick<RequestOptions, 'signal'> = {}
+  ): Promise<RunStreamOutcome> {
+    const path = `/agents/${agentName}/runs/${encodeURIComponent(runId)}/events`;
+    const context: ApiErrorContext = { endpoint: `GET /agents/${agentName}/runs/{run_id}/events`, requestId: newRequestId() };
+
+    if (DEBUG) {
+      console.log(`[API] Streaming ${path} (request ${context.requestId})`);
+    }
+
+    const stream = await openStream(path, context, options.signal);
+    const contentType = stream.response.headers.get('content-type') || '';
+    const messages = contentType.includes('ndjson')
+      ? parseNdjsonStream(stream.response.body!)
+      : parseEventStream(stream.response.body!);
+
+    try {
+      for await (const message of messages) {
+        if (message.event === 'ping') continue;
+
+        let payload: unknown;
+        try {
+          payload = JSON.parse(message.data);
+        } catch (error) {
+          throw new ApiValidationError('event.data', 'JSON', 'an unparseable message', { ...stream.context, cause: error });
+        }
+        const event = parseResponse(stream.context, runProgressEventSchema, payload);
+        onEvent(event);
+
+        if (event.status === 'completed' || event.status === 'failed') {
+          return event.status;
+        }
+      }
+      return 'closed';
+    } finally {
+      stream.cleanup();
+    }
   },
 
   // Generate Site Report
-  async generateSiteReport() {
-    return fetchWithErrorHandling(`${API_BASE_URL}/agents/site/generate-report`, {
+  async generateSiteReport(params?: SiteReportParams, options?: RequestOptions) {
+    return fetchWithErrorHandling('/agents/site/generate-report', agentActionSchema, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' }
-    });
+      headers: { 'Content-Type': 'application/json' },
+      body: runParamsBody(params)
+    }, options);
   }
 };
 
+export type ApiClient = typeof liveApi;
+
+// VITE_DATA_MODE=mock swaps in the in-browser fakes (see src/mocks)
+export const api: ApiClient = isMockMode ? mockApi : liveApi;
@@ -0,0 +1,191 @@
+/**
+ * Error hierarchy for the agents backend.
+ *
+ * Every failure raised by `api` is an ApiError subclass carrying the endpoint,
+ * HTTP status (when a response arrived), request id and whether retrying can help,
+ * so UI code can branch on `instanceof` instead of sniffing messages.
+ */
+
+export interface ApiErrorContext {
+  endpoint: string;
+  status?: number;
+  requestId?: string;
+  cause?: unknown;
+}
+
+export abstract class ApiError extends Error {
+  readonly endpoint: string;
+  readonly status?: number;
+  readonly requestId?: string;
+  abstract readonly retryable: boolean;
+
+  constructor(message: string, context: ApiErrorContext) {
+    super(message, { cause: context.cause });
+    this.endpoint = context.endpoint;
+    this.status = context.status;
+    this.requestId = context.requestId;
+  }
+}
+
+/**
+ * The request never got a response (offline, DNS, connection reset)
+ */
+export class ApiNetworkError extends ApiError {
+  readonly retryable = true;
+
+  constructor(context: ApiErrorContext) {
+    super(`Network error calling ${context.endpoint}`, context);
+    this.name = 'ApiNetworkError';
+  }
+}
+
+/**
+ * The browser blocked the response. Fetch reports this the same way as a network
+ * failure, so it is only raised when the backend still answers a `no-cors` health
+ * check; otherwise the failure stays an ApiNetworkError.
+ */
+export class ApiCorsError extends ApiError {
+  readonly retryable = false;
+  readonly origin: string;
+
+  constructor(origin: string, context: ApiErrorContext) {
+    super(
+      `Backend server is not configured to allow requests from origin: ${origin}. Please update the backend CORS settings to include this origin.`,
+      context
+    );
+    this.name = 'ApiCorsError';
+    this.origin = origin;
+  }
+}
+
+export class ApiTimeoutError extends ApiError {
+  readonly retryable = true;
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number, context: ApiErrorContext) {
+    super(`Request to ${context.endpoint} timed out after ${timeoutMs}ms`, context);
+    this.name = 'ApiTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * One entry of a FastAPI 422 `detail` array
+ */
+export interface ApiFieldError {
+  loc: Array<string | number>;
+  msg: string;
+  type?: string;
+}
+
+/**
+ * 4xx response. `detail` is the FastAPI `detail` string, or the joined messages
+ * of a validation error list (also available as `fieldErrors`).
+ */
+export class ApiClientError extends ApiError {
+  readonly detail: string;
+  readonly fieldErrors: ApiFieldError[];
+  readonly retryable: boolean;
+
+  constructor(detail: string, fieldErrors: ApiFieldError[], context: ApiErrorContext & { status: number }) {
+    super(`${context.endpoint} failed (${context.status}): ${detail}`, context);
+    this.name = 'ApiClientError';
+    this.detail = detail;
+    this.fieldErrors = fieldErrors;
+    // Request Timeout and Too Many Requests are worth retrying later
+    this.retryable = context.status === 408 || context.status === 429;
+  }
+}
+
+export class ApiServerError extends ApiError {
+  readonly retryable = true;
+  readonly detail: string;
+
+  constructor(detail: string, context: ApiErrorContext & { status: number }) {
+    super(`${context.endpoint} failed (${context.status}): ${detail}`, context);
+    this.name = 'ApiServerError';
+    this.detail = detail;
+  }
+}
+
+/**
+ * The response arrived but did not match the expected contract
+ */
+export class ApiValidationError extends ApiError {
+  readonly retryable = false;
+  readonly field: string;
+  readonly expected: string;
+  readonly received: string;
+
+  constructor(field: string, expected: string, received: string, context: ApiErrorContext) {
+    super(`Invalid response from ${context.endpoint}: expected ${field} to be ${expected}, got ${received}`, context);
+    this.name = 'ApiValidationError';
+    this.field = field;
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+function isFieldError(value: unknown): value is ApiFieldError {
+  return typeof value === 'object' && value !== null && typeof (value as ApiFieldError).msg === 'string';
+}
+
+/**
+ * Build the right ApiError subclass for a non-2xx response body
+ */
+export function errorFromResponse(bodyText: string, context: ApiErrorContext & { status: number }): ApiError {
+  let detail = bodyText.substring(0, 200) || `HTTP ${context.status}`;
+  let fieldErrors: ApiFieldError[] = [];
+
+  try {
+    const body: unknown = JSON.parse(bodyText);
+    const rawDetail = typeof body === 'object' && body !== null ? (body as { detail?: unknown }).detail : undefined;
+    if (typeof rawDetail === 'string') {
+      detail = rawDetail;
+    } else if (Array.isArray(rawDetail)) {
+      fieldErrors = rawDetail.filter(isFieldError);
+      if (fieldErrors.length > 0) {
+        detail = fieldErrors.map(e => `${e.loc.join('.')}: ${e.msg}`).join('; ');
+      }
+    }
+  } catch {
+    // Not JSON (e.g. a Cloud Run HTML error page) - keep the truncated text
+  }
+
+  if (context.status >= 500) {
+    return new ApiServerError(detail, context);
+  }
+  return new ApiClientError(detail, fieldErrors, context);
+}
+
+/**
+ * Short, user-facing description of a failure for alerts and error cards
+ */
+export function describeApiError(error: unknown): string {
+  if (error instanceof ApiCorsError) {
+    return 'The backend rejected this origin (CORS). See the banner at the top of the page.';
+  }
+  if (error instanceof ApiNetworkError) {
+    return 'Could not reach the backend. Check your connection and try again.';
+  }
+  if (error instanceof ApiTimeoutError) {
+    return `The backend did not respond within ${Math.round(error.timeoutMs / 1000)} seconds. It may still be starting up - try again shortly.`;
+  }
+  if (error instanceof ApiClientError) {
+    return error.detail;
+  }
+  if (error instanceof ApiServerError) {
+    return `The backend hit an error (${error.status}). Try again in a moment.`;
+  }
+  if (error instanceof ApiValidationError) {
+    return `The backend sent an unexpected response (${error.field}).`;
+  }
+  if (error instanceof Error) {
+    return error.message;
+  }
+  return 'Unknown error';
+}
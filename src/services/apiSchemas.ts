@@ -0,0 +1,195 @@
+/**
+ * Response contracts for the agents backend.
+ *
+ * Every `api` method validates its payload against one of the schemas below, so
+ * components receive typed data and a malformed response fails at the API
+ * boundary with the endpoint and field that did not match.
+ */
+
+import { ApiValidationError, type ApiErrorContext } from './apiErrors';
+
+/**
+ * A schema checks an unknown value at `field` and returns it typed,
+ * or throws a SchemaMismatch describing the first field that did not match.
+ */
+export type Schema<T> = (value: unknown, field: string) => T;
+
+class SchemaMismatch extends Error {
+  readonly field: string;
+  readonly expected: string;
+  readonly received: string;
+
+  constructor(field: string, expected: string, received: string) {
+    super(`${field}: expected ${expected}, got ${received}`);
+    this.field = field;
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const string: Schema<string> = (value, field) => {
+  if (typeof value !== 'string') throw new SchemaMismatch(field, 'string', describe(value));
+  return value;
+};
+
+const number: Schema<number> = (value, field) => {
+  if (typeof value !== 'number' || Number.isNaN(value)) throw new SchemaMismatch(field, 'number', describe(value));
+  return value;
+};
+
+const boolean: Schema<boolean> = (value, field) => {
+  if (typeof value !== 'boolean') throw new SchemaMismatch(field, 'boolean', describe(value));
+  return value;
+};
+
+const unknownValue: Schema<unknown> = (value) => value;
+
+function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, field) => (value === undefined ? undefined : schema(value, field));
+}
+
+function nullable<T>(schema: Schema<T>): Schema<T | null | undefined> {
+  return (value, field) => (value === undefined || value === null ? value : schema(value, field));
+}
+
+function record<T>(schema: Schema<T>): Schema<Record<string, T>> {
+  return (value, field) => {
+    if (!isPlainObject(value)) throw new SchemaMismatch(field, 'object', describe(value));
+    const result: Record<string, T> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      result[key] = schema(entry, `${field}.${key}`);
+    }
+    return result;
+  };
+}
+
+type Shape = Record<string, Schema<unknown>>;
+type Infer<S extends Shape> = { [K in keyof S]: ReturnType<S[K]> };
+
+/**
+ * Validates the declared fields and keeps any extra fields the backend sends,
+ * so new response fields don't break older frontends.
+ */
+function object<S extends Shape>(shape: S): Schema<Infer<S> & Record<string, unknown>> {
+  return (value, field) => {
+    if (!isPlainObject(value)) throw new SchemaMismatch(field, 'object', describe(value));
+    const result: Record<string, unknown> = { ...value };
+    for (const [key, schema] of Object.entries(shape)) {
+      result[key] = schema(value[key], `${field}.${key}`);
+    }
+    return result as Infer<S> & Record<string, unknown>;
+  };
+}
+
+/**
+ * Run a schema against a response body and convert a mismatch into an ApiValidationError
+ */
+export function parseResponse<T>(context: ApiErrorContext, schema: Schema<T>, body: unknown): T {
+  try {
+    return schema(body, 'response');
+  } catch (error) {
+    if (error instanceof SchemaMismatch) {
+      throw new ApiValidationError(error.field, error.expected, error.received, context);
+    }
+    throw error;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Endpoint schemas
+// ---------------------------------------------------------------------------
+
+export const healthCheckSchema = object({
+  status: optional(string),
+});
+export type HealthCheckResponse = ReturnType<typeof healthCheckSchema>;
+
+export const agentStatusSchema = object({
+  agent: string,
+  state: string,
+  result: optional(unknownValue),
+  error: nullable(string),
+});
+export type AgentStatusResponse = ReturnType<typeof agentStatusSchema>;
+
+/**
+ * Shared envelope for POST actions: `{ ok, data }` on success, `{ ok: false, detail }` on failure
+ */
+export const agentActionSchema = object({
+  ok: optional(boolean),
+  message: optional(string),
+  detail: optional(string),
+  data: optional(unknownValue),
+  // Present when the backend can stream progress for this run
+  run_id: nullable(string),
+});
+export type AgentActionResponse = ReturnType<typeof agentActionSchema>;
+
+export const automatedModeStatusSchema = object({
+  active: boolean,
+  start_time: nullable(string),
+  end_time: nullable(string),
+  elapsed_minutes: nullable(number),
+  remaining_minutes: nullable(number),
+});
+export type AutomatedModeStatusResponse = ReturnType<typeof automatedModeStatusSchema>;
+
+export const automatedModeActionSchema = object({
+  ok: optional(boolean),
+  message: optional(string),
+  detail: optional(string),
+  active: optional(boolean),
+});
+export type AutomatedModeActionResponse = ReturnType<typeof automatedModeActionSchema>;
+
+export const timeSavingsAnalyticsSchema = object({
+  total_hours_saved: number,
+  fte_equivalent: number,
+  cost_savings: number,
+  total_tasks: number,
+  task_breakdown: optional(record(number)),
+  agent_breakdown: optional(record(number)),
+  top_agent: nullable(string),
+  insights: nullable(string),
+});
+export type TimeSavingsAnalytics = ReturnType<typeof timeSavingsAnalyticsSchema>;
+
+/**
+ * The analytics endpoint returns either a flat payload or one nested under the
+ * requested timeframe (e.g. `{ monthly: { total_hours_saved } }`); unwrap the latter
+ * before validating so callers always get the flat shape.
+ */
+export function timeSavingsAnalyticsFor(timeframe: string): Schema<TimeSavingsAnalytics> {
+  return (value, field) => {
+    if (isPlainObject(value) && isPlainObject(value[timeframe]) && value.total_hours_saved === undefined) {
+      return timeSavingsAnalyticsSchema(value[timeframe], `${field}.${timeframe}`);
+    }
+    return timeSavingsAnalyticsSchema(value, field);
+  };
+}
+
+/**
+ * One message from the per-run progress stream. `status` is `running` until the
+ * final message, which is `completed` or `failed`.
+ */
+export const runProgressEventSchema = object({
+  run_id: nullable(string),
+  status: optional(string),
+  step: nullable(string),
+  message: nullable(string),
+  percent: nullable(number),
+  partial_output: optional(unknownValue),
+  error: nullable(string),
+  timestamp: nullable(string),
+});
+export type RunProgressEvent = ReturnType<typeof runProgressEventSchema>;
@@ -0,0 +1,187 @@
+import {
+  onAuthStateChanged,
+  signInWithEmailAndPassword,
+  signInWithPopup,
+  sendPasswordResetEmail,
+  signOut,
+  getIdTokenResult,
+  GoogleAuthProvider,
+  OAuthProvider,
+  SAMLAuthProvider,
+  type AuthProvider,
+  type User,
+} from 'firebase/auth';
+import { doc, getDoc } from 'firebase/firestore';
+import { auth, db } from '../config/firebase';
+import { isMockMode } from '../config/dataMode';
+import { mockAuthService } from '../mocks/mockAuth';
+
+/**
+ * Roles, in order of how much they can do. A user's role comes from the `role`
+ * custom claim on their ID token, falling back to the `role` field of
+ * `users/{uid}` in Firestore.
+ */
+export type UserRole = 'program_admin' | 'faculty' | 'auditor' | 'student';
+
+export type Permission =
+  | 'run_agents'
+  | 'manage_automated_mode'
+  | 'view_safety_notifications'
+  /** Acknowledge, assign, comment on and resolve safety notifications */
+  | 'manage_safety_notifications'
+  /** Edit the safety escalation rules */
+  | 'manage_escalation_rules'
+  | 'export_reports';
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  program_admin: 'Program Admin',
+  faculty: 'Faculty / Preceptor',
+  auditor: 'Auditor (read-only)',
+  student: 'Student',
+};
+
+const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  program_admin: ['run_agents', 'manage_automated_mode', 'view_safety_notifications', 'manage_safety_notifications', 'manage_escalation_rules', 'export_reports'],
+  faculty: ['run_agents', 'view_safety_notifications', 'manage_safety_notifications', 'export_reports'],
+  auditor: ['view_safety_notifications', 'export_reports'],
+  student: [],
+};
+
+// Spellings the backend or admin tooling may already use for the same roles
+const ROLE_ALIASES: Record<string, UserRole> = {
+  admin: 'program_admin',
+  program_admin: 'program_admin',
+  faculty: 'faculty',
+  preceptor: 'faculty',
+  auditor: 'auditor',
+  read_only: 'auditor',
+  student: 'student',
+};
+
+export function parseRole(value: unknown): UserRole | null {
+  if (typeof value !== 'string') return null;
+  return ROLE_ALIASES[value.trim().toLowerCase().replace(/[\s-]+/g, '_')] ?? null;
+}
+
+export function hasPermission(role: UserRole | null, permission: Permission): boolean {
+  return role !== null && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+export interface AuthUser {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+  /** null when the account has no recognised role yet */
+  role: UserRole | null;
+}
+
+// VITE_AUTH_SSO_PROVIDER: `google.com`, `oidc.<id>` or `saml.<id>` as configured in Firebase Auth
+const SSO_PROVIDER_ID: string | undefined = import.meta.env.VITE_AUTH_SSO_PROVIDER || undefined;
+const SSO_LABEL: string | undefined = import.meta.env.VITE_AUTH_SSO_LABEL || undefined;
+
+function ssoProvider(providerId: string): AuthProvider {
+  if (providerId === 'google.com') return new GoogleAuthProvider();
+  if (providerId.startsWith('saml.')) return new SAMLAuthProvider(providerId);
+  return new OAuthProvider(providerId);
+}
+
+async function resolveRole(user: User): Promise<UserRole | null> {
+  const token = await getIdTokenResult(user);
+  const claimRole = parseRole(token.claims.role);
+  if (claimRole) return claimRole;
+
+  try {
+    const profile = await getDoc(doc(db, 'users', user.uid));
+    return profile.exists() ? parseRole(profile.data().role) : null;
+  } catch (error) {
+    console.error(`[Auth] ❌ Could not read users/${user.uid}:`, error);
+    return null;
+  }
+}
+
+/**
+ * User-facing message for a sign-in failure
+ */
+export function describeAuthError(error: unknown): string {
+  const code = (error as { code?: string } | null)?.code;
+  switch (code) {
+    case 'auth/invalid-credential':
+    case 'auth/invalid-login-credentials':
+    case 'auth/wrong-password':
+    case 'auth/user-not-found':
+      return 'Incorrect email or password.';
+    case 'auth/invalid-email':
+      return 'Enter a valid email address.';
+    case 'auth/too-many-requests':
+      return 'Too many attempts. Wait a few minutes and try again.';
+    case 'auth/user-disabled':
+      return 'This account has been disabled. Contact your program administrator.';
+    case 'auth/popup-closed-by-user':
+    case 'auth/cancelled-popup-request':
+      return 'Sign-in was cancelled.';
+    case 'auth/popup-blocked':
+      return 'The sign-in popup was blocked. Allow popups for this site and try again.';
+    case 'auth/network-request-failed':
+      return 'Network error. Check your connection and try again.';
+    default:
+      return error instanceof Error ? error.message : 'Sign-in failed.';
+  }
+}
+
+const liveAuthService = {
+  /** Label for the SSO button, or null when SSO isn't configured */
+  ssoLabel: SSO_PROVIDER_ID ? (SSO_LABEL ?? 'Sign in with SSO') : null,
+
+  /**
+   * Subscribe to sign-in state. The callback receives null when signed out,
+   * and the user with their resolved role otherwise.
+   */
+  onAuthChange(callback: (user: AuthUser | null) => void, onError?: (error: Error) => void): () => void {
+    return onAuthStateChanged(
+      auth,
+      async (user) => {
+        if (!user) {
+          console.log('[Auth] ⚠️ Signed out');
+          callback(null);
+          return;
+        }
+        const role = await resolveRole(user).catch((error) => {
+          console.error('[Auth] ❌ Error resolving role:', error);
+          return null;
+        });
+        console.log(`[Auth] 🔐 Signed in as ${user.email ?? user.uid} (role: ${role ?? 'none'})`);
+        callback({ uid: user.uid, email: user.email, displayName: user.displayName, role });
+      },
+      onError
+    );
+  },
+
+  async signInWithEmail(email: string, password: string) {
+    await signInWithEmailAndPassword(auth, email, password);
+  },
+
+  async signInWithSso() {
+    if (!SSO_PROVIDER_ID) throw new Error('SSO is not configured (set VITE_AUTH_SSO_PROVIDER).');
+    await signInWithPopup(auth, ssoProvider(SSO_PROVIDER_ID));
+  },
+
+  async sendPasswordReset(email: string) {
+    await sendPasswordResetEmail(auth, email);
+  },
+
+  async signOut() {
+    await signOut(auth);
+  },
+
+  /**
+   * ID token for backend calls, refreshed by the SDK when it is about to expire
+   */
+  async getIdToken(): Promise<string | null> {
+    return auth.currentUser ? auth.currentUser.getIdToken() : null;
+  },
+};
+
+export type AuthServiceApi = typeof liveAuthService;
+
+// VITE_DATA_MODE=mock swaps in a local fake (see src/mocks)
+export const authService: AuthServiceApi = isMockMode ? mockAuthService : liveAuthService;
@@ -0,0 +1,296 @@
+import type { AgentScheduleEntry, AutomationScheduleDoc, QuietHours } from './firestoreSchemas';
+import { RECORDED_AGENTS } from './runHistory';
+
+/**
+ * Automated mode schedule: which agents automated mode runs, how often (a cron
+ * expression per agent) and a daily quiet window with no runs.
+ *
+ * The schedule lives in `automation_settings/schedule`, where the backend reads
+ * it while automated mode is on. Runs falling in quiet hours are skipped, not
+ * delayed. The next-run previews here are computed in the browser's time zone;
+ * the schedule records the zone it was written in for the backend.
+ */
+
+/**
+ * Input for saving the schedule; timestamps and author are stamped by FirestoreService
+ */
+export type AutomationScheduleInput = Pick<AutomationScheduleDoc, 'timezone' | 'quiet_hours' | 'agents'>;
+
+/**
+ * The schedule can't be saved as it stands
+ */
+export class AutomationScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AutomationScheduleError';
+  }
+}
+
+export const AUTOMATION_SCHEDULE_COLLECTION = 'automation_settings';
+export const AUTOMATION_SCHEDULE_DOCUMENT = 'schedule';
+
+/**
+ * Agents automated mode can run (the time savings agent only aggregates analytics)
+ */
+export const SCHEDULED_AGENTS = RECORDED_AGENTS;
+
+export const CADENCE_PRESETS: { cron: string; label: string }[] = [
+  { cron: '*/15 * * * *', label: 'Every 15 minutes' },
+  { cron: '*/30 * * * *', label: 'Every 30 minutes' },
+  { cron: '0 * * * *', label: 'Hourly' },
+  { cron: '0 */6 * * *', label: 'Every 6 hours' },
+  { cron: '0 6 * * *', label: 'Daily at 06:00' },
+  { cron: '0 6 * * 1-5', label: 'Weekdays at 06:00' },
+  { cron: '0 6 * * 1', label: 'Weekly on Monday at 06:00' },
+  { cron: '0 6 1 * *', label: 'Monthly on the 1st at 06:00' },
+];
+
+const DEFAULT_AGENT_SCHEDULES: Record<string, AgentScheduleEntry> = {
+  evaluation_agent: { enabled: true, cron: '*/30 * * * *', ignore_quiet_hours: false },
+  // Unsafe evaluations shouldn't wait for the morning
+  notification_agent: { enabled: true, cron: '0 * * * *', ignore_quiet_hours: true },
+  scenario_agent: { enabled: true, cron: '0 6 * * *', ignore_quiet_hours: false },
+  coa_agent: { enabled: true, cron: '0 6 * * 1', ignore_quiet_hours: false },
+  site_agent: { enabled: true, cron: '0 6 * * 1', ignore_quiet_hours: false },
+};
+
+const FALLBACK_AGENT_SCHEDULE: AgentScheduleEntry = { enabled: false, cron: '0 6 * * *', ignore_quiet_hours: false };
+
+export function browserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * The schedule as stored, with every scheduled agent present (defaults fill the
+ * gaps; with nothing stored yet, the whole default schedule)
+ */
+export function resolveAutomationSchedule(stored: AutomationScheduleDoc | null): AutomationScheduleInput {
+  const agents: Record<string, AgentScheduleEntry> = {};
+  SCHEDULED_AGENTS.forEach(agent => {
+    agents[agent] = stored?.agents[agent] ?? DEFAULT_AGENT_SCHEDULES[agent] ?? FALLBACK_AGENT_SCHEDULE;
+  });
+  return {
+    timezone: stored?.timezone ?? browserTimeZone(),
+    quiet_hours: stored?.quiet_hours ?? { enabled: true, start: '22:00', end: '06:00' },
+    agents,
+  };
+}
+
+// ─── Cron expressions ──────────────────────────────────────────────────────────
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const CRON_FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'] },
+  // 7 is Sunday too
+  { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] },
+];
+
+/**
+ * A parsed cron expression: the values each field allows
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Standard cron: when both day fields are restricted, either one matching is enough
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+function parseCronValue(value: string, field: CronField): number {
+  const named = field.names?.indexOf(value.toLowerCase()) ?? -1;
+  const number = named >= 0 ? named + (field.name === 'month' ? 1 : 0) : /^\d+$/.test(value) ? Number(value) : NaN;
+  if (isNaN(number) || number < field.min || number > field.max) {
+    throw new AutomationScheduleError(`"${value}" isn't a valid ${field.name} (${field.min}-${field.max}).`);
+  }
+  return number;
+}
+
+function parseCronField(text: string, field: CronField): Set<number> {
+  const values = new Set<number>();
+  text.split(',').forEach(part => {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new AutomationScheduleError(`"${part}" has an invalid step in the ${field.name} field.`);
+    }
+    let start = field.min;
+    let end = field.max;
+    if (range !== '*') {
+      const [from, to] = range.split('-');
+      start = parseCronValue(from, field);
+      // "5/15" means from 5 to the end of the range
+      end = to !== undefined ? parseCronValue(to, field) : stepText !== undefined ? field.max : start;
+      if (end < start) {
+        throw new AutomationScheduleError(`"${part}" runs backwards in the ${field.name} field.`);
+      }
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(field.name === 'day of week' && value === 7 ? 0 : value);
+    }
+  });
+  return values;
+}
+
+/**
+ * @throws AutomationScheduleError when the expression isn't five valid cron fields
+ */
+export function parseCron(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new AutomationScheduleError('A cadence needs five fields: minute, hour, day of month, month and day of week.');
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => parseCronField(part, CRON_FIELDS[index]));
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: !parts[2].startsWith('*'),
+    dayOfWeekRestricted: !parts[4].startsWith('*'),
+  };
+}
+
+/**
+ * Why the expression can't be used, or null when it can
+ */
+export function cronProblem(expression: string): string | null {
+  try {
+    parseCron(expression);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * e.g. "Hourly" for a preset, otherwise the expression itself
+ */
+export function describeCadence(expression: string): string {
+  const normalized = expression.trim().replace(/\s+/g, ' ');
+  return CADENCE_PRESETS.find(preset => preset.cron === normalized)?.label ?? `Cron: ${normalized}`;
+}
+
+function dayMatches(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) return dayOfMonth || dayOfWeek;
+  return dayOfMonth && dayOfWeek;
+}
+
+// Enough for any expression to find its next time within a few years
+const MAX_CRON_STEPS = 10000;
+
+/**
+ * First time strictly after `after` the expression matches, to the minute;
+ * null for expressions that never match (e.g. February 30th)
+ */
+export function nextCronTime(schedule: CronSchedule, after: Date): Date | null {
+  let date = new Date(after.getFullYear(), after.getMonth(), after.getDate(), after.getHours(), after.getMinutes() + 1);
+  for (let step = 0; step < MAX_CRON_STEPS; step++) {
+    const [year, month, day, hour] = [date.getFullYear(), date.getMonth(), date.getDate(), date.getHours()];
+    if (!schedule.months.has(month + 1)) {
+      date = new Date(year, month + 1, 1);
+    } else if (!dayMatches(schedule, date)) {
+      date = new Date(year, month, day + 1);
+    } else if (!schedule.hours.has(hour)) {
+      date = new Date(year, month, day, hour + 1);
+    } else if (!schedule.minutes.has(date.getMinutes())) {
+      date = new Date(year, month, day, hour, date.getMinutes() + 1);
+    } else {
+      return date;
+    }
+  }
+  return null;
+}
+
+// ─── Quiet hours ───────────────────────────────────────────────────────────────
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+function minutesOfDay(time: string): number | null {
+  const match = TIME_OF_DAY.exec(time);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+export function isQuietTime(date: Date, quietHours: QuietHours): boolean {
+  if (!quietHours.enabled) return false;
+  const start = minutesOfDay(quietHours.start);
+  const end = minutesOfDay(quietHours.end);
+  if (start === null || end === null || start === end) return false;
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+// ─── Next runs ─────────────────────────────────────────────────────────────────
+
+// Stops a cadence that only ever falls in quiet hours from searching forever
+const MAX_QUIET_SKIPS = 2000;
+
+/**
+ * The agent's next `count` runs after `after`, quiet hours skipped; fewer when
+ * the agent is disabled, its cadence invalid, or it never runs outside quiet hours
+ */
+export function nextRunTimes(
+  entry: AgentScheduleEntry,
+  quietHours: QuietHours,
+  after: Date = new Date(),
+  count: number = 1
+): Date[] {
+  if (!entry.enabled) return [];
+  let schedule: CronSchedule;
+  try {
+    schedule = parseCron(entry.cron);
+  } catch {
+    return [];
+  }
+  const times: Date[] = [];
+  let cursor = after;
+  for (let skips = 0; times.length < count && skips < MAX_QUIET_SKIPS;) {
+    const next = nextCronTime(schedule, cursor);
+    if (!next) break;
+    if (!entry.ignore_quiet_hours && isQuietTime(next, quietHours)) {
+      skips++;
+    } else {
+      times.push(next);
+    }
+    cursor = next;
+  }
+  return times;
+}
+
+export function nextRunTime(entry: AgentScheduleEntry, quietHours: QuietHours, after: Date = new Date()): Date | null {
+  return nextRunTimes(entry, quietHours, after, 1)[0] ?? null;
+}
+
+/**
+ * Problems that would stop the schedule from saving, in display order
+ */
+export function validateAutomationSchedule(schedule: AutomationScheduleInput): string[] {
+  const problems: string[] = [];
+  Object.entries(schedule.agents).forEach(([agent, entry]) => {
+    const problem = cronProblem(entry.cron);
+    if (problem) problems.push(`${agent}: ${problem}`);
+  });
+  const { enabled, start, end } = schedule.quiet_hours;
+  if (enabled) {
+    if (minutesOfDay(start) === null || minutesOfDay(end) === null) {
+      problems.push('Quiet hours need a start and end time as HH:MM.');
+    } else if (start === end) {
+      problems.push('Quiet hours must start and end at different times.');
+    }
+  }
+  return problems;
+}
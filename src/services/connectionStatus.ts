@@ -0,0 +1,176 @@
+/**
+ * Connection status for the dashboard's Firestore data.
+ *
+ * Live listeners report every snapshot's `metadata.fromCache` under their query key
+ * (the same keys as the shared subscriptions). From that and the browser's online
+ * state this derives whether the dashboard is online, offline, or online but still
+ * serving cached data, and when each query last came from the server. Sync times
+ * are kept in localStorage because the IndexedDB cache outlives the page.
+ */
+
+export type ConnectionState = 'online' | 'offline' | 'cached';
+
+export interface ConnectionStatus {
+  state: ConnectionState;
+  /** Oldest server sync among the queries currently served from cache */
+  cachedAsOf: Date | null;
+}
+
+export interface Freshness {
+  /** The latest snapshot came from the local cache rather than the server */
+  stale: boolean;
+  /** Last time this query's data came from the server, if ever */
+  syncedAt: Date | null;
+}
+
+export interface SnapshotTracker {
+  report(fromCache: boolean): void;
+  release(): void;
+}
+
+const SYNCED_AT_STORAGE_KEY = 'precepgo:firestore-synced-at';
+
+const FRESH: Freshness = { stale: false, syncedAt: null };
+
+// With persistence the first snapshot of most listeners comes from the cache and the
+// server's follows shortly after, so cached data only counts as stale after this long
+// (immediately when the browser is offline)
+const STALE_AFTER_MS = 3000;
+
+interface TrackedListener {
+  key: string;
+  /** When the listener started serving cached snapshots, null while it's in sync */
+  cachedSince: number | null;
+}
+
+function loadSyncTimes(): Map<string, Date> {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SYNCED_AT_STORAGE_KEY) ?? '{}') as Record<string, string>;
+    return new Map(Object.entries(stored).map(([key, value]) => [key, new Date(value)]));
+  } catch {
+    return new Map();
+  }
+}
+
+class ConnectionStatusStore {
+  private readonly listeners = new Map<number, TrackedListener>();
+  private readonly syncTimes = typeof window === 'undefined' ? new Map<string, Date>() : loadSyncTimes();
+  private readonly subscribers = new Set<() => void>();
+  private browserOnline = typeof navigator === 'undefined' ? true : navigator.onLine;
+  private nextId = 0;
+  private status: ConnectionStatus = { state: this.browserOnline ? 'online' : 'offline', cachedAsOf: null };
+  private freshness = new Map<string, Freshness>();
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => this.setBrowserOnline(true));
+      window.addEventListener('offline', () => this.setBrowserOnline(false));
+    }
+  }
+
+  /**
+   * Start tracking a listener for `key`; call report() with every snapshot
+   * and release() when the listener is removed
+   */
+  track(key: string): SnapshotTracker {
+    const id = this.nextId++;
+    this.listeners.set(id, { key, cachedSince: null });
+    return {
+      report: (fromCache) => {
+        const listener = this.listeners.get(id);
+        if (!listener) return;
+        if (!fromCache) {
+          listener.cachedSince = null;
+          this.recordSync(key);
+        } else if (listener.cachedSince === null) {
+          listener.cachedSince = Date.now();
+          setTimeout(() => this.update(), STALE_AFTER_MS);
+        }
+        this.update();
+      },
+      release: () => {
+        if (this.listeners.delete(id)) this.update();
+      },
+    };
+  }
+
+  getStatus(): ConnectionStatus {
+    return this.status;
+  }
+
+  getFreshness(key: string): Freshness {
+    return this.freshness.get(key) ?? FRESH;
+  }
+
+  /**
+   * Notified whenever the status or any query's freshness changes
+   */
+  subscribe(callback: () => void): () => void {
+    this.subscribers.add(callback);
+    return () => {
+      this.subscribers.delete(callback);
+    };
+  }
+
+  private setBrowserOnline(online: boolean) {
+    console.log(`[Connection] ${online ? '🟢 Browser back online' : '🔴 Browser went offline'}`);
+    this.browserOnline = online;
+    this.update();
+  }
+
+  private recordSync(key: string) {
+    this.syncTimes.set(key, new Date());
+    try {
+      const stored = Object.fromEntries([...this.syncTimes].map(([syncedKey, date]) => [syncedKey, date.toISOString()]));
+      localStorage.setItem(SYNCED_AT_STORAGE_KEY, JSON.stringify(stored));
+    } catch {
+      // Storage full or disabled: sync times then only last for this page
+    }
+  }
+
+  // Recompute the derived status and per-key freshness, notifying only on changes
+  private update() {
+    const freshness = new Map<string, Freshness>();
+    const now = Date.now();
+    for (const { key, cachedSince } of this.listeners.values()) {
+      const servingCache = cachedSince !== null && (!this.browserOnline || now - cachedSince >= STALE_AFTER_MS);
+      // Stale when any listener for the key is serving cache
+      const stale = servingCache || (freshness.get(key)?.stale ?? false);
+      freshness.set(key, { stale, syncedAt: this.syncTimes.get(key) ?? null });
+    }
+
+    const staleSyncTimes = [...freshness.values()]
+      .filter(entry => entry.stale)
+      .map(entry => entry.syncedAt?.getTime() ?? 0);
+    const cachedAsOf = staleSyncTimes.length > 0 && Math.min(...staleSyncTimes) > 0
+      ? new Date(Math.min(...staleSyncTimes))
+      : null;
+    const state: ConnectionState = !this.browserOnline ? 'offline' : staleSyncTimes.length > 0 ? 'cached' : 'online';
+
+    const statusChanged = state !== this.status.state || cachedAsOf?.getTime() !== this.status.cachedAsOf?.getTime();
+    const freshnessChanged = [...new Set([...freshness.keys(), ...this.freshness.keys()])].some((key) => {
+      const next = freshness.get(key);
+      const previous = this.freshness.get(key);
+      return next?.stale !== previous?.stale || next?.syncedAt?.getTime() !== previous?.syncedAt?.getTime();
+    });
+    if (!statusChanged && !freshnessChanged) return;
+
+    // Replaced only on change, so React can compare snapshots by reference
+    if (statusChanged) this.status = { state, cachedAsOf };
+    if (freshnessChanged) this.freshness = freshness;
+    this.subscribers.forEach(callback => callback());
+  }
+}
+
+export const connectionStatus = new ConnectionStatusStore();
+
+/**
+ * Freshness of a view built from several queries: stale if any of them is, as of
+ * the oldest sync among the stale ones
+ */
+export function combineFreshness(...items: Freshness[]): Freshness {
+  const stale = items.filter(item => item.stale);
+  if (stale.length === 0) return FRESH;
+  const syncTimes = stale.map(item => item.syncedAt?.getTime() ?? 0);
+  return { stale: true, syncedAt: Math.min(...syncTimes) > 0 ? new Date(Math.min(...syncTimes)) : null };
+}
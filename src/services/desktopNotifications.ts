@@ -0,0 +1,185 @@
+import { syncPushSubscription } from './pushMessaging';
+
+/**
+ * Opt-in desktop notifications for safety alerts and finished reports.
+ *
+ * While a dashboard tab is open (even in the background) its Firestore listeners
+ * raise these through the service worker (public/sw.js); with
+ * VITE_FIREBASE_VAPID_KEY set the browser is also registered for push messages,
+ * so a backend can notify users who have closed the dashboard. Which categories
+ * a user wants is kept per user and browser. Each notification carries a deep
+ * link (see utils/deepLink) that opens the evaluation or report it is about.
+ */
+
+export type DesktopCategory = 'safety_alerts' | 'report_ready';
+
+export const DESKTOP_CATEGORIES: Record<DesktopCategory, string> = {
+  safety_alerts: 'New safety alerts',
+  report_ready: 'COA and site reports ready',
+};
+
+export type DesktopPermission = NotificationPermission | 'unsupported';
+
+export interface DesktopNotificationState {
+  permission: DesktopPermission;
+  enabled: DesktopCategory[];
+}
+
+export interface DesktopNotificationOptions {
+  category: DesktopCategory;
+  title: string;
+  body: string;
+  /** Notifications with the same tag replace each other, so several open tabs show one */
+  tag: string;
+  /** Deep link opened on click */
+  url: string;
+}
+
+export const SERVICE_WORKER_URL = '/sw.js';
+
+const STORAGE_PREFIX = 'precepgo:desktop-notifications:';
+const NAVIGATE_MESSAGE = 'precepgo:navigate';
+
+export function desktopNotificationsSupported(): boolean {
+  return typeof window !== 'undefined' && 'Notification' in window && 'serviceWorker' in navigator;
+}
+
+function currentPermission(): DesktopPermission {
+  return desktopNotificationsSupported() ? Notification.permission : 'unsupported';
+}
+
+/**
+ * Register public/sw.js; desktop notifications fall back to the page's own
+ * Notification objects when this fails
+ */
+export async function registerServiceWorker(): Promise<void> {
+  if (!desktopNotificationsSupported()) return;
+  try {
+    await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  } catch (error) {
+    console.warn('[Notifications] ⚠️ Service worker registration failed:', error);
+  }
+}
+
+/**
+ * Call `navigate` with the deep link of every clicked notification (from the
+ * service worker, or from the page when it showed the notification itself)
+ */
+export function onNotificationNavigate(navigate: (url: string) => void): () => void {
+  if (typeof window === 'undefined') return () => {};
+  const handleMessage = (event: MessageEvent) => {
+    const data = event.data as { type?: string; url?: string } | null;
+    if (data?.type === NAVIGATE_MESSAGE && data.url) navigate(data.url);
+  };
+  const handleWindowEvent = (event: Event) => navigate((event as CustomEvent<string>).detail);
+  navigator.serviceWorker?.addEventListener('message', handleMessage);
+  window.addEventListener(NAVIGATE_MESSAGE, handleWindowEvent);
+  return () => {
+    navigator.serviceWorker?.removeEventListener('message', handleMessage);
+    window.removeEventListener(NAVIGATE_MESSAGE, handleWindowEvent);
+  };
+}
+
+function loadEnabled(userId: string | null): DesktopCategory[] {
+  if (!userId) return [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_PREFIX + userId) ?? '[]') as unknown;
+    return Array.isArray(stored) ? stored.filter((category): category is DesktopCategory => category in DESKTOP_CATEGORIES) : [];
+  } catch {
+    return [];
+  }
+}
+
+class DesktopNotificationStore {
+  private userId: string | null = null;
+  private enabled: DesktopCategory[] = [];
+  private readonly subscribers = new Set<() => void>();
+  private state: DesktopNotificationState = { permission: currentPermission(), enabled: [] };
+
+  setUser(userId: string | null) {
+    if (userId === this.userId) return;
+    this.userId = userId;
+    this.enabled = loadEnabled(userId);
+    this.publish();
+  }
+
+  /**
+   * Turn a category on or off for this user, asking for the browser permission
+   * the first time one is turned on
+   */
+  async setEnabled(category: DesktopCategory, enabled: boolean): Promise<void> {
+    if (enabled && currentPermission() === 'default') {
+      await Notification.requestPermission();
+    }
+    if (enabled && currentPermission() !== 'granted') {
+      this.publish();
+      return;
+    }
+    this.enabled = enabled
+      ? [...new Set([...this.enabled, category])]
+      : this.enabled.filter(item => item !== category);
+    if (this.userId) {
+      try {
+        localStorage.setItem(STORAGE_PREFIX + this.userId, JSON.stringify(this.enabled));
+      } catch {
+        // Storage disabled: the preference then only lasts for this page
+      }
+      // Push preferences live with the push token, so the backend knows what to send
+      syncPushSubscription(this.userId, this.enabled).catch(error => {
+        console.warn('[Notifications] ⚠️ Could not update push subscription:', error);
+      });
+    }
+    this.publish();
+  }
+
+  /**
+   * Show a desktop notification if the user enabled its category; skipped while
+   * this tab is focused, where the in-app toasts already cover it. Never rejects:
+   * callers fire it from snapshot effects without waiting.
+   */
+  async show(options: DesktopNotificationOptions): Promise<void> {
+    if (currentPermission() !== 'granted' || !this.enabled.includes(options.category)) return;
+    if (document.visibilityState === 'visible' && document.hasFocus()) return;
+
+    try {
+      const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+      if (registration) {
+        await registration.showNotification(options.title, {
+          body: options.body,
+          tag: options.tag,
+          icon: '/logo192.png',
+          badge: '/logo192.png',
+          data: { url: options.url, category: options.category },
+        });
+        return;
+      }
+      // Throws where notifications need a service worker (e.g. Chrome on Android)
+      const notification = new Notification(options.title, { body: options.body, tag: options.tag, icon: '/logo192.png' });
+      notification.onclick = () => {
+        window.focus();
+        window.dispatchEvent(new CustomEvent(NAVIGATE_MESSAGE, { detail: options.url }));
+        notification.close();
+      };
+    } catch (error) {
+      console.warn('[Notifications] ⚠️ Could not show desktop notification:', error);
+    }
+  }
+
+  getState(): DesktopNotificationState {
+    return this.state;
+  }
+
+  subscribe(callback: () => void): () => void {
+    this.subscribers.add(callback);
+    return () => {
+      this.subscribers.delete(callback);
+    };
+  }
+
+  private publish() {
+    this.state = { permission: currentPermission(), enabled: this.enabled };
+    this.subscribers.forEach(callback => callback());
+  }
+}
+
+export const desktopNotifications = new DesktopNotificationStore();
@@ -0,0 +1,283 @@
+import type { FirestoreDocument } from './firestore';
+import type {
+  EscalationCondition,
+  EscalationRuleDoc,
+  NotificationDoc,
+  NotificationSeverity,
+} from './firestoreSchemas';
+import { SEVERITY_RANK } from './notificationWorkflow';
+
+/**
+ * Safety escalation rules: admin-defined conditions over notifications (specific
+ * dangerous ratings, repeat flags for a student, case types) with actions that
+ * raise severity, pin to the top of the inbox, or set an acknowledgement deadline.
+ *
+ * Rules are stored in `safety_escalation_rules` and evaluated in the browser
+ * against the notification snapshots a view already has, so "repeat flags" only
+ * see the notifications loaded alongside the one being checked.
+ */
+
+/**
+ * Input for saving a rule; timestamps and author are stamped by FirestoreService
+ */
+export type EscalationRuleInput = Pick<EscalationRuleDoc, 'name' | 'enabled' | 'match' | 'conditions' | 'actions'>;
+
+/**
+ * Combined effect of every rule matching one notification
+ */
+export interface Escalation {
+  /** Severity after escalation; at least the notification's own */
+  severity: NotificationSeverity;
+  /** The notification's own severity, when a rule raised it */
+  raisedFrom: NotificationSeverity | null;
+  pinned: boolean;
+  /** Earliest acknowledgement deadline among the matching rules */
+  acknowledgeBy: Date | null;
+  /** Names of the matching rules */
+  rules: string[];
+}
+
+/**
+ * The rule can't be saved as it stands
+ */
+export class EscalationRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EscalationRuleError';
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+export const CONDITION_LABELS: Record<EscalationCondition['type'], string> = {
+  negative_fields: 'Dangerous rating on',
+  repeat_student: 'Student flagged repeatedly',
+  case_type: 'Case type is',
+};
+
+export function emptyEscalationRule(): EscalationRuleInput {
+  return {
+    name: '',
+    enabled: true,
+    match: 'all',
+    conditions: [],
+    actions: { raise_severity: null, pin: false, acknowledge_within_hours: null },
+  };
+}
+
+export function defaultCondition(type: EscalationCondition['type']): EscalationCondition {
+  switch (type) {
+    case 'negative_fields':
+      return { type, fields: [] };
+    case 'repeat_student':
+      return { type, count: 2, within_days: 30 };
+    case 'case_type':
+      return { type, case_types: [] };
+  }
+}
+
+/**
+ * Problems that would stop the rule from saving, in display order
+ */
+export function validateEscalationRule(rule: EscalationRuleInput): string[] {
+  const problems: string[] = [];
+  if (!rule.name.trim()) problems.push('Give the rule a name.');
+  if (rule.conditions.length === 0) problems.push('Add at least one condition.');
+  rule.conditions.forEach((condition, index) => {
+    const position = `Condition ${index + 1}`;
+    if (condition.type === 'negative_fields' && condition.fields.length === 0) {
+      problems.push(`${position}: list at least one rating field (e.g. pc_3).`);
+    }
+    if (condition.type === 'case_type' && condition.case_types.length === 0) {
+      problems.push(`${position}: list at least one case type.`);
+    }
+    if (condition.type === 'repeat_student') {
+      if (!Number.isInteger(condition.count) || condition.count < 2) {
+        problems.push(`${position}: repeat flags need a count of 2 or more.`);
+      }
+      if (!(condition.within_days > 0)) problems.push(`${position}: the window must be at least one day.`);
+    }
+  });
+  const { raise_severity, pin, acknowledge_within_hours } = rule.actions;
+  if (!raise_severity && !pin && acknowledge_within_hours === null) {
+    problems.push('Choose at least one action.');
+  }
+  if (acknowledge_within_hours !== null && !(acknowledge_within_hours > 0)) {
+    problems.push('The acknowledgement deadline must be a positive number of hours.');
+  }
+  return problems;
+}
+
+// Same student across notifications; names are the only identifier the agent stores
+function studentKey(notification: NotificationDoc): string | null {
+  return notification.preceptee_name?.trim().toLowerCase() || null;
+}
+
+/**
+ * Arrival times of each student's notifications, oldest first
+ */
+function flagTimesByStudent(notifications: FirestoreDocument<NotificationDoc>[]): Map<string, number[]> {
+  const times = new Map<string, number[]>();
+  notifications.forEach(({ data, createdAt }) => {
+    const key = studentKey(data);
+    if (!key || !createdAt) return;
+    times.set(key, [...(times.get(key) ?? []), createdAt.getTime()]);
+  });
+  times.forEach(list => list.sort((a, b) => a - b));
+  return times;
+}
+
+function conditionMatches(
+  condition: EscalationCondition,
+  notification: FirestoreDocument<NotificationDoc>,
+  flagTimes: Map<string, number[]>
+): boolean {
+  const { data, createdAt } = notification;
+  switch (condition.type) {
+    case 'negative_fields':
+      return condition.fields.some(field => data.negative_fields.includes(field));
+    case 'case_type': {
+      const caseType = data.case_type?.trim().toLowerCase();
+      return !!caseType && condition.case_types.some(type => type.trim().toLowerCase() === caseType);
+    }
+    case 'repeat_student': {
+      const key = studentKey(data);
+      if (!key || !createdAt) return false;
+      // Flags in the window ending at this notification, itself included
+      const end = createdAt.getTime();
+      const start = end - condition.within_days * DAY_MS;
+      const flags = (flagTimes.get(key) ?? []).filter(time => time >= start && time <= end).length;
+      return flags >= condition.count;
+    }
+  }
+}
+
+function ruleMatches(
+  rule: EscalationRuleDoc | EscalationRuleInput,
+  notification: FirestoreDocument<NotificationDoc>,
+  flagTimes: Map<string, number[]>
+): boolean {
+  if (rule.conditions.length === 0) return false;
+  const matches = (condition: EscalationCondition) => conditionMatches(condition, notification, flagTimes);
+  return rule.match === 'any' ? rule.conditions.some(matches) : rule.conditions.every(matches);
+}
+
+/**
+ * Escalations for every notification matched by an enabled rule, by notification id.
+ * `notifications` doubles as the history for repeat-flag conditions.
+ */
+export function evaluateEscalations(
+  notifications: FirestoreDocument<NotificationDoc>[],
+  rules: { data: EscalationRuleDoc | EscalationRuleInput }[]
+): Map<string, Escalation> {
+  const escalations = new Map<string, Escalation>();
+  const enabled = rules.filter(rule => rule.data.enabled);
+  if (enabled.length === 0) return escalations;
+  const flagTimes = flagTimesByStudent(notifications);
+
+  notifications.forEach(notification => {
+    const matching = enabled.filter(rule => ruleMatches(rule.data, notification, flagTimes));
+    if (matching.length === 0) return;
+
+    const own = notification.data.severity;
+    let severity = own;
+    let acknowledgeBy: Date | null = null;
+    matching.forEach(({ data: { actions } }) => {
+      if (actions.raise_severity && SEVERITY_RANK[actions.raise_severity] < SEVERITY_RANK[severity]) {
+        severity = actions.raise_severity;
+      }
+      if (actions.acknowledge_within_hours !== null && notification.createdAt) {
+        const deadline = new Date(notification.createdAt.getTime() + actions.acknowledge_within_hours * HOUR_MS);
+        if (!acknowledgeBy || deadline < acknowledgeBy) acknowledgeBy = deadline;
+      }
+    });
+
+    escalations.set(notification.id, {
+      severity,
+      raisedFrom: severity !== own ? own : null,
+      pinned: matching.some(rule => rule.data.actions.pin),
+      acknowledgeBy,
+      rules: matching.map(rule => rule.data.name),
+    });
+  });
+  return escalations;
+}
+
+/**
+ * Notifications with their escalated severity, for views that sort and filter on it
+ */
+export function applyEscalations(
+  notifications: FirestoreDocument<NotificationDoc>[],
+  escalations: Map<string, Escalation>
+): FirestoreDocument<NotificationDoc>[] {
+  return notifications.map(notification => {
+    const escalation = escalations.get(notification.id);
+    return escalation?.raisedFrom
+      ? { ...notification, data: { ...notification.data, severity: escalation.severity } }
+      : notification;
+  });
+}
+
+/**
+ * Still waiting for acknowledgement after the escalation deadline
+ */
+export function isAcknowledgementOverdue(
+  notification: NotificationDoc,
+  escalation: Escalation | undefined,
+  now: Date = new Date()
+): boolean {
+  return notification.status === 'open' && !!escalation?.acknowledgeBy && escalation.acknowledgeBy < now;
+}
+
+export interface EscalationPreview {
+  /** Matching notifications, newest first, with what the rule alone would do to them */
+  matches: { notification: FirestoreDocument<NotificationDoc>; escalation: Escalation }[];
+  /** How many matches the rule would raise in severity */
+  raised: number;
+  /** How many matches would already be past the acknowledgement deadline */
+  overdue: number;
+}
+
+/**
+ * Dry run of a rule (saved or draft, enabled or not) against past notifications
+ */
+export function previewEscalationRule(
+  rule: EscalationRuleInput,
+  history: FirestoreDocument<NotificationDoc>[],
+  now: Date = new Date()
+): EscalationPreview {
+  const escalations = evaluateEscalations(history, [{ data: { ...rule, enabled: true } }]);
+  const matches = history
+    .filter(notification => escalations.has(notification.id))
+    .map(notification => ({ notification, escalation: escalations.get(notification.id)! }));
+  return {
+    matches,
+    raised: matches.filter(({ escalation }) => escalation.raisedFrom).length,
+    overdue: matches.filter(({ notification, escalation }) => isAcknowledgementOverdue(notification.data, escalation, now)).length,
+  };
+}
+
+/**
+ * One-line description of a rule for lists, e.g.
+ * "Dangerous rating on pc_3 and Case type is Cardiac → raise to critical, pin"
+ */
+export function describeEscalationRule(rule: EscalationRuleInput): string {
+  const conditions = rule.conditions.map(condition => {
+    switch (condition.type) {
+      case 'negative_fields':
+        return `${CONDITION_LABELS.negative_fields} ${condition.fields.join('/') || '…'}`;
+      case 'case_type':
+        return `${CONDITION_LABELS.case_type} ${condition.case_types.join('/') || '…'}`;
+      case 'repeat_student':
+        return `Student flagged ${condition.count}+ times in ${condition.within_days} days`;
+    }
+  });
+  const { raise_severity, pin, acknowledge_within_hours } = rule.actions;
+  const actions = [
+    raise_severity ? `raise to ${raise_severity}` : null,
+    pin ? 'pin' : null,
+    acknowledge_within_hours !== null ? `acknowledge within ${acknowledge_within_hours}h` : null,
+  ].filter(Boolean);
+  return `${conditions.join(rule.match === 'any' ? ' or ' : ' and ') || 'No conditions'} → ${actions.join(', ') || 'no action'}`;
+}
@@ -0,0 +1,86 @@
+/**
+ * Incremental parsers for streamed HTTP responses.
+ *
+ * Both yield the raw `data` payload of each message, so the caller can validate
+ * it the same way regardless of whether the backend streams Server-Sent Events
+ * (`text/event-stream`) or newline-delimited JSON (`application/x-ndjson`).
+ */
+
+export interface StreamMessage {
+  event: string;
+  data: string;
+  id?: string;
+}
+
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline = buffer.search(/\r?\n/);
+      while (newline !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(buffer[newline] === '\r' ? newline + 2 : newline + 1);
+        yield line;
+        newline = buffer.search(/\r?\n/);
+      }
+    }
+    buffer += decoder.decode();
+    if (buffer) yield buffer;
+  } finally {
+    // Closes the connection when the consumer stops early (e.g. on a terminal event)
+    reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Parse a `text/event-stream` body (https://html.spec.whatwg.org/multipage/server-sent-events.html)
+ */
+export async function* parseEventStream(body: ReadableStream<Uint8Array>): AsyncGenerator<StreamMessage> {
+  let event = 'message';
+  let data: string[] = [];
+  let id: string | undefined;
+
+  for await (const line of readLines(body)) {
+    if (line === '') {
+      // Blank line dispatches the buffered message
+      if (data.length > 0) {
+        yield { event, data: data.join('\n'), id };
+      }
+      event = 'message';
+      data = [];
+      continue;
+    }
+    if (line.startsWith(':')) continue; // Comment / keep-alive
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    if (field === 'event') event = value;
+    else if (field === 'data') data.push(value);
+    else if (field === 'id') id = value;
+  }
+
+  if (data.length > 0) {
+    yield { event, data: data.join('\n'), id };
+  }
+}
+
+/**
+ * Parse a newline-delimited JSON body; every non-empty line is one message
+ */
+export async function* parseNdjsonStream(body: ReadableStream<Uint8Array>): AsyncGenerator<StreamMessage> {
+  for await (const line of readLines(body)) {
+    if (line.trim()) {
+      yield { event: 'message', data: line };
+    }
+  }
+}
@@ -5,22 +5,110 @@ import {
   orderBy, 
   limit,
   where,
+  startAfter,
+  documentId,
   Timestamp,
   onSnapshot,
   QuerySnapshot,
   doc,
-  DocumentSnapshot,
+  getDoc,
+  runTransaction,
+  serverTimestamp,
+  addDoc,
+  setDoc,
+  deleteDoc,
+  type QueryConstraint,
 } from 'firebase/firestore';
 import { db } from '../config/firebase';
+import { isMockMode } from '../config/dataMode';
+import { mockFirestoreService } from '../mocks/mockFirestore';
+import { collectionQueryKey, documentKey, sharedSubscriptions } from './subscriptionRegistry';
+import { connectionStatus } from './connectionStatus';
+import {
+  NotificationActionError,
+  notificationAuditPath,
+  planNotificationAction,
+  type NotificationAction,
+} from './notificationWorkflow';
+import {
+  EscalationRuleError,
+  validateEscalationRule,
+  type EscalationRuleInput,
+} from './escalationRules';
+import type { RunEnd, RunStart } from './runHistory';
+import { agentOutputCollection } from './agentRegistry';
+import {
+  AUTOMATION_SCHEDULE_COLLECTION,
+  AUTOMATION_SCHEDULE_DOCUMENT,
+  AutomationScheduleError,
+  validateAutomationSchedule,
+  type AutomationScheduleInput,
+} from './automationSchedule';
+import {
+  describeIndex,
+  queryKey,
+  requiredIndexes,
+  type CollectionQuery,
+  type QueryableCollection,
+} from './queryBuilder';
+import {
+  collectionConverters,
+  normalizeNotificationAuditEntry,
+  toDate,
+  type AgentStatesDoc,
+  type COAReportDoc,
+  type CollectionDocTypes,
+  type EvaluationDoc,
+  type NotificationAuditEntry,
+  type NotificationDoc,
+  type NotificationPerson,
+  type ScenarioDoc,
+  type SiteReportDoc,
+  type TypedCollection,
+} from './firestoreSchemas';
 
-export interface FirestoreDocument {
+export interface FirestoreDocument<T = Record<string, any>> {
   id: string;
-  data: Record<string, any>;
+  data: T;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
-export class FirestoreService {
+/**
+ * Position after the last document of a page. Pages are ordered by created_at
+ * (newest first) with the document id as a tie-breaker, so the cursor is just
+ * those two values and can be reused across listeners and reloads.
+ */
+export interface PageCursor {
+  created_at: Date;
+  id: string;
+}
+
+export interface DocumentPage<T> {
+  documents: FirestoreDocument<T>[];
+  /** Pass to getPage for the next (older) page; null when there is nothing after this page */
+  cursor: PageCursor | null;
+  hasMore: boolean;
+}
+
+/**
+ * Cursor after the last document, or null when the list is empty or the last
+ * document has no creation date to order by
+ */
+export function pageCursorAfter(documents: FirestoreDocument<unknown>[]): PageCursor | null {
+  const last = documents[documents.length - 1];
+  return last?.createdAt ? { created_at: last.createdAt, id: last.id } : null;
+}
+
+export interface TypedListenOptions {
+  limitCount?: number;
+  /** Only documents created at or after this date */
+  since?: Date;
+  /** Order by created_at on the server (excludes documents without the field) */
+  orderByCreatedAt?: boolean;
+}
+
+class LiveFirestoreService {
   /**
    * Get all documents from a collection
    */
@@ -94,15 +182,8 @@ export class FirestoreService {
    */
   static async getDocumentsByAgent(agentType: string, limitCount: number = 50) {
     try {
-      // Map agent types to collection names (with agent_ prefix)
-      const collectionMap: Record<string, string> = {
-        evaluation_agent: 'agent_evaluations',
-        scenario_agent: 'agent_scenarios',
-        notification_agent: 'agent_notifications',
-        coa_agent: 'agent_coa_reports',
-      };
-
-      const collectionName = collectionMap[agentType] || agentType;
+      // Agents read from the collection they write to (see agentRegistry)
+      const collectionName = agentOutputCollection(agentType) ?? agentType;
       return this.getCollection(collectionName, limitCount);
     } catch (error) {
       console.error(`Error fetching documents for ${agentType}:`, error);
@@ -176,6 +257,28 @@ export class FirestoreService {
     return documents;
   }
 
+  private static typedDocument<T extends object>(id: string, data: T): FirestoreDocument<T> {
+    const fields = data as Record<string, unknown>;
+    return {
+      id,
+      data,
+      createdAt: toDate(fields.created_at),
+      updatedAt: toDate(fields.modified_at ?? fields.updated_at),
+    };
+  }
+
+  /**
+   * Wrap converted documents as FirestoreDocuments, newest first
+   */
+  private static typedSnapshotToDocuments<T extends object>(querySnapshot: QuerySnapshot<T>): FirestoreDocument<T>[] {
+    const documents = querySnapshot.docs.map((snapshot) => this.typedDocument(snapshot.id, snapshot.data()));
+
+    // Documents without a creation date go last
+    documents.sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+
+    return documents;
+  }
+
   /**
    * Listen to collection changes in real-time
    * Returns an unsubscribe function to clean up the listener
@@ -226,44 +329,48 @@ export class FirestoreService {
   }
 
   /**
-   * Listen to recent evaluations
+   * Listen to one of the agent collections through its typed converter (see
+   * firestoreSchemas), so callbacks receive normalised documents, newest first
    */
-  static listenToEvaluations(
-    callback: (documents: FirestoreDocument[]) => void,
+  static listenToTypedCollection<K extends TypedCollection>(
+    collectionName: K,
+    callback: (documents: FirestoreDocument<CollectionDocTypes[K]>[]) => void,
     onError?: (error: Error) => void,
-    limitCount: number = 20
-  ): () => void {
-    return this.listenToCollection('agent_evaluations', callback, onError, limitCount);
-  }
-
-  /**
-   * Listen to recent scenarios - ordered by creation date (newest first)
-   */
-  static listenToScenarios(
-    callback: (documents: FirestoreDocument[]) => void,
-    onError?: (error: Error) => void,
-    limitCount: number = 10
+    options: TypedListenOptions = {}
   ): () => void {
+    const { limitCount, since, orderByCreatedAt } = options;
+    const label = since ? `${collectionName} since ${since.toISOString()}` : collectionName;
     try {
-      console.log(`[Firestore] 🎧 Setting up listener for latest ${limitCount} scenarios`);
-      
+      console.log(`[Firestore] 🎧 Setting up typed listener for ${label}`);
+
+      const constraints: QueryConstraint[] = [];
+      if (since) constraints.push(where('created_at', '>=', Timestamp.fromDate(since)));
+      if (since || orderByCreatedAt) constraints.push(orderBy('created_at', 'desc'), orderBy(documentId(), 'desc'));
+      if (limitCount !== undefined) constraints.push(limit(limitCount));
+
       const q = query(
-        collection(db, 'agent_scenarios'),
-        orderBy('created_at', 'desc'),
-        limit(limitCount)
+        collection(db, collectionName).withConverter(collectionConverters[collectionName]),
+        ...constraints
       );
-      
+
+      const tracker = connectionStatus.track(collectionQueryKey(collectionName, options));
+      let delivered = false;
       const unsubscribe = onSnapshot(
         q,
+        { includeMetadataChanges: true },
         (querySnapshot) => {
-          console.log(`[Firestore] 📊 Snapshot update for scenarios: ${querySnapshot.size} documents`);
-          const documents = this.snapshotToDocuments(querySnapshot);
-          callback(documents);
+          tracker.report(querySnapshot.metadata.fromCache);
+          // Metadata-only snapshots (e.g. the server confirming the cache) only change freshness
+          if (delivered && querySnapshot.docChanges().length === 0) return;
+          delivered = true;
+          console.log(`[Firestore] 📊 Snapshot update for ${label}: ${querySnapshot.size} documents (fromCache: ${querySnapshot.metadata.fromCache})`);
+          callback(this.typedSnapshotToDocuments(querySnapshot));
         },
         (error) => {
-          console.error(`[Firestore] ❌ ERROR in listener for scenarios:`, error);
+          tracker.release();
+          console.error(`[Firestore] ❌ ERROR in listener for ${label}:`, error);
           if (error.code === 'permission-denied') {
-            const errorMsg = `Permission denied: Check Firestore security rules for collection 'agent_scenarios'. See FIRESTORE_RULES_FIX.md for instructions.`;
+            const errorMsg = `Permission denied: Check Firestore security rules for collection '${collectionName}'. See FIRESTORE_RULES_FIX.md for instructions.`;
             if (onError) {
               onError(new Error(errorMsg));
             }
@@ -272,48 +379,119 @@ export class FirestoreService {
           }
         }
       );
-      
-      return unsubscribe;
-    } catch (error: any) {
-      console.error(`[Firestore] ❌ ERROR setting up listener for scenarios:`, error);
+      return () => {
+        unsubscribe();
+        tracker.release();
+      };
+    } catch (error) {
+      console.error(`[Firestore] ❌ ERROR setting up listener for ${label}:`, error);
       if (onError) {
-        onError(error);
+        onError(error instanceof Error ? error : new Error(String(error)));
       }
       return () => {};
     }
   }
 
+  /**
+   * One page of a typed collection, newest first, starting after `after`
+   * (or at the newest document). Documents without created_at are not paged.
+   */
+  static async getPage<K extends TypedCollection>(
+    collectionName: K,
+    pageSize: number,
+    after?: PageCursor | null
+  ): Promise<DocumentPage<CollectionDocTypes[K]>> {
+    try {
+      console.log(`[Firestore] 📄 Fetching ${pageSize} ${collectionName} after ${after ? `${after.created_at.toISOString()} / ${after.id}` : 'the start'}`);
+
+      // Agents write microsecond timestamps, which a Date cursor would round, so start
+      // after the cursor document itself while it still exists
+      let cursorConstraints: QueryConstraint[] = [];
+      if (after) {
+        const cursorSnapshot = await getDoc(doc(db, collectionName, after.id));
+        cursorConstraints = [
+          cursorSnapshot.exists()
+            ? startAfter(cursorSnapshot)
+            : startAfter(Timestamp.fromDate(after.created_at), after.id),
+        ];
+      }
+
+      const q = query(
+        collection(db, collectionName).withConverter(collectionConverters[collectionName]),
+        orderBy('created_at', 'desc'),
+        orderBy(documentId(), 'desc'),
+        ...cursorConstraints,
+        // One extra document tells us whether there is another page
+        limit(pageSize + 1)
+      );
+      const querySnapshot = await getDocs(q);
+      const documents = this.typedSnapshotToDocuments(querySnapshot);
+      const hasMore = documents.length > pageSize;
+      const page = hasMore ? documents.slice(0, pageSize) : documents;
+
+      return { documents: page, cursor: hasMore ? pageCursorAfter(page) : null, hasMore };
+    } catch (error) {
+      console.error(`[Firestore] ❌ ERROR fetching page of ${collectionName}:`, error);
+      if ((error as { code?: string }).code === 'permission-denied') {
+        throw new Error(`Permission denied: Check Firestore security rules for collection '${collectionName}'. See FIRESTORE_RULES_FIX.md for instructions.`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Listen to recent evaluations
+   */
+  static listenToEvaluations(
+    callback: (documents: FirestoreDocument<EvaluationDoc>[]) => void,
+    onError?: (error: Error) => void,
+    limitCount: number = 20
+  ): () => void {
+    return this.listenToTypedCollection('agent_evaluations', callback, onError, { limitCount });
+  }
+
+  /**
+   * Listen to recent scenarios - ordered by creation date (newest first)
+   */
+  static listenToScenarios(
+    callback: (documents: FirestoreDocument<ScenarioDoc>[]) => void,
+    onError?: (error: Error) => void,
+    limitCount: number = 10
+  ): () => void {
+    return this.listenToTypedCollection('agent_scenarios', callback, onError, { limitCount, orderByCreatedAt: true });
+  }
+
   /**
    * Listen to recent notifications
    */
   static listenToNotifications(
-    callback: (documents: FirestoreDocument[]) => void,
+    callback: (documents: FirestoreDocument<NotificationDoc>[]) => void,
     onError?: (error: Error) => void,
     limitCount: number = 20
   ): () => void {
-    return this.listenToCollection('agent_notifications', callback, onError, limitCount);
+    return this.listenToTypedCollection('agent_notifications', callback, onError, { limitCount });
   }
 
   /**
    * Listen to recent COA reports
    */
   static listenToCOAReports(
-    callback: (documents: FirestoreDocument[]) => void,
+    callback: (documents: FirestoreDocument<COAReportDoc>[]) => void,
     onError?: (error: Error) => void,
     limitCount: number = 20
   ): () => void {
-    return this.listenToCollection('agent_coa_reports', callback, onError, limitCount);
+    return this.listenToTypedCollection('agent_coa_reports', callback, onError, { limitCount });
   }
 
   /**
    * Listen to recent site reports
    */
   static listenToSiteReports(
-    callback: (documents: FirestoreDocument[]) => void,
+    callback: (documents: FirestoreDocument<SiteReportDoc>[]) => void,
     onError?: (error: Error) => void,
     limitCount: number = 20
   ): () => void {
-    return this.listenToCollection('agent_sites', callback, onError, limitCount);
+    return this.listenToTypedCollection('agent_sites', callback, onError, { limitCount });
   }
 
   /**
@@ -322,80 +500,161 @@ export class FirestoreService {
    */
   static listenToEvaluationsSince(
     sinceDate: Date,
-    callback: (documents: FirestoreDocument[]) => void,
+    callback: (documents: FirestoreDocument<EvaluationDoc>[]) => void,
     onError?: (error: Error) => void
   ): () => void {
+    return this.listenToTypedCollection('agent_evaluations', callback, onError, { since: sinceDate });
+  }
+
+  /**
+   * Listen to notifications created after a specific date
+   */
+  static listenToNotificationsSince(
+    sinceDate: Date,
+    callback: (documents: FirestoreDocument<NotificationDoc>[]) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return this.listenToTypedCollection('agent_notifications', callback, onError, { since: sinceDate });
+  }
+
+  /**
+   * Firestore constraints for a built query (see queryBuilder): its filters, then
+   * newest first by the query's date field with the document id as tie-breaker
+   */
+  private static queryConstraints<K extends QueryableCollection>(filterQuery: CollectionQuery<K>): QueryConstraint[] {
+    const constraints: QueryConstraint[] = filterQuery.filters.map(({ field, op, value }) =>
+      where(field, op, value instanceof Date ? Timestamp.fromDate(value) : value)
+    );
+    constraints.push(orderBy(filterQuery.orderField, 'desc'), orderBy(documentId(), 'desc'));
+    if (filterQuery.limitCount !== undefined) constraints.push(limit(filterQuery.limitCount));
+    return constraints;
+  }
+
+  /**
+   * Readable error for a failed filtered query; a missing composite index
+   * (failed-precondition) names the index to create
+   */
+  private static queryError<K extends QueryableCollection>(filterQuery: CollectionQuery<K>, error: unknown): Error {
+    const code = (error as { code?: string }).code;
+    if (code === 'permission-denied') {
+      return new Error(`Permission denied: Check Firestore security rules for collection '${filterQuery.collectionName}'. See FIRESTORE_RULES_FIX.md for instructions.`);
+    }
+    if (code === 'failed-precondition') {
+      const indexes = requiredIndexes(filterQuery).map(describeIndex).join('; ');
+      return new Error(`Missing Firestore index for this filter: create ${indexes || 'the index linked in the console error'} (see firestore.indexes.json).`, { cause: error });
+    }
+    return error instanceof Error ? error : new Error(String(error));
+  }
+
+  /**
+   * Listen to the documents matching a built query (see queryBuilder), newest first
+   * by the query's date field
+   */
+  static listenToQuery<K extends QueryableCollection>(
+    filterQuery: CollectionQuery<K>,
+    callback: (documents: FirestoreDocument<CollectionDocTypes[K]>[]) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    const label = queryKey(filterQuery);
     try {
-      console.log(`[Firestore] 🎧 Setting up listener for evaluations since ${sinceDate.toISOString()}`);
-      
-      const sinceTimestamp = Timestamp.fromDate(sinceDate);
-      
+      console.log(`[Firestore] 🎧 Setting up query listener for ${label}`);
+      const indexes = requiredIndexes(filterQuery);
+      if (indexes.length > 0) {
+        console.log(`[Firestore] 🗂️ Query needs composite index: ${indexes.map(describeIndex).join('; ')}`);
+      }
+
       const q = query(
-        collection(db, 'agent_evaluations'),
-        where('created_at', '>=', sinceTimestamp),
-        orderBy('created_at', 'desc')
+        collection(db, filterQuery.collectionName).withConverter(collectionConverters[filterQuery.collectionName]),
+        ...this.queryConstraints(filterQuery)
       );
-      
+
+      const tracker = connectionStatus.track(label);
+      let delivered = false;
       const unsubscribe = onSnapshot(
         q,
+        { includeMetadataChanges: true },
         (querySnapshot) => {
-          console.log(`[Firestore] 📊 Snapshot update for evaluations since ${sinceDate.toISOString()}: ${querySnapshot.size} documents`);
-          const documents = this.snapshotToDocuments(querySnapshot);
-          callback(documents);
+          tracker.report(querySnapshot.metadata.fromCache);
+          if (delivered && querySnapshot.docChanges().length === 0) return;
+          delivered = true;
+          console.log(`[Firestore] 📊 Snapshot update for ${label}: ${querySnapshot.size} documents (fromCache: ${querySnapshot.metadata.fromCache})`);
+          // Keep the server order: it follows the query's date field, not necessarily created_at
+          callback(querySnapshot.docs.map((snapshot) => this.typedDocument(snapshot.id, snapshot.data())));
         },
         (error) => {
-          console.error(`[Firestore] ❌ ERROR in listener for evaluations since:`, error);
-          if (error.code === 'permission-denied') {
-            const errorMsg = `Permission denied: Check Firestore security rules for collection 'agent_evaluations'. See FIRESTORE_RULES_FIX.md for instructions.`;
-            if (onError) {
-              onError(new Error(errorMsg));
-            }
-          } else if (onError) {
-            onError(error);
+          tracker.release();
+          console.error(`[Firestore] ❌ ERROR in listener for ${label}:`, error);
+          if (onError) {
+            onError(this.queryError(filterQuery, error));
           }
         }
       );
-      
-      return unsubscribe;
-    } catch (error: any) {
-      console.error(`[Firestore] ❌ ERROR setting up listener for evaluations since:`, error);
+      return () => {
+        unsubscribe();
+        tracker.release();
+      };
+    } catch (error) {
+      console.error(`[Firestore] ❌ ERROR setting up listener for ${label}:`, error);
       if (onError) {
-        onError(error);
+        onError(this.queryError(filterQuery, error));
       }
       return () => {};
     }
   }
 
   /**
-   * Listen to notifications created after a specific date
+   * One-off fetch of the documents matching a built query
    */
-  static listenToNotificationsSince(
-    sinceDate: Date,
-    callback: (documents: FirestoreDocument[]) => void,
-    onError?: (error: Error) => void
-  ): () => void {
+  static async runQuery<K extends QueryableCollection>(
+    filterQuery: CollectionQuery<K>
+  ): Promise<FirestoreDocument<CollectionDocTypes[K]>[]> {
     try {
-      console.log(`[Firestore] 🎧 Setting up listener for notifications since ${sinceDate.toISOString()}`);
-      
-      const sinceTimestamp = Timestamp.fromDate(sinceDate);
-      
       const q = query(
-        collection(db, 'agent_notifications'),
-        where('created_at', '>=', sinceTimestamp),
-        orderBy('created_at', 'desc')
+        collection(db, filterQuery.collectionName).withConverter(collectionConverters[filterQuery.collectionName]),
+        ...this.queryConstraints(filterQuery)
       );
-      
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map((snapshot) => this.typedDocument(snapshot.id, snapshot.data()));
+    } catch (error) {
+      console.error(`[Firestore] ❌ ERROR running query ${queryKey(filterQuery)}:`, error);
+      throw this.queryError(filterQuery, error);
+    }
+  }
+
+  /**
+   * Listen to one document of a typed collection through its converter
+   */
+  static listenToTypedDocument<K extends TypedCollection>(
+    collectionName: K,
+    documentId: string,
+    callback: (data: CollectionDocTypes[K] | null) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    const path = `${collectionName}/${documentId}`;
+    try {
+      console.log(`[Firestore] 🎧 Setting up listener for ${path}`);
+
+      const docRef = doc(db, collectionName, documentId).withConverter(collectionConverters[collectionName]);
+
+      const tracker = connectionStatus.track(documentKey(collectionName, documentId));
       const unsubscribe = onSnapshot(
-        q,
-        (querySnapshot) => {
-          console.log(`[Firestore] 📊 Snapshot update for notifications since ${sinceDate.toISOString()}: ${querySnapshot.size} documents`);
-          const documents = this.snapshotToDocuments(querySnapshot);
-          callback(documents);
+        docRef,
+        { includeMetadataChanges: true },
+        (documentSnapshot) => {
+          tracker.report(documentSnapshot.metadata.fromCache);
+          console.log(`[Firestore] 🔔 Snapshot for ${path} (fromCache: ${documentSnapshot.metadata.fromCache})`);
+          if (documentSnapshot.exists()) {
+            callback(documentSnapshot.data());
+          } else {
+            console.log(`[Firestore] 📊 Document ${path} does not exist`);
+            callback(null);
+          }
         },
         (error) => {
-          console.error(`[Firestore] ❌ ERROR in listener for notifications since:`, error);
+          tracker.release();
+          console.error(`[Firestore] ❌ ERROR in listener for ${path}:`, error);
           if (error.code === 'permission-denied') {
-            const errorMsg = `Permission denied: Check Firestore security rules for collection 'agent_notifications'. See FIRESTORE_RULES_FIX.md for instructions.`;
+            const errorMsg = `Permission denied: Check Firestore security rules for collection '${collectionName}'. See FIRESTORE_RULES_FIX.md for instructions.`;
             if (onError) {
               onError(new Error(errorMsg));
             }
@@ -404,12 +663,14 @@ export class FirestoreService {
           }
         }
       );
-      
-      return unsubscribe;
-    } catch (error: any) {
-      console.error(`[Firestore] ❌ ERROR setting up listener for notifications since:`, error);
+      return () => {
+        unsubscribe();
+        tracker.release();
+      };
+    } catch (error) {
+      console.error(`[Firestore] ❌ ERROR setting up listener for ${path}:`, error);
       if (onError) {
-        onError(error);
+        onError(error instanceof Error ? error : new Error(String(error)));
       }
       return () => {};
     }
@@ -420,56 +681,72 @@ export class FirestoreService {
    */
   static listenToAgentState(
     documentId: string,
-    callback: (data: Record<string, any> | null) => void,
+    callback: (data: AgentStatesDoc | null) => void,
     onError?: (error: Error) => void
   ): () => void {
+    return this.listenToTypedDocument('agent_states', documentId, callback, onError);
+  }
+
+  /**
+   * Acknowledge, assign, comment on, resolve or reopen a safety notification. The
+   * change and its audit trail entry are written in one transaction, so concurrent
+   * actions by two faculty members are checked against the latest state.
+   * @throws NotificationActionError when the action doesn't apply to the current state
+   */
+  static async updateNotification(
+    notificationId: string,
+    action: NotificationAction,
+    actor: NotificationPerson
+  ): Promise<void> {
     try {
-      console.log(`[Firestore] 🎧 Setting up listener for agent_states/${documentId}`);
-      console.log(`[Firestore] 🔗 Firebase instance ID:`, db.app.name);
-      console.log(`[Firestore] 🔗 Project ID:`, db.app.options.projectId);
-      
-      const docRef = doc(db, 'agent_states', documentId);
-      
-      // Track metadata changes to verify real-time sync
-      let lastUpdateTime: number | null = null;
-      let updateCount = 0;
-      
-      const unsubscribe = onSnapshot(
-        docRef,
-        (documentSnapshot: DocumentSnapshot) => {
-          updateCount++;
-          const now = Date.now();
-          const timeSinceLastUpdate = lastUpdateTime ? now - lastUpdateTime : 0;
-          lastUpdateTime = now;
-          
-          // Log sync verification info
-          console.log(`[Firestore] 🔔 Snapshot #${updateCount} received at ${new Date().toISOString()}`);
-          console.log(`[Firestore] ⏱️ Time since last update: ${timeSinceLastUpdate}ms`);
-          console.log(`[Firestore] 📍 Metadata:`, {
-            fromCache: documentSnapshot.metadata.fromCache,
-            hasPendingWrites: documentSnapshot.metadata.hasPendingWrites,
-            isEqual: documentSnapshot.metadata.isEqual
-          });
-          
-          if (documentSnapshot.exists()) {
-            const data = documentSnapshot.data();
-            console.log(`[Firestore] 📊 Snapshot update for agent_states/${documentId}:`, data);
-            console.log(`[Firestore] ✅ This update will sync to ALL browser tabs/windows`);
-            callback(data);
-          } else {
-            console.log(`[Firestore] 📊 Document agent_states/${documentId} does not exist`);
-            callback(null);
-          }
+      console.log(`[Firestore] ✏️ ${action.type} notification ${notificationId} as ${actor.name}`);
+      const notificationRef = doc(db, 'agent_notifications', notificationId);
+
+      await runTransaction(db, async (transaction) => {
+        const snapshot = await transaction.get(notificationRef.withConverter(collectionConverters.agent_notifications));
+        if (!snapshot.exists()) {
+          throw new NotificationActionError('This notification no longer exists.');
+        }
+        const change = planNotificationAction(snapshot.data(), action, actor);
+        const timestamps = Object.fromEntries(change.timestampFields.map(field => [field, serverTimestamp()]));
+        transaction.update(notificationRef, { ...change.fields, ...timestamps });
+        transaction.set(doc(collection(db, notificationAuditPath(notificationId))), { ...change.entry, at: serverTimestamp() });
+      });
+    } catch (error) {
+      console.error(`[Firestore] ❌ ERROR updating notification ${notificationId}:`, error);
+      if ((error as { code?: string }).code === 'permission-denied') {
+        throw new Error(`Permission denied: Check Firestore security rules for collection 'agent_notifications'. See FIRESTORE_RULES_FIX.md for instructions.`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Listen to a notification's audit trail, oldest entry first
+   */
+  static listenToNotificationAudit(
+    notificationId: string,
+    callback: (entries: FirestoreDocument<NotificationAuditEntry>[]) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    const path = notificationAuditPath(notificationId);
+    try {
+      console.log(`[Firestore] 🎧 Setting up listener for ${path}`);
+      const q = query(collection(db, path), orderBy('at', 'asc'));
+
+      return onSnapshot(
+        q,
+        (querySnapshot) => {
+          // Entries this client just wrote show the estimated server time until confirmed
+          callback(querySnapshot.docs.map((snapshot) => {
+            const entry = normalizeNotificationAuditEntry(snapshot.data({ serverTimestamps: 'estimate' }));
+            return { id: snapshot.id, data: entry, createdAt: entry.at };
+          }));
         },
         (error) => {
-          console.error(`[Firestore] ❌ ERROR in listener for agent_states/${documentId}:`, error);
-          console.error(`[Firestore] ❌ Error details:`, {
-            code: error.code,
-            message: error.message,
-            stack: error.stack
-          });
+          console.error(`[Firestore] ❌ ERROR in listener for ${path}:`, error);
           if (error.code === 'permission-denied') {
-            const errorMsg = `Permission denied: Check Firestore security rules for collection 'agent_states'. See FIRESTORE_RULES_FIX.md for instructions.`;
+            const errorMsg = `Permission denied: Check Firestore security rules for collection '${path}'. See FIRESTORE_RULES_FIX.md for instructions.`;
             if (onError) {
               onError(new Error(errorMsg));
             }
@@ -478,17 +755,256 @@ export class FirestoreService {
           }
         }
       );
-      
-      console.log(`[Firestore] ✅ Listener active - changes will sync across ALL tabs/browsers`);
-      
-      return unsubscribe;
-    } catch (error: any) {
-      console.error(`[Firestore] ❌ ERROR setting up listener for agent_states/${documentId}:`, error);
+    } catch (error) {
+      console.error(`[Firestore] ❌ ERROR setting up listener for ${path}:`, error);
       if (onError) {
-        onError(error);
+        onError(error instanceof Error ? error : new Error(String(error)));
       }
       return () => {};
     }
   }
+
+  /**
+   * Create (ruleId null) or replace a safety escalation rule; resolves to its id
+   * @throws EscalationRuleError when the rule doesn't validate
+   */
+  static async saveEscalationRule(
+    ruleId: string | null,
+    rule: EscalationRuleInput,
+    actor: NotificationPerson
+  ): Promise<string> {
+    const problems = validateEscalationRule(rule);
+    if (problems.length > 0) {
+      throw new EscalationRuleError(problems.join(' '));
+    }
+    try {
+      console.log(`[Firestore] ✏️ Saving escalation rule "${rule.name}" as ${actor.name}`);
+      const fields = { ...rule, name: rule.name.trim(), updated_by: actor, updated_at: serverTimestamp() };
+      if (ruleId) {
+        await setDoc(doc(db, 'safety_escalation_rules', ruleId), fields, { merge: true });
+        return ruleId;
+      }
+      const created = await addDoc(collection(db, 'safety_escalation_rules'), { ...fields, created_at: serverTimestamp() });
+      return created.id;
+    } catch (error) {
+      console.error(`[Firestore] ❌ ERROR saving escalation rule:`, error);
+      if ((error as { code?: string }).code === 'permission-denied') {
+        throw new Error(`Permission denied: Check Firestore security rules for collection 'safety_escalation_rules'. See FIRESTORE_RULES_FIX.md for instructions.`);
+      }
+      throw error;
+    }
+  }
+
+  static async deleteEscalationRule(ruleId: string): Promise<void> {
+    try {
+      console.log(`[Firestore] 🗑️ Deleting escalation rule ${ruleId}`);
+      await deleteDoc(doc(db, 'safety_escalation_rules', ruleId));
+    } catch (error) {
+      console.error(`[Firestore] ❌ ERROR deleting escalation rule ${ruleId}:`, error);
+      if ((error as { code?: string }).code === 'permission-denied') {
+        throw new Error(`Permission denied: Check Firestore security rules for collection 'safety_escalation_rules'. See FIRESTORE_RULES_FIX.md for instructions.`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the automated mode schedule (see services/automationSchedule)
+   * @throws AutomationScheduleError when the schedule doesn't validate
+   */
+  static async saveAutomationSchedule(schedule: AutomationScheduleInput, actor: NotificationPerson): Promise<void> {
+    const problems = validateAutomationSchedule(schedule);
+    if (problems.length > 0) {
+      throw new AutomationScheduleError(problems.join(' '));
+    }
+    try {
+      console.log(`[Firestore] ✏️ Saving automated mode schedule as ${actor.name}`);
+      await setDoc(doc(db, AUTOMATION_SCHEDULE_COLLECTION, AUTOMATION_SCHEDULE_DOCUMENT), {
+        ...schedule,
+        updated_by: actor,
+        updated_at: serverTimestamp(),
+      });
+    } catch (error) {
+      console.error(`[Firestore] ❌ ERROR saving automated mode schedule:`, error);
+      if ((error as { code?: string }).code === 'permission-denied') {
+        throw new Error(`Permission denied: Check Firestore security rules for collection '${AUTOMATION_SCHEDULE_COLLECTION}'. See FIRESTORE_RULES_FIX.md for instructions.`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Record that a run started (see services/runHistory). The first dashboard to
+   * see the run creates its document; later calls only add what the dashboard
+   * that started a manual run knows, so started_at stays the earliest sighting.
+   */
+  static async recordRunStart(runId: string, start: RunStart): Promise<void> {
+    try {
+      const runRef = doc(db, 'agent_runs', runId);
+      await runTransaction(db, async (transaction) => {
+        const snapshot = await transaction.get(runRef);
+        if (!snapshot.exists()) {
+          console.log(`[Firestore] ✏️ Recording ${start.trigger} run ${runId}`);
+          transaction.set(runRef, {
+            ...start,
+            outcome: 'running',
+            output_ids: [],
+            started_at: serverTimestamp(),
+            created_at: serverTimestamp(),
+          });
+        } else if (start.trigger === 'manual') {
+          transaction.update(runRef, { ...start });
+        }
+      });
+    } catch (error) {
+      console.error(`[Firestore] ❌ ERROR recording start of run ${runId}:`, error);
+      if ((error as { code?: string }).code === 'permission-denied') {
+        throw new Error(`Permission denied: Check Firestore security rules for collection 'agent_runs'. See FIRESTORE_RULES_FIX.md for instructions.`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Record how a run ended, with the documents its agent created meanwhile.
+   * Runs already ended (by another dashboard) or never recorded are left alone.
+   */
+  static async recordRunEnd(runId: string, end: RunEnd): Promise<void> {
+    try {
+      const runRef = doc(db, 'agent_runs', runId).withConverter(collectionConverters.agent_runs);
+      const snapshot = await getDoc(runRef);
+      const run = snapshot.data();
+      if (!run || run.outcome !== 'running') return;
+
+      let outputIds: string[] = [];
+      if (end.output_collection && run.started_at) {
+        const outputs = await getDocs(query(
+          collection(db, end.output_collection),
+          where('created_at', '>=', Timestamp.fromDate(run.started_at)),
+          where('created_at', '<=', Timestamp.fromDate(end.ended_at))
+        ));
+        outputIds = outputs.docs.map(output => output.id);
+      }
+      console.log(`[Firestore] ✏️ Recording end of run ${runId}: ${end.outcome}`);
+      await setDoc(doc(db, 'agent_runs', runId), { ...end, output_ids: outputIds }, { merge: true });
+    } catch (error) {
+      console.error(`[Firestore] ❌ ERROR recording end of run ${runId}:`, error);
+      if ((error as { code?: string }).code === 'permission-denied') {
+        throw new Error(`Permission denied: Check Firestore security rules for collection 'agent_runs'. See FIRESTORE_RULES_FIX.md for instructions.`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Record a manual run the backend refused to start; resolves to its id
+   */
+  static async recordFailedStart(start: RunStart, message: string): Promise<string> {
+    try {
+      const now = new Date();
+      const created = await addDoc(collection(db, 'agent_runs'), {
+        ...start,
+        outcome: 'failed',
+        error: message,
+        rejected: true,
+        output_ids: [],
+        started_at: now,
+        ended_at: now,
+        created_at: serverTimestamp(),
+      });
+      return created.id;
+    } catch (error) {
+      console.error(`[Firestore] ❌ ERROR recording failed start of ${start.agent}:`, error);
+      if ((error as { code?: string }).code === 'permission-denied') {
+        throw new Error(`Permission denied: Check Firestore security rules for collection 'agent_runs'. See FIRESTORE_RULES_FIX.md for instructions.`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Store this browser's push token with the notification categories the user
+   * wants, under users/{uid}/push_tokens (read by the backend that sends pushes)
+   */
+  static async savePushToken(userId: string, token: string, categories: string[]): Promise<void> {
+    try {
+      await setDoc(doc(db, 'users', userId, 'push_tokens', token), {
+        categories,
+        user_agent: navigator.userAgent,
+        updated_at: serverTimestamp(),
+      });
+    } catch (error) {
+      console.error('[Firestore] ❌ ERROR saving push token:', error);
+      if ((error as { code?: string }).code === 'permission-denied') {
+        throw new Error(`Permission denied: Check Firestore security rules for collection 'users/${userId}/push_tokens'. See FIRESTORE_RULES_FIX.md for instructions.`);
+      }
+      throw error;
+    }
+  }
+
+  static async deletePushToken(userId: string, token: string): Promise<void> {
+    try {
+      await deleteDoc(doc(db, 'users', userId, 'push_tokens', token));
+    } catch (error) {
+      console.error('[Firestore] ❌ ERROR deleting push token:', error);
+      if ((error as { code?: string }).code === 'permission-denied') {
+        throw new Error(`Permission denied: Check Firestore security rules for collection 'users/${userId}/push_tokens'. See FIRESTORE_RULES_FIX.md for instructions.`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Shared listenToTypedCollection: every caller with the same collection and
+   * options shares one listener, and late callers get the last snapshot at once.
+   * Pass the same `since` Date (not a fresh `new Date()`) to share a since-query.
+   */
+  static watchCollection<K extends TypedCollection>(
+    collectionName: K,
+    callback: (documents: FirestoreDocument<CollectionDocTypes[K]>[]) => void,
+    onError?: (error: Error) => void,
+    options: TypedListenOptions = {}
+  ): () => void {
+    return sharedSubscriptions.subscribe(
+      collectionQueryKey(collectionName, options),
+      (next, fail) => this.listenToTypedCollection(collectionName, next, fail, options),
+      { next: callback, error: onError }
+    );
+  }
+
+  /**
+   * Shared listenToTypedDocument, one listener per document
+   */
+  static watchDocument<K extends TypedCollection>(
+    collectionName: K,
+    documentId: string,
+    callback: (data: CollectionDocTypes[K] | null) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return sharedSubscriptions.subscribe(
+      documentKey(collectionName, documentId),
+      (next, fail) => this.listenToTypedDocument(collectionName, documentId, next, fail),
+      { next: callback, error: onError }
+    );
+  }
+
+  /**
+   * Shared listenToQuery, one listener per distinct query
+   */
+  static watchQuery<K extends QueryableCollection>(
+    filterQuery: CollectionQuery<K>,
+    callback: (documents: FirestoreDocument<CollectionDocTypes[K]>[]) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return sharedSubscriptions.subscribe(
+      queryKey(filterQuery),
+      (next, fail) => this.listenToQuery(filterQuery, next, fail),
+      { next: callback, error: onError }
+    );
+  }
 }
 
+export type FirestoreServiceApi = Omit<typeof LiveFirestoreService, 'prototype'>;
+
+// VITE_DATA_MODE=mock swaps in the in-memory fake (see src/mocks)
+export const FirestoreService: FirestoreServiceApi = isMockMode ? mockFirestoreService : LiveFirestoreService;
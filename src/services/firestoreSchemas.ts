@@ -0,0 +1,783 @@
+import type {
+  DocumentData,
+  FirestoreDataConverter,
+  PartialWithFieldValue,
+  QueryDocumentSnapshot,
+  SnapshotOptions,
+} from 'firebase/firestore';
+
+/**
+ * Typed shapes of the agent collections, and Firestore converters that normalise
+ * the raw documents into them.
+ *
+ * Agents have written the same data in several shapes over time (timestamps as
+ * Firestore Timestamps or ISO strings, scenario options as `options[]` or
+ * `option_a`/`option_b`, site reports nested under `analysis_data`), so every
+ * variant is resolved here once instead of in each component. Fields that aren't
+ * modelled are kept as-is so generic table and JSON views still show them.
+ */
+
+type RawData = Record<string, unknown>;
+
+// ─── Shared normalisers ────────────────────────────────────────────────────────
+
+/**
+ * Timestamp, Date, ISO string, epoch millis or a serialised `{ seconds }` map → Date
+ */
+export function toDate(value: unknown): Date | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  if (value instanceof Date) return isNaN(value.getTime()) ? undefined : value;
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+  if (typeof value === 'object') {
+    const timestamp = value as { toDate?: () => Date; seconds?: unknown };
+    if (typeof timestamp.toDate === 'function') return timestamp.toDate();
+    if (typeof timestamp.seconds === 'number') return new Date(timestamp.seconds * 1000);
+  }
+  return undefined;
+}
+
+function isRecord(value: unknown): value is RawData {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function asString(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return String(value);
+  return undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return isNaN(value) ? undefined : value;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return isNaN(parsed) ? undefined : parsed;
+  }
+  return undefined;
+}
+
+function asStringArray(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(asString).filter((item): item is string => item !== undefined);
+  // Some agents joined lists into a single comma-separated string
+  if (typeof value === 'string' && value.trim() !== '') return value.split(',').map(item => item.trim());
+  return [];
+}
+
+function asRecords(value: unknown): RawData[] {
+  return Array.isArray(value) ? value.filter(isRecord) : [];
+}
+
+// ─── agent_evaluations ─────────────────────────────────────────────────────────
+
+export interface EvaluationDoc {
+  case_type?: string;
+  class_standing?: number;
+  preceptee_user_id?: string;
+  preceptee_user_name?: string;
+  preceptor_name?: string;
+  preceptor_comment?: string;
+  comments?: string;
+  focus_areas?: string;
+  completed?: boolean;
+  request_date?: Date;
+  completion_date?: Date;
+  created_at?: Date;
+  modified_at?: Date;
+  /** ac_* (competency) and pc_* (performance) ratings keep their original keys */
+  [key: string]: unknown;
+}
+
+/**
+ * Performance fields rated -1 (dangerous), the ones the safety agent flags
+ */
+export function dangerousRatingFields(evaluation: EvaluationDoc): string[] {
+  return Object.keys(evaluation)
+    .filter(key => /^pc_\d+$/.test(key) && evaluation[key] === -1)
+    .sort((a, b) => Number(a.slice(3)) - Number(b.slice(3)));
+}
+
+export function normalizeEvaluation(raw: RawData): EvaluationDoc {
+  return {
+    ...raw,
+    case_type: asString(raw.case_type),
+    class_standing: asNumber(raw.class_standing),
+    preceptee_user_id: asString(raw.preceptee_user_id),
+    preceptee_user_name: asString(raw.preceptee_user_name),
+    preceptor_name: asString(raw.preceptor_name),
+    preceptor_comment: asString(raw.preceptor_comment),
+    comments: asString(raw.comments),
+    focus_areas: asString(raw.focus_areas),
+    completed: typeof raw.completed === 'boolean' ? raw.completed : undefined,
+    request_date: toDate(raw.request_date),
+    completion_date: toDate(raw.completion_date),
+    created_at: toDate(raw.created_at ?? raw.createdAt),
+    modified_at: toDate(raw.modified_at ?? raw.updated_at ?? raw.updatedAt),
+  };
+}
+
+// ─── agent_scenarios ───────────────────────────────────────────────────────────
+
+export interface ScenarioOption {
+  /** Option letter, e.g. "A" */
+  option: string;
+  title?: string;
+  description?: string;
+  considerations: string[];
+}
+
+export interface ScenarioDoc {
+  case?: { name?: string; code?: string; description?: string };
+  patient?: { name?: string; age?: number; categories: string[] };
+  scenario?: string;
+  learning_points: string[];
+  /** Resolved from `options[]` or the `option_a`, `option_b`, ... fields */
+  options: ScenarioOption[];
+  /** Resolved from `{ option, rationale }`, "Option A" or a separate `rationale` field */
+  best_answer?: { option: string; rationale?: string };
+  references?: string;
+  image?: string;
+  student_id?: string;
+  student_name?: string;
+  created_at?: Date;
+  modified_at?: Date;
+  [key: string]: unknown;
+}
+
+function optionLetter(value: unknown, index: number): string {
+  const letter = asString(value)?.replace(/^option\s*/i, '').trim();
+  return letter ? letter.toUpperCase() : String.fromCharCode(65 + index);
+}
+
+function normalizeOption(value: unknown, letter: string): ScenarioOption | null {
+  if (typeof value === 'string') return { option: letter, description: value, considerations: [] };
+  if (!isRecord(value)) return null;
+  return {
+    option: letter,
+    title: asString(value.title),
+    description: asString(value.description),
+    considerations: asStringArray(value.considerations),
+  };
+}
+
+function scenarioOptions(raw: RawData): ScenarioOption[] {
+  if (Array.isArray(raw.options) && raw.options.length > 0) {
+    return raw.options
+      .map((option, index) => normalizeOption(option, optionLetter(isRecord(option) ? option.option : undefined, index)))
+      .filter((option): option is ScenarioOption => option !== null);
+  }
+  return Object.keys(raw)
+    .filter(key => /^option_[a-z]$/i.test(key))
+    .sort()
+    .map(key => normalizeOption(raw[key], key.slice(-1).toUpperCase()))
+    .filter((option): option is ScenarioOption => option !== null);
+}
+
+function bestAnswer(raw: RawData): ScenarioDoc['best_answer'] {
+  const value = raw.best_answer;
+  const separateRationale = asString(raw.rationale);
+  if (typeof value === 'string' && value.trim() !== '') {
+    return { option: optionLetter(value, 0), rationale: separateRationale };
+  }
+  if (isRecord(value) && value.option !== undefined) {
+    return { option: optionLetter(value.option, 0), rationale: asString(value.rationale) ?? separateRationale };
+  }
+  return undefined;
+}
+
+export function normalizeScenario(raw: RawData): ScenarioDoc {
+  const caseData = isRecord(raw.case) ? raw.case : undefined;
+  const patient = isRecord(raw.patient) ? raw.patient : undefined;
+  return {
+    ...raw,
+    case: caseData && {
+      name: asString(caseData.name),
+      code: asString(caseData.code),
+      description: asString(caseData.description),
+    },
+    patient: patient && {
+      name: asString(patient.name) ?? asString(patient.full_name),
+      age: asNumber(patient.age),
+      categories: asStringArray(patient.categories),
+    },
+    scenario: asString(raw.scenario),
+    learning_points: asStringArray(raw.learning_points),
+    options: scenarioOptions(raw),
+    best_answer: bestAnswer(raw),
+    references: asString(raw.references),
+    image: asString(raw.image),
+    student_id: asString(raw.student_id),
+    student_name: asString(raw.student_name),
+    created_at: toDate(raw.created_at ?? raw.createdAt),
+    modified_at: toDate(raw.modified_at ?? raw.updated_at ?? raw.updatedAt),
+  };
+}
+
+// ─── agent_notifications ───────────────────────────────────────────────────────
+
+export type NotificationSeverity = 'critical' | 'high' | 'moderate';
+
+export const NOTIFICATION_SEVERITIES: NotificationSeverity[] = ['critical', 'high', 'moderate'];
+
+/**
+ * Severity from the number of dangerous ratings, for notifications written before
+ * the safety agent stored a `severity` field
+ */
+export function severityForNegativeFields(negativeFields: string[]): NotificationSeverity {
+  if (negativeFields.length >= 3) return 'critical';
+  return negativeFields.length === 2 ? 'high' : 'moderate';
+}
+
+/**
+ * Where faculty are with a notification; documents the safety agent wrote before
+ * the workflow existed have no status and count as open
+ */
+export type NotificationStatus = 'open' | 'acknowledged' | 'resolved';
+
+const NOTIFICATION_STATUSES: NotificationStatus[] = ['open', 'acknowledged', 'resolved'];
+
+/**
+ * Who performed a workflow action, or who a notification is assigned to (uid is
+ * missing for assignees typed in by name)
+ */
+export interface NotificationPerson {
+  uid?: string;
+  name: string;
+}
+
+export interface NotificationDoc {
+  evaluation_doc_id?: string;
+  request_id?: string;
+  preceptee_name?: string;
+  preceptor_name?: string;
+  case_type?: string;
+  /** pc_* fields rated -1 on the evaluation */
+  negative_fields: string[];
+  /** Stored by the safety agent; derived from negative_fields when missing */
+  severity: NotificationSeverity;
+  /** HTML body of the alert email */
+  email?: string;
+  evaluation_timestamp?: Date;
+  notification_sent_at?: Date;
+  created_at?: Date;
+  status: NotificationStatus;
+  assigned_to?: NotificationPerson;
+  acknowledged_by?: NotificationPerson;
+  acknowledged_at?: Date;
+  resolved_by?: NotificationPerson;
+  resolved_at?: Date;
+  /** Note left when resolving */
+  resolution?: string;
+  comment_count: number;
+  updated_at?: Date;
+  [key: string]: unknown;
+}
+
+function asPerson(value: unknown): NotificationPerson | undefined {
+  if (!isRecord(value)) return undefined;
+  const name = asString(value.name);
+  return name ? { uid: asString(value.uid), name } : undefined;
+}
+
+export function normalizeNotification(raw: RawData): NotificationDoc {
+  const negativeFields = asStringArray(raw.negative_fields);
+  const severity = NOTIFICATION_SEVERITIES.find(level => level === raw.severity);
+  return {
+    ...raw,
+    evaluation_doc_id: asString(raw.evaluation_doc_id),
+    request_id: asString(raw.request_id),
+    preceptee_name: asString(raw.preceptee_name),
+    preceptor_name: asString(raw.preceptor_name),
+    case_type: asString(raw.case_type),
+    negative_fields: negativeFields,
+    severity: severity ?? severityForNegativeFields(negativeFields),
+    status: NOTIFICATION_STATUSES.find(status => status === raw.status) ?? (raw.resolved_at ? 'resolved' : 'open'),
+    assigned_to: asPerson(raw.assigned_to),
+    acknowledged_by: asPerson(raw.acknowledged_by),
+    acknowledged_at: toDate(raw.acknowledged_at),
+    resolved_by: asPerson(raw.resolved_by),
+    resolved_at: toDate(raw.resolved_at),
+    resolution: asString(raw.resolution),
+    comment_count: asNumber(raw.comment_count) ?? 0,
+    updated_at: toDate(raw.updated_at),
+    email: asString(raw.email),
+    evaluation_timestamp: toDate(raw.evaluation_timestamp),
+    notification_sent_at: toDate(raw.notification_sent_at),
+    created_at: toDate(raw.created_at ?? raw.createdAt),
+  };
+}
+
+export type NotificationAuditAction = 'acknowledged' | 'assigned' | 'unassigned' | 'commented' | 'resolved' | 'reopened';
+
+/**
+ * One entry of `agent_notifications/{id}/audit_trail`, written with every action
+ */
+export interface NotificationAuditEntry {
+  action: NotificationAuditAction;
+  actor: NotificationPerson;
+  at?: Date;
+  comment?: string;
+  assignee?: NotificationPerson;
+  [key: string]: unknown;
+}
+
+const AUDIT_ACTIONS: NotificationAuditAction[] = ['acknowledged', 'assigned', 'unassigned', 'commented', 'resolved', 'reopened'];
+
+export function normalizeNotificationAuditEntry(raw: RawData): NotificationAuditEntry {
+  return {
+    ...raw,
+    action: AUDIT_ACTIONS.find(action => action === raw.action) ?? 'commented',
+    actor: asPerson(raw.actor) ?? { name: 'Unknown' },
+    at: toDate(raw.at),
+    comment: asString(raw.comment),
+    assignee: asPerson(raw.assignee),
+  };
+}
+
+// ─── safety_escalation_rules ───────────────────────────────────────────────────
+
+/**
+ * What a rule looks for in a notification: any of the given dangerous ratings,
+ * a student flagged `count` or more times within `within_days`, or a case type
+ */
+export type EscalationCondition =
+  | { type: 'negative_fields'; fields: string[] }
+  | { type: 'repeat_student'; count: number; within_days: number }
+  | { type: 'case_type'; case_types: string[] };
+
+export type EscalationConditionType = EscalationCondition['type'];
+
+export interface EscalationActions {
+  /** Severity to raise matching notifications to (never lowers them) */
+  raise_severity: NotificationSeverity | null;
+  /** Keep matching notifications at the top of the inbox */
+  pin: boolean;
+  /** Flag matching notifications still open this many hours after they arrived */
+  acknowledge_within_hours: number | null;
+}
+
+export interface EscalationRuleDoc {
+  name: string;
+  enabled: boolean;
+  /** Whether every condition must hold, or any one of them */
+  match: 'all' | 'any';
+  conditions: EscalationCondition[];
+  actions: EscalationActions;
+  created_at?: Date;
+  updated_at?: Date;
+  updated_by?: NotificationPerson;
+  [key: string]: unknown;
+}
+
+function normalizeEscalationCondition(raw: RawData): EscalationCondition | null {
+  switch (raw.type) {
+    case 'negative_fields':
+      return { type: 'negative_fields', fields: asStringArray(raw.fields) };
+    case 'repeat_student':
+      return {
+        type: 'repeat_student',
+        count: asNumber(raw.count) ?? 2,
+        within_days: asNumber(raw.within_days) ?? 30,
+      };
+    case 'case_type':
+      return { type: 'case_type', case_types: asStringArray(raw.case_types) };
+    default:
+      // Condition types added later are ignored rather than matching everything
+      return null;
+  }
+}
+
+export function normalizeEscalationRule(raw: RawData): EscalationRuleDoc {
+  const actions = isRecord(raw.actions) ? raw.actions : {};
+  return {
+    ...raw,
+    name: asString(raw.name) ?? 'Untitled rule',
+    enabled: raw.enabled !== false,
+    match: raw.match === 'any' ? 'any' : 'all',
+    conditions: asRecords(raw.conditions)
+      .map(normalizeEscalationCondition)
+      .filter((condition): condition is EscalationCondition => condition !== null),
+    actions: {
+      raise_severity: NOTIFICATION_SEVERITIES.find(level => level === actions.raise_severity) ?? null,
+      pin: actions.pin === true,
+      acknowledge_within_hours: asNumber(actions.acknowledge_within_hours) ?? null,
+    },
+    created_at: toDate(raw.created_at),
+    updated_at: toDate(raw.updated_at),
+    updated_by: asPerson(raw.updated_by),
+  };
+}
+
+// ─── agent_coa_reports ─────────────────────────────────────────────────────────
+
+export interface StandardScore {
+  /** Standard id, matching src/data/standards.json */
+  id: string;
+  score: number;
+}
+
+export interface StudentReport {
+  student_id?: string;
+  student_name?: string;
+  class_standing?: string;
+  evaluations_processed?: number;
+  total_score?: number;
+  total_standards?: number;
+  generated_at?: string;
+  standard_scores: StandardScore[];
+  [key: string]: unknown;
+}
+
+export interface COAReportDoc {
+  agent?: string;
+  students_processed?: number;
+  total_standards?: number;
+  /** Program-wide scores */
+  standard_scores: StandardScore[];
+  student_reports: StudentReport[];
+  generated_at?: Date;
+  created_at?: Date;
+  [key: string]: unknown;
+}
+
+// Older reports used `standard_id`/`standardId` and `value`/`scores`
+function normalizeStandardScores(value: unknown): StandardScore[] {
+  return asRecords(value).map(score => ({
+    id: asString(score.id ?? score.standard_id ?? score.standardId) ?? 'N/A',
+    score: asNumber(score.score ?? score.value ?? score.scores) ?? 0,
+  }));
+}
+
+export function normalizeCOAReport(raw: RawData): COAReportDoc {
+  return {
+    ...raw,
+    agent: asString(raw.agent),
+    students_processed: asNumber(raw.students_processed),
+    total_standards: asNumber(raw.total_standards),
+    standard_scores: normalizeStandardScores(raw.standard_scores),
+    student_reports: asRecords(raw.student_reports).map(report => ({
+      ...report,
+      student_id: asString(report.student_id),
+      student_name: asString(report.student_name),
+      class_standing: asString(report.class_standing),
+      evaluations_processed: asNumber(report.evaluations_processed),
+      total_score: asNumber(report.total_score),
+      total_standards: asNumber(report.total_standards),
+      generated_at: asString(report.generated_at),
+      standard_scores: normalizeStandardScores(report.standard_scores ?? report.standards),
+    })),
+    generated_at: toDate(raw.generated_at),
+    created_at: toDate(raw.created_at ?? raw.createdAt),
+  };
+}
+
+// ─── agent_sites ───────────────────────────────────────────────────────────────
+
+export interface SiteSummary {
+  name: string;
+  total_evaluations: number;
+  unique_preceptors?: number;
+  case_types: string[];
+  preceptor_names: string[];
+}
+
+export interface PreceptorSummary {
+  name: string;
+  site?: string;
+  student_count?: number;
+  total_evaluations: number;
+  case_types: string[];
+}
+
+/**
+ * Site report with `analysis_data` flattened onto the top level
+ */
+export interface SiteReportDoc {
+  report_title?: string;
+  report_text?: string;
+  report_version?: string;
+  agent?: string;
+  total_sites?: number;
+  total_preceptors?: number;
+  total_evaluations?: number;
+  total_evaluations_analyzed?: number;
+  sites: SiteSummary[];
+  preceptors: PreceptorSummary[];
+  analyzed_at?: Date;
+  generated_at?: Date;
+  created_at?: Date;
+  [key: string]: unknown;
+}
+
+export function normalizeSiteReport(raw: RawData): SiteReportDoc {
+  const analysis = isRecord(raw.analysis_data) ? raw.analysis_data : {};
+  // Nested analysis values win; root-level copies are from older report versions
+  const field = (key: string) => analysis[key] ?? raw[key];
+  return {
+    ...raw,
+    report_title: asString(raw.report_title ?? raw.title),
+    report_text: asString(raw.report_text),
+    report_version: asString(raw.report_version),
+    agent: asString(raw.agent),
+    total_sites: asNumber(field('total_sites')),
+    total_preceptors: asNumber(field('total_preceptors')),
+    total_evaluations: asNumber(field('total_evaluations')),
+    total_evaluations_analyzed: asNumber(raw.total_evaluations_analyzed ?? analysis.total_evaluations),
+    sites: asRecords(field('sites')).map(site => ({
+      name: asString(site.name ?? site.site_name) ?? 'N/A',
+      total_evaluations: asNumber(site.total_evaluations ?? site.evaluations_count) ?? 0,
+      unique_preceptors: asNumber(site.unique_preceptors),
+      case_types: asStringArray(site.case_types),
+      preceptor_names: asStringArray(site.preceptor_names ?? site.preceptors),
+    })),
+    preceptors: asRecords(field('preceptors')).map(preceptor => ({
+      name: asString(preceptor.name ?? preceptor.preceptor_name) ?? 'N/A',
+      site: asString(preceptor.site ?? preceptor.site_name),
+      student_count: asNumber(preceptor.student_count),
+      total_evaluations: asNumber(preceptor.total_evaluations ?? preceptor.evaluations_count) ?? 0,
+      case_types: asStringArray(preceptor.case_types),
+    })),
+    analyzed_at: toDate(field('analyzed_at')),
+    generated_at: toDate(raw.generated_at ?? analysis.generated_at),
+    created_at: toDate(raw.created_at ?? raw.createdAt),
+  };
+}
+
+// ─── agent_states ──────────────────────────────────────────────────────────────
+
+/**
+ * `all_states` holds one set of `<prefix>_state`, `_last_activity`, `_logs`,
+ * `_last_result` and `_last_error` fields per agent; `time_agent_state` is a
+ * separate document with `state` and `last_updated`.
+ */
+export interface AgentStatesDoc {
+  automated_mode?: string | boolean;
+  automated_mode_start_time?: Date;
+  automated_mode_end_time?: Date;
+  updated_at?: Date;
+  [key: string]: unknown;
+}
+
+export interface AgentStateEntry {
+  state?: string;
+  last_activity?: Date;
+  logs: string[];
+  last_result?: Record<string, unknown>;
+  last_error?: { message?: string; timestamp?: Date };
+}
+
+/**
+ * The fields for one agent in an agent_states document, e.g. prefix `coa_agent`
+ */
+export function agentStateEntry(doc: AgentStatesDoc, prefix: string): AgentStateEntry {
+  const lastError = doc[`${prefix}_last_error`];
+  const lastResult = doc[`${prefix}_last_result`];
+  return {
+    state: asString(doc[`${prefix}_state`]),
+    last_activity: toDate(doc[`${prefix}_last_activity`]),
+    logs: asStringArray(doc[`${prefix}_logs`]),
+    last_result: isRecord(lastResult) ? lastResult : undefined,
+    last_error: isRecord(lastError)
+      ? { message: asString(lastError.message), timestamp: toDate(lastError.timestamp) }
+      : undefined,
+  };
+}
+
+const AGENT_STATE_DATE_FIELD = /(_last_activity|_time|_at|^last_updated)$/;
+
+export function normalizeAgentStates(raw: RawData): AgentStatesDoc {
+  const normalized: AgentStatesDoc = {};
+  Object.entries(raw).forEach(([key, value]) => {
+    if (AGENT_STATE_DATE_FIELD.test(key)) {
+      normalized[key] = toDate(value) ?? value;
+    } else if (key.endsWith('_last_error') && isRecord(value)) {
+      normalized[key] = { ...value, timestamp: toDate(value.timestamp) ?? value.timestamp };
+    } else {
+      normalized[key] = value;
+    }
+  });
+  return normalized;
+}
+
+// ─── agent_runs ────────────────────────────────────────────────────────────────
+
+/**
+ * How a run was started: from the dashboard, by automated mode, or by something
+ * else calling the backend (only seen through its agent_states transitions)
+ */
+export type RunTrigger = 'manual' | 'automated' | 'external';
+
+export const RUN_TRIGGERS: RunTrigger[] = ['manual', 'automated', 'external'];
+
+export type RunOutcome = 'running' | 'succeeded' | 'failed';
+
+export const RUN_OUTCOMES: RunOutcome[] = ['running', 'succeeded', 'failed'];
+
+/**
+ * One agent run, recorded by the dashboard from the agent_states transitions it
+ * observes (see services/runHistory)
+ */
+export interface AgentRunDoc {
+  /** Agent api name, e.g. `coa_agent` */
+  agent: string;
+  trigger: RunTrigger;
+  /** Who started a manual run */
+  triggered_by?: NotificationPerson;
+  /** Options chosen in the run dialog */
+  params?: Record<string, unknown>;
+  /** Backend run id, for runs started from the dashboard */
+  run_id?: string;
+  started_at?: Date;
+  ended_at?: Date;
+  outcome: RunOutcome;
+  error?: string;
+  /** A manual run the backend refused to start: it never ran, so it has no duration */
+  rejected?: boolean;
+  /** Collection the agent writes to, and the documents created during the run */
+  output_collection?: string;
+  output_ids: string[];
+  created_at?: Date;
+  [key: string]: unknown;
+}
+
+export function normalizeAgentRun(raw: RawData): AgentRunDoc {
+  return {
+    ...raw,
+    agent: asString(raw.agent) ?? 'unknown',
+    trigger: RUN_TRIGGERS.find(trigger => trigger === raw.trigger) ?? 'external',
+    triggered_by: asPerson(raw.triggered_by),
+    params: isRecord(raw.params) ? raw.params : undefined,
+    run_id: asString(raw.run_id),
+    started_at: toDate(raw.started_at),
+    ended_at: toDate(raw.ended_at),
+    outcome: RUN_OUTCOMES.find(outcome => outcome === raw.outcome) ?? 'running',
+    error: asString(raw.error),
+    rejected: raw.rejected === true ? true : undefined,
+    output_collection: asString(raw.output_collection),
+    output_ids: asStringArray(raw.output_ids),
+    created_at: toDate(raw.created_at ?? raw.started_at),
+  };
+}
+
+// ─── automation_settings ───────────────────────────────────────────────────────
+
+/**
+ * When automated mode runs one agent
+ */
+export interface AgentScheduleEntry {
+  enabled: boolean;
+  /** Five-field cron expression (minute hour day-of-month month day-of-week), in the schedule's time zone */
+  cron: string;
+  /** Keep running during quiet hours, e.g. the hourly safety check */
+  ignore_quiet_hours: boolean;
+}
+
+/**
+ * Daily window with no automated runs; `start` after `end` spans midnight
+ */
+export interface QuietHours {
+  enabled: boolean;
+  /** "HH:MM" */
+  start: string;
+  /** "HH:MM" */
+  end: string;
+}
+
+/**
+ * The automated mode schedule, `automation_settings/schedule`, read by the
+ * backend while automated mode is on (see services/automationSchedule)
+ */
+export interface AutomationScheduleDoc {
+  /** IANA time zone the cron expressions and quiet hours are in */
+  timezone: string;
+  quiet_hours: QuietHours;
+  /** By agent api name */
+  agents: Record<string, AgentScheduleEntry>;
+  updated_at?: Date;
+  updated_by?: NotificationPerson;
+  [key: string]: unknown;
+}
+
+export function normalizeAutomationSchedule(raw: RawData): AutomationScheduleDoc {
+  const quietHours = isRecord(raw.quiet_hours) ? raw.quiet_hours : {};
+  const agents: Record<string, AgentScheduleEntry> = {};
+  Object.entries(isRecord(raw.agents) ? raw.agents : {}).forEach(([agent, entry]) => {
+    if (!isRecord(entry)) return;
+    const cron = asString(entry.cron);
+    // Entries without a cadence are left to the defaults
+    if (!cron) return;
+    agents[agent] = { enabled: entry.enabled === true, cron, ignore_quiet_hours: entry.ignore_quiet_hours === true };
+  });
+  return {
+    ...raw,
+    timezone: asString(raw.timezone) ?? 'UTC',
+    quiet_hours: {
+      enabled: quietHours.enabled === true,
+      start: asString(quietHours.start) ?? '22:00',
+      end: asString(quietHours.end) ?? '06:00',
+    },
+    agents,
+    updated_at: toDate(raw.updated_at),
+    updated_by: asPerson(raw.updated_by),
+  };
+}
+
+// ─── Converters ────────────────────────────────────────────────────────────────
+
+function createConverter<T>(normalize: (raw: RawData) => T): FirestoreDataConverter<T> {
+  return {
+    // The dashboard only reads these collections; writes pass through unchanged
+    toFirestore(model: PartialWithFieldValue<T>): DocumentData {
+      return model as DocumentData;
+    },
+    fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): T {
+      return normalize(snapshot.data(options));
+    },
+  };
+}
+
+/**
+ * Document type of each typed collection
+ */
+export interface CollectionDocTypes {
+  agent_evaluations: EvaluationDoc;
+  agent_scenarios: ScenarioDoc;
+  agent_notifications: NotificationDoc;
+  agent_coa_reports: COAReportDoc;
+  agent_sites: SiteReportDoc;
+  agent_states: AgentStatesDoc;
+  safety_escalation_rules: EscalationRuleDoc;
+  agent_runs: AgentRunDoc;
+  automation_settings: AutomationScheduleDoc;
+}
+
+export type TypedCollection = keyof CollectionDocTypes;
+
+export const collectionNormalizers: { [K in TypedCollection]: (raw: RawData) => CollectionDocTypes[K] } = {
+  agent_evaluations: normalizeEvaluation,
+  agent_scenarios: normalizeScenario,
+  agent_notifications: normalizeNotification,
+  agent_coa_reports: normalizeCOAReport,
+  agent_sites: normalizeSiteReport,
+  agent_states: normalizeAgentStates,
+  safety_escalation_rules: normalizeEscalationRule,
+  agent_runs: normalizeAgentRun,
+  automation_settings: normalizeAutomationSchedule,
+};
+
+export function isTypedCollection(collectionName: string): collectionName is TypedCollection {
+  return Object.prototype.hasOwnProperty.call(collectionNormalizers, collectionName);
+}
+
+export const collectionConverters: { [K in TypedCollection]: FirestoreDataConverter<CollectionDocTypes[K]> } = {
+  agent_evaluations: createConverter(normalizeEvaluation),
+  agent_scenarios: createConverter(normalizeScenario),
+  agent_notifications: createConverter(normalizeNotification),
+  agent_coa_reports: createConverter(normalizeCOAReport),
+  agent_sites: createConverter(normalizeSiteReport),
+  agent_states: createConverter(normalizeAgentStates),
+  safety_escalation_rules: createConverter(normalizeEscalationRule),
+  agent_runs: createConverter(normalizeAgentRun),
+  automation_settings: createConverter(normalizeAutomationSchedule),
+};
@@ -0,0 +1,260 @@
+/**
+ * In-app notification center: toasts plus a per-user history of recent events.
+ *
+ * Events repeating within a few minutes (same group key, still unread) are folded
+ * into one entry with a count instead of stacking up. History and mute settings
+ * are kept in localStorage per user and synced between tabs through storage
+ * events; toasts are per tab. Muting a category silences its toasts, but its
+ * events are still recorded in the history.
+ */
+
+export type AppEventSeverity = 'success' | 'info' | 'warning' | 'error';
+
+export type AppEventCategory = 'agent_runs' | 'automated_mode' | 'exports';
+
+export const APP_EVENT_CATEGORIES: Record<AppEventCategory, string> = {
+  agent_runs: 'Agent runs',
+  automated_mode: 'Automated mode',
+  exports: 'Exports',
+};
+
+export interface AppEvent {
+  id: string;
+  severity: AppEventSeverity;
+  category: AppEventCategory;
+  title: string;
+  message?: string;
+  groupKey: string;
+  /** How many events were folded into this one */
+  count: number;
+  /** Stable ids (see NotifyOptions.id) of the events folded into this one after the first */
+  groupedIds?: string[];
+  createdAt: number;
+  updatedAt: number;
+  read: boolean;
+}
+
+export interface NotifyOptions {
+  severity: AppEventSeverity;
+  category: AppEventCategory;
+  title: string;
+  message?: string;
+  /** Events with the same key are grouped; defaults to the category and title */
+  groupKey?: string;
+  /** Record the event without a toast */
+  silent?: boolean;
+  /**
+   * Stable id for an event several tabs may record (e.g. a run nobody here started);
+   * a second event with the same id is ignored
+   */
+  id?: string;
+}
+
+export interface NotificationCenterState {
+  /** Newest first */
+  events: AppEvent[];
+  /** Ids of the events currently shown as toasts in this tab, oldest first */
+  toasts: string[];
+  muted: AppEventCategory[];
+  unread: number;
+}
+
+const STORAGE_PREFIX = 'precepgo:notification-center:';
+const MAX_EVENTS = 50;
+const MAX_TOASTS = 4;
+const GROUP_WINDOW_MS = 5 * 60 * 1000;
+const TOAST_DURATION_MS: Record<AppEventSeverity, number> = {
+  success: 5000,
+  info: 5000,
+  warning: 8000,
+  error: 12000,
+};
+
+interface StoredCenter {
+  events: AppEvent[];
+  muted: AppEventCategory[];
+}
+
+function loadStored(key: string | null): StoredCenter {
+  if (!key) return { events: [], muted: [] };
+  try {
+    const stored = JSON.parse(localStorage.getItem(key) ?? '{}') as Partial<StoredCenter>;
+    return {
+      events: Array.isArray(stored.events) ? stored.events : [],
+      muted: Array.isArray(stored.muted) ? stored.muted.filter(category => category in APP_EVENT_CATEGORIES) : [],
+    };
+  } catch {
+    return { events: [], muted: [] };
+  }
+}
+
+function eventId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+class NotificationCenterStore {
+  private storageKey: string | null = null;
+  private events: AppEvent[] = [];
+  private muted: AppEventCategory[] = [];
+  private toasts: string[] = [];
+  private readonly toastTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private readonly subscribers = new Set<() => void>();
+  private state: NotificationCenterState = { events: [], toasts: [], muted: [], unread: 0 };
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      // Another tab recorded an event or changed the mute settings
+      window.addEventListener('storage', (event) => {
+        if (!this.storageKey || event.key !== this.storageKey) return;
+        const stored = loadStored(this.storageKey);
+        this.events = stored.events;
+        this.muted = stored.muted;
+        this.toasts = this.toasts.filter(id => this.events.some(item => item.id === id));
+        this.publish();
+      });
+    }
+  }
+
+  /**
+   * Switch to the signed-in user's history and mute settings (null: signed out,
+   * nothing is persisted)
+   */
+  setUser(userId: string | null) {
+    const key = userId ? STORAGE_PREFIX + userId : null;
+    if (key === this.storageKey) return;
+    this.storageKey = key;
+    const stored = loadStored(key);
+    this.events = stored.events;
+    this.muted = stored.muted;
+    this.toastTimers.forEach(timer => clearTimeout(timer));
+    this.toastTimers.clear();
+    this.toasts = [];
+    this.publish();
+  }
+
+  notify(options: NotifyOptions): string {
+    const now = Date.now();
+    const { id } = options;
+    if (id) {
+      const recorded = this.events.find(item => item.id === id || item.groupedIds?.includes(id));
+      if (recorded) return recorded.id;
+    }
+
+    const groupKey = options.groupKey ?? `${options.category}:${options.title}`;
+    const existing = this.events.find(item =>
+      item.groupKey === groupKey && !item.read && now - item.updatedAt < GROUP_WINDOW_MS
+    );
+    let event: AppEvent;
+    if (existing) {
+      event = {
+        ...existing,
+        severity: options.severity,
+        title: options.title,
+        message: options.message,
+        count: existing.count + 1,
+        ...(id ? { groupedIds: [...(existing.groupedIds ?? []), id] } : {}),
+        updatedAt: now,
+      };
+      this.events = [event, ...this.events.filter(item => item.id !== existing.id)];
+    } else {
+      event = {
+        id: options.id ?? eventId(),
+        severity: options.severity,
+        category: options.category,
+        title: options.title,
+        message: options.message,
+        groupKey,
+        count: 1,
+        createdAt: now,
+        updatedAt: now,
+        read: false,
+      };
+      this.events = [event, ...this.events].slice(0, MAX_EVENTS);
+    }
+
+    if (!options.silent && !this.muted.includes(options.category)) {
+      this.showToast(event);
+    }
+    this.persist();
+    this.publish();
+    return event.id;
+  }
+
+  dismissToast(id: string) {
+    clearTimeout(this.toastTimers.get(id));
+    this.toastTimers.delete(id);
+    if (!this.toasts.includes(id)) return;
+    this.toasts = this.toasts.filter(toastId => toastId !== id);
+    this.publish();
+  }
+
+  markAllRead() {
+    if (this.events.every(item => item.read)) return;
+    this.events = this.events.map(item => (item.read ? item : { ...item, read: true }));
+    this.persist();
+    this.publish();
+  }
+
+  clear() {
+    this.events = [];
+    this.toasts.forEach(id => clearTimeout(this.toastTimers.get(id)));
+    this.toastTimers.clear();
+    this.toasts = [];
+    this.persist();
+    this.publish();
+  }
+
+  setMuted(category: AppEventCategory, muted: boolean) {
+    this.muted = muted
+      ? [...new Set([...this.muted, category])]
+      : this.muted.filter(item => item !== category);
+    this.persist();
+    this.publish();
+  }
+
+  getState(): NotificationCenterState {
+    return this.state;
+  }
+
+  subscribe(callback: () => void): () => void {
+    this.subscribers.add(callback);
+    return () => {
+      this.subscribers.delete(callback);
+    };
+  }
+
+  // A grouped event moves its toast to the end and restarts the timer
+  private showToast(event: AppEvent) {
+    clearTimeout(this.toastTimers.get(event.id));
+    this.toasts = [...this.toasts.filter(id => id !== event.id), event.id];
+    // Oldest toasts make way when too many arrive at once
+    this.toasts.slice(0, Math.max(0, this.toasts.length - MAX_TOASTS)).forEach(id => {
+      clearTimeout(this.toastTimers.get(id));
+      this.toastTimers.delete(id);
+    });
+    this.toasts = this.toasts.slice(-MAX_TOASTS);
+    this.toastTimers.set(event.id, setTimeout(() => this.dismissToast(event.id), TOAST_DURATION_MS[event.severity]));
+  }
+
+  private persist() {
+    if (!this.storageKey) return;
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify({ events: this.events, muted: this.muted }));
+    } catch {
+      // Storage full or disabled: the history then only lasts for this page
+    }
+  }
+
+  // Replaced on every change, so React can compare snapshots by reference
+  private publish() {
+    this.state = {
+      events: this.events,
+      toasts: this.toasts,
+      muted: this.muted,
+      unread: this.events.filter(item => !item.read).length,
+    };
+    this.subscribers.forEach(callback => callback());
+  }
+}
+
+export const notificationCenter = new NotificationCenterStore();
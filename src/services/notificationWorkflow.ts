@@ -0,0 +1,168 @@
+import type { AuthUser } from './auth';
+import type { FirestoreDocument } from './firestore';
+import type {
+  NotificationAuditEntry,
+  NotificationDoc,
+  NotificationPerson,
+  NotificationSeverity,
+} from './firestoreSchemas';
+
+/**
+ * Faculty workflow on safety notifications: acknowledge, assign, comment, resolve
+ * (and reopen a notification resolved by mistake).
+ *
+ * planNotificationAction checks an action against the notification's current state
+ * and works out the field changes plus the audit trail entry; FirestoreService (and
+ * the mock) apply them together, stamping the `*_at` fields with the write time.
+ */
+
+export type NotificationAction =
+  | { type: 'acknowledge' }
+  /** null clears the assignment */
+  | { type: 'assign'; assignee: NotificationPerson | null }
+  | { type: 'comment'; text: string }
+  | { type: 'resolve'; resolution?: string }
+  | { type: 'reopen' };
+
+export interface NotificationChange {
+  /** Fields to update on the notification */
+  fields: Record<string, unknown>;
+  /** Fields (on the notification) to set to the write time */
+  timestampFields: string[];
+  /** Audit trail entry, without its `at` time */
+  entry: Omit<NotificationAuditEntry, 'at'>;
+}
+
+/**
+ * The action isn't allowed in the notification's current state (or is empty)
+ */
+export class NotificationActionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotificationActionError';
+  }
+}
+
+const MAX_COMMENT_LENGTH = 2000;
+
+export function actorFromUser(user: AuthUser): NotificationPerson {
+  return { uid: user.uid, name: user.displayName || user.email || user.uid };
+}
+
+export function planNotificationAction(
+  current: NotificationDoc,
+  action: NotificationAction,
+  actor: NotificationPerson
+): NotificationChange {
+  switch (action.type) {
+    case 'acknowledge':
+      if (current.status !== 'open') {
+        throw new NotificationActionError(`This notification is already ${current.status}.`);
+      }
+      return {
+        fields: { status: 'acknowledged', acknowledged_by: actor },
+        timestampFields: ['acknowledged_at', 'updated_at'],
+        entry: { action: 'acknowledged', actor },
+      };
+
+    case 'assign':
+      if (current.status === 'resolved') {
+        throw new NotificationActionError('Reopen the notification before reassigning it.');
+      }
+      return {
+        fields: { assigned_to: action.assignee },
+        timestampFields: ['updated_at'],
+        entry: action.assignee
+          ? { action: 'assigned', actor, assignee: action.assignee }
+          : { action: 'unassigned', actor },
+      };
+
+    case 'comment': {
+      const text = action.text.trim();
+      if (!text) {
+        throw new NotificationActionError('Comments cannot be empty.');
+      }
+      if (text.length > MAX_COMMENT_LENGTH) {
+        throw new NotificationActionError(`Comments are limited to ${MAX_COMMENT_LENGTH} characters.`);
+      }
+      return {
+        fields: { comment_count: current.comment_count + 1 },
+        timestampFields: ['updated_at'],
+        entry: { action: 'commented', actor, comment: text },
+      };
+    }
+
+    case 'resolve': {
+      if (current.status === 'resolved') {
+        throw new NotificationActionError('This notification is already resolved.');
+      }
+      const resolution = action.resolution?.trim() || null;
+      return {
+        // Resolving implies acknowledging, so keep who first saw it when they did
+        fields: {
+          status: 'resolved',
+          resolved_by: actor,
+          resolution,
+          ...(current.acknowledged_by ? {} : { acknowledged_by: actor }),
+        },
+        timestampFields: current.acknowledged_at ? ['resolved_at', 'updated_at'] : ['resolved_at', 'acknowledged_at', 'updated_at'],
+        entry: resolution ? { action: 'resolved', actor, comment: resolution } : { action: 'resolved', actor },
+      };
+    }
+
+    case 'reopen':
+      if (current.status !== 'resolved') {
+        throw new NotificationActionError('Only resolved notifications can be reopened.');
+      }
+      return {
+        fields: {
+          status: current.acknowledged_by ? 'acknowledged' : 'open',
+          resolved_by: null,
+          resolved_at: null,
+          resolution: null,
+        },
+        timestampFields: ['updated_at'],
+        entry: { action: 'reopened', actor },
+      };
+  }
+}
+
+export function isOpenNotification(notification: NotificationDoc): boolean {
+  return notification.status !== 'resolved';
+}
+
+export type NotificationSort = 'severity' | 'newest' | 'oldest';
+
+/**
+ * Most severe first
+ */
+export const SEVERITY_RANK: Record<NotificationSeverity, number> = { critical: 0, high: 1, moderate: 2 };
+
+/**
+ * Inbox order: most severe first (newest first within a severity), or by age.
+ * Pinned notifications (see escalationRules) come first whatever the order.
+ */
+export function sortNotifications(
+  notifications: FirestoreDocument<NotificationDoc>[],
+  sort: NotificationSort,
+  pinnedIds: ReadonlySet<string> = new Set()
+): FirestoreDocument<NotificationDoc>[] {
+  const age = (notification: FirestoreDocument<NotificationDoc>) => notification.createdAt?.getTime() ?? 0;
+  return [...notifications].sort((a, b) => {
+    const byPin = Number(pinnedIds.has(b.id)) - Number(pinnedIds.has(a.id));
+    if (byPin !== 0) return byPin;
+    if (sort === 'oldest') return age(a) - age(b);
+    if (sort === 'severity') {
+      const bySeverity = SEVERITY_RANK[a.data.severity] - SEVERITY_RANK[b.data.severity];
+      if (bySeverity !== 0) return bySeverity;
+    }
+    return age(b) - age(a);
+  });
+}
+
+/**
+ * Subcollection holding a notification's audit trail
+ */
+export function notificationAuditPath(notificationId: string): string {
+  return `agent_notifications/${notificationId}/audit_trail`;
+}
@@ -0,0 +1,121 @@
+import { FirestoreService, pageCursorAfter, type FirestoreDocument, type PageCursor } from './firestore';
+import type { CollectionDocTypes, TypedCollection } from './firestoreSchemas';
+
+/**
+ * "Load more" history over a typed collection. The newest page stays live through
+ * a snapshot listener; older pages are fetched once with cursor pagination and
+ * listed below it.
+ */
+
+export interface PagedCollectionState<T> {
+  /** Live first page followed by the older pages loaded so far, newest first */
+  documents: FirestoreDocument<T>[];
+  /** False until the live first page has arrived */
+  loaded: boolean;
+  hasMore: boolean;
+  loadingMore: boolean;
+  error: Error | null;
+}
+
+export interface PagedCollection {
+  loadMore(): Promise<void>;
+  unsubscribe(): void;
+}
+
+export function emptyPagedState<T>(): PagedCollectionState<T> {
+  return { documents: [], loaded: false, hasMore: false, loadingMore: false, error: null };
+}
+
+// Same order as the paged queries: created_at desc, then document id desc
+function compareDocuments(a: FirestoreDocument<unknown>, b: FirestoreDocument<unknown>): number {
+  const byDate = (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0);
+  if (byDate !== 0) return byDate;
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+}
+
+export function watchPagedCollection<K extends TypedCollection>(
+  collectionName: K,
+  pageSize: number,
+  onChange: (state: PagedCollectionState<CollectionDocTypes[K]>) => void
+): PagedCollection {
+  type Doc = FirestoreDocument<CollectionDocTypes[K]>;
+
+  let livePage: Doc[] = [];
+  // Documents that newer ones pushed out of the live page after older pages were
+  // loaded; without these they would fall into the gap between the two
+  let retained: Doc[] = [];
+  let olderPages: Doc[] = [];
+  let olderLoaded = false;
+  let olderCursor: PageCursor | null = null;
+  let olderHasMore = false;
+  let loaded = false;
+  let loadingMore = false;
+  let error: Error | null = null;
+  let stopped = false;
+
+  const hasMore = () => (olderLoaded ? olderHasMore : livePage.length >= pageSize);
+
+  const emit = () => {
+    if (stopped) return;
+    const seen = new Set<string>();
+    const documents = [...livePage, ...retained, ...olderPages].filter((document) => {
+      if (seen.has(document.id)) return false;
+      seen.add(document.id);
+      return true;
+    });
+    onChange({ documents, loaded, hasMore: hasMore(), loadingMore, error });
+  };
+
+  // Shared, so the live page is reused by anything else watching the same query
+  const unsubscribeLive = FirestoreService.watchCollection(
+    collectionName,
+    (documents) => {
+      if (olderLoaded && documents.length > 0) {
+        const oldestLive = documents[documents.length - 1];
+        const liveIds = new Set(documents.map(document => document.id));
+        const pushedOut = livePage.filter(
+          document => !liveIds.has(document.id) && compareDocuments(document, oldestLive) > 0
+        );
+        retained = [...retained.filter(document => !liveIds.has(document.id)), ...pushedOut].sort(compareDocuments);
+      }
+      livePage = documents;
+      loaded = true;
+      error = null;
+      emit();
+    },
+    (listenError) => {
+      error = listenError;
+      loaded = true;
+      emit();
+    },
+    { limitCount: pageSize, orderByCreatedAt: true }
+  );
+
+  return {
+    async loadMore() {
+      if (stopped || loadingMore || !hasMore()) return;
+
+      const after = olderLoaded ? olderCursor : pageCursorAfter([...livePage, ...retained]);
+      loadingMore = true;
+      emit();
+      try {
+        const page = await FirestoreService.getPage(collectionName, pageSize, after);
+        olderPages = [...olderPages, ...page.documents];
+        olderCursor = page.cursor;
+        olderHasMore = page.hasMore;
+        olderLoaded = true;
+        error = null;
+      } catch (loadError) {
+        error = loadError instanceof Error ? loadError : new Error(String(loadError));
+      } finally {
+        loadingMore = false;
+        emit();
+      }
+    },
+
+    unsubscribe() {
+      stopped = true;
+      unsubscribeLive();
+    },
+  };
+}
@@ -0,0 +1,392 @@
+import { agentStateEntry, type AgentStateEntry, type AgentStatesDoc } from './firestoreSchemas';
+import { agentStatePrefix } from './agentRegistry';
+import { runPhase } from './runHistory';
+import { notificationCenter } from './notificationCenter';
+import { TAB_ID } from './runOrigin';
+import {
+  blockedSteps,
+  createPipelineRun,
+  defaultPipeline,
+  isStepActive,
+  readySteps,
+  resumePipelineRun,
+  validatePipeline,
+  type PipelineDefinition,
+  type PipelineRun,
+  type StepRun,
+} from './agentPipeline';
+
+/**
+ * Runs agent pipelines (see services/agentPipeline) from this tab. A step is
+ * started through the same path as a manual run from its card; it ends when
+ * the agent's `all_states` entry reports a run ending after the step started.
+ *
+ * Pipelines and the last run are kept in localStorage per user. One pipeline
+ * runs at a time, driven by the tab that started it: that tab stamps a
+ * heartbeat next to the run, and other tabs only follow it through `storage`
+ * events (they can still halt it). A run whose tab was closed or reloaded comes
+ * back halted: steps already running are still followed to the end, and the run
+ * can be resumed from there.
+ */
+
+/**
+ * Starts one agent as a manual run; resolves to whether the backend accepted it
+ */
+export type PipelineStepStarter = (agent: string) => Promise<boolean>;
+
+export interface PipelineRunnerState {
+  pipelines: PipelineDefinition[];
+  run: PipelineRun | null;
+  /** The run is driven by another open tab */
+  runningElsewhere: boolean;
+}
+
+/**
+ * Tab driving a running run, and when it last said it still is
+ */
+interface RunOwner {
+  tab: string;
+  heartbeatAt: number;
+}
+
+interface StoredPipelines {
+  pipelines: PipelineDefinition[];
+  run: PipelineRun | null;
+  owner: RunOwner | null;
+}
+
+const STORAGE_PREFIX = 'precepgo:pipelines:';
+
+const HEARTBEAT_MS = 10 * 1000;
+// Browsers slow timers in background tabs down to about once a minute, so an
+// owner is only given up on well after that; closing or reloading it releases
+// the run right away
+const OWNER_TIMEOUT_MS = 150 * 1000;
+
+function loadStored(key: string | null): StoredPipelines {
+  const fallback = { pipelines: [defaultPipeline()], run: null, owner: null };
+  if (!key) return fallback;
+  try {
+    const raw = localStorage.getItem(key);
+    if (!raw) return fallback;
+    const stored = JSON.parse(raw) as Partial<StoredPipelines>;
+    return {
+      pipelines: Array.isArray(stored.pipelines) ? stored.pipelines : fallback.pipelines,
+      run: stored.run ?? null,
+      owner: stored.owner ?? null,
+    };
+  } catch {
+    return fallback;
+  }
+}
+
+function ownerGone(owner: RunOwner | null, now: number = Date.now()): boolean {
+  return !owner || now - owner.heartbeatAt > OWNER_TIMEOUT_MS;
+}
+
+function interrupted(run: PipelineRun): PipelineRun {
+  return { ...run, status: 'halted', haltReason: 'Interrupted when the page was closed or reloaded' };
+}
+
+// When the agent's latest run ended, as recorded in all_states
+function lastRunEnd(entry: AgentStateEntry): number {
+  return Math.max(entry.last_activity?.getTime() ?? 0, entry.last_error?.timestamp?.getTime() ?? 0);
+}
+
+class PipelineRunner {
+  private storageKey: string | null = null;
+  private pipelines: PipelineDefinition[] = [defaultPipeline()];
+  private run: PipelineRun | null = null;
+  private owner: RunOwner | null = null;
+  private starter: PipelineStepStarter | null = null;
+  private allStates: AgentStatesDoc | null = null;
+  private readonly subscribers = new Set<() => void>();
+  private state: PipelineRunnerState = { pipelines: this.pipelines, run: null, runningElsewhere: false };
+
+  constructor() {
+    if (typeof window === 'undefined') return;
+    window.addEventListener('storage', event => {
+      if (this.storageKey && event.key === this.storageKey) this.syncFromStorage();
+    });
+    window.addEventListener('pagehide', () => this.release());
+    setInterval(() => this.heartbeat(), HEARTBEAT_MS);
+  }
+
+  /**
+   * Switch to the signed-in user's pipelines (null: signed out, nothing is persisted)
+   */
+  setUser(userId: string | null) {
+    const key = userId ? STORAGE_PREFIX + userId : null;
+    if (key === this.storageKey) return;
+    this.storageKey = key;
+    const stored = loadStored(key);
+    this.pipelines = stored.pipelines;
+    // Left as stored: the halt is only written once something else changes
+    this.run = stored.run?.status === 'running' && ownerGone(stored.owner) ? interrupted(stored.run) : stored.run;
+    this.owner = this.run?.status === 'running' ? stored.owner : null;
+    this.publish();
+  }
+
+  /**
+   * How steps are started; the dashboard registers its manual run path
+   */
+  setStarter(starter: PipelineStepStarter | null) {
+    this.starter = starter;
+  }
+
+  savePipeline(pipeline: PipelineDefinition) {
+    const exists = this.pipelines.some(item => item.id === pipeline.id);
+    this.pipelines = exists
+      ? this.pipelines.map(item => (item.id === pipeline.id ? pipeline : item))
+      : [...this.pipelines, pipeline];
+    this.persist();
+    this.publish();
+  }
+
+  deletePipeline(pipelineId: string) {
+    if (this.run?.pipelineId === pipelineId && this.run.status === 'running') return;
+    this.pipelines = this.pipelines.filter(item => item.id !== pipelineId);
+    if (this.run?.pipelineId === pipelineId) this.run = null;
+    this.persist();
+    this.publish();
+  }
+
+  /**
+   * Start a pipeline from its first steps; ignored while another one is running
+   */
+  start(pipelineId: string) {
+    const pipeline = this.pipelines.find(item => item.id === pipelineId);
+    if (!pipeline || this.run?.status === 'running' || validatePipeline(pipeline).length > 0) return;
+    this.run = createPipelineRun(pipeline);
+    this.owner = { tab: TAB_ID, heartbeatAt: Date.now() };
+    this.advance();
+  }
+
+  /**
+   * Stop starting further steps; steps already running finish on their own. Works
+   * from any tab: the driving tab picks the halt up from storage.
+   */
+  halt() {
+    if (this.run?.status !== 'running') return;
+    this.run = { ...this.run, status: 'halted', haltReason: 'Halted from the dashboard' };
+    this.owner = null;
+    this.persist();
+    this.publish();
+  }
+
+  /**
+   * Carry on a halted or failed run from its failed and waiting steps
+   */
+  resume() {
+    if (!this.run || this.run.status === 'running' || this.run.status === 'succeeded') return;
+    const pipeline = this.pipelines.find(item => item.id === this.run?.pipelineId);
+    if (!pipeline || validatePipeline(pipeline).length > 0) return;
+    // Steps added to the pipeline since the run started join it
+    const resumed = resumePipelineRun(this.run);
+    pipeline.steps.forEach(step => {
+      resumed.steps[step.id] ??= { status: 'pending' };
+    });
+    this.run = resumed;
+    this.owner = { tab: TAB_ID, heartbeatAt: Date.now() };
+    this.advance();
+  }
+
+  /**
+   * Forget the last run once it is no longer running
+   */
+  dismiss() {
+    if (!this.run || this.run.status === 'running') return;
+    this.run = null;
+    this.persist();
+    this.publish();
+  }
+
+  /**
+   * Follow the steps in progress through the latest all_states snapshot
+   */
+  observe(allStates: AgentStatesDoc) {
+    this.allStates = allStates;
+    const run = this.run;
+    const pipeline = this.pipelines.find(item => item.id === run?.pipelineId);
+    if (!run || !pipeline || this.runningElsewhere()) return;
+
+    let changed = false;
+    const steps = { ...run.steps };
+    pipeline.steps.forEach(step => {
+      const stepRun = steps[step.id];
+      if (!isStepActive(stepRun)) return;
+      const entry = agentStateEntry(allStates, agentStatePrefix(step.agent));
+      const phase = runPhase(entry);
+      const ended = lastRunEnd(entry) > (stepRun.previousEnd ?? 0);
+      if (phase === 'active' && stepRun.status === 'starting') {
+        steps[step.id] = { ...stepRun, status: 'running' };
+        changed = true;
+      } else if ((phase === 'succeeded' || phase === 'failed') && (ended || stepRun.status === 'running')) {
+        steps[step.id] = phase === 'failed'
+          ? { ...stepRun, status: 'failed', endedAt: Date.now(), error: entry.last_error?.message ?? 'The agent reported an error' }
+          : { ...stepRun, status: 'succeeded', endedAt: Date.now() };
+        changed = true;
+      }
+    });
+    if (!changed) return;
+    this.run = { ...run, steps };
+    this.advance();
+  }
+
+  getState(): PipelineRunnerState {
+    return this.state;
+  }
+
+  subscribe(callback: () => void): () => void {
+    this.subscribers.add(callback);
+    return () => {
+      this.subscribers.delete(callback);
+    };
+  }
+
+  private drivesRun(): boolean {
+    return this.run?.status === 'running' && this.owner?.tab === TAB_ID;
+  }
+
+  private runningElsewhere(): boolean {
+    return this.run?.status === 'running' && this.owner?.tab !== TAB_ID;
+  }
+
+  // Another tab changed the stored pipelines or run
+  private syncFromStorage() {
+    const stored = loadStored(this.storageKey);
+    this.pipelines = stored.pipelines;
+    // This tab keeps driving its run unless another tab halted it or took it over
+    const keepOwnRun = this.drivesRun() && stored.run?.status === 'running' && stored.owner?.tab === TAB_ID;
+    if (!keepOwnRun) {
+      this.run = stored.run;
+      this.owner = stored.run?.status === 'running' ? stored.owner : null;
+    }
+    this.publish();
+  }
+
+  // The driving tab says it is still there; the others take over a run whose tab went away
+  private heartbeat() {
+    const run = this.run;
+    if (run?.status !== 'running') return;
+    if (this.drivesRun()) {
+      // Halted or taken over while this page was suspended
+      if (this.storageKey && loadStored(this.storageKey).owner?.tab !== TAB_ID) {
+        this.syncFromStorage();
+        return;
+      }
+      this.owner = { tab: TAB_ID, heartbeatAt: Date.now() };
+      this.persist();
+    } else if (ownerGone(this.owner)) {
+      this.run = interrupted(run);
+      this.owner = null;
+      this.persist();
+      this.publish();
+    }
+  }
+
+  // The page is closing or reloading: other tabs can mark the run interrupted straight away
+  private release() {
+    if (!this.drivesRun() || !this.owner) return;
+    this.owner = { ...this.owner, heartbeatAt: 0 };
+    this.persist();
+  }
+
+  // Start whatever is ready, and settle the run once nothing more can happen
+  private advance() {
+    const run = this.run;
+    const pipeline = this.pipelines.find(item => item.id === run?.pipelineId);
+    if (!run || !pipeline) return;
+
+    if (run.status === 'running') {
+      const failed = pipeline.steps.find(step => run.steps[step.id]?.status === 'failed');
+      if (failed && pipeline.halt_on_failure) {
+        this.finish({ ...run, status: 'halted', haltReason: `A step failed: ${run.steps[failed.id].error ?? 'unknown error'}` });
+        return;
+      }
+      const steps = { ...run.steps };
+      blockedSteps(pipeline, run).forEach(step => {
+        steps[step.id] = { status: 'skipped', error: 'A step it depends on failed' };
+      });
+      this.run = { ...run, steps };
+      readySteps(pipeline, this.run).forEach(step => this.startStep(step.id, step.agent));
+
+      const current = this.run;
+      const statuses = pipeline.steps.map(step => current.steps[step.id]?.status);
+      if (statuses.every(status => status === 'succeeded' || status === 'failed' || status === 'skipped')) {
+        this.finish({ ...current, status: statuses.every(status => status === 'succeeded') ? 'succeeded' : 'failed' });
+        return;
+      }
+    }
+    this.persist();
+    this.publish();
+  }
+
+  private startStep(stepId: string, agent: string) {
+    if (!this.run) return;
+    const entry = this.allStates ? agentStateEntry(this.allStates, agentStatePrefix(agent)) : null;
+    const stepRun: StepRun = {
+      status: 'starting',
+      startedAt: Date.now(),
+      // Without a snapshot yet, only runs ending from now on count
+      previousEnd: entry ? lastRunEnd(entry) : Date.now(),
+    };
+    this.run = { ...this.run, steps: { ...this.run.steps, [stepId]: stepRun } };
+    const runStartedAt = this.run.startedAt;
+
+    const starter = this.starter;
+    const started = starter ? starter(agent) : Promise.resolve(false);
+    started
+      .catch(() => false)
+      .then(accepted => {
+        // The run may have been dismissed or restarted meanwhile
+        if (accepted || this.run?.startedAt !== runStartedAt || this.run.steps[stepId]?.status !== 'starting') return;
+        this.run = {
+          ...this.run,
+          steps: {
+            ...this.run.steps,
+            [stepId]: { ...this.run.steps[stepId], status: 'failed', endedAt: Date.now(), error: 'The run could not be started' },
+          },
+        };
+        this.advance();
+      });
+  }
+
+  private finish(run: PipelineRun) {
+    this.run = { ...run, endedAt: Date.now() };
+    if (run.status === 'succeeded') {
+      notificationCenter.notify({ severity: 'success', category: 'agent_runs', title: `Pipeline "${run.name}" completed` });
+    } else {
+      notificationCenter.notify({
+        severity: run.status === 'halted' ? 'error' : 'warning',
+        category: 'agent_runs',
+        title: run.status === 'halted' ? `Pipeline "${run.name}" halted` : `Pipeline "${run.name}" completed with failures`,
+        message: run.haltReason,
+      });
+    }
+    this.persist();
+    this.publish();
+  }
+
+  private persist() {
+    if (!this.storageKey) return;
+    try {
+      const stored: StoredPipelines = {
+        pipelines: this.pipelines,
+        run: this.run,
+        owner: this.run?.status === 'running' ? this.owner : null,
+      };
+      localStorage.setItem(this.storageKey, JSON.stringify(stored));
+    } catch {
+      // Storage full or disabled: pipelines then only last for this page
+    }
+  }
+
+  // Replaced on every change, so React can compare snapshots by reference
+  private publish() {
+    this.state = { pipelines: this.pipelines, run: this.run, runningElsewhere: this.runningElsewhere() };
+    this.subscribers.forEach(callback => callback());
+  }
+}
+
+export const pipelineRunner = new PipelineRunner();
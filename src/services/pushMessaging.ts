@@ -0,0 +1,27 @@
+import { deleteToken, getMessaging, getToken, isSupported } from 'firebase/messaging';
+import app from '../config/firebase';
+import { isMockMode } from '../config/dataMode';
+import { firebaseVapidKey } from '../config/firebaseConfig';
+import { FirestoreService } from './firestore';
+import type { DesktopCategory } from './desktopNotifications';
+
+/**
+ * Register this browser for Firebase Cloud Messaging with the categories the user
+ * wants pushed, or unregister it when there are none. Does nothing without
+ * VITE_FIREBASE_VAPID_KEY, in mock mode, or where the browser has no push support.
+ */
+export async function syncPushSubscription(userId: string, categories: DesktopCategory[]): Promise<void> {
+  if (isMockMode || !firebaseVapidKey || !(await isSupported())) return;
+
+  const messaging = getMessaging(app);
+  const serviceWorkerRegistration = await navigator.serviceWorker.ready;
+  const token = await getToken(messaging, { vapidKey: firebaseVapidKey, serviceWorkerRegistration });
+  if (categories.length > 0) {
+    await FirestoreService.savePushToken(userId, token, categories);
+    console.log(`[Push] 📬 Registered for push: ${categories.join(', ')}`);
+  } else {
+    await FirestoreService.deletePushToken(userId, token);
+    await deleteToken(messaging);
+    console.log('[Push] 📭 Unregistered from push');
+  }
+}
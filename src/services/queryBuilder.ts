@@ -0,0 +1,349 @@
+/**
+ * Composable, typed queries over the filterable agent collections.
+ *
+ * A builder only records filters over the known fields below; FirestoreService
+ * translates the built query into `where`/`orderBy` clauses (mock mode evaluates
+ * it in memory with matchesQuery), and requiredIndexes() lists the composite
+ * indexes Firestore needs before it will run the combination.
+ */
+
+import { toDate, type NotificationSeverity, type RunOutcome, type RunTrigger } from './firestoreSchemas';
+
+type FieldKind = 'string' | 'number' | 'boolean' | 'date' | 'array';
+
+/**
+ * Fields each collection can be filtered on, by how they are compared
+ */
+export const queryableFields = {
+  agent_evaluations: {
+    preceptee_user_id: 'string',
+    preceptee_user_name: 'string',
+    preceptor_name: 'string',
+    case_type: 'string',
+    class_standing: 'number',
+    completed: 'boolean',
+    created_at: 'date',
+    request_date: 'date',
+    completion_date: 'date',
+  },
+  agent_notifications: {
+    evaluation_doc_id: 'string',
+    preceptee_name: 'string',
+    preceptor_name: 'string',
+    case_type: 'string',
+    severity: 'string',
+    negative_fields: 'array',
+    created_at: 'date',
+    evaluation_timestamp: 'date',
+    notification_sent_at: 'date',
+  },
+  agent_runs: {
+    agent: 'string',
+    trigger: 'string',
+    outcome: 'string',
+    started_at: 'date',
+  },
+} as const satisfies Record<string, Record<string, FieldKind>>;
+
+export type QueryableCollection = keyof typeof queryableFields;
+
+type FieldKinds<K extends QueryableCollection> = (typeof queryableFields)[K];
+type FieldsOfKind<K extends QueryableCollection, Kind extends FieldKind> = {
+  [F in keyof FieldKinds<K>]: FieldKinds<K>[F] extends Kind ? F : never;
+}[keyof FieldKinds<K>] & string;
+
+/** Fields compared with == and `in` */
+export type EqualityField<K extends QueryableCollection> = FieldsOfKind<K, 'string' | 'number' | 'boolean'>;
+/** Date fields, filtered by range and used to order the results */
+export type DateField<K extends QueryableCollection> = FieldsOfKind<K, 'date'>;
+/** Array fields, filtered with array-contains(-any) */
+export type ArrayField<K extends QueryableCollection> = FieldsOfKind<K, 'array'>;
+
+type ScalarValue<Kind> = Kind extends 'number' ? number : Kind extends 'boolean' ? boolean : string;
+type EqualityValue<K extends QueryableCollection, F extends EqualityField<K>> = ScalarValue<FieldKinds<K>[F]>;
+
+export type FilterOperator = '==' | 'in' | 'array-contains' | 'array-contains-any' | '>=' | '<=';
+
+export interface QueryFilter {
+  field: string;
+  op: FilterOperator;
+  value: string | number | boolean | Date | Array<string | number | boolean>;
+}
+
+export interface CollectionQuery<K extends QueryableCollection = QueryableCollection> {
+  collectionName: K;
+  filters: QueryFilter[];
+  /** Results are ordered by this date field, newest first (document id breaks ties) */
+  orderField: DateField<K>;
+  limitCount?: number;
+}
+
+/**
+ * A field of a composite index, in the shape used by firestore.indexes.json
+ */
+export type IndexField =
+  | { fieldPath: string; order: 'ASCENDING' | 'DESCENDING' }
+  | { fieldPath: string; arrayConfig: 'CONTAINS' };
+
+export interface CompositeIndex {
+  collectionGroup: string;
+  queryScope: 'COLLECTION';
+  fields: IndexField[];
+}
+
+/**
+ * A filter combination Firestore would reject, caught before the query is sent
+ */
+export class InvalidQueryError extends Error {
+  readonly collectionName: string;
+
+  constructor(collectionName: string, message: string) {
+    super(`Invalid query on ${collectionName}: ${message}`);
+    this.name = 'InvalidQueryError';
+    this.collectionName = collectionName;
+  }
+}
+
+// Firestore's limit on the alternatives `in` / `array-contains-any` filters expand to
+const MAX_DISJUNCTION_VALUES = 30;
+
+const ARRAY_OPERATORS: FilterOperator[] = ['array-contains', 'array-contains-any'];
+const RANGE_OPERATORS: FilterOperator[] = ['>=', '<='];
+
+/**
+ * Immutable builder: every method returns a new builder, so a base query can be
+ * shared and narrowed in several directions
+ */
+export class CollectionQueryBuilder<K extends QueryableCollection> {
+  readonly collectionName: K;
+  private readonly filters: QueryFilter[];
+  private readonly orderField: DateField<K>;
+  private readonly limitCount?: number;
+
+  constructor(collectionName: K, filters: QueryFilter[] = [], orderField?: DateField<K>, limitCount?: number) {
+    this.collectionName = collectionName;
+    this.filters = filters;
+    this.orderField = orderField ?? ('created_at' as DateField<K>);
+    this.limitCount = limitCount;
+  }
+
+  private with(filter: QueryFilter): CollectionQueryBuilder<K> {
+    return new CollectionQueryBuilder(this.collectionName, [...this.filters, filter], this.orderField, this.limitCount);
+  }
+
+  where<F extends EqualityField<K>>(field: F, value: EqualityValue<K, F>): CollectionQueryBuilder<K> {
+    return this.with({ field, op: '==', value });
+  }
+
+  /** Matches any of the values; a single value becomes an == filter */
+  whereIn<F extends EqualityField<K>>(field: F, values: EqualityValue<K, F>[]): CollectionQueryBuilder<K> {
+    if (values.length === 1) return this.where(field, values[0]);
+    return this.with({ field, op: 'in', value: values });
+  }
+
+  arrayContains(field: ArrayField<K>, value: string): CollectionQueryBuilder<K> {
+    return this.with({ field, op: 'array-contains', value });
+  }
+
+  arrayContainsAny(field: ArrayField<K>, values: string[]): CollectionQueryBuilder<K> {
+    if (values.length === 1) return this.arrayContains(field, values[0]);
+    return this.with({ field, op: 'array-contains-any', value: values });
+  }
+
+  /**
+   * Inclusive date range; either end may be left open. Results are then ordered
+   * by this field, since Firestore orders by the range field first.
+   */
+  between(field: DateField<K>, from?: Date, to?: Date): CollectionQueryBuilder<K> {
+    let filters = this.filters;
+    if (from) filters = [...filters, { field, op: '>=', value: from }];
+    if (to) filters = [...filters, { field, op: '<=', value: to }];
+    return new CollectionQueryBuilder(this.collectionName, filters, field, this.limitCount);
+  }
+
+  orderBy(field: DateField<K>): CollectionQueryBuilder<K> {
+    return new CollectionQueryBuilder(this.collectionName, this.filters, field, this.limitCount);
+  }
+
+  limit(limitCount: number): CollectionQueryBuilder<K> {
+    return new CollectionQueryBuilder(this.collectionName, this.filters, this.orderField, limitCount);
+  }
+
+  /**
+   * Validate the combination against Firestore's query rules
+   * @throws InvalidQueryError
+   */
+  build(): CollectionQuery<K> {
+    const rangeFields = new Set(this.filters.filter(f => RANGE_OPERATORS.includes(f.op)).map(f => f.field));
+    if (rangeFields.size > 1) {
+      throw new InvalidQueryError(this.collectionName, `date ranges on more than one field (${[...rangeFields].join(', ')})`);
+    }
+    if (rangeFields.size > 0 && !rangeFields.has(this.orderField)) {
+      throw new InvalidQueryError(this.collectionName, `results must be ordered by the range field (${[...rangeFields][0]})`);
+    }
+    if (this.filters.filter(f => ARRAY_OPERATORS.includes(f.op)).length > 1) {
+      throw new InvalidQueryError(this.collectionName, 'only one array-contains filter is allowed per query');
+    }
+    // Firestore expands `in` and array-contains-any into one disjunction per combination
+    const disjunctions = this.filters.reduce((total, f) => total * (Array.isArray(f.value) ? f.value.length : 1), 1);
+    if (disjunctions > MAX_DISJUNCTION_VALUES) {
+      throw new InvalidQueryError(this.collectionName, `the multi-value filters combine into ${disjunctions} alternatives (at most ${MAX_DISJUNCTION_VALUES})`);
+    }
+    const empty = this.filters.find(f => Array.isArray(f.value) && f.value.length === 0);
+    if (empty) {
+      throw new InvalidQueryError(this.collectionName, `no values given for ${empty.field}`);
+    }
+    return {
+      collectionName: this.collectionName,
+      filters: this.filters,
+      orderField: this.orderField,
+      limitCount: this.limitCount,
+    };
+  }
+}
+
+export function queryCollection<K extends QueryableCollection>(collectionName: K): CollectionQueryBuilder<K> {
+  return new CollectionQueryBuilder(collectionName);
+}
+
+/**
+ * Composite indexes the query needs. Filters on the ordered date field alone are
+ * served by the automatic single-field indexes; any other filter combined with
+ * the ordering needs a composite index (equality and `in` fields ascending, the
+ * array field as CONTAINS, then the date field descending).
+ */
+export function requiredIndexes<K extends QueryableCollection>(query: CollectionQuery<K>): CompositeIndex[] {
+  const others = query.filters.filter(f => f.field !== query.orderField);
+  if (others.length === 0) return [];
+
+  const equalityFields = [...new Set(others.filter(f => !ARRAY_OPERATORS.includes(f.op)).map(f => f.field))].sort();
+  const arrayFields = [...new Set(others.filter(f => ARRAY_OPERATORS.includes(f.op)).map(f => f.field))];
+  return [
+    {
+      collectionGroup: query.collectionName,
+      queryScope: 'COLLECTION',
+      fields: [
+        ...equalityFields.map(fieldPath => ({ fieldPath, order: 'ASCENDING' as const })),
+        ...arrayFields.map(fieldPath => ({ fieldPath, arrayConfig: 'CONTAINS' as const })),
+        { fieldPath: query.orderField, order: 'DESCENDING' },
+      ],
+    },
+  ];
+}
+
+/**
+ * e.g. "agent_notifications (severity ASC, negative_fields CONTAINS, created_at DESC)"
+ */
+export function describeIndex(index: CompositeIndex): string {
+  const fields = index.fields.map(field =>
+    'arrayConfig' in field ? `${field.fieldPath} CONTAINS` : `${field.fieldPath} ${field.order === 'ASCENDING' ? 'ASC' : 'DESC'}`
+  );
+  return `${index.collectionGroup} (${fields.join(', ')})`;
+}
+
+/**
+ * Stable key for a built query, used to share its listener
+ */
+export function queryKey<K extends QueryableCollection>(query: CollectionQuery<K>): string {
+  const filters = query.filters.map(({ field, op, value }) => {
+    const shown = value instanceof Date ? value.toISOString() : Array.isArray(value) ? value.join('|') : String(value);
+    return `${field}${op}${shown}`;
+  });
+  const limitPart = query.limitCount !== undefined ? `&limit=${query.limitCount}` : '';
+  return `${query.collectionName}?${filters.join('&')}&order=${query.orderField}${limitPart}`;
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  const left = a instanceof Date ? a.getTime() : a;
+  const right = b instanceof Date ? b.getTime() : b;
+  if (typeof left === 'number' && typeof right === 'number') return left - right;
+  return String(left) < String(right) ? -1 : String(left) > String(right) ? 1 : 0;
+}
+
+/**
+ * In-memory evaluation of a filter against normalised document data, with
+ * Firestore's semantics (a missing field never matches)
+ */
+export function matchesFilter(data: Record<string, unknown>, { field, op, value }: QueryFilter): boolean {
+  const actual = value instanceof Date ? toDate(data[field]) : data[field];
+  if (actual === undefined || actual === null) return false;
+  switch (op) {
+    case '==':
+      return compareValues(actual, value) === 0;
+    case 'in':
+      return (value as unknown[]).some(candidate => compareValues(actual, candidate) === 0);
+    case 'array-contains':
+      return Array.isArray(actual) && actual.includes(value);
+    case 'array-contains-any':
+      return Array.isArray(actual) && (value as unknown[]).some(candidate => actual.includes(candidate));
+    case '>=':
+      return compareValues(actual, value) >= 0;
+    case '<=':
+      return compareValues(actual, value) <= 0;
+  }
+}
+
+export function matchesQuery<K extends QueryableCollection>(data: Record<string, unknown>, query: CollectionQuery<K>): boolean {
+  // Ordering by a field drops documents that don't have it
+  return toDate(data[query.orderField]) !== undefined && query.filters.every(filter => matchesFilter(data, filter));
+}
+
+// ─── Faculty filters ───────────────────────────────────────────────────────────
+
+export interface EvaluationFilters {
+  studentId?: string;
+  preceptorName?: string;
+  caseTypes?: string[];
+  classStandings?: number[];
+  /** Inclusive created_at range */
+  from?: Date;
+  to?: Date;
+}
+
+export function evaluationsQuery(filters: EvaluationFilters, limitCount?: number): CollectionQuery<'agent_evaluations'> {
+  let builder = queryCollection('agent_evaluations');
+  if (filters.studentId) builder = builder.where('preceptee_user_id', filters.studentId);
+  if (filters.preceptorName) builder = builder.where('preceptor_name', filters.preceptorName);
+  if (filters.caseTypes?.length) builder = builder.whereIn('case_type', filters.caseTypes);
+  if (filters.classStandings?.length) builder = builder.whereIn('class_standing', filters.classStandings);
+  if (filters.from || filters.to) builder = builder.between('created_at', filters.from, filters.to);
+  if (limitCount !== undefined) builder = builder.limit(limitCount);
+  return builder.build();
+}
+
+export interface NotificationFilters {
+  severities?: NotificationSeverity[];
+  /** Notifications flagging any of these pc_* fields */
+  negativeFields?: string[];
+  from?: Date;
+  to?: Date;
+}
+
+export function notificationsQuery(filters: NotificationFilters, limitCount?: number): CollectionQuery<'agent_notifications'> {
+  let builder = queryCollection('agent_notifications');
+  if (filters.severities?.length) builder = builder.whereIn('severity', filters.severities);
+  if (filters.negativeFields?.length) builder = builder.arrayContainsAny('negative_fields', filters.negativeFields);
+  if (filters.from || filters.to) builder = builder.between('created_at', filters.from, filters.to);
+  if (limitCount !== undefined) builder = builder.limit(limitCount);
+  return builder.build();
+}
+
+export interface RunFilters {
+  /** Agent api names */
+  agents?: string[];
+  outcomes?: RunOutcome[];
+  triggers?: RunTrigger[];
+  /** Inclusive started_at range */
+  from?: Date;
+  to?: Date;
+}
+
+export function runsQuery(filters: RunFilters, limitCount?: number): CollectionQuery<'agent_runs'> {
+  let builder = queryCollection('agent_runs').orderBy('started_at');
+  if (filters.agents?.length) builder = builder.whereIn('agent', filters.agents);
+  if (filters.outcomes?.length) builder = builder.whereIn('outcome', filters.outcomes);
+  if (filters.triggers?.length) builder = builder.whereIn('trigger', filters.triggers);
+  if (filters.from || filters.to) builder = builder.between('started_at', filters.from, filters.to);
+  if (limitCount !== undefined) builder = builder.limit(limitCount);
+  return builder.build();
+}
@@ -0,0 +1,128 @@
+/**
+ * Client-side routing over the History API.
+ *
+ * The current location (page plus any open overlay, see utils/routes) is parsed
+ * from the address bar and kept here; navigating pushes or replaces a history
+ * entry, and back/forward re-read the address bar. The production server
+ * (`serve -s`) answers every path with index.html, so any URL can be opened or
+ * reloaded directly.
+ */
+
+import { locationUrl, parseLocation, type AppLocation, type Overlay, type Route } from '../utils/routes';
+
+export interface NavigateOptions {
+  /** Replace the current history entry instead of adding one, e.g. for filter changes */
+  replace?: boolean;
+}
+
+/**
+ * State kept on history entries the dashboard pushed: the URL they were pushed
+ * from, so closing a page or overlay can go back instead of adding an entry
+ */
+interface EntryState {
+  from: string;
+}
+
+function currentUrl(): string {
+  return window.location.pathname + window.location.search;
+}
+
+function entryFrom(): string | null {
+  const state = window.history.state as Partial<EntryState> | null;
+  return typeof state?.from === 'string' ? state.from : null;
+}
+
+class Router {
+  private readonly subscribers = new Set<() => void>();
+  private location: AppLocation = { route: { page: 'dashboard' }, overlay: null };
+
+  constructor() {
+    if (typeof window === 'undefined') return;
+    this.location = parseLocation(window.location.pathname, window.location.search);
+    // Old query-string links (and defaults spelled out) are rewritten to the canonical URL
+    if (this.location.route.page !== 'not_found') {
+      const canonical = locationUrl(this.location);
+      if (canonical !== currentUrl()) window.history.replaceState(window.history.state, '', canonical);
+    }
+    window.addEventListener('popstate', () => {
+      this.location = parseLocation(window.location.pathname, window.location.search);
+      this.publish();
+    });
+  }
+
+  subscribe(callback: () => void): () => void {
+    this.subscribers.add(callback);
+    return () => {
+      this.subscribers.delete(callback);
+    };
+  }
+
+  getState(): AppLocation {
+    return this.location;
+  }
+
+  /**
+   * Go to a location, or a URL such as a notification's deep link
+   */
+  navigate(target: AppLocation | string, options: NavigateOptions = {}) {
+    const next = typeof target === 'string' ? this.parseUrl(target) : target;
+    const url = locationUrl(next);
+    const from = currentUrl();
+    if (url === from) return;
+    const pageChanged = locationUrl({ route: next.route, overlay: null }) !== locationUrl({ route: this.location.route, overlay: null });
+    if (options.replace) {
+      window.history.replaceState(window.history.state, '', url);
+    } else {
+      window.history.pushState({ from } satisfies EntryState, '', url);
+    }
+    this.location = next;
+    this.publish();
+    if (pageChanged && !options.replace) window.scrollTo(0, 0);
+  }
+
+  /**
+   * Another page, with nothing open over it
+   */
+  goTo(route: Route, options: NavigateOptions = {}) {
+    this.navigate({ route, overlay: null }, options);
+  }
+
+  /**
+   * The current page with its filters or selection changed; replaces the entry
+   */
+  updateRoute(route: Route) {
+    this.navigate({ route, overlay: this.location.overlay }, { replace: true });
+  }
+
+  openOverlay(overlay: Overlay, options: NavigateOptions = {}) {
+    this.navigate({ route: this.location.route, overlay }, options);
+  }
+
+  closeOverlay() {
+    this.close({ route: this.location.route, overlay: null });
+  }
+
+  /**
+   * Leave the current entry for `fallback`: back, when the entry was pushed from
+   * there, so the browser's forward button reopens it; otherwise in place
+   */
+  close(fallback: AppLocation) {
+    const url = locationUrl(fallback);
+    if (entryFrom() === url) {
+      window.history.back();
+      return;
+    }
+    this.navigate(fallback, { replace: true });
+  }
+
+  private parseUrl(url: string): AppLocation {
+    const parsed = new URL(url, window.location.origin);
+    return parseLocation(parsed.pathname, parsed.search);
+  }
+
+  private publish() {
+    this.subscribers.forEach(callback => callback());
+  }
+}
+
+export const router = new Router();
@@ -0,0 +1,152 @@
+import type { FirestoreDocument } from './firestore';
+import type {
+  AgentRunDoc,
+  AgentStateEntry,
+  NotificationPerson,
+  RunOutcome,
+  RunTrigger,
+  TypedCollection,
+} from './firestoreSchemas';
+import { RUNNABLE_AGENTS, agentOutputCollection, outputLabels } from './agentRegistry';
+
+/**
+ * Agent run history: one `agent_runs` document per run, manual or automated.
+ *
+ * The backend only keeps each agent's current state, so runs are recorded by
+ * the dashboards watching `all_states` (see runRecorder). Every dashboard
+ * derives the same document id for a run from the state it started from, so
+ * several open dashboards record one document between them; the one that
+ * started a manual run adds who started it and with which options.
+ */
+
+/**
+ * What a dashboard knows about a run when it starts
+ */
+export interface RunStart {
+  agent: string;
+  trigger: RunTrigger;
+  triggered_by?: NotificationPerson;
+  params?: Record<string, unknown>;
+  run_id?: string;
+}
+
+export interface RunEnd {
+  outcome: Exclude<RunOutcome, 'running'>;
+  ended_at: Date;
+  error?: string;
+  /** Collection whose documents created during the run are listed as its output */
+  output_collection?: TypedCollection;
+}
+
+/**
+ * Agents whose runs are recorded: every agent that can be run (the time savings
+ * agent only aggregates analytics)
+ */
+export const RECORDED_AGENTS = RUNNABLE_AGENTS;
+
+export const RUN_TRIGGER_LABELS: Record<RunTrigger, string> = {
+  manual: 'Manual',
+  automated: 'Automated mode',
+  external: 'Outside the dashboard',
+};
+
+export const RUN_OUTCOME_LABELS: Record<RunOutcome, string> = {
+  running: 'Running',
+  succeeded: 'Succeeded',
+  failed: 'Failed',
+};
+
+const ACTIVE_STATES = ['active', 'generating', 'processing'];
+const FAILED_STATES = ['error', 'failed'];
+const FINISHED_STATES = ['idle', 'completed', ...FAILED_STATES];
+
+export type RunPhase = 'active' | 'succeeded' | 'failed' | 'unknown';
+
+/**
+ * Where an agent is according to its `<prefix>_state` field
+ */
+export function runPhase(entry: AgentStateEntry): RunPhase {
+  const state = entry.state?.toLowerCase();
+  if (!state) return 'unknown';
+  if (ACTIVE_STATES.includes(state)) return 'active';
+  if (FAILED_STATES.includes(state)) return 'failed';
+  return FINISHED_STATES.includes(state) ? 'succeeded' : 'unknown';
+}
+
+/**
+ * Document id for the run an agent is starting. Agents stamp `_last_activity`
+ * or `_last_error` when a run ends, so the latest of the two identifies the run
+ * that follows it the same way in every dashboard.
+ */
+export function runDocumentId(agent: string, entry: AgentStateEntry): string {
+  const previousEnd = Math.max(entry.last_activity?.getTime() ?? 0, entry.last_error?.timestamp?.getTime() ?? 0);
+  return `${agent}-${previousEnd}`;
+}
+
+/**
+ * How a finished run ended, from the agent's state once it is back to idle
+ */
+export function runEnd(agent: string, entry: AgentStateEntry, now: Date = new Date()): RunEnd {
+  const failed = runPhase(entry) === 'failed';
+  const outputCollection = agentOutputCollection(agent);
+  // Firestore rejects undefined fields, so optional ones are left out instead
+  return {
+    outcome: failed ? 'failed' : 'succeeded',
+    ended_at: (failed ? entry.last_error?.timestamp : entry.last_activity) ?? now,
+    ...(failed ? { error: entry.last_error?.message ?? 'The agent reported an error' } : {}),
+    ...(outputCollection ? { output_collection: outputCollection } : {}),
+  };
+}
+
+/**
+ * A manual run the backend refused to start. Runs recorded before the flag was
+ * added are told apart by failing the moment they started.
+ */
+export function isRejectedStart(run: AgentRunDoc): boolean {
+  if (run.rejected) return true;
+  return run.outcome === 'failed' && !!run.started_at && run.started_at.getTime() === run.ended_at?.getTime();
+}
+
+/**
+ * Run length in milliseconds; runs still going are measured up to `now`
+ */
+export function runDuration(run: AgentRunDoc, now: Date = new Date()): number | null {
+  if (!run.started_at) return null;
+  const end = run.ended_at ?? (run.outcome === 'running' ? now : null);
+  return end ? Math.max(0, end.getTime() - run.started_at.getTime()) : null;
+}
+
+/**
+ * e.g. "3 evaluations", "1 COA report", "No documents"
+ */
+export function describeRunOutput(run: AgentRunDoc): string {
+  const count = run.output_ids.length;
+  if (count === 0) return 'No documents';
+  const [singular, plural] = outputLabels(run.output_collection);
+  return `${count} ${count === 1 ? singular : plural}`;
+}
+
+export interface RunDay {
+  /** Midnight of the day, local time */
+  day: Date;
+  runs: FirestoreDocument<AgentRunDoc>[];
+}
+
+/**
+ * Runs grouped by the local day they started on, keeping their order (newest first)
+ */
+export function groupRunsByDay(runs: FirestoreDocument<AgentRunDoc>[]): RunDay[] {
+  const days: RunDay[] = [];
+  runs.forEach(run => {
+    const started = run.data.started_at;
+    if (!started) return;
+    const day = new Date(started.getFullYear(), started.getMonth(), started.getDate());
+    const last = days[days.length - 1];
+    if (last && last.day.getTime() === day.getTime()) {
+      last.runs.push(run);
+    } else {
+      days.push({ day, runs: [run] });
+    }
+  });
+  return days;
+}
@@ -0,0 +1,72 @@
+/**
+ * Which tab started an agent's current run.
+ *
+ * Every tab sees the same `all_states` transitions, so without this each open tab
+ * would announce every completion. Runs started here are recorded in localStorage
+ * under this tab's id; when a run finishes, only the tab that started it shows a
+ * toast, and runs no tab in this browser started (automated mode, other users)
+ * are recorded quietly by every tab under the same event id.
+ */
+
+export type RunOrigin = 'this_tab' | 'other_tab' | 'unknown';
+
+const STORAGE_KEY = 'precepgo:runs-started';
+
+// Runs older than this are assumed to have finished while no tab was watching
+const RUN_EXPIRY_MS = 6 * 60 * 60 * 1000;
+
+// Other tabs may see the same completion slightly later; a run finished this
+// recently still counts as another tab's
+const FINISHED_GRACE_MS = 60 * 1000;
+
+/**
+ * This tab's id, for state in localStorage that one tab at a time owns
+ */
+export const TAB_ID = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+type StartedRuns = Record<string, { tab: string; at: number; finishedAt?: number }>;
+
+function readRuns(): StartedRuns {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') as StartedRuns;
+  } catch {
+    return {};
+  }
+}
+
+function writeRuns(runs: StartedRuns) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(runs));
+  } catch {
+    // Storage disabled: completions then fall back to quiet recording
+  }
+}
+
+export function markRunStarted(agentApiName: string) {
+  writeRuns({ ...readRuns(), [agentApiName]: { tab: TAB_ID, at: Date.now() } });
+}
+
+/**
+ * Who started the agent's run that just finished. Call once per completion: the
+ * starting tab's call marks the run finished.
+ */
+export function takeRunOrigin(agentApiName: string): RunOrigin {
+  const now = Date.now();
+  const runs = readRuns();
+  const run = runs[agentApiName];
+  if (!run || now - run.at > RUN_EXPIRY_MS) return 'unknown';
+  if (run.finishedAt !== undefined) return now - run.finishedAt < FINISHED_GRACE_MS ? 'other_tab' : 'unknown';
+  if (run.tab !== TAB_ID) return 'other_tab';
+  writeRuns({ ...runs, [agentApiName]: { ...run, finishedAt: now } });
+  return 'this_tab';
+}
+
+/**
+ * Forget a run this tab started that failed to start
+ */
+export function clearRunStarted(agentApiName: string) {
+  const runs = readRuns();
+  if (runs[agentApiName]?.tab !== TAB_ID) return;
+  delete runs[agentApiName];
+  writeRuns(runs);
+}
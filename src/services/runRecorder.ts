@@ -0,0 +1,81 @@
+import { FirestoreService } from './firestore';
+import type { AgentStateEntry } from './firestoreSchemas';
+import { runDocumentId, runEnd, runPhase, type RunStart } from './runHistory';
+
+/**
+ * Records agent runs in `agent_runs` from the `all_states` snapshots this tab
+ * sees (see services/runHistory for how dashboards share one document per run).
+ *
+ * Manual runs started here are announced before the backend flips the agent to
+ * active; the next start observed for that agent is attributed to them.
+ */
+
+type ManualDetails = Omit<RunStart, 'agent' | 'trigger'>;
+
+function warn(action: string, error: unknown) {
+  console.warn(`[RunHistory] ⚠️ Could not record ${action}:`, error);
+}
+
+class RunRecorder {
+  /** Manual runs started in this tab that the backend hasn't reported active yet */
+  private readonly pending = new Map<string, ManualDetails>();
+  /** Runs this tab saw start, by agent */
+  private readonly active = new Map<string, { id: string; start: RunStart }>();
+
+  /**
+   * A manual run is about to be requested
+   */
+  manualRunRequested(agent: string, details: ManualDetails) {
+    this.pending.set(agent, details);
+  }
+
+  /**
+   * The backend accepted the manual run and returned its run id
+   */
+  manualRunAccepted(agent: string, runId: string | null | undefined) {
+    if (!runId) return;
+    const current = this.active.get(agent);
+    if (current?.start.trigger === 'manual') {
+      current.start = { ...current.start, run_id: runId };
+      FirestoreService.recordRunStart(current.id, current.start).catch(error => warn(`run id of ${agent}`, error));
+      return;
+    }
+    const pending = this.pending.get(agent);
+    if (pending) this.pending.set(agent, { ...pending, run_id: runId });
+  }
+
+  /**
+   * The backend refused the manual run, so it never shows up in all_states
+   */
+  manualRunRejected(agent: string, message: string) {
+    const details = this.pending.get(agent) ?? {};
+    this.pending.delete(agent);
+    FirestoreService.recordFailedStart({ agent, trigger: 'manual', ...details }, message)
+      .catch(error => warn(`failed start of ${agent}`, error));
+  }
+
+  /**
+   * Compare an agent's latest state with what this tab last saw, recording the
+   * run's start or end on a transition
+   */
+  observe(agent: string, entry: AgentStateEntry, automatedMode: boolean) {
+    const phase = runPhase(entry);
+    const current = this.active.get(agent);
+
+    if (phase === 'active' && !current) {
+      const id = runDocumentId(agent, entry);
+      const manual = this.pending.get(agent);
+      this.pending.delete(agent);
+      const start: RunStart = manual
+        ? { agent, trigger: 'manual', ...manual }
+        : { agent, trigger: automatedMode ? 'automated' : 'external' };
+      this.active.set(agent, { id, start });
+      FirestoreService.recordRunStart(id, start).catch(error => warn(`start of ${agent}`, error));
+    } else if ((phase === 'succeeded' || phase === 'failed') && current) {
+      this.active.delete(agent);
+      FirestoreService.recordRunEnd(current.id, runEnd(agent, entry)).catch(error => warn(`end of ${agent}`, error));
+    }
+  }
+}
+
+export const runRecorder = new RunRecorder();
@@ -0,0 +1,135 @@
+/**
+ * Shares one underlying listener between every subscriber to the same query.
+ *
+ * Subscriptions are keyed by a string describing the query. The first subscriber
+ * opens the listener, later ones are reference-counted onto it and immediately
+ * receive the last snapshot, and the listener is closed shortly after the last
+ * subscriber leaves (so a component remounting doesn't reopen it).
+ */
+
+export interface SubscriptionListener<T> {
+  next: (value: T) => void;
+  error?: (error: Error) => void;
+}
+
+/**
+ * Opens the underlying listener; returns its unsubscribe function
+ */
+export type SubscriptionSource<T> = (next: (value: T) => void, error: (error: Error) => void) => () => void;
+
+interface Entry<T> {
+  listeners: Set<SubscriptionListener<T>>;
+  stop: () => void;
+  hasValue: boolean;
+  value: T | undefined;
+  error: Error | null;
+  releaseTimer: ReturnType<typeof setTimeout> | null;
+}
+
+export class SubscriptionRegistry {
+  private readonly entries = new Map<string, Entry<unknown>>();
+  private readonly releaseDelayMs: number;
+
+  constructor(releaseDelayMs: number = 2000) {
+    this.releaseDelayMs = releaseDelayMs;
+  }
+
+  subscribe<T>(key: string, source: SubscriptionSource<T>, listener: SubscriptionListener<T>): () => void {
+    const entry = (this.entries.get(key) as Entry<T> | undefined) ?? this.open(key, source);
+
+    if (entry.releaseTimer) {
+      clearTimeout(entry.releaseTimer);
+      entry.releaseTimer = null;
+    }
+    entry.listeners.add(listener);
+
+    // Late joiners get the cached snapshot straight away
+    if (entry.hasValue) {
+      listener.next(entry.value as T);
+    } else if (entry.error) {
+      listener.error?.(entry.error);
+    }
+
+    let subscribed = true;
+    return () => {
+      if (!subscribed) return;
+      subscribed = false;
+      entry.listeners.delete(listener);
+      if (entry.listeners.size === 0) {
+        entry.releaseTimer = setTimeout(() => this.close(key, entry), this.releaseDelayMs);
+      }
+    };
+  }
+
+  /**
+   * Open queries and how many subscribers share each one
+   */
+  stats(): Array<{ key: string; subscribers: number; hasValue: boolean }> {
+    return [...this.entries].map(([key, entry]) => ({
+      key,
+      subscribers: entry.listeners.size,
+      hasValue: entry.hasValue,
+    }));
+  }
+
+  private open<T>(key: string, source: SubscriptionSource<T>): Entry<T> {
+    const entry: Entry<T> = {
+      listeners: new Set(),
+      stop: () => {},
+      hasValue: false,
+      value: undefined,
+      error: null,
+      releaseTimer: null,
+    };
+    this.entries.set(key, entry as Entry<unknown>);
+    console.log(`[Subscriptions] ➕ Opening shared listener: ${key}`);
+
+    entry.stop = source(
+      (value) => {
+        entry.value = value;
+        entry.hasValue = true;
+        entry.error = null;
+        entry.listeners.forEach(listener => listener.next(value));
+      },
+      (error) => {
+        entry.error = error;
+        entry.listeners.forEach(listener => listener.error?.(error));
+        // A failed Firestore listener doesn't recover, so the next subscriber opens a fresh one
+        if (this.entries.get(key) === entry) {
+          this.entries.delete(key);
+        }
+      }
+    );
+    return entry;
+  }
+
+  private close<T>(key: string, entry: Entry<T>) {
+    if (entry.listeners.size > 0) return;
+    console.log(`[Subscriptions] ➖ Closing shared listener: ${key}`);
+    entry.stop();
+    if (this.entries.get(key) === (entry as Entry<unknown>)) {
+      this.entries.delete(key);
+    }
+  }
+}
+
+export const sharedSubscriptions = new SubscriptionRegistry();
+
+/**
+ * Registry key for a typed collection query
+ */
+export function collectionQueryKey(
+  collectionName: string,
+  options: { limitCount?: number; since?: Date; orderByCreatedAt?: boolean }
+): string {
+  const parts = [
+    options.limitCount !== undefined ? `limit=${options.limitCount}` : '',
+    options.since ? `since=${options.since.toISOString()}` : '',
+    options.orderByCreatedAt ? 'ordered' : '',
+  ].filter(Boolean);
+  return `${collectionName}?${parts.join('&')}`;
+}
+
+export function documentKey(collectionName: string, documentId: string): string {
+  return `${collectionName}/${documentId}`;
+}
@@ -0,0 +1,24 @@
+export interface AgentAccent {
+  /** Card background while the agent is active */
+  card: string;
+  /** Buttons on the card */
+  button: string;
+  /** Figures on the card */
+  text: string;
+}
+
+// Accents per icon tile color (an agent's `color`); spelled out so Tailwind keeps the classes
+const AGENT_ACCENTS: Record<string, AgentAccent> = {
+  'bg-red-500/20': { card: 'bg-red-50', button: 'bg-red-100', text: 'text-red-600' },
+  'bg-blue-500/20': { card: 'bg-blue-50', button: 'bg-blue-100', text: 'text-blue-600' },
+  'bg-green-500/20': { card: 'bg-green-50', button: 'bg-green-100', text: 'text-green-600' },
+  'bg-purple-500/20': { card: 'bg-purple-50', button: 'bg-purple-100', text: 'text-purple-600' },
+  'bg-yellow-500/20': { card: 'bg-yellow-50', button: 'bg-yellow-100', text: 'text-yellow-600' },
+  'bg-teal-500/20': { card: 'bg-teal-50', button: 'bg-teal-100', text: 'text-teal-600' },
+};
+
+const DEFAULT_ACCENT: AgentAccent = { card: 'bg-white', button: 'bg-gray-100', text: 'text-gray-600' };
+
+export function agentAccent(color: string): AgentAccent {
+  return AGENT_ACCENTS[color] ?? DEFAULT_ACCENT;
+}
@@ -0,0 +1,176 @@
+/**
+ * Structured view of the `<prefix>_logs` arrays agents keep in `all_states`.
+ *
+ * Agents append plain lines such as `[2025-11-04 09:12:03] Run abc started` or
+ * `2025-11-04T09:12:03Z - ERROR - Timed out`, and newer ones write maps with
+ * `timestamp`, `level`, `message` and `run_id`. Both are parsed into LogEntry
+ * records once, so filtering and export don't re-read the raw strings.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warning' | 'error';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warning', 'error'];
+
+export interface LogEntry {
+  /** Position in the agent's log array, oldest first */
+  index: number;
+  timestamp: Date | null;
+  level: LogLevel;
+  message: string;
+  /** Run the entry belongs to, from the entry itself or the last "Run … started" before it */
+  runId: string | null;
+  raw: string;
+}
+
+export interface LogFilters {
+  /** Empty shows every level */
+  levels: LogLevel[];
+  search: string;
+  from: Date | null;
+  to: Date | null;
+  runId: string | null;
+}
+
+export type LogExportFormat = 'txt' | 'json';
+
+const LEVEL_ALIASES: Record<string, LogLevel> = {
+  debug: 'debug',
+  trace: 'debug',
+  info: 'info',
+  notice: 'info',
+  success: 'info',
+  warn: 'warning',
+  warning: 'warning',
+  error: 'error',
+  err: 'error',
+  critical: 'error',
+  fatal: 'error',
+};
+
+// "[2025-11-04 09:12:03]", "2025-11-04T09:12:03.123Z", "2025-11-04 09:12:03,123" at the start of a line
+const LEADING_TIMESTAMP = /^\[?(\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(?::\d{2}(?:[.,]\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)\]?\s*(?:[-|:]\s*)?/;
+// "[ERROR]", "ERROR:", "ERROR -", "WARNING |" right after the timestamp
+const LEADING_LEVEL = /^\[?(debug|trace|info|notice|success|warn|warning|error|err|critical|fatal)\]?\s*(?:[-:|]\s*|\s+)/i;
+const RUN_ID = /\brun[ _-]?id[=:\s]+([\w-]+)/i;
+const RUN_STARTED = /^Run ([\w-]+) started\b/i;
+
+/**
+ * Timestamps without a zone are UTC: the agents run on Cloud Run, whose clock is UTC
+ */
+function parseTimestamp(value: string): Date | null {
+  const iso = value.replace(' ', 'T').replace(',', '.');
+  const date = new Date(/(Z|[+-]\d{2}:?\d{2})$/.test(iso) ? iso : `${iso}Z`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Lines without a level token are classified by what they say
+function inferLevel(message: string): LogLevel {
+  if (/❌|\b(error|exception|failed|failure|traceback)\b/i.test(message)) return 'error';
+  if (/⚠️|\bwarn(ing)?\b/i.test(message)) return 'warning';
+  return 'info';
+}
+
+function parseLine(line: string): Omit<LogEntry, 'index' | 'runId'> & { runId: string | null } {
+  let rest = line.trim();
+  let timestamp: Date | null = null;
+  const timeMatch = LEADING_TIMESTAMP.exec(rest);
+  if (timeMatch) {
+    timestamp = parseTimestamp(timeMatch[1]);
+    rest = rest.slice(timeMatch[0].length);
+  }
+  let level: LogLevel | null = null;
+  const levelMatch = LEADING_LEVEL.exec(rest);
+  if (levelMatch) {
+    level = LEVEL_ALIASES[levelMatch[1].toLowerCase()];
+    rest = rest.slice(levelMatch[0].length);
+  }
+  const runId = RUN_ID.exec(rest)?.[1] ?? RUN_STARTED.exec(rest)?.[1] ?? null;
+  return { timestamp, level: level ?? inferLevel(rest), message: rest, runId, raw: line };
+}
+
+function parseRecord(record: Record<string, unknown>): Omit<LogEntry, 'index'> {
+  const message = String(record.message ?? record.msg ?? record.text ?? '');
+  const rawTime = record.timestamp ?? record.time ?? record.at;
+  const seconds = (rawTime as { seconds?: unknown } | null)?.seconds;
+  const timestamp = typeof rawTime === 'string'
+    ? parseTimestamp(rawTime)
+    : typeof seconds === 'number'
+      ? new Date(seconds * 1000)
+      : rawTime instanceof Date ? rawTime : null;
+  const level = LEVEL_ALIASES[String(record.level ?? record.severity ?? '').toLowerCase()] ?? inferLevel(message);
+  const runId = record.run_id ?? record.runId;
+  return {
+    timestamp,
+    level,
+    message,
+    runId: typeof runId === 'string' && runId ? runId : null,
+    raw: JSON.stringify(record),
+  };
+}
+
+/**
+ * Parse an agent's log array (oldest first). Entries without a run id inherit
+ * the one of the last run started before them.
+ */
+export function parseLogs(logs: unknown[]): LogEntry[] {
+  let currentRun: string | null = null;
+  return logs.map((item, index) => {
+    const parsed = typeof item === 'object' && item !== null && !Array.isArray(item)
+      ? parseRecord(item as Record<string, unknown>)
+      : parseLine(String(item));
+    if (parsed.runId) currentRun = parsed.runId;
+    return { ...parsed, index, runId: parsed.runId ?? currentRun };
+  });
+}
+
+export function filterLogs(entries: LogEntry[], filters: LogFilters): LogEntry[] {
+  const search = filters.search.trim().toLowerCase();
+  return entries.filter(entry =>
+    (filters.levels.length === 0 || filters.levels.includes(entry.level)) &&
+    (!filters.runId || entry.runId === filters.runId) &&
+    // Entries without a timestamp can't be placed in a range, so a range hides them
+    (!filters.from || (entry.timestamp !== null && entry.timestamp >= filters.from)) &&
+    (!filters.to || (entry.timestamp !== null && entry.timestamp <= filters.to)) &&
+    (!search || entry.message.toLowerCase().includes(search) || entry.runId?.toLowerCase().includes(search))
+  );
+}
+
+/**
+ * Run ids in the order their first entry appears
+ */
+export function logRunIds(entries: LogEntry[]): string[] {
+  return [...new Set(entries.map(entry => entry.runId).filter((runId): runId is string => runId !== null))];
+}
+
+export function formatLogsAsText(entries: LogEntry[]): string {
+  return entries.map(entry => [
+    entry.timestamp ? entry.timestamp.toISOString() : '-',
+    entry.level.toUpperCase().padEnd(7),
+    entry.runId ? `[${entry.runId}]` : null,
+    entry.message,
+  ].filter(part => part !== null).join(' ')).join('\n');
+}
+
+export function formatLogsAsJson(entries: LogEntry[]): string {
+  return JSON.stringify(entries.map(entry => ({
+    timestamp: entry.timestamp ? entry.timestamp.toISOString() : null,
+    level: entry.level,
+    run_id: entry.runId,
+    message: entry.message,
+  })), null, 2);
+}
+
+/**
+ * Save entries as `<baseName>_<timestamp>.txt` or `.json`
+ */
+export function downloadLogs(entries: LogEntry[], format: LogExportFormat, baseName: string) {
+  const content = format === 'json' ? formatLogsAsJson(entries) : formatLogsAsText(entries);
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-').substring(0, 19);
+  const blob = new Blob([content], { type: format === 'json' ? 'application/json' : 'text/plain' });
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${baseName}_${timestamp}.${format}`;
+  link.click();
+  window.URL.revokeObjectURL(url);
+}
@@ -0,0 +1,24 @@
+import type { ReportCollection } from '../components/ReportHistory';
+import { DEFAULT_EVALUATION_FILTERS, DEFAULT_INBOX_FILTERS, routeUrl } from './routes';
+
+/**
+ * Links into the dashboard from outside it (desktop notifications, push messages):
+ * the page showing what the notification is about, e.g. `/evaluations/abc123`.
+ * The router reads them like any other URL (see utils/routes).
+ */
+export type DeepLink =
+  | { view: 'evaluation'; id: string }
+  | { view: 'report'; collection: ReportCollection; id?: string }
+  | { view: 'safety_inbox' };
+
+export function deepLinkUrl(link: DeepLink): string {
+  switch (link.view) {
+    case 'evaluation':
+      // Unfiltered, so the evaluation is in the list behind it whatever its date
+      return routeUrl({ page: 'evaluations', filters: { ...DEFAULT_EVALUATION_FILTERS, range: 'all' }, evaluationId: link.id });
+    case 'report':
+      return routeUrl({ page: 'reports', collection: link.collection, ...(link.id ? { reportId: link.id } : {}) });
+    case 'safety_inbox':
+      return routeUrl({ page: 'safety_inbox', filters: DEFAULT_INBOX_FILTERS });
+  }
+}
@@ -1,6 +1,8 @@
 import ExcelJS from 'exceljs';
 import type { FirestoreDocument } from '../services/firestore';
+import type { COAReportDoc, SiteReportDoc } from '../services/firestoreSchemas';
 import standardsData from '../data/standards.json';
+import { notificationCenter } from '../services/notificationCenter';
 
 interface Standard {
   id: string;
@@ -116,26 +118,16 @@ function addLogoHeader(workbook: ExcelJS.Workbook, worksheet: ExcelJS.Worksheet,
  * Export COA Reports to Excel format with logo header
  * Only exports the latest report
  */
-export async function exportCOAReportsToExcel(documents: FirestoreDocument[]) {
+export async function exportCOAReportsToExcel(documents: FirestoreDocument<COAReportDoc>[]) {
   if (documents.length === 0) {
-    alert('No COA reports to export');
+    notificationCenter.notify({ severity: 'warning', category: 'exports', title: 'No COA reports to export' });
     return;
   }
 
   // Sort documents by creation date (newest first) and take only the latest
   const sortedDocs = [...documents].sort((a, b) => {
-    // Try createdAt first, then created_at from data, then 0
-    const getDate = (doc: FirestoreDocument) => {
-      if (doc.createdAt) return new Date(doc.createdAt).getTime();
-      if (doc.data.created_at) {
-        const date = doc.data.created_at?.toDate?.() || doc.data.created_at;
-        return new Date(date).getTime();
-      }
-      return 0;
-    };
-    
-    const dateA = getDate(a);
-    const dateB = getDate(b);
+    const dateA = (a.createdAt ?? a.data.created_at)?.getTime() ?? 0;
+    const dateB = (b.createdAt ?? b.data.created_at)?.getTime() ?? 0;
     return dateB - dateA; // Descending order (newest first)
   });
 
@@ -166,49 +158,19 @@ export async function exportCOAReportsToExcel(documents: FirestoreDocument[]) {
   // Debug: Log the data structure
   console.log('[Export] ========== COA Report Export Debug ==========');
   console.log('[Export] Report ID:', latestDoc.id);
-  console.log('[Export] Has student_reports:', !!data.student_reports);
-  console.log('[Export] student_reports type:', typeof data.student_reports);
-  console.log('[Export] student_reports is array:', Array.isArray(data.student_reports));
-  if (Array.isArray(data.student_reports)) {
-    console.log('[Export] student_reports length:', data.student_reports.length);
-    if (data.student_reports.length > 0) {
-      console.log('[Export] First student report keys:', Object.keys(data.student_reports[0]));
-      console.log('[Export] First student report:', JSON.stringify(data.student_reports[0], null, 2));
-    }
-  }
-  console.log('[Export] Has top-level standard_scores:', !!data.standard_scores);
-  console.log('[Export] Top-level standard_scores is array:', Array.isArray(data.standard_scores));
-  if (Array.isArray(data.standard_scores)) {
-    console.log('[Export] Top-level standard_scores length:', data.standard_scores.length);
-    if (data.standard_scores.length > 0) {
-      console.log('[Export] First top-level standard:', JSON.stringify(data.standard_scores[0], null, 2));
-    }
-  }
-  console.log('[Export] All data keys:', Object.keys(data));
+  console.log('[Export] student_reports length:', data.student_reports.length);
+  console.log('[Export] Top-level standard_scores length:', data.standard_scores.length);
   
   // Check if we should use a different document - look for one with actual standard_scores data
+  const hasStudentStandards = (report: COAReportDoc) =>
+    report.student_reports.some(sr => sr.standard_scores.length > 0);
   let documentToUse = latestDoc;
-  if (Array.isArray(data.student_reports) && data.student_reports.length > 0) {
-    const hasStudentStandards = data.student_reports.some((sr: any) => 
-      Array.isArray(sr.standard_scores) && sr.standard_scores.length > 0
-    );
-    
-    if (!hasStudentStandards) {
-      console.log('[Export] ⚠️ Latest report has empty standard_scores arrays. Searching for a report with data...');
-      // Try to find a document with actual standard_scores data
-      for (const doc of sortedDocs) {
-        const docData = doc.data;
-        if (Array.isArray(docData.student_reports)) {
-          const hasData = docData.student_reports.some((sr: any) => 
-            Array.isArray(sr.standard_scores) && sr.standard_scores.length > 0
-          );
-          if (hasData) {
-            console.log(`[Export] ✓ Found report ${doc.id} with standard_scores data`);
-            documentToUse = doc;
-            break;
-          }
-        }
-      }
+  if (data.student_reports.length > 0 && !hasStudentStandards(data)) {
+    console.log('[Export] ⚠️ Latest report has empty standard_scores arrays. Searching for a report with data...');
+    const docWithScores = sortedDocs.find(doc => hasStudentStandards(doc.data));
+    if (docWithScores) {
+      console.log(`[Export] ✓ Found report ${docWithScores.id} with standard_scores data`);
+      documentToUse = docWithScores;
     }
   }
   
@@ -222,8 +184,8 @@ export async function exportCOAReportsToExcel(documents: FirestoreDocument[]) {
     'Created Date': documentToUse.createdAt ? new Date(documentToUse.createdAt).toLocaleString() : 'N/A',
     'Students Processed': finalData.students_processed || 0,
     'Total Standards': finalData.total_standards || 0,
-    'Student Reports Count': Array.isArray(finalData.student_reports) ? finalData.student_reports.length : 0,
-    'Standard Scores Count': Array.isArray(finalData.standard_scores) ? finalData.standard_scores.length : 0,
+    'Student Reports Count': finalData.student_reports.length,
+    'Standard Scores Count': finalData.standard_scores.length,
     'Agent': finalData.agent || 'N/A',
   }];
 
@@ -245,25 +207,16 @@ export async function exportCOAReportsToExcel(documents: FirestoreDocument[]) {
   const standardsMap = getStandardsMap();
   const reportId = documentToUse.id.substring(0, 8);
   
-  if (Array.isArray(finalData.student_reports)) {
+  if (finalData.student_reports.length > 0) {
     console.log(`[Export] Processing ${finalData.student_reports.length} student reports`);
     
-    finalData.student_reports.forEach((studentReport: any, index: number) => {
+    finalData.student_reports.forEach((studentReport, index) => {
       const studentName = studentReport.student_name || 'N/A';
       const studentId = studentReport.student_id || 'N/A';
       const classStanding = studentReport.class_standing || 'N/A';
       
       // Debug: Log student report structure
-      console.log(`[Export] Student ${index + 1}: ${studentName}`);
-      console.log(`[Export]   - Has standard_scores:`, !!studentReport.standard_scores);
-      console.log(`[Export]   - standard_scores type:`, typeof studentReport.standard_scores);
-      console.log(`[Export]   - standard_scores is array:`, Array.isArray(studentReport.standard_scores));
-      if (Array.isArray(studentReport.standard_scores)) {
-        console.log(`[Export]   - standard_scores length:`, studentReport.standard_scores.length);
-        if (studentReport.standard_scores.length > 0) {
-          console.log(`[Export]   - First standard:`, studentReport.standard_scores[0]);
-        }
-      }
+      console.log(`[Export] Student ${index + 1}: ${studentName} (${studentReport.standard_scores.length} standards)`);
       
       // Create a sheet name from student name (Excel sheet names are limited to 31 chars)
       const sheetName = studentName.length > 31 ? studentName.substring(0, 28) + '...' : studentName;
@@ -310,40 +263,18 @@ export async function exportCOAReportsToExcel(documents: FirestoreDocument[]) {
       const standardsHeader = studentSheet.addRow(standardsHeaders);
       styleHeaderRow(standardsHeader);
 
-      // Check for standards - try multiple possible field names
-      const standardScores = studentReport.standard_scores || studentReport.standards || [];
+      // The COA converter maps the older standard_id/value field names onto id/score
+      const standardScores = studentReport.standard_scores;
       
-      console.log(`[Export]   - standardScores found:`, !!standardScores);
-      console.log(`[Export]   - standardScores length:`, Array.isArray(standardScores) ? standardScores.length : 'not an array');
-      
-      if (Array.isArray(standardScores) && standardScores.length > 0) {
+      if (standardScores.length > 0) {
         console.log(`[Export]   ✓ Adding ${standardScores.length} standards for ${studentName}`);
-        let addedCount = 0;
-        standardScores.forEach((score: any, idx: number) => {
-          const standardId = score.id || score.standard_id || score.standardId || 'N/A';
-          const standardDescription = standardsMap.get(standardId) || standardId;
-          
-          // Handle score - check multiple possible field names
-          let scoreValue = 0;
-          if (score.score !== undefined && score.score !== null) {
-            scoreValue = score.score;
-          } else if (score.value !== undefined && score.value !== null) {
-            scoreValue = score.value;
-          } else if (score.scores !== undefined && score.scores !== null) {
-            scoreValue = score.scores;
-          }
-          
-          console.log(`[Export]     Standard ${idx + 1}: id=${standardId}, score=${scoreValue}, keys=${Object.keys(score).join(', ')}`);
-          
+        standardScores.forEach((score) => {
+          const standardDescription = standardsMap.get(score.id) || score.id;
           // Only add Standard Description and Preceptor Attestations (no Standard ID)
-          studentSheet.addRow([standardDescription, scoreValue]);
-          addedCount++;
+          studentSheet.addRow([standardDescription, score.score]);
         });
-        console.log(`[Export]   ✓ Successfully added ${addedCount} standards to sheet`);
       } else {
         console.log(`[Export]   ✗ No standards found for ${studentName}`);
-        console.log(`[Export]   - studentReport keys:`, Object.keys(studentReport));
-        console.log(`[Export]   - studentReport.standard_scores:`, studentReport.standard_scores);
         // Add a row indicating no standards found
         studentSheet.addRow(['No standards found', '']);
       }
@@ -359,7 +290,7 @@ export async function exportCOAReportsToExcel(documents: FirestoreDocument[]) {
       });
       
       // Apply wrapping to Standard Description column (column A = 1 in 1-indexed) starting from standards header
-      if (standardsHeaderRowNum > 0 && Array.isArray(studentReport.standard_scores) && studentReport.standard_scores.length > 0) {
+      if (standardsHeaderRowNum > 0 && standardScores.length > 0) {
         // Header row is 2 rows after "Standard Scores" text
         const headerRowNum = standardsHeaderRowNum + 2;
         const headerRow = studentSheet.getRow(headerRowNum);
@@ -391,21 +322,12 @@ export async function exportCOAReportsToExcel(documents: FirestoreDocument[]) {
   }
 
   // 4. Aggregate Standard Scores Sheet - Top-level standard scores if they exist
-  const aggregateScoresData: any[] = [];
-  
-  if (Array.isArray(finalData.standard_scores)) {
-    finalData.standard_scores.forEach((score: any) => {
-      const standardId = score.id || 'N/A';
-      const standardDescription = standardsMap.get(standardId) || standardId;
-      
-      aggregateScoresData.push({
-        'Report ID': reportId,
-        'Standard ID': standardId,
-        'Standard Description': standardDescription,
-        'Score': score.score || 0,
-      });
-    });
-  }
+  const aggregateScoresData = finalData.standard_scores.map((score) => ({
+    'Report ID': reportId,
+    'Standard ID': score.id,
+    'Standard Description': standardsMap.get(score.id) || score.id,
+    'Score': score.score,
+  }));
 
   if (aggregateScoresData.length > 0) {
     const aggregateSheet = workbook.addWorksheet('Aggregate Standards');
@@ -457,9 +379,9 @@ export async function exportCOAReportsToExcel(documents: FirestoreDocument[]) {
 /**
  * Export site reports to Excel
  */
-export async function exportSiteReportsToExcel(documents: FirestoreDocument[]) {
+export async function exportSiteReportsToExcel(documents: FirestoreDocument<SiteReportDoc>[]) {
   if (documents.length === 0) {
-    alert('No site reports available to export. Please generate some reports first.');
+    notificationCenter.notify({ severity: 'warning', category: 'exports', title: 'No site reports to export', message: 'Generate some reports first.' });
     return;
   }
 
@@ -473,11 +395,9 @@ export async function exportSiteReportsToExcel(documents: FirestoreDocument[]) {
 
   // Sort documents by created_at (newest first) and use the latest one
   const sortedDocs = [...documents].sort((a, b) => {
-    const dateA = (a.data.created_at?.toDate ? a.data.created_at.toDate() : null) || 
-                   (a.createdAt ? new Date(a.createdAt) : new Date(0));
-    const dateB = (b.data.created_at?.toDate ? b.data.created_at.toDate() : null) || 
-                   (b.createdAt ? new Date(b.createdAt) : new Date(0));
-    return dateB.getTime() - dateA.getTime();
+    const dateA = (a.data.created_at ?? a.createdAt)?.getTime() ?? 0;
+    const dateB = (b.data.created_at ?? b.createdAt)?.getTime() ?? 0;
+    return dateB - dateA;
   });
 
   const latestDoc = sortedDocs[0];
@@ -487,18 +407,15 @@ export async function exportSiteReportsToExcel(documents: FirestoreDocument[]) {
   console.log('[Export] Report ID:', latestDoc.id);
   console.log('[Export] Report data:', data);
   
-  // Access nested analysis_data if it exists, otherwise use root level
-  const analysisData = data.analysis_data || data;
-  const sites = analysisData.sites || data.sites || [];
-  const preceptors = analysisData.preceptors || data.preceptors || [];
+  // The site report converter has already flattened analysis_data onto the report
+  const { sites, preceptors } = data;
   
-  console.log('[Export] Has sites array:', !!sites, 'Length:', sites?.length);
-  console.log('[Export] Has preceptors array:', !!preceptors, 'Length:', preceptors?.length);
-  console.log('[Export] Analysis data:', analysisData);
+  console.log('[Export] Sites:', sites.length);
+  console.log('[Export] Preceptors:', preceptors.length);
 
   // Create summary sheet
   const summarySheet = workbook.addWorksheet('Summary');
-  const reportTitle = data.report_title || data.title || 'Site Report';
+  const reportTitle = data.report_title || 'Site Report';
   if (logoData) {
     addLogoHeader(workbook, summarySheet, logoData, reportTitle);
   } else {
@@ -507,36 +424,19 @@ export async function exportSiteReportsToExcel(documents: FirestoreDocument[]) {
     summarySheet.addRow([]);
   }
 
-  // Helper function to format Firestore dates
-  const formatFirestoreDate = (dateField: any): string => {
-    if (!dateField) return 'N/A';
-    try {
-      if (dateField?.toDate) {
-        return dateField.toDate().toLocaleString();
-      }
-      if (dateField instanceof Date) {
-        return dateField.toLocaleString();
-      }
-      if (typeof dateField === 'string') {
-        return new Date(dateField).toLocaleString();
-      }
-      return String(dateField);
-    } catch (e) {
-      return 'N/A';
-    }
-  };
+  const formatReportDate = (date?: Date): string => (date ? date.toLocaleString() : 'N/A');
 
   // Add summary data with all available fields
   const summaryData = [{
     'Report ID': latestDoc.id.substring(0, 8),
-    'Created Date': formatFirestoreDate(latestDoc.data.created_at || latestDoc.createdAt),
-    'Generated Date': formatFirestoreDate(data.generated_at || analysisData.generated_at),
-    'Analyzed Date': formatFirestoreDate(analysisData.analyzed_at || data.analyzed_at),
+    'Created Date': formatReportDate(data.created_at ?? latestDoc.createdAt),
+    'Generated Date': formatReportDate(data.generated_at),
+    'Analyzed Date': formatReportDate(data.analyzed_at),
     'Report Version': data.report_version || 'N/A',
-    'Total Sites': analysisData.total_sites || data.total_sites || 0,
-    'Total Preceptors': analysisData.total_preceptors || data.total_preceptors || 0,
-    'Total Evaluations': analysisData.total_evaluations || data.total_evaluations || 0,
-    'Total Evaluations Analyzed': data.total_evaluations_analyzed || analysisData.total_evaluations || 0,
+    'Total Sites': data.total_sites ?? 0,
+    'Total Preceptors': data.total_preceptors ?? 0,
+    'Total Evaluations': data.total_evaluations ?? 0,
+    'Total Evaluations Analyzed': data.total_evaluations_analyzed ?? 0,
     'Agent': data.agent || 'N/A',
   }];
 
@@ -583,18 +483,14 @@ export async function exportSiteReportsToExcel(documents: FirestoreDocument[]) {
   styleHeaderRow(sitesHeaderRow);
 
   // Add site data
-  if (sites && Array.isArray(sites) && sites.length > 0) {
-    sites.forEach((site: any) => {
-      const caseTypes = Array.isArray(site.case_types) ? site.case_types.join(', ') : (site.case_types || 'N/A');
-      const preceptorNames = Array.isArray(site.preceptor_names) 
-        ? site.preceptor_names.join(', ') 
-        : (Array.isArray(site.preceptors) ? site.preceptors.join(', ') : (site.preceptors || 'N/A'));
+  if (sites.length > 0) {
+    sites.forEach((site) => {
       sitesSheet.addRow([
-        site.name || site.site_name || 'N/A',
-        site.total_evaluations || site.evaluations_count || 0,
-        site.unique_preceptors || 0,
-        caseTypes,
-        preceptorNames
+        site.name,
+        site.total_evaluations,
+        site.unique_preceptors ?? 0,
+        site.case_types.join(', ') || 'N/A',
+        site.preceptor_names.join(', ') || 'N/A'
       ]);
     });
   } else {
@@ -618,15 +514,14 @@ export async function exportSiteReportsToExcel(documents: FirestoreDocument[]) {
   styleHeaderRow(preceptorsHeaderRow);
 
   // Add preceptor data
-  if (preceptors && Array.isArray(preceptors) && preceptors.length > 0) {
-    preceptors.forEach((preceptor: any) => {
-      const caseTypes = Array.isArray(preceptor.case_types) ? preceptor.case_types.join(', ') : (preceptor.case_types || 'N/A');
+  if (preceptors.length > 0) {
+    preceptors.forEach((preceptor) => {
       preceptorsSheet.addRow([
-        preceptor.name || preceptor.preceptor_name || 'N/A',
-        preceptor.site || preceptor.site_name || 'N/A',
-        preceptor.student_count || 0,
-        preceptor.total_evaluations || preceptor.evaluations_count || 0,
-        caseTypes
+        preceptor.name,
+        preceptor.site || 'N/A',
+        preceptor.student_count ?? 0,
+        preceptor.total_evaluations,
+        preceptor.case_types.join(', ') || 'N/A'
       ]);
     });
   } else {
@@ -658,7 +553,7 @@ export async function exportSiteReportsToExcel(documents: FirestoreDocument[]) {
  */
 export async function exportToExcel(documents: FirestoreDocument[], collectionName: string) {
   if (documents.length === 0) {
-    alert(`No ${collectionName} documents to export`);
+    notificationCenter.notify({ severity: 'warning', category: 'exports', title: `No ${collectionName} documents to export` });
     return;
   }
 
@@ -0,0 +1,282 @@
+import type { ReportCollection } from '../components/ReportHistory';
+import {
+  RUN_OUTCOMES,
+  RUN_TRIGGERS,
+  type NotificationSeverity,
+  type NotificationStatus,
+  type RunOutcome,
+  type RunTrigger,
+} from '../services/firestoreSchemas';
+import type { NotificationSort } from '../services/notificationWorkflow';
+
+/**
+ * The dashboard's URLs: a path per page, with the page's filters and any open
+ * modal ("overlay") in the query string, so every view can be linked to and
+ * browser back/forward moves between them.
+ *
+ *   /                              dashboard
+ *   /agents/coa_agent?range=7d     agent detail and health over a range
+ *   /scenarios/<id>                scenarios, one selected
+ *   /evaluations/<id>?student=…    evaluations, filtered, one open
+ *   /safety-inbox/<id>?status=…    safety inbox, filtered, one notification open
+ *   /reports/coa/<id>              report history, one report pointed out
+ *   /analytics?timeframe=weekly    time savings analytics
+ *
+ * Overlays: `?modal=logs&agent=…`, `?modal=run&agent=…`, `?modal=runs&agent=…`
+ * (run history, with `runs_range`, `runs_outcome`, `runs_trigger`),
+ * `?modal=schedule` and `?modal=pipelines`.
+ *
+ * Links from before these pages existed (`/?evaluation=…`, `/?report=…&id=…`,
+ * `/?view=safety-inbox`) still open what they pointed to.
+ */
+
+export type InboxStatusFilter = 'unresolved' | NotificationStatus | 'all';
+
+export interface InboxFilters {
+  status: InboxStatusFilter;
+  severities: NotificationSeverity[];
+  sort: NotificationSort;
+}
+
+export type EvaluationRange = 'all' | '7d' | '30d' | '90d';
+
+export interface EvaluationPageFilters {
+  studentId?: string;
+  caseType?: string;
+  range: EvaluationRange;
+}
+
+export type RunRangeKey = 'overnight' | '24h' | '7d' | '30d';
+
+export interface RunHistoryFilters {
+  /** Agent api name; null shows every agent */
+  agent: string | null;
+  range: RunRangeKey;
+  outcome: RunOutcome | null;
+  trigger: RunTrigger | null;
+}
+
+export type AgentHealthRange = '7d' | '30d' | '90d';
+
+export type AnalyticsTimeframe = 'daily' | 'weekly' | 'monthly' | 'semester' | 'all_time';
+
+export type Route =
+  | { page: 'dashboard' }
+  | { page: 'agent'; agent: string; range: AgentHealthRange }
+  | { page: 'scenarios'; scenarioId?: string }
+  | { page: 'evaluations'; filters: EvaluationPageFilters; evaluationId?: string }
+  | { page: 'safety_inbox'; filters: InboxFilters; notificationId?: string }
+  | { page: 'reports'; collection: ReportCollection; reportId?: string }
+  | { page: 'analytics'; timeframe: AnalyticsTimeframe }
+  | { page: 'not_found' };
+
+export type Overlay =
+  | { type: 'logs'; agent: string }
+  | { type: 'run'; agent: string }
+  | { type: 'runs'; filters: RunHistoryFilters }
+  | { type: 'schedule' }
+  | { type: 'pipelines' };
+
+export interface AppLocation {
+  route: Route;
+  overlay: Overlay | null;
+}
+
+export const DEFAULT_INBOX_FILTERS: InboxFilters = { status: 'unresolved', severities: [], sort: 'severity' };
+export const DEFAULT_EVALUATION_FILTERS: EvaluationPageFilters = { range: '30d' };
+export const DEFAULT_RUN_HISTORY_FILTERS: RunHistoryFilters = { agent: null, range: '24h', outcome: null, trigger: null };
+export const DEFAULT_AGENT_HEALTH_RANGE: AgentHealthRange = '30d';
+export const DEFAULT_ANALYTICS_TIMEFRAME: AnalyticsTimeframe = 'monthly';
+
+const REPORT_SLUGS: Record<ReportCollection, string> = {
+  agent_coa_reports: 'coa',
+  agent_sites: 'sites',
+};
+const REPORT_COLLECTIONS = Object.keys(REPORT_SLUGS) as ReportCollection[];
+
+const INBOX_STATUSES: InboxStatusFilter[] = ['unresolved', 'open', 'acknowledged', 'resolved', 'all'];
+const SEVERITIES: NotificationSeverity[] = ['critical', 'high', 'moderate'];
+const SORTS: NotificationSort[] = ['severity', 'newest', 'oldest'];
+const EVALUATION_RANGES: EvaluationRange[] = ['all', '7d', '30d', '90d'];
+const RUN_RANGES: RunRangeKey[] = ['overnight', '24h', '7d', '30d'];
+const AGENT_HEALTH_RANGES: AgentHealthRange[] = ['7d', '30d', '90d'];
+const TIMEFRAMES: AnalyticsTimeframe[] = ['daily', 'weekly', 'monthly', 'semester', 'all_time'];
+
+// The value if it is one of `allowed`, otherwise the fallback
+function oneOf<T extends string>(value: string | null, allowed: readonly T[], fallback: T): T {
+  return allowed.find(item => item === value) ?? fallback;
+}
+
+function pageLocation(route: Route): AppLocation {
+  return { route, overlay: null };
+}
+
+function parseRoute(segments: string[], params: URLSearchParams): Route {
+  const [section, id, detail] = segments;
+  switch (section) {
+    case undefined:
+      return { page: 'dashboard' };
+    case 'agents':
+      return id
+        ? { page: 'agent', agent: id, range: oneOf(params.get('range'), AGENT_HEALTH_RANGES, DEFAULT_AGENT_HEALTH_RANGE) }
+        : { page: 'dashboard' };
+    case 'scenarios':
+      return { page: 'scenarios', ...(id ? { scenarioId: id } : {}) };
+    case 'evaluations':
+      return {
+        page: 'evaluations',
+        filters: {
+          ...(params.get('student') ? { studentId: params.get('student')! } : {}),
+          ...(params.get('case_type') ? { caseType: params.get('case_type')! } : {}),
+          range: oneOf(params.get('range'), EVALUATION_RANGES, DEFAULT_EVALUATION_FILTERS.range),
+        },
+        ...(id ? { evaluationId: id } : {}),
+      };
+    case 'safety-inbox':
+      return {
+        page: 'safety_inbox',
+        filters: {
+          status: oneOf(params.get('status'), INBOX_STATUSES, DEFAULT_INBOX_FILTERS.status),
+          severities: (params.get('severity') ?? '').split(',').filter((value): value is NotificationSeverity =>
+            SEVERITIES.includes(value as NotificationSeverity)
+          ),
+          sort: oneOf(params.get('sort'), SORTS, DEFAULT_INBOX_FILTERS.sort),
+        },
+        ...(id ? { notificationId: id } : {}),
+      };
+    case 'reports': {
+      const collection = REPORT_COLLECTIONS.find(item => REPORT_SLUGS[item] === id) ?? 'agent_coa_reports';
+      return { page: 'reports', collection, ...(detail ? { reportId: detail } : {}) };
+    }
+    case 'analytics':
+      return { page: 'analytics', timeframe: oneOf(params.get('timeframe'), TIMEFRAMES, DEFAULT_ANALYTICS_TIMEFRAME) };
+    default:
+      return { page: 'not_found' };
+  }
+}
+
+function parseOverlay(params: URLSearchParams): Overlay | null {
+  const agent = params.get('agent');
+  switch (params.get('modal')) {
+    case 'logs':
+      return agent ? { type: 'logs', agent } : null;
+    case 'run':
+      return agent ? { type: 'run', agent } : null;
+    case 'runs':
+      return {
+        type: 'runs',
+        filters: {
+          agent,
+          range: oneOf(params.get('runs_range'), RUN_RANGES, DEFAULT_RUN_HISTORY_FILTERS.range),
+          outcome: RUN_OUTCOMES.find(outcome => outcome === params.get('runs_outcome')) ?? null,
+          trigger: RUN_TRIGGERS.find(trigger => trigger === params.get('runs_trigger')) ?? null,
+        },
+      };
+    case 'schedule':
+      return { type: 'schedule' };
+    case 'pipelines':
+      return { type: 'pipelines' };
+    default:
+      return null;
+  }
+}
+
+// Query-string links from before the dashboard had pages
+function parseLegacyLink(params: URLSearchParams): AppLocation | null {
+  const evaluation = params.get('evaluation');
+  if (evaluation) {
+    return pageLocation({ page: 'evaluations', filters: { ...DEFAULT_EVALUATION_FILTERS, range: 'all' }, evaluationId: evaluation });
+  }
+  const report = REPORT_COLLECTIONS.find(collection => collection === params.get('report'));
+  if (report) {
+    const id = params.get('id');
+    return pageLocation({ page: 'reports', collection: report, ...(id ? { reportId: id } : {}) });
+  }
+  if (params.get('view') === 'safety-inbox') {
+    return pageLocation({ page: 'safety_inbox', filters: DEFAULT_INBOX_FILTERS });
+  }
+  return null;
+}
+
+/**
+ * The location a path and query string (e.g. `location.pathname`, `location.search`) point to
+ */
+export function parseLocation(pathname: string, search: string): AppLocation {
+  const params = new URLSearchParams(search);
+  let segments: string[];
+  try {
+    segments = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    // A malformed escape such as `%E0` points nowhere
+    return pageLocation({ page: 'not_found' });
+  }
+  if (segments.length === 0) {
+    const legacy = parseLegacyLink(params);
+    if (legacy) return legacy;
+  }
+  return { route: parseRoute(segments, params), overlay: parseOverlay(params) };
+}
+
+function routePath(route: Route, params: URLSearchParams): string {
+  switch (route.page) {
+    case 'dashboard':
+    case 'not_found':
+      return '/';
+    case 'agent':
+      if (route.range !== DEFAULT_AGENT_HEALTH_RANGE) params.set('range', route.range);
+      return `/agents/${encodeURIComponent(route.agent)}`;
+    case 'scenarios':
+      return route.scenarioId ? `/scenarios/${encodeURIComponent(route.scenarioId)}` : '/scenarios';
+    case 'evaluations':
+      if (route.filters.studentId) params.set('student', route.filters.studentId);
+      if (route.filters.caseType) params.set('case_type', route.filters.caseType);
+      if (route.filters.range !== DEFAULT_EVALUATION_FILTERS.range) params.set('range', route.filters.range);
+      return route.evaluationId ? `/evaluations/${encodeURIComponent(route.evaluationId)}` : '/evaluations';
+    case 'safety_inbox':
+      if (route.filters.status !== DEFAULT_INBOX_FILTERS.status) params.set('status', route.filters.status);
+      if (route.filters.severities.length > 0) params.set('severity', route.filters.severities.join(','));
+      if (route.filters.sort !== DEFAULT_INBOX_FILTERS.sort) params.set('sort', route.filters.sort);
+      return route.notificationId ? `/safety-inbox/${encodeURIComponent(route.notificationId)}` : '/safety-inbox';
+    case 'reports': {
+      const base = `/reports/${REPORT_SLUGS[route.collection]}`;
+      return route.reportId ? `${base}/${encodeURIComponent(route.reportId)}` : base;
+    }
+    case 'analytics':
+      if (route.timeframe !== DEFAULT_ANALYTICS_TIMEFRAME) params.set('timeframe', route.timeframe);
+      return '/analytics';
+  }
+}
+
+function addOverlayParams(overlay: Overlay, params: URLSearchParams) {
+  params.set('modal', overlay.type);
+  switch (overlay.type) {
+    case 'logs':
+    case 'run':
+      params.set('agent', overlay.agent);
+      break;
+    case 'runs':
+      if (overlay.filters.agent) params.set('agent', overlay.filters.agent);
+      if (overlay.filters.range !== DEFAULT_RUN_HISTORY_FILTERS.range) params.set('runs_range', overlay.filters.range);
+      if (overlay.filters.outcome) params.set('runs_outcome', overlay.filters.outcome);
+      if (overlay.filters.trigger) params.set('runs_trigger', overlay.filters.trigger);
+      break;
+  }
+}
+
+/**
+ * The URL of a location, path and query string; defaults are left out
+ */
+export function locationUrl(location: AppLocation): string {
+  const params = new URLSearchParams();
+  const path = routePath(location.route, params);
+  if (location.overlay) addOverlayParams(location.overlay, params);
+  const query = params.toString();
+  return query ? `${path}?${query}` : path;
+}
+
+/**
+ * URL of a page with nothing open over it
+ */
+export function routeUrl(route: Route): string {
+  return locationUrl(pageLocation(route));
+}
@@ -0,0 +1,46 @@
+import type { RunProgressEvent } from '../services/apiSchemas';
+
+// Keep memory bounded for chatty runs; the logs modal only needs recent steps
+const MAX_EVENTS = 200;
+
+export interface RunProgressState {
+  runId: string;
+  status: 'running' | 'completed' | 'failed';
+  percent: number | null;
+  step: string | null;
+  error: string | null;
+  events: RunProgressEvent[];
+  startedAt: Date;
+}
+
+export function createRunProgress(runId: string): RunProgressState {
+  return {
+    runId,
+    status: 'running',
+    percent: null,
+    step: null,
+    error: null,
+    events: [],
+    startedAt: new Date(),
+  };
+}
+
+/**
+ * Fold one stream event into the run's progress. Fields an event leaves out keep
+ * their previous value, so a message-only event doesn't reset the percentage.
+ */
+export function applyRunProgressEvent(state: RunProgressState, event: RunProgressEvent): RunProgressState {
+  const status = event.status === 'completed' || event.status === 'failed' ? event.status : state.status;
+  const percent = typeof event.percent === 'number'
+    ? Math.max(0, Math.min(100, event.percent))
+    : status === 'completed' ? 100 : state.percent;
+
+  return {
+    ...state,
+    status,
+    percent,
+    step: event.step ?? state.step,
+    error: event.error ?? state.error,
+    events: [...state.events, event].slice(-MAX_EVENTS),
+  };
+}
@@ -0,0 +1,10 @@
+/**
+ * "14:05" for today, "Oct 3, 14:05" for earlier days, "unknown time" when the
+ * data was never synced in this browser
+ */
+export function formatSyncTime(date: Date | null, now: Date = new Date()): string {
+  if (!date) return 'unknown time';
+  const time = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  if (date.toDateString() === now.toDateString()) return time;
+  return `${date.toLocaleDateString([], { month: 'short', day: 'numeric' })}, ${time}`;
+}